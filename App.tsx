@@ -1,207 +1,1159 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { Camera, Upload, RefreshCw, Zap, AlertTriangle, Eye, Volume2, VolumeX, Play, Pause, Scan } from 'lucide-react';
-import { analyzeRoadScene } from './services/geminiService';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import { Camera, Upload, RefreshCw, Zap, AlertTriangle, Eye, Volume2, VolumeX, Play, Pause, Scan, Cpu, FileWarning, Bell, Languages, Signpost, Radio, PenLine, FlaskConical, SlidersHorizontal, Video, Circle, Clapperboard, Aperture, FolderOpen } from 'lucide-react';
+import { listProviders, getProvider, DEFAULT_PROVIDER_ID } from './services/providerRegistry';
+import { ModelOutputError } from './services/responseValidator';
+import { updateTrackedScene } from './services/sceneTracker';
+import { createAlertEngine, loadAlertRules, saveAlertRules, localizeAlertRules, AlertRule, AlertFlash } from './services/alertEngine';
+import { createSpeechQueue } from './services/speechQueue';
+import { LiveDraft, LiveExchange, LiveSession, LiveStatus } from './services/liveSession';
+import { startMicrophone } from './services/microphone';
+import { playEarcon, unlockAudio } from './services/earcons';
+import { SIGN_CATALOGS, SIGN_REGIONS, loadSignRegion, saveSignRegion } from './services/signCatalog';
+import { updateRegulatoryState, isOverLimit } from './services/regulatoryContext';
+import { LANGUAGES, getLanguage, loadLanguage, saveLanguage, createTranslator, LanguageCode } from './services/i18n';
+import { analyzeVideo } from './services/videoBatch';
+import { analyzeImages, collectDroppedFiles, createImageBatch, encodeImage, isImageFile, pickedFromInput, PickedFile } from './services/imageBatch';
+import { DriveRecorder, startDriveRecorder, isRecordingSupported } from './services/driveRecorder';
+import { saveRecording } from './services/recordingStore';
+import { createTelemetry, dataUrlBytes, TelemetryErrorKind, TelemetrySnapshot } from './services/telemetry';
+import { frameIndexAt, replayStateAt, rerunRecording, prepareRecordedVideo } from './services/driveReplay';
+import { CameraDevice, CameraFeed, openCamera, openDefaultCamera, stopFeed, analyzeCameras, resultForCamera } from './services/cameraRig';
+import { ANALYSIS_PROFILES, getProfile, loadProfileId, saveProfileId } from './services/analysisProfiles';
+import { isAbortError } from './services/concurrency';
+import { createScanScheduler, isRateLimitError, ScanOutcome, SchedulerStats } from './services/scanScheduler';
+import { computeFrameSignature, frameDifference, DEFAULT_CHANGE_THRESHOLD } from './services/frameDiff';
+import { watchGeolocation } from './services/geolocation';
+import { parseTrackFile, positionAtTime, TrackPoint } from './services/gpsTrack';
+import { exportSessionJson, exportSessionCsv, exportSessionGeoJson, importSessionJson, downloadFile, SessionExportFormat } from './services/sessionExport';
+import { loadHistory, saveHistoryItem, clearHistory } from './services/historyStore';
+import { createThumbnail, previewDataUrl } from './services/imageUtils';
+import { loadPreprocessSettings, savePreprocessSettings, drawRegion, enhanceFrame, PreprocessSettings as PreprocessConfig } from './services/preprocessing';
+import { saveLabeledFrame } from './services/datasetStore';
 import AnalysisPanel from './components/AnalysisPanel';
-import { AnalysisResult } from './types';
+import HistoryTimeline from './components/HistoryTimeline';
+import DetectionOverlay from './components/DetectionOverlay';
+import VideoBatchPanel from './components/VideoBatchPanel';
+import ImageBatchPanel from './components/ImageBatchPanel';
+import HazardMap from './components/HazardMap';
+import RoadSurveyPanel from './components/RoadSurveyPanel';
+import TrackSyncBar from './components/TrackSyncBar';
+import SchedulerHud from './components/SchedulerHud';
+import ChangeDetectionHud from './components/ChangeDetectionHud';
+import AlertSettings from './components/AlertSettings';
+import RegulatoryHud from './components/RegulatoryHud';
+import LivePanel from './components/LivePanel';
+import AnnotationEditor from './components/AnnotationEditor';
+import EvaluationPanel from './components/EvaluationPanel';
+import CameraPane from './components/CameraPane';
+import CameraSetup from './components/CameraSetup';
+import ReplayPanel from './components/ReplayPanel';
+import RecordingLibrary from './components/RecordingLibrary';
+import DiagnosticsHud from './components/DiagnosticsHud';
+import PreprocessHud from './components/PreprocessHud';
+import PreprocessSettings from './components/PreprocessSettings';
+import { AnalysisResult, AnalysisHistoryItem, TrackedScene, VideoBatchEntry, GeoTag, SignRegion, RegulatoryState, GroundTruth, DriveRecording, PreprocessingRecord, ImageBatchItem } from './types';
+
+// Live mode sends small frames often; the model only needs enough detail to spot hazards
+const LIVE_FRAME_WIDTH = 640;
+const LIVE_FRAME_INTERVAL_MS = 1000;
+
+// 'invalid-output' means the backend answered but the answer broke the contract
+interface AppError {
+  kind: 'system' | 'invalid-output';
+  message: string;
+}
 
 const App: React.FC = () => {
   // Modes
-  const [mode, setMode] = useState<'initial' | 'camera' | 'upload'>('initial');
+  const [mode, setMode] = useState<'initial' | 'camera' | 'upload' | 'replay'>('initial');
   const [fileType, setFileType] = useState<'image' | 'video' | null>(null);
 
   // Data
   const [mediaSource, setMediaSource] = useState<string | null>(null); // For uploaded files (URL)
-  const [cameraStream, setCameraStream] = useState<MediaStream | null>(null); // For live camera
+  const [cameraFeeds, setCameraFeeds] = useState<CameraFeed[]>([]); // Open cameras; more than one shows the grid
+  const [showCameraSetup, setShowCameraSetup] = useState(false);
   const [result, setResult] = useState<AnalysisResult | null>(null);
+  const [tracked, setTracked] = useState<TrackedScene | null>(null); // Hazards/signs followed across scans
+  const [history, setHistory] = useState<AnalysisHistoryItem[]>([]);
+  const [selectedHistoryId, setSelectedHistoryId] = useState<string | null>(null);
+  const [importedSession, setImportedSession] = useState<AnalysisHistoryItem[] | null>(null); // Loaded session file, shown instead of local history
+  const [exportThumbnails, setExportThumbnails] = useState(true);
+  const [sessionStartedAt] = useState(() => Date.now()); // Scans saved before this belong to earlier drives
+
+  // Video batch analysis
+  const [videoDuration, setVideoDuration] = useState(0);
+  const [batchEntries, setBatchEntries] = useState<VideoBatchEntry[]>([]);
+  const [batchProgress, setBatchProgress] = useState<{ done: number; total: number } | null>(null);
+  const [batchInterval, setBatchInterval] = useState(2);
+  const [batchConcurrency, setBatchConcurrency] = useState(2);
+  const [selectedBatchTime, setSelectedBatchTime] = useState<number | null>(null);
+
+  // Image set batch analysis (several photos or a folder uploaded at once)
+  const [imageBatch, setImageBatch] = useState<ImageBatchItem[]>([]);
+  const [imageBatchProgress, setImageBatchProgress] = useState<{ done: number; total: number } | null>(null);
+  const [imageBatchConcurrency, setImageBatchConcurrency] = useState(3);
+  const [selectedImageId, setSelectedImageId] = useState<string | null>(null);
+  const [dragActive, setDragActive] = useState(false);
+
+  // Geotagging
+  const [currentGeo, setCurrentGeo] = useState<GeoTag | null>(null); // Latest device fix (camera mode)
+  const [gpsTrack, setGpsTrack] = useState<{ name: string; points: TrackPoint[] } | null>(null); // GPX/NMEA log for an uploaded video
+  const [trackOffset, setTrackOffset] = useState(0);
+  const [sidePanel, setSidePanel] = useState<'analysis' | 'map' | 'survey'>('analysis');
 
   // States
   const [analyzing, setAnalyzing] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<AppError | null>(null);
   const [isVoiceEnabled, setIsVoiceEnabled] = useState(false);
   const [isAutoScan, setIsAutoScan] = useState(false);
+  const [providerId, setProviderId] = useState(DEFAULT_PROVIDER_ID);
+  const [schedulerStats, setSchedulerStats] = useState<SchedulerStats | null>(null);
+  const [diagnostics, setDiagnostics] = useState<TelemetrySnapshot | null>(null); // Rolling timing and usage percentiles
+
+  // Live streaming (persistent session instead of one request per frame)
+  const [isLive, setIsLive] = useState(false);
+  const [liveStatus, setLiveStatus] = useState<LiveStatus>('connecting');
+  const [liveDraft, setLiveDraft] = useState<LiveDraft | null>(null);
+  const [liveExchanges, setLiveExchanges] = useState<LiveExchange[]>([]);
+  const [micActive, setMicActive] = useState(false);
+
+  // Change detection (auto-scan skips frames that match the last analyzed one)
+  const [changeThreshold, setChangeThreshold] = useState(DEFAULT_CHANGE_THRESHOLD);
+  const [frameGate, setFrameGate] = useState({ sent: 0, skipped: 0 });
+  const [lastFrameDiff, setLastFrameDiff] = useState<number | null>(null);
+
+  // Language (UI strings, model free text and TTS voice)
+  const [languageCode, setLanguageCode] = useState<LanguageCode>(loadLanguage);
+  const language = getLanguage(languageCode);
+  const t = useMemo(() => createTranslator(languageCode), [languageCode]);
+  const [signRegion, setSignRegion] = useState<SignRegion>(loadSignRegion);
+  const [profileId, setProfileId] = useState<string>(loadProfileId); // Model, prompt and capture settings
+  const profile = getProfile(profileId);
+  const [regulatory, setRegulatory] = useState<RegulatoryState | null>(null); // Limits in force, carried across scans
+
+  // Alerts
+  const [alertRules, setAlertRules] = useState<AlertRule[]>(loadAlertRules);
+  const localizedAlertRules = useMemo(() => localizeAlertRules(alertRules, t), [alertRules, t]); // Built-in messages in the UI language
+  const [showAlertSettings, setShowAlertSettings] = useState(false);
+  const [alertFlash, setAlertFlash] = useState<{ color: AlertFlash; key: number } | null>(null);
+
+  // Frame preprocessing
+  const [preprocessSettings, setPreprocessSettings] = useState<PreprocessConfig>(loadPreprocessSettings);
+  const [showPreprocessSettings, setShowPreprocessSettings] = useState(false);
+  const [preprocessPreview, setPreprocessPreview] = useState<{ before: string; after: string; record: PreprocessingRecord } | null>(null);
+
+  // Drive recording and replay
+  const [isRecording, setIsRecording] = useState(false);
+  const [showRecordings, setShowRecordings] = useState(false);
+  const [replay, setReplay] = useState<{ recording: DriveRecording; index: number } | null>(null);
+  const [replayTime, setReplayTime] = useState(0);
+  const [replayPlaying, setReplayPlaying] = useState(false);
+  const [replayRerun, setReplayRerun] = useState<(AnalysisResult | null)[] | null>(null);
+  const [rerunProgress, setRerunProgress] = useState<{ done: number; total: number } | null>(null);
+
+  // Ground-truth labeling
+  const [annotationTarget, setAnnotationTarget] = useState<{ frame: string; result: AnalysisResult } | null>(null);
+  const [showEvaluation, setShowEvaluation] = useState(false);
 
   // Refs
   const videoRef = useRef<HTMLVideoElement>(null);
   const imageRef = useRef<HTMLImageElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const autoScanInterval = useRef<number | null>(null);
+  const scanInFlight = useRef(false);
+  const lastAnalyzedSignatures = useRef(new Map<string, Float32Array | null>()); // Per camera label ('' for a single source)
+  const cameraVideos = useRef(new Map<string, HTMLVideoElement>()); // Grid panes by device id
+  const manualScanAbort = useRef<AbortController | null>(null);
+  const captureAndAnalyzeRef = useRef<(signal?: AbortSignal) => Promise<ScanOutcome>>(async () => 'skipped');
+  const alertEngine = useRef(createAlertEngine());
+  const speechQueue = useRef(createSpeechQueue());
+  const telemetry = useRef(createTelemetry());
+  const lastOverspeedWarning = useRef(0);
+  const lastAnalyzedFrame = useRef<string | null>(null); // Full frame behind `result`, for annotation
+  const liveSession = useRef<LiveSession | null>(null);
+  const liveGeneration = useRef(0); // Bumped on stop so callbacks of an old session are ignored
+  const lastLiveFrame = useRef<{ dataUrl: string; videoTime: number } | null>(null);
+  const stopMicrophone = useRef<(() => void) | null>(null);
+  const lastQuestionSpoken = useRef(false);
+  const liveAnalysisRef = useRef<(analysis: AnalysisResult) => void>(() => undefined);
+  const liveAnswerRef = useRef<(answer: string) => void>(() => undefined);
+  const driveRecorder = useRef<DriveRecorder | null>(null);
+  const replayReady = useRef(false); // False while a recorded video is being made seekable
+  const rerunAbort = useRef<AbortController | null>(null);
+  const batchAbort = useRef<AbortController | null>(null);
+  const imageBatchAbort = useRef<AbortController | null>(null);
+  const latestGeo = useRef<GeoTag | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  // --- Language ---
+  const changeLanguage = (code: LanguageCode) => {
+    setLanguageCode(code);
+    saveLanguage(code);
+    speechQueue.current.clear(); // Don't finish a sentence in the old language
+  };
 
-  // --- Voice / TTS Logic ---
-  const speak = useCallback((text: string, priority: boolean = false) => {
-    if (!isVoiceEnabled || !window.speechSynthesis) return;
+  useEffect(() => {
+    document.documentElement.lang = language.code;
+    document.documentElement.dir = language.dir;
+  }, [language]);
 
-    // Cancel current speech if priority (e.g. Danger)
-    if (priority) window.speechSynthesis.cancel();
+  // --- Alerts (voice, earcons, flash) ---
+  const updateAlertRules = (rules: AlertRule[]) => {
+    setAlertRules(rules);
+    saveAlertRules(rules);
+  };
 
-    const utterance = new SpeechSynthesisUtterance(text);
-    utterance.rate = 1.1; // Slightly faster for alerts
-    utterance.pitch = 1.0;
-    window.speechSynthesis.speak(utterance);
-  }, [isVoiceEnabled]);
+  const updatePreprocessSettings = (settings: PreprocessConfig) => {
+    setPreprocessSettings(settings);
+    savePreprocessSettings(settings);
+  };
 
-  // React to new results with Voice
+  // React to new results with the alert rules
   useEffect(() => {
-    if (result && isVoiceEnabled) {
-      if (result.safetyLevel === 'DANGER') {
-        speak(`Warning. ${result.recommendation}`, true);
-      } else if (result.safetyLevel === 'CAUTION') {
-        speak(`Caution. ${result.recommendation}`);
-      } else {
-        // Only speak safe messages if it's not spamming in auto-scan
-        if (!isAutoScan) speak(result.recommendation);
-      }
-    }
-  }, [result, isVoiceEnabled, speak, isAutoScan]);
+    if (!result) return;
+
+    // In auto-scan, live and replay mode, only objects that just appeared can trigger object rules
+    const fresh = (isAutoScan || isLive || mode === 'replay') && tracked;
+    const alerts = alertEngine.current.evaluate({
+      safetyLevel: result.safetyLevel,
+      recommendation: result.recommendation,
+      hazards: fresh ? tracked.hazards.filter(h => h.status === 'NEW') : result.hazards,
+      signs: fresh ? tracked.signs.filter(s => s.status === 'NEW') : result.signs
+    }, localizedAlertRules);
+    if (alerts.length === 0) return;
+
+    const flash = alerts.find(a => a.flash)?.flash;
+    if (flash) setAlertFlash({ color: flash, key: Date.now() });
+
+    if (!isVoiceEnabled) return;
+    // Earcons play even when no TTS voice is available
+    const earcon = alerts.find(a => a.earcon)?.earcon;
+    if (earcon) playEarcon(earcon);
+    alerts
+      .filter(a => a.speak)
+      .forEach(a => speechQueue.current.enqueue({ text: a.message, priority: a.priority, interrupt: a.interrupt, lang: language.speechLang }));
+  }, [result]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Warn when device speed exceeds the tracked limit, at most every 30s while it lasts
+  useEffect(() => {
+    if (!isOverLimit(regulatory, currentGeo?.speed)) return;
+    const now = Date.now();
+    if (now - lastOverspeedWarning.current < 30000) return;
+    lastOverspeedWarning.current = now;
+
+    setAlertFlash({ color: 'red', key: now });
+    if (!isVoiceEnabled) return;
+    playEarcon('alarm');
+    const limit = regulatory!.speedLimit!;
+    speechQueue.current.enqueue({
+      text: t('reg.overspeedSpeech', { limit: `${limit.value} ${limit.unit}` }),
+      priority: 'high',
+      lang: language.speechLang
+    });
+  }, [currentGeo, regulatory]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Flash fades on its own
+  useEffect(() => {
+    if (!alertFlash) return;
+    const timer = setTimeout(() => setAlertFlash(null), 1200);
+    return () => clearTimeout(timer);
+  }, [alertFlash]);
 
   // --- Camera Logic ---
   const startCamera = async () => {
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({
-        video: { facingMode: 'environment' }
-      });
+      const feed = await openDefaultCamera();
 
-      setCameraStream(stream);
+      setCameraFeeds([feed]);
       setMode('camera');
       setFileType('video'); // Camera is treated as a video stream
       setError(null);
       setResult(null);
+      setTracked(null);
+      setRegulatory(null);
+      resetFrameGate();
     } catch (err) {
       console.error("Error accessing camera:", err);
-      setError("Could not access camera. Check permissions or try a different browser.");
+      setError({ kind: 'system', message: t('err.camera') });
     }
   };
 
   const stopCamera = useCallback(() => {
-    if (cameraStream) {
-      cameraStream.getTracks().forEach(track => track.stop());
-      setCameraStream(null);
-    }
+    cameraFeeds.forEach(stopFeed);
+    setCameraFeeds([]);
     if (videoRef.current) {
       videoRef.current.srcObject = null;
     }
-  }, [cameraStream]);
+  }, [cameraFeeds]);
+
+  // Adds or removes a camera of the rig. Live sessions stream a single camera, so they end here.
+  const toggleCamera = async (device: CameraDevice) => {
+    const open = cameraFeeds.find(feed => feed.deviceId === device.deviceId);
+    if (open) {
+      if (open === cameraFeeds[0]) await stopRecording(); // Its stream is the one being recorded
+      stopFeed(open);
+      setCameraFeeds(prev => prev.filter(feed => feed !== open));
+    } else {
+      const feed = await openCamera(device);
+      if (isLive) stopLive();
+      setCameraFeeds(prev => [...prev, feed]);
+    }
+    // Earlier results and signatures belong to a different set of views
+    setResult(null);
+    setTracked(null);
+    resetFrameGate();
+  };
 
-  // Attach stream to video element when ready
+  // Attach stream to video element when ready (grid panes attach their own)
   useEffect(() => {
-    if (mode === 'camera' && cameraStream && videoRef.current) {
-      videoRef.current.srcObject = cameraStream;
+    if (mode === 'camera' && cameraFeeds.length === 1 && videoRef.current) {
+      videoRef.current.srcObject = cameraFeeds[0].stream;
       videoRef.current.play().catch(e => console.error("Video play error:", e));
     }
-  }, [mode, cameraStream]);
+  }, [mode, cameraFeeds]);
+
+  const registerCameraVideo = useCallback((deviceId: string, video: HTMLVideoElement | null) => {
+    if (video) cameraVideos.current.set(deviceId, video);
+    else cameraVideos.current.delete(deviceId);
+  }, []);
+
+  // --- Geolocation Logic ---
+  // Device position is only meaningful while the live camera is running
+  useEffect(() => {
+    if (mode !== 'camera') return;
+    const stop = watchGeolocation(
+      geo => {
+        latestGeo.current = geo;
+        setCurrentGeo(geo);
+      },
+      message => console.warn("Geolocation unavailable:", message)
+    );
+    return () => {
+      stop();
+      latestGeo.current = null;
+      setCurrentGeo(null);
+    };
+  }, [mode]);
+
+  // Position for a frame: the live fix for the camera, the synced track for uploaded video
+  const geoForFrame = (videoTime: number | null): GeoTag | undefined => {
+    if (mode === 'camera') return latestGeo.current ?? undefined;
+    if (gpsTrack && videoTime !== null) return positionAtTime(gpsTrack.points, videoTime + trackOffset);
+    return undefined;
+  };
+
+  const handleTrackLoad = async (file: File) => {
+    try {
+      const points = parseTrackFile(await file.text(), file.name);
+      setGpsTrack({ name: file.name, points });
+      setError(null);
+    } catch (err) {
+      console.error("Error loading GPS track:", err);
+      setError({ kind: 'system', message: err instanceof Error ? err.message : t('err.gpsTrack') });
+    }
+  };
 
   // Cleanup on unmount
   useEffect(() => {
     return () => {
-      if (cameraStream) {
-        cameraStream.getTracks().forEach(track => track.stop());
-      }
-      if (autoScanInterval.current) {
-        clearInterval(autoScanInterval.current);
-      }
+      cameraFeeds.forEach(stopFeed);
+      manualScanAbort.current?.abort();
     };
   }, []); // eslint-disable-line react-hooks/exhaustive-deps
 
-  // --- File Upload Logic ---
-  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      const url = URL.createObjectURL(file);
-      setMediaSource(url);
-      setMode('upload');
-      setResult(null);
+  // --- History Logic ---
+  useEffect(() => {
+    loadHistory()
+      .then(setHistory)
+      .catch(err => console.error("Error loading scan history:", err));
+  }, []);
+
+  const recordHistory = async (analysis: AnalysisResult, frameDataUrl: string) => {
+    let thumbnail: string | undefined;
+    try {
+      thumbnail = await createThumbnail(frameDataUrl);
+    } catch (err) {
+      console.error("Error creating thumbnail:", err);
+    }
+
+    const item: AnalysisHistoryItem = {
+      ...analysis,
+      id: crypto.randomUUID(),
+      savedAt: Date.now(),
+      thumbnail
+    };
+    setHistory(prev => [item, ...prev]);
+
+    try {
+      await saveHistoryItem(item);
+    } catch (err) {
+      console.error("Error saving scan history:", err);
+    }
+  };
+
+  const handleClearHistory = async () => {
+    setHistory([]);
+    setSelectedHistoryId(null);
+    try {
+      await clearHistory();
+    } catch (err) {
+      console.error("Error clearing scan history:", err);
+    }
+  };
+
+  // --- Session Export / Import ---
+  const timelineItems = importedSession ?? history;
+
+  const handleExport = (format: SessionExportFormat) => {
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    // Oldest first reads more naturally in a file than the timeline's newest-first order
+    const items = [...timelineItems].reverse();
+
+    if (format === 'json') {
+      downloadFile(`nexvue-session-${stamp}.json`, exportSessionJson(items, { includeThumbnails: exportThumbnails }), 'application/json');
+    } else if (format === 'csv') {
+      downloadFile(`nexvue-session-${stamp}.csv`, exportSessionCsv(items), 'text/csv');
+    } else {
+      const geojson = exportSessionGeoJson(items);
+      if (geojson) downloadFile(`nexvue-session-${stamp}.geojson`, geojson, 'application/geo+json');
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const items = importSessionJson(await file.text());
+      setImportedSession([...items].sort((a, b) => b.savedAt - a.savedAt));
+      setSelectedHistoryId(items.length > 0 ? items[items.length - 1].id : null);
       setError(null);
+    } catch (err) {
+      console.error("Error importing session:", err);
+      setError({ kind: 'system', message: err instanceof Error ? err.message : t('err.sessionImport') });
+    }
+  };
+
+  const closeImportedSession = () => {
+    setImportedSession(null);
+    setSelectedHistoryId(null);
+  };
+
+  const resetFrameGate = () => {
+    lastAnalyzedSignatures.current.clear();
+    setFrameGate({ sent: 0, skipped: 0 });
+    setLastFrameDiff(null);
+  };
+
+  // --- Video Batch Logic ---
+  const startBatch = async () => {
+    if (!mediaSource || batchProgress) return;
+
+    const controller = new AbortController();
+    batchAbort.current = controller;
+    setIsAutoScan(false);
+    setBatchEntries([]);
+    setSelectedBatchTime(null);
+    setError(null);
+
+    try {
+      await analyzeVideo(mediaSource, getProvider(providerId), {
+        intervalSec: batchInterval,
+        concurrency: batchConcurrency,
+        jpegQuality: profile.capture.jpegQuality,
+        maxWidth: profile.capture.maxWidth,
+        preprocess: preprocessSettings,
+        language: languageCode,
+        signRegion,
+        profileId,
+        signal: controller.signal,
+        onProgress: (done, total) => setBatchProgress({ done, total }),
+        onEntry: entry => {
+          recordTelemetry(entry.result
+            ? { engine: entry.result.engine, ...entry.result.metrics }
+            : { engine: providerId, error: { kind: 'failed', message: entry.error ?? t('app.analysisFailed') } });
+          const geo = entry.result ? geoForFrame(entry.time) : undefined;
+          const tagged = geo && entry.result ? { ...entry, result: { ...entry.result, geo } } : entry;
+          setBatchEntries(prev => [...prev, tagged].sort((a, b) => a.time - b.time));
+        }
+      });
+    } catch (err) {
+      // Cancelled runs keep the frames that finished
+      if (!isAbortError(err)) {
+        console.error("Batch analysis failed:", err);
+        setError({ kind: 'system', message: t('err.videoBatch') });
+      }
+    } finally {
+      if (batchAbort.current === controller) batchAbort.current = null;
+      setBatchProgress(null);
+    }
+  };
+
+  const cancelBatch = () => {
+    batchAbort.current?.abort();
+  };
+
+  const clearBatch = () => {
+    batchAbort.current?.abort();
+    setBatchEntries([]);
+    setSelectedBatchTime(null);
+    setVideoDuration(0);
+  };
+
+  const selectBatchEntry = (entry: VideoBatchEntry) => {
+    setSelectedHistoryId(null);
+    setSelectedBatchTime(entry.time);
+    if (videoRef.current) {
+      videoRef.current.pause();
+      videoRef.current.currentTime = entry.time;
+    }
+  };
+
+  // A selected history entry or batch frame takes over the panel until the next scan lands
+  const selectedHistoryItem = timelineItems.find(item => item.id === selectedHistoryId) ?? null;
+  const selectedBatchEntry = batchEntries.find(entry => entry.time === selectedBatchTime) ?? null;
+  const selectedImage = imageBatch.find(item => item.id === selectedImageId) ?? null;
+  const displayedResult = selectedHistoryItem ?? selectedBatchEntry?.result ?? selectedImage?.result ?? result;
+  const isCameraGrid = mode === 'camera' && cameraFeeds.length > 1;
+
+  // Everything the map can plot; batch frames and image set photos get synthetic ids
+  const mapAnalyses = useMemo(() => [
+    ...timelineItems.map(item => ({ id: item.id, result: item as AnalysisResult })),
+    ...batchEntries.flatMap(entry => (entry.result ? [{ id: `batch-${entry.time}`, result: entry.result }] : [])),
+    ...imageBatch.flatMap(item => (item.result ? [{ id: `image-${item.id}`, result: item.result }] : []))
+  ], [timelineItems, batchEntries, imageBatch]);
+
+  // The survey covers one drive in order: the video batch by video time, the photo set,
+  // or else the imported session or this session's scans by capture time
+  const surveyAnalyses = useMemo(() => {
+    if (batchEntries.length > 0) {
+      return [...batchEntries]
+        .sort((a, b) => a.time - b.time)
+        .flatMap(entry => (entry.result ? [{ id: `batch-${entry.time}`, result: entry.result }] : []));
+    }
+    if (imageBatch.length > 0) {
+      return imageBatch.flatMap(item => (item.result ? [{ id: `image-${item.id}`, result: item.result }] : []));
+    }
+    return (importedSession ?? history.filter(item => item.savedAt >= sessionStartedAt))
+      .map(item => ({ id: item.id, result: item as AnalysisResult }))
+      .sort((a, b) => a.result.capturedAt.localeCompare(b.result.capturedAt));
+  }, [batchEntries, imageBatch, importedSession, history, sessionStartedAt]);
 
-      if (file.type.startsWith('video/')) {
-        setFileType('video');
-      } else {
-        setFileType('image');
+  const handleMapSelect = (analysisId: string) => {
+    const batchEntry = batchEntries.find(entry => `batch-${entry.time}` === analysisId);
+    const image = imageBatch.find(item => `image-${item.id}` === analysisId);
+    if (batchEntry) {
+      selectBatchEntry(batchEntry);
+    } else if (image) {
+      selectImage(image);
+    } else {
+      setSelectedBatchTime(null);
+      setSelectedHistoryId(analysisId);
+    }
+    setSidePanel('analysis');
+  };
+
+  // --- Image Set Logic ---
+  const openImageSet = (picked: PickedFile[]) => {
+    const items = createImageBatch(picked);
+    if (items.length === 0) {
+      setError({ kind: 'system', message: t('err.noImages') });
+      return;
+    }
+    clearImageBatch();
+    clearBatch();
+    resetFrameGate();
+    setGpsTrack(null);
+    setTrackOffset(0);
+    setRegulatory(null);
+    setImageBatch(items);
+    setSelectedImageId(items[0].id);
+    setMediaSource(items[0].url);
+    setMode('upload');
+    setFileType('image');
+    setResult(null);
+    setTracked(null);
+    setError(null);
+  };
+
+  const startImageBatch = async () => {
+    const pending = imageBatch.filter(item => !item.result);
+    if (pending.length === 0 || imageBatchProgress) return;
+
+    const controller = new AbortController();
+    imageBatchAbort.current = controller;
+    setError(null);
+    let done = 0;
+    setImageBatchProgress({ done, total: pending.length });
+
+    try {
+      await analyzeImages(pending, getProvider(providerId), {
+        concurrency: imageBatchConcurrency,
+        jpegQuality: profile.capture.jpegQuality,
+        maxWidth: profile.capture.maxWidth,
+        preprocess: preprocessSettings,
+        language: languageCode,
+        signRegion,
+        profileId,
+        signal: controller.signal,
+        onUpdate: (id, patch) => {
+          setImageBatch(prev => prev.map(item => (item.id === id ? { ...item, ...patch } : item)));
+          if (patch.status === 'done' || patch.status === 'failed') {
+            setImageBatchProgress({ done: ++done, total: pending.length });
+            recordTelemetry(patch.result
+              ? { engine: patch.result.engine, ...patch.result.metrics }
+              : { engine: providerId, error: { kind: 'failed', message: patch.error ?? t('app.analysisFailed') } });
+          }
+        }
+      });
+    } catch (err) {
+      // Cancelled runs keep the images that finished
+      if (!isAbortError(err)) {
+        console.error("Image set analysis failed:", err);
+        setError({ kind: 'system', message: t('err.imageBatch') });
       }
+    } finally {
+      if (imageBatchAbort.current === controller) imageBatchAbort.current = null;
+      setImageBatchProgress(null);
     }
   };
 
+  const clearImageBatch = () => {
+    imageBatchAbort.current?.abort();
+    imageBatch.forEach(item => URL.revokeObjectURL(item.url));
+    setImageBatch([]);
+    setSelectedImageId(null);
+  };
+
+  // Opens a photo of the set in the main viewer; its result (if any) fills the panel
+  const selectImage = (item: ImageBatchItem) => {
+    setSelectedHistoryId(null);
+    setSelectedBatchTime(null);
+    setSelectedImageId(item.id);
+    setMediaSource(item.url);
+    setResult(null);
+    setTracked(null);
+    lastAnalyzedFrame.current = null;
+    setError(null);
+  };
+
+  // --- File Upload Logic ---
+  const openMediaFile = (file: File) => {
+    const url = URL.createObjectURL(file);
+    clearImageBatch();
+    clearBatch();
+    resetFrameGate();
+    setGpsTrack(null);
+    setTrackOffset(0);
+    setRegulatory(null);
+    setMediaSource(url);
+    setMode('upload');
+    setResult(null);
+    setTracked(null);
+    setError(null);
+    setFileType(file.type.startsWith('video/') ? 'video' : 'image');
+  };
+
+  // Several files or a folder become an image set; a single file opens as before
+  const openPicked = (picked: PickedFile[]) => {
+    const single = picked.length === 1 ? picked[0].file : null;
+    if (single && (isImageFile(single) || single.type.startsWith('video/'))) {
+      openMediaFile(single);
+    } else if (picked.length > 0) {
+      openImageSet(picked);
+    }
+  };
+
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files) openPicked(pickedFromInput(e.target.files));
+    e.target.value = ''; // Picking the same files again still fires onChange
+  };
+
+  // Drops are accepted on the start screen and over uploads, not over a camera or replay
+  const canDrop = mode === 'initial' || mode === 'upload';
+
+  const handleDrop = async (e: React.DragEvent) => {
+    e.preventDefault();
+    setDragActive(false);
+    if (!canDrop) return;
+    try {
+      const picked = await collectDroppedFiles(e.dataTransfer);
+      stopLive();
+      setIsAutoScan(false);
+      openPicked(picked);
+    } catch (err) {
+      console.error("Error reading dropped files:", err);
+      setError({ kind: 'system', message: t('err.drop') });
+    }
+  };
+
+  // --- Telemetry ---
+  const recordTelemetry = (sample: Omit<Parameters<typeof telemetry.current.record>[0], 'at'>) => {
+    setDiagnostics(telemetry.current.record({ at: Date.now(), ...sample }));
+  };
+
+  const telemetryError = (err: unknown): { kind: TelemetryErrorKind; message: string } => ({
+    kind: err instanceof ModelOutputError ? 'invalid-output' : isRateLimitError(err) ? 'rate-limit' : 'failed',
+    message: err instanceof Error ? err.message : String(err)
+  });
+
   // --- Analysis Logic ---
-  const captureAndAnalyze = async () => {
-    if (analyzing) return; // Prevent overlapping requests
+  // Every pane of a multi-camera rig, otherwise the single video element
+  const captureSources = (): { camera?: string; video: HTMLVideoElement }[] => {
+    if (cameraFeeds.length > 1) {
+      return cameraFeeds.flatMap(feed => {
+        const video = cameraVideos.current.get(feed.deviceId);
+        return video ? [{ camera: feed.label, video }] : [];
+      });
+    }
+    return videoRef.current ? [{ video: videoRef.current }] : [];
+  };
 
-    let imageDataUrl: string | null = null;
+  // Failures are surfaced in the UI here and then rethrown so the scheduler can back off
+  const captureAndAnalyze = async (signal?: AbortSignal): Promise<ScanOutcome> => {
+    if (scanInFlight.current) return 'skipped'; // Prevent overlapping requests
+
+    const captureStarted = performance.now();
+    let frames: { camera?: string; dataUrl: string; signature: Float32Array | null }[] = [];
+    let videoTime: number | null = null;
+    let preprocessing: PreprocessingRecord | null = null; // First camera's, recorded with the result
 
     // Capture from Video (Camera or File)
-    if (fileType === 'video' && videoRef.current && canvasRef.current) {
-      const video = videoRef.current;
-      const canvas = canvasRef.current;
+    if (fileType === 'video' && canvasRef.current) {
       // Ensure we have dimensions
-      if (video.videoWidth === 0 || video.videoHeight === 0) return;
+      const sources = captureSources().filter(({ video }) => video.videoWidth > 0 && video.videoHeight > 0);
 
-      canvas.width = video.videoWidth;
-      canvas.height = video.videoHeight;
-      const ctx = canvas.getContext('2d');
-      if (ctx) {
-        ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
-        imageDataUrl = canvas.toDataURL('image/jpeg', 0.8); // 0.8 quality for speed
+      const drawn = sources.flatMap(({ camera, video }, index) => {
+        const canvas = index === 0 ? canvasRef.current! : document.createElement('canvas');
+        if (!canvas.getContext('2d')) return [];
+        // Crop and resize only; the pixel steps wait until the change gate lets the frame through
+        const record = drawRegion(video, video.videoWidth, video.videoHeight, canvas, preprocessSettings, profile.capture.maxWidth);
+        return [{ camera, video, canvas, record, signature: computeFrameSignature(canvas) }];
+      });
+      if (drawn.length === 0) return 'skipped';
+
+      // Reuse the previous result when no view has meaningfully changed (auto-scan only;
+      // a manual SCAN always goes to the model). Checked before encoding to save the JPEG cost too.
+      const diffs = drawn.map(({ camera, signature }) => {
+        const previous = lastAnalyzedSignatures.current.get(camera ?? '');
+        return signature && previous ? frameDifference(signature, previous) : null;
+      });
+      const diff = diffs.some(d => d === null) ? null : Math.max(...(diffs as number[]));
+      setLastFrameDiff(diff);
+      if (isAutoScan && result && diff !== null && diff < changeThreshold) {
+        setFrameGate(prev => ({ ...prev, skipped: prev.skipped + 1 }));
+        setTracked(prev => updateTrackedScene(prev, result));
+        return 'skipped';
+      }
+
+      frames = drawn.map(({ camera, canvas, record, signature }) => {
+        record.steps.push(...enhanceFrame(canvas, preprocessSettings));
+        return { camera, signature, dataUrl: canvas.toDataURL('image/jpeg', profile.capture.jpegQuality) };
+      });
+      videoTime = drawn[0].video.currentTime;
+      if (preprocessSettings.enabled) {
+        const { video, canvas, record } = drawn[0];
+        preprocessing = record;
+        setPreprocessPreview({
+          before: previewDataUrl(video, video.videoWidth, video.videoHeight),
+          after: previewDataUrl(canvas, canvas.width, canvas.height),
+          record
+        });
       }
     }
     // Capture from Image
-    else if (fileType === 'image' && mediaSource) {
+    else if (fileType === 'image' && mediaSource && canvasRef.current) {
       try {
-        const response = await fetch(mediaSource);
-        const blob = await response.blob();
-        imageDataUrl = await new Promise((resolve, reject) => {
-          const reader = new FileReader();
-          reader.onloadend = () => resolve(reader.result as string);
-          reader.onerror = reject;
-          reader.readAsDataURL(blob);
-        });
+        const canvas = canvasRef.current;
+        const encoded = await encodeImage(mediaSource, preprocessSettings, profile.capture, canvas);
+        frames = [{ dataUrl: encoded.frame, signature: null }];
+        preprocessing = encoded.preprocessing;
+        if (preprocessing && imageRef.current) {
+          const image = imageRef.current;
+          setPreprocessPreview({
+            before: previewDataUrl(image, image.naturalWidth, image.naturalHeight),
+            after: previewDataUrl(canvas, canvas.width, canvas.height),
+            record: preprocessing
+          });
+        }
       } catch (error) {
-        console.error("Error converting image to base64:", error);
-        return;
+        console.error("Error encoding image:", error);
+        return 'skipped';
       }
     }
 
-    if (imageDataUrl) {
+    if (frames.length > 0) {
+      const imageDataUrl = frames[0].dataUrl; // Thumbnail and annotation use the first camera
+      const captureMetrics = {
+        captureMs: Math.round(performance.now() - captureStarted),
+        frameBytes: frames.reduce((total, frame) => total + dataUrlBytes(frame.dataUrl), 0)
+      };
+      scanInFlight.current = true;
       setAnalyzing(true);
+      setFrameGate(prev => ({ ...prev, sent: prev.sent + 1 }));
       try {
-        const analysis = await analyzeRoadScene(imageDataUrl);
+        // Tag with the position at capture time, not when the response arrives
+        const geo = geoForFrame(videoTime);
+        const provider = getProvider(providerId);
+        const options = { signal, language: languageCode, signRegion, profileId };
+        const rig = frames.filter((frame): frame is typeof frame & { camera: string } => frame.camera !== undefined);
+        const analyzed = await (rig.length > 0 ? analyzeCameras(provider, rig, options) : provider.analyze(imageDataUrl, options));
+        const analysis = { ...analyzed, geo, metrics: { ...analyzed.metrics, ...captureMetrics }, ...(preprocessing ? { preprocessing } : {}) };
+        recordTelemetry({ engine: analysis.engine, ...analysis.metrics });
+        lastAnalyzedSignatures.current = new Map(frames.map(frame => [frame.camera ?? '', frame.signature]));
+        lastAnalyzedFrame.current = imageDataUrl;
         setResult(analysis);
+        setTracked(prev => updateTrackedScene(prev, analysis));
+        setRegulatory(prev => updateRegulatoryState(prev, analysis));
+        setSelectedHistoryId(null);
+        setSelectedBatchTime(null);
+        if (fileType === 'image' && selectedImageId) {
+          setImageBatch(prev => prev.map(item => (item.id === selectedImageId ? { ...item, status: 'done', result: analysis, error: undefined } : item)));
+        }
         setError(null);
+        recordHistory(analysis, imageDataUrl);
+        driveRecorder.current?.addFrame(imageDataUrl, analysis);
+        return 'analyzed';
       } catch (err) {
-        // Don't show full error in auto-scan mode to avoid flicker, just log
+        // Cancelled by reset() or by stopping auto-scan: nothing to report
+        if (isAbortError(err) || signal?.aborted) throw err;
+
         console.error(err);
-        if (!isAutoScan) setError("Analysis failed. Try again.");
+        recordTelemetry({ ...captureMetrics, engine: providerId, error: telemetryError(err) });
+        if (err instanceof ModelOutputError) {
+          // Always surface contract violations, even in auto-scan: they point at the model, not the network
+          setError({ kind: 'invalid-output', message: t('err.invalidOutput', { field: err.field }) });
+        } else if (!isAutoScan) {
+          // Auto-scan failures are shown in the scheduler HUD instead, to avoid flicker
+          setError({ kind: 'system', message: isRateLimitError(err) ? t('err.rateLimit') : t('err.analysis') });
+        }
+        throw err;
       } finally {
+        scanInFlight.current = false;
         setAnalyzing(false);
       }
     }
+    return 'skipped';
+  };
+
+  // The scheduler outlives renders, so it calls through a ref to the latest closure
+  captureAndAnalyzeRef.current = captureAndAnalyze;
+
+  const scanOnce = async () => {
+    const controller = new AbortController();
+    manualScanAbort.current = controller;
+    try {
+      await captureAndAnalyze(controller.signal);
+    } catch {
+      // Already surfaced by captureAndAnalyze
+    } finally {
+      if (manualScanAbort.current === controller) manualScanAbort.current = null;
+    }
   };
 
-  // --- Auto Scan Effect ---
+  // --- Auto Scan Scheduler ---
   useEffect(() => {
-    if (isAutoScan) {
-      const id = window.setInterval(() => {
-        captureAndAnalyze();
-      }, 4000); // Scan every 4 seconds
-      autoScanInterval.current = id;
-    } else {
-      if (autoScanInterval.current) {
-        clearInterval(autoScanInterval.current);
-        autoScanInterval.current = null;
+    if (!isAutoScan) return;
+    const scheduler = createScanScheduler(signal => captureAndAnalyzeRef.current(signal), {
+      onStats: setSchedulerStats
+    });
+    scheduler.start();
+    return () => scheduler.stop();
+  }, [isAutoScan]);
+
+  // --- Live Streaming ---
+  const stopLive = () => {
+    liveGeneration.current++;
+    stopMicrophone.current?.();
+    stopMicrophone.current = null;
+    liveSession.current?.close();
+    liveSession.current = null;
+    lastLiveFrame.current = null;
+    setIsLive(false);
+    setMicActive(false);
+    setLiveDraft(null);
+  };
+
+  // Streaming isn't available or dropped: keep analyzing with the request/response scheduler
+  const fallBackToPolling = (reason: string) => {
+    stopLive();
+    setError({ kind: 'system', message: t('err.liveUnavailable', { reason }) });
+    setIsAutoScan(true);
+  };
+
+  const startLive = async () => {
+    const backend = getProvider(providerId).live;
+    setIsAutoScan(false);
+    if (!backend) {
+      fallBackToPolling(`${getProvider(providerId).label} has no streaming mode`);
+      return;
+    }
+
+    const generation = ++liveGeneration.current;
+    const current = () => generation === liveGeneration.current;
+    setIsLive(true);
+    setLiveStatus('connecting');
+    setLiveDraft(null);
+    setLiveExchanges([]);
+    setError(null);
+
+    try {
+      const session = await backend.connect({
+        onStatus: (status, detail) => {
+          if (!current()) return;
+          setLiveStatus(status);
+          if (status === 'error' || status === 'closed') fallBackToPolling(detail || 'connection closed');
+        },
+        onDraft: draft => current() && setLiveDraft(draft),
+        onAnalysis: analysis => current() && liveAnalysisRef.current(analysis),
+        onAnswer: answer => current() && liveAnswerRef.current(answer),
+        onTranscript: text => {
+          if (!current()) return;
+          // Transcripts can arrive in pieces; they belong to the spoken question still waiting for an answer
+          setLiveExchanges(prev => {
+            const last = prev[prev.length - 1];
+            if (!last?.spoken || last.answer) return prev;
+            return [...prev.slice(0, -1), { ...last, question: (last.question + text).trimStart() }];
+          });
+        },
+        onInvalid: err => {
+          if (!current()) return;
+          console.error(err);
+          setError({ kind: 'invalid-output', message: t('err.liveInvalid', { field: err.field }) });
+        }
+      }, { language: languageCode, signRegion, profileId });
+
+      if (!current()) {
+        session.close(); // Stopped while connecting
+        return;
       }
+      liveSession.current = session;
+    } catch (err) {
+      if (!current()) return;
+      console.error("Live session failed:", err);
+      fallBackToPolling(err instanceof Error ? err.message : 'connection failed');
     }
-    return () => {
-      if (autoScanInterval.current) clearInterval(autoScanInterval.current);
-    };
-  }, [isAutoScan, fileType, mediaSource, mode, cameraStream]); // Dependencies for auto-scan
+  };
+
+  // A finished live report goes through the same path as a scan result
+  liveAnalysisRef.current = analysis => {
+    const frame = lastLiveFrame.current;
+    const tagged = { ...analysis, engine: getProvider(providerId).live?.id, profileId, geo: geoForFrame(frame?.videoTime ?? null) };
+    setLiveDraft(null);
+    lastAnalyzedFrame.current = frame?.dataUrl ?? null;
+    setResult(tagged);
+    setTracked(prev => updateTrackedScene(prev, tagged));
+    setRegulatory(prev => updateRegulatoryState(prev, tagged));
+    setSelectedHistoryId(null);
+    setSelectedBatchTime(null);
+    if (frame) {
+      recordHistory(tagged, frame.dataUrl);
+      driveRecorder.current?.addFrame(frame.dataUrl, tagged);
+    }
+  };
+
+  liveAnswerRef.current = answer => {
+    setLiveExchanges(prev => {
+      const last = prev[prev.length - 1];
+      if (last && !last.answer) return [...prev.slice(0, -1), { ...last, answer }];
+      return [...prev, { id: Date.now(), question: '', spoken: false, answer }];
+    });
+    // A spoken question gets a spoken answer even when alert voice is muted
+    if (isVoiceEnabled || lastQuestionSpoken.current) {
+      speechQueue.current.enqueue({ text: answer, priority: 'high', lang: language.speechLang });
+    }
+  };
+
+  const askLive = (question: string) => {
+    lastQuestionSpoken.current = false;
+    setLiveExchanges(prev => [...prev, { id: Date.now(), question, spoken: false }]);
+    liveSession.current?.ask(question);
+  };
+
+  const toggleMicrophone = async () => {
+    if (stopMicrophone.current) {
+      stopMicrophone.current();
+      stopMicrophone.current = null;
+      setMicActive(false);
+      liveSession.current?.endAudio();
+      return;
+    }
+
+    const generation = liveGeneration.current;
+    try {
+      const stop = await startMicrophone(pcm => liveSession.current?.sendAudio(pcm));
+      if (generation !== liveGeneration.current) {
+        stop();
+        return;
+      }
+      stopMicrophone.current = stop;
+      lastQuestionSpoken.current = true;
+      setMicActive(true);
+      setLiveExchanges(prev => [...prev, { id: Date.now(), question: '', spoken: true }]);
+    } catch (err) {
+      console.error("Error accessing microphone:", err);
+      setError({ kind: 'system', message: t('err.microphone') });
+    }
+  };
+
+  // Stream downscaled frames once the session is open; the backend decides when to report
+  useEffect(() => {
+    if (!isLive || liveStatus !== 'open') return;
+    const timer = setInterval(() => {
+      const video = videoRef.current;
+      const canvas = canvasRef.current;
+      const session = liveSession.current;
+      if (!video || !canvas || !session || video.videoWidth === 0) return;
+
+      const scale = Math.min(1, LIVE_FRAME_WIDTH / video.videoWidth);
+      canvas.width = Math.round(video.videoWidth * scale);
+      canvas.height = Math.round(video.videoHeight * scale);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return;
+      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+      const dataUrl = canvas.toDataURL('image/jpeg', 0.6);
+      lastLiveFrame.current = { dataUrl, videoTime: video.currentTime };
+      session.sendFrame(dataUrl);
+    }, LIVE_FRAME_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isLive, liveStatus]);
+
+  // Sessions hold a socket and maybe the microphone; release them with the page
+  useEffect(() => () => stopLive(), []); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // --- Drive Recording ---
+  // The first camera is recorded; with several cameras its frame is stored next to the merged result
+  const startRecording = () => {
+    const feed = cameraFeeds[0];
+    if (!feed || driveRecorder.current) return;
+    try {
+      driveRecorder.current = startDriveRecorder(feed.stream, { providerId, profileId, signRegion });
+      setIsRecording(true);
+    } catch (err) {
+      console.error("Could not start recording:", err);
+      setError({ kind: 'system', message: t('err.recordUnsupported') });
+    }
+  };
+
+  const stopRecording = async () => {
+    const recorder = driveRecorder.current;
+    if (!recorder) return;
+    driveRecorder.current = null;
+    setIsRecording(false);
+    try {
+      await saveRecording(await recorder.stop());
+    } catch (err) {
+      console.error("Could not save recording:", err);
+      setError({ kind: 'system', message: t('err.recordingNotSaved', { error: err instanceof Error ? err.message : String(err) }) });
+    }
+  };
+
+  // --- Replay ---
+  // A recorded frame goes through the same display path as a scan result, so panel, overlay and voice react as they did
+  const showReplayFrame = (recording: DriveRecording, index: number) => {
+    const frame = recording.frames[index];
+    const state = replayStateAt(recording.frames, index);
+    setReplay({ recording, index });
+    setResult(frame?.result ?? null);
+    setTracked(state.tracked);
+    setRegulatory(state.regulatory);
+    lastAnalyzedFrame.current = frame?.frame ?? null;
+  };
+
+  const openReplay = (recording: DriveRecording) => {
+    reset();
+    setShowRecordings(false);
+    replayReady.current = false;
+    setReplay({ recording, index: -1 });
+    setReplayTime(0);
+    setMediaSource(URL.createObjectURL(recording.video));
+    setFileType('video');
+    setMode('replay');
+  };
+
+  const handleReplayTime = (timeSec: number) => {
+    if (!replay || !replayReady.current) return;
+    setReplayTime(timeSec);
+    const index = frameIndexAt(replay.recording.frames, timeSec * 1000);
+    if (index !== replay.index) showReplayFrame(replay.recording, index);
+  };
+
+  const seekReplay = (timeSec: number) => {
+    if (videoRef.current) videoRef.current.currentTime = timeSec;
+  };
+
+  const toggleReplayPlayback = () => {
+    const video = videoRef.current;
+    if (!video) return;
+    if (video.paused) video.play().catch(e => console.error("Video play error:", e));
+    else video.pause();
+  };
+
+  // Re-analyzes the recorded frames with the analyzer currently selected, for a side-by-side comparison
+  const startRerun = async () => {
+    if (!replay || rerunAbort.current) return;
+    const controller = new AbortController();
+    rerunAbort.current = controller;
+    setReplayRerun(null);
+    try {
+      const results = await rerunRecording(replay.recording, getProvider(providerId), {
+        profileId,
+        language: languageCode,
+        signal: controller.signal,
+        onProgress: (done, total) => setRerunProgress({ done, total })
+      });
+      setReplayRerun(results);
+    } catch (err) {
+      if (!isAbortError(err)) {
+        console.error("Re-run failed:", err);
+        setError({ kind: 'system', message: t('err.rerun') });
+      }
+    } finally {
+      rerunAbort.current = null;
+      setRerunProgress(null);
+    }
+  };
 
   const reset = () => {
+    manualScanAbort.current?.abort();
+    stopLive();
+    if (driveRecorder.current) stopRecording(); // Keeps what was recorded so far
+    rerunAbort.current?.abort();
+    if (mode === 'replay' && mediaSource) URL.revokeObjectURL(mediaSource);
+    setReplay(null);
+    setReplayRerun(null);
+    setReplayPlaying(false);
     stopCamera();
+    clearBatch();
+    clearImageBatch();
+    setGpsTrack(null);
+    setTrackOffset(0);
     setIsAutoScan(false);
     setMode('initial');
     setMediaSource(null);
     setResult(null);
+    lastAnalyzedFrame.current = null;
+    setTracked(null);
+    setRegulatory(null);
+    resetFrameGate();
+    setPreprocessPreview(null);
+    alertEngine.current.reset();
+    speechQueue.current.clear();
     setFileType(null);
     setError(null);
   };
 
+  // --- Annotation ---
+  const saveAnnotation = async (labels: GroundTruth, note: string) => {
+    if (!annotationTarget) return;
+    await saveLabeledFrame({
+      id: crypto.randomUUID(),
+      frame: annotationTarget.frame,
+      labeledAt: Date.now(),
+      labels,
+      prediction: annotationTarget.result,
+      note: note || undefined
+    });
+    setAnnotationTarget(null);
+  };
+
   // Render Helpers
   const renderVisualizer = () => {
     if (mode === 'initial') {
@@ -210,8 +1162,8 @@ const App: React.FC = () => {
           <div className="w-20 h-20 rounded-full bg-hud-cyan/10 flex items-center justify-center mb-6 animate-pulse">
             <Eye className="w-10 h-10 text-hud-cyan" />
           </div>
-          <h2 className="text-2xl font-mono font-bold text-white mb-2">SYSTEM STANDBY</h2>
-          <p className="text-gray-400 max-w-md mb-8">Select an input source to begin autonomous road analysis and hazard detection.</p>
+          <h2 className="text-2xl font-mono font-bold text-white mb-2">{t('app.standby')}</h2>
+          <p className="text-gray-400 max-w-md mb-8">{t('app.standbyHint')}</p>
         </div>
       );
     }
@@ -220,33 +1172,109 @@ const App: React.FC = () => {
       <div className="relative w-full h-full flex items-center justify-center bg-black overflow-hidden group">
 
         {/* Constrained Media Container */}
-        <div className="relative max-w-[60%] max-h-[60%] w-full h-full flex items-center justify-center rounded-xl overflow-hidden border border-gray-800 shadow-[0_0_50px_rgba(0,0,0,0.5)] bg-black/50">
+        <div className={`relative w-full h-full flex items-center justify-center rounded-xl overflow-hidden border border-gray-800 shadow-[0_0_50px_rgba(0,0,0,0.5)] bg-black/50 ${isCameraGrid ? 'max-w-[90%] max-h-[80%]' : 'max-w-[60%] max-h-[60%]'}`}>
           {/* Media Player */}
-          {fileType === 'video' ? (
+          {isCameraGrid ? (
+            <div className="w-full h-full grid grid-cols-2 auto-rows-fr gap-2 p-2">
+              {cameraFeeds.map(feed => (
+                <CameraPane
+                  key={feed.deviceId}
+                  feed={feed}
+                  result={selectedHistoryItem ? null : result}
+                  assessment={result?.cameras?.find(c => c.camera === feed.label)}
+                  onVideo={registerCameraVideo}
+                  t={t}
+                />
+              ))}
+            </div>
+          ) : fileType === 'video' ? (
             <video
               ref={videoRef}
-              src={mode === 'upload' && mediaSource ? mediaSource : undefined}
-              autoPlay
+              src={(mode === 'upload' || mode === 'replay') && mediaSource ? mediaSource : undefined}
+              autoPlay={mode !== 'replay'}
               playsInline
               controls={mode === 'upload'}
               loop={mode === 'upload'}
               muted
+              onLoadedMetadata={e => {
+                setVideoDuration(e.currentTarget.duration || 0);
+                if (mode === 'replay') {
+                  prepareRecordedVideo(e.currentTarget).then(() => {
+                    replayReady.current = true;
+                    handleReplayTime(0);
+                  });
+                }
+              }}
+              onTimeUpdate={mode === 'replay' ? e => handleReplayTime(e.currentTarget.currentTime) : undefined}
+              onPlay={() => setReplayPlaying(true)}
+              onPause={() => setReplayPlaying(false)}
               className="w-full h-full object-contain"
             />
           ) : (
             <img ref={imageRef} src={mediaSource!} alt="Analysis Target" className="w-full h-full object-contain" />
           )}
 
+          {/* Detection Boxes - hidden while a history entry (a different frame) is open */}
+          {!isCameraGrid && (
+            <DetectionOverlay
+              result={selectedHistoryItem ? null : selectedBatchEntry ? selectedBatchEntry.result : selectedImage?.result ?? result}
+              mediaRef={fileType === 'video' ? videoRef : imageRef}
+            />
+          )}
+
+          {/* Alert Flash */}
+          {alertFlash && (
+            <div
+              key={alertFlash.key}
+              className={`absolute inset-0 pointer-events-none z-20 rounded-xl border-4 animate-pulse ${alertFlash.color === 'red'
+                ? 'border-hud-red bg-hud-red/20 shadow-[inset_0_0_60px_rgba(255,42,42,0.6)]'
+                : 'border-hud-amber bg-hud-amber/10 shadow-[inset_0_0_60px_rgba(255,174,0,0.5)]'
+                }`}
+            />
+          )}
+
           {/* HUD Overlay (Scanning Effect) - Scoped to Media */}
-          {(analyzing || isAutoScan) && (
+          {(analyzing || isAutoScan || isLive) && (
             <div className="absolute inset-0 pointer-events-none z-10">
               <div className="absolute top-0 left-0 w-full h-1 bg-hud-cyan/50 shadow-[0_0_15px_rgba(0,240,255,0.8)] animate-[scan_2s_linear_infinite]"></div>
               <div className="absolute inset-0 border-[2px] border-hud-cyan/30 rounded-xl"></div>
-              <div className="absolute top-4 right-4 text-hud-cyan font-mono text-[10px] animate-pulse bg-black/50 px-2 py-1 rounded">ANALYZING FRAME DATA...</div>
+              <div className="absolute top-4 end-4 text-hud-cyan font-mono text-[10px] animate-pulse bg-black/50 px-2 py-1 rounded">{t('hud.analyzing')}</div>
             </div>
           )}
         </div>
 
+        {/* Regulatory context (speed limit and zones in force) */}
+        <RegulatoryHud state={regulatory} speedMps={currentGeo?.speed} onClear={() => setRegulatory(null)} t={t} />
+
+        {/* Timing, size and token percentiles */}
+        {diagnostics && (
+          <DiagnosticsHud
+            snapshot={diagnostics}
+            onReset={() => {
+              telemetry.current.reset();
+              setDiagnostics(null);
+            }}
+            t={t}
+          />
+        )}
+
+        {/* Auto-scan throughput */}
+        {isAutoScan && schedulerStats && <SchedulerHud stats={schedulerStats} t={t} />}
+        {fileType === 'video' && mode !== 'replay' && (
+          <ChangeDetectionHud
+            threshold={changeThreshold}
+            sent={frameGate.sent}
+            skipped={frameGate.skipped}
+            lastDifference={lastFrameDiff}
+            onThresholdChange={setChangeThreshold}
+            t={t}
+          />
+        )}
+
+        {preprocessSettings.enabled && preprocessPreview && mode !== 'replay' && (
+          <PreprocessHud before={preprocessPreview.before} after={preprocessPreview.after} record={preprocessPreview.record} t={t} />
+        )}
+
         {/* HUD Grid (Background) */}
         <div className="absolute inset-0 pointer-events-none opacity-20 bg-[linear-gradient(rgba(0,240,255,0.1)_1px,transparent_1px),linear-gradient(90deg,rgba(0,240,255,0.1)_1px,transparent_1px)] bg-[size:40px_40px] -z-10"></div>
       </div>
@@ -259,10 +1287,26 @@ const App: React.FC = () => {
       <div className="scan-line"></div>
 
       {/* LEFT: Main Visual Area */}
-      <div className="flex-1 flex flex-col relative border-r border-hud-border">
+      <div
+        className="flex-1 flex flex-col relative border-e border-hud-border"
+        onDragOver={e => {
+          if (!canDrop || !e.dataTransfer.types.includes('Files')) return;
+          e.preventDefault();
+          setDragActive(true);
+        }}
+        onDragLeave={e => {
+          if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDragActive(false);
+        }}
+        onDrop={handleDrop}
+      >
+        {dragActive && (
+          <div className="absolute inset-4 z-50 pointer-events-none flex items-center justify-center border-2 border-dashed border-hud-cyan rounded-lg bg-hud-cyan/5 backdrop-blur-sm">
+            <span className="font-mono text-sm text-hud-cyan tracking-wide">{t('app.dropHint')}</span>
+          </div>
+        )}
         {/* Header */}
         <div className="absolute top-0 left-0 w-full p-4 z-40 flex justify-between items-center bg-gradient-to-b from-black/90 via-black/50 to-transparent">
-          <div className="flex items-center space-x-3">
+          <div className="flex items-center gap-3">
             <Eye className="text-hud-cyan w-6 h-6" />
             <h1 className="font-mono font-bold text-xl tracking-wider text-hud-cyan drop-shadow-[0_0_5px_rgba(0,240,255,0.5)]">
               Nex<span className="text-white">Vue</span>
@@ -281,7 +1325,7 @@ const App: React.FC = () => {
                   className="flex items-center gap-2 px-4 py-2 rounded border transition-all group bg-black/40 border-gray-700 text-gray-400 hover:text-hud-cyan hover:border-hud-cyan/50"
                 >
                   <Camera className="w-4 h-4 group-hover:scale-110 transition-transform" />
-                  <span className="font-mono text-xs sm:text-sm tracking-wide">LIVE CAMERA</span>
+                  <span className="font-mono text-xs sm:text-sm tracking-wide">{t('app.liveCamera')}</span>
                 </button>
 
                 <button
@@ -289,42 +1333,107 @@ const App: React.FC = () => {
                   className="flex items-center gap-2 px-4 py-2 rounded border transition-all group bg-black/40 border-gray-700 text-gray-400 hover:text-white hover:border-white"
                 >
                   <Upload className="w-4 h-4 group-hover:scale-110 transition-transform" />
-                  <span className="font-mono text-xs sm:text-sm tracking-wide">UPLOAD MEDIA</span>
+                  <span className="font-mono text-xs sm:text-sm tracking-wide">{t('app.uploadMedia')}</span>
+                </button>
+
+                <button
+                  onClick={() => folderInputRef.current?.click()}
+                  className="flex items-center gap-2 px-4 py-2 rounded border transition-all group bg-black/40 border-gray-700 text-gray-400 hover:text-white hover:border-white"
+                >
+                  <FolderOpen className="w-4 h-4 group-hover:scale-110 transition-transform" />
+                  <span className="font-mono text-xs sm:text-sm tracking-wide">{t('app.uploadFolder')}</span>
                 </button>
               </>
             ) : (
               <>
-                {!isAutoScan && (
+                {!isAutoScan && !isLive && mode !== 'replay' && (
                   <button
-                    onClick={captureAndAnalyze}
+                    onClick={scanOnce}
                     disabled={analyzing}
                     className="flex items-center gap-2 px-4 py-2 bg-hud-cyan text-black font-bold font-mono text-xs sm:text-sm rounded hover:bg-white transition-all disabled:opacity-50 shadow-[0_0_15px_rgba(0,240,255,0.4)]"
                   >
                     <Scan className={`w-4 h-4 ${analyzing ? 'animate-spin' : ''}`} />
-                    {analyzing ? 'SCANNING' : 'SCAN'}
+                    {analyzing ? t('app.scanning') : t('app.scan')}
                   </button>
                 )}
 
-                {fileType === 'video' && (
+                {fileType === 'video' && mode !== 'replay' && (
                   <button
-                    onClick={() => setIsAutoScan(!isAutoScan)}
+                    onClick={() => {
+                      if (isLive) stopLive();
+                      setIsAutoScan(!isAutoScan);
+                    }}
                     className={`flex items-center gap-2 px-4 py-2 border font-mono text-xs sm:text-sm rounded transition-all ${isAutoScan
                       ? 'bg-hud-red/20 border-hud-red text-hud-red animate-pulse'
                       : 'bg-black/40 border-hud-cyan/50 text-hud-cyan hover:bg-hud-cyan/10'
                       }`}
                   >
                     {isAutoScan ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
-                    {isAutoScan ? 'STOP' : 'AUTO'}
+                    {isAutoScan ? t('app.stop') : t('app.auto')}
+                  </button>
+                )}
+
+                {fileType === 'video' && !isCameraGrid && mode !== 'replay' && (
+                  <button
+                    onClick={() => (isLive ? stopLive() : startLive())}
+                    className={`flex items-center gap-2 px-4 py-2 border font-mono text-xs sm:text-sm rounded transition-all ${isLive
+                      ? 'bg-hud-red/20 border-hud-red text-hud-red animate-pulse'
+                      : 'bg-black/40 border-hud-cyan/50 text-hud-cyan hover:bg-hud-cyan/10'
+                      }`}
+                    title={getProvider(providerId).live?.label}
+                  >
+                    <Radio className="w-4 h-4" />
+                    {isLive ? t('app.stop') : t('app.live')}
+                  </button>
+                )}
+
+                {result && lastAnalyzedFrame.current && displayedResult === result && (
+                  <button
+                    onClick={() => setAnnotationTarget({
+                      frame: lastAnalyzedFrame.current!,
+                      // The stored frame is the first camera's, so only its detections are labeled
+                      result: result.cameras ? resultForCamera(result, result.cameras[0].camera) : result
+                    })}
+                    className="flex items-center gap-2 px-4 py-2 bg-black/40 border border-gray-700 text-gray-400 font-mono text-xs sm:text-sm rounded hover:text-hud-cyan hover:border-hud-cyan/50 transition-all"
+                    title={t('app.annotateHint')}
+                  >
+                    <PenLine className="w-4 h-4" />
+                    <span className="hidden sm:inline">{t('app.annotate')}</span>
+                  </button>
+                )}
+
+                {mode === 'camera' && isRecordingSupported() && (
+                  <button
+                    onClick={() => (isRecording ? stopRecording() : startRecording())}
+                    className={`flex items-center gap-2 px-4 py-2 border font-mono text-xs sm:text-sm rounded transition-all ${isRecording
+                      ? 'bg-hud-red/20 border-hud-red text-hud-red'
+                      : 'bg-black/40 border-gray-700 text-gray-400 hover:text-hud-red hover:border-hud-red/50'
+                      }`}
+                    title={t('app.record')}
+                  >
+                    <Circle className={`w-4 h-4 ${isRecording ? 'fill-current animate-pulse' : ''}`} />
+                    <span className="hidden sm:inline">{isRecording ? t('app.stop') : t('app.record')}</span>
+                  </button>
+                )}
+
+                {mode === 'camera' && (
+                  <button
+                    onClick={() => setShowCameraSetup(true)}
+                    className="flex items-center gap-2 px-4 py-2 bg-black/40 border border-gray-700 text-gray-400 font-mono text-xs sm:text-sm rounded hover:text-hud-cyan hover:border-hud-cyan/50 transition-all"
+                    title={t('app.cameras')}
+                  >
+                    <Video className="w-4 h-4" />
+                    <span className="hidden sm:inline">{cameraFeeds.length}</span>
                   </button>
                 )}
 
                 <button
                   onClick={reset}
                   className="flex items-center gap-2 px-4 py-2 bg-black/40 border border-gray-700 text-gray-400 font-mono text-xs sm:text-sm rounded hover:text-white hover:border-white transition-all"
-                  title="Reset Mode"
+                  title={t('app.resetMode')}
                 >
                   <RefreshCw className="w-4 h-4" />
-                  <span className="hidden sm:inline">RESET</span>
+                  <span className="hidden sm:inline">{t('app.reset')}</span>
                 </button>
               </>
             )}
@@ -332,19 +1441,133 @@ const App: React.FC = () => {
               ref={fileInputRef}
               type="file"
               accept="image/*,video/*"
+              multiple
+              onChange={handleFileUpload}
+              className="hidden"
+            />
+            <input
+              // webkitdirectory isn't in React's input props
+              ref={el => {
+                folderInputRef.current = el;
+                el?.setAttribute('webkitdirectory', '');
+              }}
+              type="file"
               onChange={handleFileUpload}
               className="hidden"
             />
           </div>
 
           <div className="flex items-center gap-4">
+            {/* Vision Backend */}
+            <label className="flex items-center gap-2 px-3 py-1.5 rounded-full border bg-black/40 border-gray-700 text-gray-400" title={t('app.backend')}>
+              <Cpu className="w-4 h-4" />
+              <select
+                value={providerId}
+                onChange={e => setProviderId(e.target.value)}
+                disabled={analyzing || isLive}
+                className="bg-transparent text-xs font-mono uppercase outline-none cursor-pointer"
+              >
+                {listProviders().map(provider => (
+                  <option key={provider.id} value={provider.id} className="bg-hud-dark">{provider.label}</option>
+                ))}
+              </select>
+            </label>
+
+            {/* Analysis Profile */}
+            <label className="flex items-center gap-2 px-3 py-1.5 rounded-full border bg-black/40 border-gray-700 text-gray-400" title={`${t('app.profile')}: ${profile.description}`}>
+              <SlidersHorizontal className="w-4 h-4" />
+              <select
+                value={profileId}
+                onChange={e => {
+                  setProfileId(e.target.value);
+                  saveProfileId(e.target.value);
+                }}
+                disabled={analyzing || isLive}
+                className="bg-transparent text-xs font-mono outline-none cursor-pointer"
+              >
+                {ANALYSIS_PROFILES.map(p => (
+                  <option key={p.id} value={p.id} className="bg-hud-dark">{p.label}</option>
+                ))}
+              </select>
+            </label>
+
+            {/* Language */}
+            <label className="flex items-center gap-2 px-3 py-1.5 rounded-full border bg-black/40 border-gray-700 text-gray-400" title={t('app.language')}>
+              <Languages className="w-4 h-4" />
+              <select
+                value={languageCode}
+                onChange={e => changeLanguage(e.target.value as LanguageCode)}
+                className="bg-transparent text-xs font-mono outline-none cursor-pointer"
+              >
+                {LANGUAGES.map(l => (
+                  <option key={l.code} value={l.code} className="bg-hud-dark">{l.label}</option>
+                ))}
+              </select>
+            </label>
+
+            {/* Sign Catalog Region */}
+            <label className="flex items-center gap-2 px-3 py-1.5 rounded-full border bg-black/40 border-gray-700 text-gray-400" title={t('app.signRegion')}>
+              <Signpost className="w-4 h-4" />
+              <select
+                value={signRegion}
+                onChange={e => {
+                  const region = e.target.value as SignRegion;
+                  setSignRegion(region);
+                  saveSignRegion(region);
+                }}
+                className="bg-transparent text-xs font-mono outline-none cursor-pointer"
+              >
+                {SIGN_REGIONS.map(region => (
+                  <option key={region} value={region} className="bg-hud-dark">{SIGN_CATALOGS[region].label} · {SIGN_CATALOGS[region].standard}</option>
+                ))}
+              </select>
+            </label>
+
+            {/* Alert Rules */}
+            <button
+              onClick={() => setShowAlertSettings(true)}
+              className="p-1.5 rounded-full border bg-black/40 border-gray-700 text-gray-400 hover:border-gray-500 hover:text-white transition-all"
+              title={t('rules.title')}
+            >
+              <Bell className="w-4 h-4" />
+            </button>
+
+            {/* Frame Preprocessing */}
+            <button
+              onClick={() => setShowPreprocessSettings(true)}
+              className={`p-1.5 rounded-full border transition-all ${preprocessSettings.enabled ? 'bg-hud-cyan/20 border-hud-cyan text-hud-cyan' : 'bg-black/40 border-gray-700 text-gray-400 hover:border-gray-500 hover:text-white'}`}
+              title={t('pre.title')}
+            >
+              <Aperture className="w-4 h-4" />
+            </button>
+
+            {/* Drive Recordings */}
+            <button
+              onClick={() => setShowRecordings(true)}
+              className="p-1.5 rounded-full border bg-black/40 border-gray-700 text-gray-400 hover:border-gray-500 hover:text-white transition-all"
+              title={t('app.recordings')}
+            >
+              <Clapperboard className="w-4 h-4" />
+            </button>
+
+            {/* Dataset & Evaluation */}
+            <button
+              onClick={() => setShowEvaluation(true)}
+              className="p-1.5 rounded-full border bg-black/40 border-gray-700 text-gray-400 hover:border-gray-500 hover:text-white transition-all"
+              title={t('app.evaluate')}
+            >
+              <FlaskConical className="w-4 h-4" />
+            </button>
+
             {/* Voice Toggle */}
             <button
               onClick={() => {
                 const newState = !isVoiceEnabled;
                 setIsVoiceEnabled(newState);
-                if (!newState && window.speechSynthesis) {
-                  window.speechSynthesis.cancel();
+                if (newState) {
+                  unlockAudio(); // Earcons need a user gesture before they can play
+                } else {
+                  speechQueue.current.clear();
                 }
               }}
               className={`flex items-center gap-2 px-3 py-1.5 rounded-full border transition-all ${isVoiceEnabled
@@ -354,13 +1577,13 @@ const App: React.FC = () => {
             >
               {isVoiceEnabled ? <Volume2 className="w-4 h-4" /> : <VolumeX className="w-4 h-4" />}
               <span className="text-xs font-mono uppercase hidden sm:inline">
-                {isVoiceEnabled ? 'Voice Active' : 'Voice Muted'}
+                {isVoiceEnabled ? t('app.voiceActive') : t('app.voiceMuted')}
               </span>
             </button>
 
             <div className="text-[10px] font-mono text-hud-green flex items-center gap-2 hidden sm:flex">
-              <span className={`w-2 h-2 rounded-full ${analyzing || isAutoScan ? 'bg-hud-amber animate-ping' : 'bg-hud-green animate-pulse'}`}></span>
-              {analyzing ? 'PROCESSING' : 'SYSTEM ONLINE'}
+              <span className={`w-2 h-2 rounded-full ${analyzing || isAutoScan || isLive ? 'bg-hud-amber animate-ping' : 'bg-hud-green animate-pulse'}`}></span>
+              {analyzing ? t('app.processing') : t('app.online')}
             </div>
           </div>
         </div>
@@ -370,25 +1593,185 @@ const App: React.FC = () => {
           {renderVisualizer()}
         </div>
 
+        {/* Live session controls and driver Q&A */}
+        {isLive && (
+          <LivePanel
+            backendLabel={getProvider(providerId).live?.label ?? ''}
+            status={liveStatus}
+            micActive={micActive}
+            exchanges={liveExchanges}
+            onToggleMic={toggleMicrophone}
+            onAsk={askLive}
+            t={t}
+          />
+        )}
+
+        {/* Batch Analysis (uploaded video only) */}
+        {mode === 'upload' && fileType === 'video' && (
+          <VideoBatchPanel
+            duration={videoDuration}
+            entries={batchEntries}
+            progress={batchProgress}
+            intervalSec={batchInterval}
+            concurrency={batchConcurrency}
+            selectedTime={selectedBatchTime}
+            onIntervalChange={setBatchInterval}
+            onConcurrencyChange={setBatchConcurrency}
+            onStart={startBatch}
+            onCancel={cancelBatch}
+            onSelect={selectBatchEntry}
+            t={t}
+          />
+        )}
+
+        {/* Image set grid (several photos or a folder) */}
+        {mode === 'upload' && imageBatch.length > 0 && (
+          <ImageBatchPanel
+            items={imageBatch}
+            progress={imageBatchProgress}
+            concurrency={imageBatchConcurrency}
+            selectedId={selectedImageId}
+            onConcurrencyChange={setImageBatchConcurrency}
+            onStart={startImageBatch}
+            onCancel={() => imageBatchAbort.current?.abort()}
+            onSelect={selectImage}
+            onClose={reset}
+            t={t}
+          />
+        )}
+
+        {/* Drive replay: scrubber and re-run comparison */}
+        {mode === 'replay' && replay && (
+          <ReplayPanel
+            recording={replay.recording}
+            index={replay.index}
+            timeSec={replayTime}
+            playing={replayPlaying}
+            rerun={replayRerun}
+            rerunProgress={rerunProgress}
+            analyzerLabel={`${getProvider(providerId).label} · ${profile.label}`}
+            onTogglePlay={toggleReplayPlayback}
+            onSeek={seekReplay}
+            onRerun={startRerun}
+            onCancelRerun={() => rerunAbort.current?.abort()}
+            t={t}
+          />
+        )}
+
+        {/* GPS track sync (uploaded video only) */}
+        {mode === 'upload' && fileType === 'video' && (
+          <TrackSyncBar
+            trackName={gpsTrack?.name ?? null}
+            pointCount={gpsTrack?.points.length ?? 0}
+            durationSec={gpsTrack ? gpsTrack.points[gpsTrack.points.length - 1].time : 0}
+            offsetSec={trackOffset}
+            onLoad={handleTrackLoad}
+            onClear={() => setGpsTrack(null)}
+            onOffsetChange={setTrackOffset}
+            t={t}
+          />
+        )}
+
         {/* Hidden Canvas for Capture */}
         <canvas ref={canvasRef} className="hidden" />
       </div>
 
       {/* RIGHT: Analysis Panel */}
-      <div className="w-full md:w-[400px] h-[40vh] md:h-auto bg-hud-dark border-l border-hud-border flex flex-col relative z-20 shadow-[-10px_0_30px_rgba(0,0,0,0.5)]">
-        <AnalysisPanel result={result} loading={analyzing} />
+      <div className="w-full md:w-[400px] h-[40vh] md:h-auto bg-hud-dark border-s border-hud-border flex flex-col relative z-20 shadow-[-10px_0_30px_rgba(0,0,0,0.5)]">
+        {/* Panel Tabs */}
+        <div className="flex border-b border-hud-border font-mono text-[10px] uppercase tracking-widest">
+          {(['analysis', 'map', 'survey'] as const).map(tab => (
+            <button
+              key={tab}
+              onClick={() => setSidePanel(tab)}
+              className={`flex-1 py-2 transition-colors ${sidePanel === tab ? 'text-hud-cyan bg-hud-cyan/10 border-b border-hud-cyan' : 'text-gray-500 hover:text-gray-300'}`}
+            >
+              {t(`app.tab.${tab}`)}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex-1 min-h-0">
+          {sidePanel === 'analysis' ? (
+            <AnalysisPanel result={displayedResult} loading={analyzing} tracked={selectedHistoryItem || selectedBatchEntry || selectedImage?.result ? null : tracked} draft={isLive ? liveDraft : null} t={t} />
+          ) : sidePanel === 'map' ? (
+            <HazardMap
+              analyses={mapAnalyses}
+              currentPosition={currentGeo}
+              onSelect={handleMapSelect}
+              t={t}
+            />
+          ) : (
+            <RoadSurveyPanel analyses={surveyAnalyses} onSelect={handleMapSelect} t={t} />
+          )}
+        </div>
+
+        <HistoryTimeline
+          items={timelineItems}
+          selectedId={selectedHistoryId}
+          isImported={importedSession !== null}
+          includeThumbnails={exportThumbnails}
+          onSelect={item => setSelectedHistoryId(item.id === selectedHistoryId ? null : item.id)}
+          onClear={handleClearHistory}
+          onExport={handleExport}
+          onImport={handleImport}
+          onCloseImport={closeImportedSession}
+          onIncludeThumbnailsChange={setExportThumbnails}
+          t={t}
+        />
 
         {/* Error Notification */}
-        {error && (
+        {error?.kind === 'system' && (
           <div className="absolute bottom-4 left-4 right-4 bg-red-950/90 border border-red-500/50 p-4 rounded backdrop-blur-sm flex items-start gap-3 animate-in slide-in-from-bottom-5 fade-in shadow-lg">
             <AlertTriangle className="text-red-400 w-5 h-5 flex-shrink-0 mt-0.5" />
             <div>
-              <h4 className="text-red-400 font-mono text-xs font-bold uppercase mb-1">System Error</h4>
-              <p className="text-xs text-red-200 leading-relaxed">{error}</p>
+              <h4 className="text-red-400 font-mono text-xs font-bold uppercase mb-1">{t('app.systemError')}</h4>
+              <p className="text-xs text-red-200 leading-relaxed">{error.message}</p>
             </div>
           </div>
         )}
+
+        {error?.kind === 'invalid-output' && (
+          <div className="absolute bottom-4 left-4 right-4 bg-amber-950/90 border border-hud-amber/50 p-4 rounded backdrop-blur-sm flex items-start gap-3 animate-in slide-in-from-bottom-5 fade-in shadow-lg">
+            <FileWarning className="text-hud-amber w-5 h-5 flex-shrink-0 mt-0.5" />
+            <div className="flex-1">
+              <h4 className="text-hud-amber font-mono text-xs font-bold uppercase mb-1">{t('app.invalidOutput')}</h4>
+              <p className="text-xs text-amber-100 leading-relaxed">{error.message}</p>
+            </div>
+            <button onClick={() => setError(null)} className="text-[10px] font-mono text-gray-400 hover:text-white uppercase">{t('app.dismiss')}</button>
+          </div>
+        )}
       </div>
+
+      {showRecordings && (
+        <RecordingLibrary onOpen={openReplay} onClose={() => setShowRecordings(false)} t={t} />
+      )}
+
+      {showCameraSetup && (
+        <CameraSetup feeds={cameraFeeds} onToggle={toggleCamera} onClose={() => setShowCameraSetup(false)} t={t} />
+      )}
+
+      {showAlertSettings && (
+        <AlertSettings rules={localizedAlertRules} onChange={updateAlertRules} onClose={() => setShowAlertSettings(false)} t={t} />
+      )}
+
+      {showPreprocessSettings && (
+        <PreprocessSettings settings={preprocessSettings} onChange={updatePreprocessSettings} onClose={() => setShowPreprocessSettings(false)} t={t} />
+      )}
+
+      {annotationTarget && (
+        <AnnotationEditor
+          frame={annotationTarget.frame}
+          result={annotationTarget.result}
+          onSave={saveAnnotation}
+          onClose={() => setAnnotationTarget(null)}
+          t={t}
+        />
+      )}
+
+      {showEvaluation && (
+        <EvaluationPanel defaultProviderId={providerId} defaultProfileId={profileId} language={languageCode} onClose={() => setShowEvaluation(false)} t={t} />
+      )}
     </div>
   );
 };
@@ -0,0 +1,187 @@
+import React from 'react';
+import { Bell, Plus, Trash2, RotateCcw, X, Play } from 'lucide-react';
+import { AlertRule, AlertPriority, AlertFlash, createEmptyRule, DEFAULT_ALERT_RULES } from '../services/alertEngine';
+import { EARCON_NAMES, EarconName, playEarcon } from '../services/earcons';
+import { SafetyLevel } from '../types';
+import { Translator } from '../services/i18n';
+
+interface AlertSettingsProps {
+  rules: AlertRule[];
+  onChange: (rules: AlertRule[]) => void;
+  onClose: () => void;
+  t: Translator;
+}
+
+const PRIORITIES: AlertPriority[] = ['critical', 'high', 'normal', 'low'];
+const SEVERITIES = ['LOW', 'MEDIUM', 'HIGH'] as const;
+
+const inputClass = 'bg-black/40 border border-gray-700 rounded px-2 py-1 text-[11px] font-mono text-white outline-none focus:border-hud-cyan';
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <label className="flex flex-col gap-1 text-[9px] font-mono uppercase tracking-widest text-gray-500">
+    {label}
+    {children}
+  </label>
+);
+
+const AlertSettings: React.FC<AlertSettingsProps> = ({ rules, onChange, onClose, t }) => {
+  const update = (id: string, patch: Partial<AlertRule>) =>
+    onChange(rules.map(r => (r.id === id ? { ...r, ...patch } : r)));
+
+  const remove = (id: string) => onChange(rules.filter(r => r.id !== id));
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-3xl max-h-[85vh] flex flex-col bg-hud-dark border border-hud-border rounded-lg shadow-[0_0_40px_rgba(0,240,255,0.15)]"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-4 py-3 border-b border-hud-border">
+          <h2 className="flex items-center gap-2 font-mono text-sm uppercase tracking-widest text-hud-cyan">
+            <Bell className="w-4 h-4" />
+            {t('rules.title')}
+          </h2>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => onChange([...rules, createEmptyRule()])}
+              className="flex items-center gap-1 px-2 py-1 text-[10px] font-mono uppercase border border-hud-cyan/50 text-hud-cyan rounded hover:bg-hud-cyan/10"
+            >
+              <Plus className="w-3 h-3" /> {t('rules.add')}
+            </button>
+            <button
+              onClick={() => onChange(DEFAULT_ALERT_RULES)}
+              className="flex items-center gap-1 px-2 py-1 text-[10px] font-mono uppercase border border-gray-700 text-gray-400 rounded hover:text-white hover:border-white"
+              title={t('rules.defaultsHint')}
+            >
+              <RotateCcw className="w-3 h-3" /> {t('pre.defaults')}
+            </button>
+            <button onClick={onClose} className="p-1 text-gray-500 hover:text-white" title={t('pre.close')}>
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        <p className="px-4 pt-3 text-[10px] font-mono text-gray-500">
+          {t('rules.hint')} {'{type} {severity} {description} {meaning} {recommendation}'}
+        </p>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-3">
+          {rules.length === 0 && (
+            <div className="text-center text-xs font-mono text-gray-600 py-8">{t('rules.empty')}</div>
+          )}
+          {rules.map(r => (
+            <div key={r.id} className={`border rounded p-3 space-y-2 ${r.enabled ? 'border-gray-700 bg-black/30' : 'border-gray-800 bg-black/10 opacity-60'}`}>
+              <div className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={r.enabled}
+                  onChange={e => update(r.id, { enabled: e.target.checked })}
+                  className="accent-cyan-400"
+                  title={t('rules.enabled')}
+                />
+                <input value={r.name} onChange={e => update(r.id, { name: e.target.value })} className={`${inputClass} flex-1`} />
+                <button onClick={() => remove(r.id)} className="p-1 text-gray-600 hover:text-hud-red" title={t('rules.delete')}>
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                <Field label={t('rules.appliesTo')}>
+                  <select value={r.kind} onChange={e => update(r.id, { kind: e.target.value as AlertRule['kind'] })} className={inputClass}>
+                    <option value="hazard" className="bg-hud-dark">{t('rules.kindHazard')}</option>
+                    <option value="sign" className="bg-hud-dark">{t('rules.kindSign')}</option>
+                    <option value="safety" className="bg-hud-dark">{t('rules.kindSafety')}</option>
+                  </select>
+                </Field>
+                {r.kind === 'safety' ? (
+                  <Field label={t('rules.level')}>
+                    <select value={r.safetyLevel} onChange={e => update(r.id, { safetyLevel: e.target.value as SafetyLevel })} className={inputClass}>
+                      {Object.values(SafetyLevel).map(level => (
+                        <option key={level} value={level} className="bg-hud-dark">{t(`safety.${level}`)}</option>
+                      ))}
+                    </select>
+                  </Field>
+                ) : (
+                  <Field label={t('rules.typeContains')}>
+                    <input
+                      value={r.typePattern}
+                      placeholder={t('rules.any')}
+                      onChange={e => update(r.id, { typePattern: e.target.value })}
+                      className={inputClass}
+                    />
+                  </Field>
+                )}
+                {r.kind === 'hazard' && (
+                  <Field label={t('rules.minSeverity')}>
+                    <select value={r.minSeverity} onChange={e => update(r.id, { minSeverity: e.target.value as AlertRule['minSeverity'] })} className={inputClass}>
+                      {SEVERITIES.map(s => <option key={s} value={s} className="bg-hud-dark">{t(`severity.${s}`)}</option>)}
+                    </select>
+                  </Field>
+                )}
+                <Field label={t('rules.priority')}>
+                  <select value={r.priority} onChange={e => update(r.id, { priority: e.target.value as AlertPriority })} className={inputClass}>
+                    {PRIORITIES.map(p => <option key={p} value={p} className="bg-hud-dark">{t(`priority.${p}`)}</option>)}
+                  </select>
+                </Field>
+              </div>
+
+              <Field label={t('rules.message')}>
+                <input value={r.message} onChange={e => update(r.id, { message: e.target.value, messageKey: undefined })} className={inputClass} />
+              </Field>
+
+              <div className="flex flex-wrap items-end gap-3 text-[10px] font-mono text-gray-400">
+                <label className="flex items-center gap-1">
+                  <input type="checkbox" checked={r.speak} onChange={e => update(r.id, { speak: e.target.checked })} className="accent-cyan-400" />
+                  {t('rules.speak')}
+                </label>
+                <label className="flex items-center gap-1">
+                  <input type="checkbox" checked={r.interrupt} onChange={e => update(r.id, { interrupt: e.target.checked })} className="accent-cyan-400" />
+                  {t('rules.interrupt')}
+                </label>
+                <Field label={t('rules.earcon')}>
+                  <div className="flex items-center gap-1">
+                    <select
+                      value={r.earcon ?? ''}
+                      onChange={e => update(r.id, { earcon: (e.target.value || null) as EarconName | null })}
+                      className={inputClass}
+                    >
+                      <option value="" className="bg-hud-dark">{t('rules.none')}</option>
+                      {EARCON_NAMES.map(name => <option key={name} value={name} className="bg-hud-dark">{name}</option>)}
+                    </select>
+                    {r.earcon && (
+                      <button onClick={() => playEarcon(r.earcon!)} className="p-1 text-gray-500 hover:text-hud-cyan" title={t('rules.preview')}>
+                        <Play className="w-3 h-3" />
+                      </button>
+                    )}
+                  </div>
+                </Field>
+                <Field label={t('rules.flash')}>
+                  <select
+                    value={r.flash ?? ''}
+                    onChange={e => update(r.id, { flash: (e.target.value || null) as AlertFlash | null })}
+                    className={inputClass}
+                  >
+                    <option value="" className="bg-hud-dark">{t('rules.none')}</option>
+                    <option value="red" className="bg-hud-dark">{t('rules.flashRed')}</option>
+                    <option value="amber" className="bg-hud-dark">{t('rules.flashAmber')}</option>
+                  </select>
+                </Field>
+                <Field label={t('rules.cooldown')}>
+                  <input
+                    type="number"
+                    min={0}
+                    value={r.cooldownSec}
+                    onChange={e => update(r.id, { cooldownSec: Math.max(0, Number(e.target.value) || 0) })}
+                    className={`${inputClass} w-20`}
+                  />
+                </Field>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AlertSettings;
@@ -1,13 +1,122 @@
 import React from 'react';
-import { AnalysisResult, SafetyLevel } from '../types';
-import { AlertTriangle, ShieldCheck, ShieldAlert, Ban, Activity, MapPin } from 'lucide-react';
+import { AnalysisResult, SafetyLevel, Hazard, RoadSign, TrackInfo, TrackStatus, TrackedScene, SignRegion } from '../types';
+import { AlertTriangle, ShieldCheck, ShieldAlert, Ban, Activity, MapPin, HelpCircle, Cpu, Cloud, Video, Construction } from 'lucide-react';
+import { Translator } from '../services/i18n';
+import { LiveDraft } from '../services/liveSession';
+import { ON_DEVICE_ENGINE_ID } from '../services/onDeviceDetector';
+import { getCatalogEntry, DEFAULT_SIGN_REGION } from '../services/signCatalog';
+import { getProfile } from '../services/analysisProfiles';
+import { describeStep } from '../services/preprocessing';
+import SignIcon from './SignIcon';
 
 interface AnalysisPanelProps {
   result: AnalysisResult | null;
   loading: boolean;
+  tracked?: TrackedScene | null; // When set, lists show tracked objects instead of the raw frame
+  draft?: LiveDraft | null; // Detections of a live report that is still arriving
+  t: Translator;
 }
 
-const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ result, loading }) => {
+const trackStatusStyle: Record<TrackStatus, string> = {
+  NEW: 'bg-hud-cyan/20 text-hud-cyan border-hud-cyan/50',
+  PERSISTING: 'bg-gray-800 text-gray-300 border-gray-700',
+  CLEARED: 'bg-transparent text-gray-600 border-gray-800'
+};
+
+// Active tracks first, cleared ones sink to the bottom
+// Condition index 1 (failed) to 5 (sound)
+const conditionStyle = (index: number) =>
+  index <= 1 ? 'bg-red-600 text-white' : index === 2 ? 'bg-orange-600 text-white' : index === 3 ? 'bg-yellow-600 text-black' : 'bg-green-700 text-white';
+
+const formatSize = (lengthM?: number, widthM?: number) =>
+  [lengthM, widthM].filter((v): v is number => v !== undefined).map(v => v.toFixed(1)).join(' × ');
+
+const byTrackStatus = (a: Partial<TrackInfo>, b: Partial<TrackInfo>) =>
+  Number(a.status === 'CLEARED') - Number(b.status === 'CLEARED');
+
+const TrackBadge: React.FC<{ track: Partial<TrackInfo>; t: Translator }> = ({ track, t }) => {
+  if (!track.trackId || !track.status) return null;
+  return (
+    <div className="flex items-center gap-2 mt-2 text-[9px] font-mono">
+      <span className={`px-1.5 py-0.5 rounded border uppercase tracking-wider ${trackStatusStyle[track.status]}`}>{t(`track.${track.status}`)}</span>
+      <span className="text-gray-600">{track.trackId}</span>
+      <div className="flex-1 h-0.5 bg-gray-800 overflow-hidden">
+        <div className="h-full bg-hud-cyan/60" style={{ width: `${Math.round((track.confidence ?? 0) * 100)}%` }}></div>
+      </div>
+      <span className="text-gray-500">{Math.round((track.confidence ?? 0) * 100)}%</span>
+    </div>
+  );
+};
+
+// Catalog icon for coded signs, a placeholder for unmapped ones, nothing for signs saved before coding existed
+const SignGlyph: React.FC<{ sign: RoadSign; region: SignRegion; t: Translator }> = ({ sign, region, t }) => {
+  if (sign.code === undefined) return null;
+  const entry = sign.code ? getCatalogEntry(region, sign.code) : undefined;
+  if (!entry) {
+    return (
+      <div className="w-8 h-8 flex-shrink-0 rounded border border-dashed border-hud-amber/50 flex items-center justify-center" title={t('panel.unmappedHint')}>
+        <HelpCircle className="w-4 h-4 text-hud-amber" />
+      </div>
+    );
+  }
+  return <SignIcon icon={entry.icon} params={sign.params} title={`${entry.name} (${entry.code})`} />;
+};
+
+// Which backend produced the result; on-device results are highlighted since they only cover COCO classes
+const EngineBadge: React.FC<{ engine?: string; t: Translator }> = ({ engine, t }) => {
+  if (!engine) return null;
+  const onDevice = engine === ON_DEVICE_ENGINE_ID;
+  const Icon = onDevice ? Cpu : Cloud;
+  return (
+    <span
+      className={`flex items-center gap-1 px-1.5 py-0.5 rounded border font-mono text-[9px] uppercase tracking-wider ${onDevice ? 'border-hud-amber/50 text-hud-amber' : 'border-gray-700 text-gray-400'}`}
+      title={engine}
+    >
+      <Icon className="w-2.5 h-2.5" />
+      {onDevice ? t('panel.engineOnDevice') : engine}
+    </span>
+  );
+};
+
+// Multi-camera scans: which camera saw the detection
+const CameraTag: React.FC<{ camera?: string }> = ({ camera }) =>
+  camera ? (
+    <span className="flex items-center gap-1 text-[9px] font-mono px-1.5 py-0.5 rounded border border-gray-700 text-gray-400 uppercase tracking-wider">
+      <Video className="w-2.5 h-2.5" />
+      {camera}
+    </span>
+  ) : null;
+
+// Live mode: detections appear one by one until the report's summary closes it
+const IncomingReport: React.FC<{ draft: LiveDraft; t: Translator }> = ({ draft, t }) => (
+  <div className="p-4 border-b border-gray-800 bg-hud-cyan/5">
+    <h3 className="text-hud-cyan text-[10px] font-mono mb-2 uppercase tracking-widest flex items-center gap-2">
+      <span className="w-1.5 h-1.5 rounded-full bg-hud-cyan animate-ping"></span>
+      {t('live.incoming')}
+      <span className="ms-auto text-[9px] text-gray-500">{t('live.receiving')}</span>
+    </h3>
+    <div className="space-y-1 text-xs font-mono">
+      {draft.hazards.map((hazard, idx) => (
+        <div key={`h${idx}`} className="flex items-center gap-2 text-red-200 animate-in fade-in">
+          <AlertTriangle className="w-3 h-3 text-hud-red flex-shrink-0" />
+          <span className="truncate">{hazard.type}</span>
+          <span className="ms-auto text-[9px] text-gray-500">{t(`severity.${hazard.severity}`)}</span>
+        </div>
+      ))}
+      {draft.signs.map((sign, idx) => (
+        <div key={`s${idx}`} className="flex items-center gap-2 text-cyan-100 animate-in fade-in">
+          <Ban className="w-3 h-3 text-hud-cyan flex-shrink-0" />
+          <span className="truncate">{sign.type}</span>
+          {sign.code && <span className="ms-auto text-[9px] text-cyan-400/80">{sign.code}</span>}
+        </div>
+      ))}
+    </div>
+  </div>
+);
+
+const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ result, loading, tracked, draft, t }) => {
+  const incoming = draft && draft.hazards.length + draft.signs.length > 0 ? <IncomingReport draft={draft} t={t} /> : null;
+
   if (loading) {
     return (
       <div className="h-full w-full flex flex-col items-center justify-center space-y-4 p-6 bg-[#0a0a0f] text-hud-cyan">
@@ -18,8 +127,8 @@ const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ result, loading }) => {
           </div>
         </div>
         <div className="text-center">
-          <p className="font-mono text-sm tracking-[0.2em] text-hud-cyan animate-pulse">PROCESSING</p>
-          <p className="text-[10px] text-gray-500 font-mono mt-1">OBJECT DETECTION IN PROGRESS</p>
+          <p className="font-mono text-sm tracking-[0.2em] text-hud-cyan animate-pulse">{t('panel.processing')}</p>
+          <p className="text-[10px] text-gray-500 font-mono mt-1">{t('panel.processingDetail')}</p>
         </div>
         <div className="w-48 bg-gray-800 h-0.5 mt-6 overflow-hidden">
           <div className="bg-hud-cyan h-full w-1/3 animate-[shimmer_1s_infinite_linear]"></div>
@@ -28,6 +137,10 @@ const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ result, loading }) => {
     );
   }
 
+  if (!result && incoming) {
+    return <div className="h-full w-full bg-[#0a0a0f] overflow-y-auto custom-scrollbar">{incoming}</div>;
+  }
+
   if (!result) {
     return (
       <div className="h-full w-full flex flex-col items-center justify-center p-6 bg-[#0a0a0f] text-gray-500">
@@ -35,9 +148,9 @@ const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ result, loading }) => {
           <div className="w-12 h-12 border-2 border-gray-700 rounded-full flex items-center justify-center mx-auto mb-4">
              <div className="w-1 h-1 bg-gray-500 rounded-full"></div>
           </div>
-          <p className="font-mono text-sm text-gray-400">NO TELEMETRY DATA</p>
+          <p className="font-mono text-sm text-gray-400">{t('panel.noData')}</p>
           <p className="text-xs mt-2 text-gray-600">
-            Initiate visual scanning sequence to detect road conditions.
+            {t('panel.noDataHint')}
           </p>
         </div>
       </div>
@@ -53,6 +166,11 @@ const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ result, loading }) => {
     }
   };
 
+  const hazards: (Hazard & Partial<TrackInfo>)[] = tracked ? [...tracked.hazards].sort(byTrackStatus) : result.hazards;
+  const signs: (RoadSign & Partial<TrackInfo>)[] = tracked ? [...tracked.signs].sort(byTrackStatus) : result.signs;
+  const activeHazardCount = hazards.filter(h => h.status !== 'CLEARED').length;
+  const activeSignCount = signs.filter(s => s.status !== 'CLEARED').length;
+
   const SafetyIcon = {
     [SafetyLevel.SAFE]: ShieldCheck,
     [SafetyLevel.CAUTION]: ShieldAlert,
@@ -61,77 +179,160 @@ const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ result, loading }) => {
 
   return (
     <div className="h-full w-full flex flex-col bg-[#0a0a0f] overflow-y-auto custom-scrollbar">
-      
+      {incoming}
+
       {/* Top Status Bar */}
-      <div className={`p-6 border-b border-gray-800 ${getSafetyColor(result.safetyLevel)} bg-gradient-to-r from-gray-900/50 to-transparent`}>
+      <div className={`p-6 border-b border-gray-800 ${getSafetyColor(result.safetyLevel)} bg-gradient-to-r rtl:bg-gradient-to-l from-gray-900/50 to-transparent`}>
         <div className="flex items-center justify-between mb-2">
-          <h2 className="font-mono text-[10px] uppercase tracking-widest opacity-70">Safety Assessment</h2>
-          <span className="font-mono text-[10px] text-gray-400">{result.timestamp}</span>
+          <h2 className="font-mono text-[10px] uppercase tracking-widest opacity-70">{t('panel.safetyAssessment')}</h2>
+          <div className="flex items-center gap-2">
+            {result.profileId && (
+              <span className="px-1.5 py-0.5 rounded border border-gray-700 font-mono text-[9px] uppercase tracking-wider text-gray-400" title={t('app.profile')}>
+                {getProfile(result.profileId).label}
+              </span>
+            )}
+            <EngineBadge engine={result.engine} t={t} />
+            <span className="font-mono text-[10px] text-gray-400">{result.timestamp}</span>
+          </div>
         </div>
-        <div className="flex items-center space-x-4">
+        <div className="flex items-center gap-4">
             <SafetyIcon className="w-10 h-10" />
-            <span className="text-3xl font-bold font-mono tracking-tighter">{result.safetyLevel}</span>
+            <span className="text-3xl font-bold font-mono tracking-tighter">{t(`safety.${result.safetyLevel}`)}</span>
         </div>
+        {/* Per-camera verdicts; the level above is the worst of them */}
+        {result.cameras && (
+          <div className="mt-3">
+            <h3 className="font-mono text-[9px] uppercase tracking-widest opacity-60 mb-1">{t('panel.cameras')}</h3>
+            <div className="flex flex-wrap gap-2">
+              {result.cameras.map(camera => (
+                <span
+                  key={camera.camera}
+                  className={`px-2 py-0.5 rounded bg-black/40 border font-mono text-[10px] ${camera.safetyLevel ? getSafetyColor(camera.safetyLevel) : 'border-gray-700 text-gray-500'}`}
+                  title={camera.recommendation}
+                >
+                  {camera.camera} · {camera.safetyLevel ? t(`safety.${camera.safetyLevel}`) : t('panel.cameraFailed')}
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+        {/* Extra scene fields asked for by the profile, e.g. visibility at night */}
+        {result.attributes && Object.keys(result.attributes).length > 0 && (
+          <div className="flex flex-wrap gap-2 mt-3">
+            {Object.entries(result.attributes).map(([key, value]) => (
+              <span key={key} className="px-2 py-0.5 rounded bg-black/40 border border-gray-700 font-mono text-[10px] text-gray-300">
+                <span className="text-gray-500">{key}</span> {value}
+              </span>
+            ))}
+          </div>
+        )}
       </div>
 
       <div className="p-6 space-y-8">
         
         {/* Recommendation Box */}
         <div className="relative">
-          <div className="absolute -left-6 top-0 bottom-0 w-1 bg-hud-cyan"></div>
-          <h3 className="text-hud-cyan text-[10px] font-mono mb-2 uppercase tracking-widest">System Recommendation</h3>
+          <div className="absolute -start-6 top-0 bottom-0 w-1 bg-hud-cyan"></div>
+          <h3 className="text-hud-cyan text-[10px] font-mono mb-2 uppercase tracking-widest">{t('panel.recommendation')}</h3>
           <p className="text-sm font-medium leading-relaxed text-gray-200">{result.recommendation}</p>
         </div>
 
         {/* Hazards Section */}
         <div>
           <h3 className="text-hud-red text-[10px] font-mono mb-4 uppercase tracking-widest flex items-center">
-            <AlertTriangle className="w-3 h-3 mr-2" />
-            Detected Hazards <span className="ml-2 bg-hud-red/20 text-hud-red px-1.5 py-0.5 rounded text-[10px]">{result.hazards.length}</span>
+            <AlertTriangle className="w-3 h-3 me-2" />
+            {t('panel.hazards')} <span className="ms-2 bg-hud-red/20 text-hud-red px-1.5 py-0.5 rounded text-[10px]">{activeHazardCount}</span>
           </h3>
           <div className="space-y-3">
-            {result.hazards.length === 0 ? (
+            {hazards.length === 0 ? (
                <div className="p-4 border border-gray-800 rounded bg-gray-900/30 text-center">
-                  <p className="text-gray-500 text-xs italic">No immediate hazards detected.</p>
+                  <p className="text-gray-500 text-xs italic">{t('panel.noHazards')}</p>
                </div>
             ) : (
-                result.hazards.map((hazard, idx) => (
-                    <div key={idx} className="bg-red-950/10 border border-red-900/30 p-3 rounded-sm group hover:bg-red-950/20 transition-colors">
+                hazards.map((hazard, idx) => (
+                    <div key={hazard.trackId ?? idx} className={`bg-red-950/10 border border-red-900/30 p-3 rounded-sm group hover:bg-red-950/20 transition-colors ${hazard.status === 'CLEARED' ? 'opacity-40' : ''}`}>
                         <div className="flex justify-between items-start mb-2">
-                            <span className="font-bold text-sm text-red-200 font-mono">{hazard.type}</span>
+                            <span className="font-bold text-sm text-red-200 font-mono flex items-center gap-2">{hazard.type}<CameraTag camera={hazard.camera} /></span>
                             <span className={`text-[9px] font-bold px-2 py-0.5 rounded uppercase tracking-wider ${
                                 hazard.severity === 'HIGH' ? 'bg-red-600 text-white' : 
                                 hazard.severity === 'MEDIUM' ? 'bg-orange-600 text-white' : 
                                 'bg-yellow-600 text-black'
-                            }`}>{hazard.severity}</span>
+                            }`}>{t(`severity.${hazard.severity}`)}</span>
                         </div>
                         <p className="text-xs text-gray-400 leading-snug">{hazard.description}</p>
+                        <TrackBadge track={hazard} t={t} />
                     </div>
                 ))
             )}
           </div>
         </div>
 
+        {/* Surface defects, on road survey scans */}
+        {result.defects && (
+          <div>
+            <h3 className="text-hud-amber text-[10px] font-mono mb-4 uppercase tracking-widest flex items-center">
+              <Construction className="w-3 h-3 me-2" />
+              {t('panel.defects')} <span className="ms-2 bg-hud-amber/20 text-hud-amber px-1.5 py-0.5 rounded text-[10px]">{result.defects.length}</span>
+            </h3>
+            <div className="space-y-3">
+              {result.defects.length === 0 ? (
+                <div className="p-4 border border-gray-800 rounded bg-gray-900/30 text-center">
+                  <p className="text-gray-500 text-xs italic">{t('panel.noDefects')}</p>
+                </div>
+              ) : (
+                [...result.defects].sort((a, b) => a.conditionIndex - b.conditionIndex).map((defect, idx) => (
+                  <div key={idx} className="bg-amber-950/10 border border-amber-900/30 p-3 rounded-sm">
+                    <div className="flex justify-between items-start mb-2">
+                      <span className="font-bold text-sm text-amber-200 font-mono flex items-center gap-2">
+                        {t(`defect.${defect.type}`)}
+                        <CameraTag camera={defect.camera} />
+                      </span>
+                      <span className={`text-[9px] font-bold px-2 py-0.5 rounded uppercase tracking-wider ${conditionStyle(defect.conditionIndex)}`} title={t('panel.conditionIndex')}>
+                        CI {defect.conditionIndex}/5
+                      </span>
+                    </div>
+                    <p className="text-xs text-gray-400 leading-snug">{defect.description}</p>
+                    {(defect.lengthM !== undefined || defect.widthM !== undefined) && (
+                      <p className="mt-1 text-[10px] font-mono text-gray-500">~{formatSize(defect.lengthM, defect.widthM)} m</p>
+                    )}
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        )}
+
         {/* Road Signs Section */}
         <div>
            <h3 className="text-hud-cyan text-[10px] font-mono mb-4 uppercase tracking-widest flex items-center">
-            <Ban className="w-3 h-3 mr-2" />
-            Signage Analysis <span className="ml-2 bg-hud-cyan/20 text-hud-cyan px-1.5 py-0.5 rounded text-[10px]">{result.signs.length}</span>
+            <Ban className="w-3 h-3 me-2" />
+            {t('panel.signs')} <span className="ms-2 bg-hud-cyan/20 text-hud-cyan px-1.5 py-0.5 rounded text-[10px]">{activeSignCount}</span>
           </h3>
            <div className="grid grid-cols-1 gap-3">
-            {result.signs.length === 0 ? (
+            {signs.length === 0 ? (
                 <div className="p-4 border border-gray-800 rounded bg-gray-900/30 text-center">
-                    <p className="text-gray-500 text-xs italic">No traffic signs identified.</p>
+                    <p className="text-gray-500 text-xs italic">{t('panel.noSigns')}</p>
                 </div>
             ) : (
-                result.signs.map((sign, idx) => (
-                    <div key={idx} className="bg-cyan-950/10 border border-cyan-900/30 p-3 flex items-start justify-between rounded-sm group hover:bg-cyan-950/20 transition-colors">
-                         <div className="flex-1 mr-4">
-                            <div className="font-bold text-sm text-cyan-100 font-mono mb-1">{sign.type}</div>
+                signs.map((sign, idx) => (
+                    <div key={sign.trackId ?? idx} className={`bg-cyan-950/10 border border-cyan-900/30 p-3 flex items-start justify-between rounded-sm group hover:bg-cyan-950/20 transition-colors ${sign.status === 'CLEARED' ? 'opacity-40' : ''}`}>
+                         <SignGlyph sign={sign} region={result.signRegion ?? DEFAULT_SIGN_REGION} t={t} />
+                         <div className="flex-1 mx-3">
+                            <div className="font-bold text-sm text-cyan-100 font-mono mb-1 flex items-center gap-2 flex-wrap">
+                              {sign.type}
+                              {sign.code && (
+                                <span className="text-[9px] font-normal px-1.5 py-0.5 rounded border border-cyan-900/60 text-cyan-400/80">{sign.code}</span>
+                              )}
+                              {sign.code === null && (
+                                <span className="text-[9px] font-normal px-1.5 py-0.5 rounded border border-hud-amber/50 text-hud-amber uppercase tracking-wider">{t('panel.unmapped')}</span>
+                              )}
+                              <CameraTag camera={sign.camera} />
+                            </div>
                             <div className="text-xs text-cyan-400/70 leading-snug">{sign.meaning}</div>
+                            <TrackBadge track={sign} t={t} />
                          </div>
                          <div className="flex items-center text-[9px] font-mono bg-cyan-950/50 border border-cyan-900/50 px-2 py-1 text-cyan-300 rounded whitespace-nowrap">
-                            <MapPin className="w-2 h-2 mr-1" />
+                            <MapPin className="w-2 h-2 me-1" />
                             {sign.location}
                          </div>
                     </div>
@@ -140,10 +341,19 @@ const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ result, loading }) => {
            </div>
         </div>
         
-        {/* Footer info */}
-        <div className="pt-4 border-t border-gray-800 text-[10px] font-mono text-gray-600 text-center uppercase">
-          AI Vision v2.5 • Latency 12ms
-        </div>
+        {/* Model and cost of this analysis */}
+        {result.metrics && (
+          <div className="pt-4 border-t border-gray-800 text-[10px] font-mono text-gray-600 text-center">
+            {result.metrics.model ?? result.engine}
+            {result.metrics.latencyMs !== undefined && ` • ${t('hud.latency')} ${result.metrics.latencyMs}ms`}
+            {result.metrics.totalTokens !== undefined && ` • ${t('hud.tokens')} ${result.metrics.totalTokens}`}
+          </div>
+        )}
+        {result.preprocessing && result.preprocessing.steps.length > 0 && (
+          <div className="text-[9px] font-mono text-gray-600 text-center">
+            {t('hud.preprocess')}: {result.preprocessing.steps.map(describeStep).join(' → ')}
+          </div>
+        )}
 
       </div>
     </div>
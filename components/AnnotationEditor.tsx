@@ -0,0 +1,189 @@
+import React, { useState } from 'react';
+import { PenLine, Plus, Trash2, X, Save } from 'lucide-react';
+import { AnalysisResult, GroundTruth, Hazard, RoadSign, SafetyLevel } from '../types';
+import { groundTruthFromResult, normalizeGroundTruth } from '../services/datasetStore';
+import { SEVERITIES, SAFETY_LEVELS } from '../services/evaluation';
+import { Translator } from '../services/i18n';
+
+interface AnnotationEditorProps {
+  frame: string; // Data URL of the analyzed frame
+  result: AnalysisResult; // Prediction the labels start from
+  onSave: (labels: GroundTruth, note: string) => Promise<void>;
+  onClose: () => void;
+  t: Translator;
+}
+
+const inputClass = 'bg-black/40 border border-gray-700 rounded px-2 py-1 text-[11px] font-mono text-white outline-none focus:border-hud-cyan';
+
+type Selection = { kind: 'hazard' | 'sign'; index: number } | null;
+
+const AnnotationEditor: React.FC<AnnotationEditorProps> = ({ frame, result, onSave, onClose, t }) => {
+  const [labels, setLabels] = useState<GroundTruth>(() => groundTruthFromResult(result));
+  const [note, setNote] = useState('');
+  const [selected, setSelected] = useState<Selection>(null);
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const updateHazard = (index: number, patch: Partial<Hazard>) =>
+    setLabels(prev => ({ ...prev, hazards: prev.hazards.map((h, i) => (i === index ? { ...h, ...patch } : h)) }));
+  const updateSign = (index: number, patch: Partial<RoadSign>) =>
+    setLabels(prev => ({ ...prev, signs: prev.signs.map((s, i) => (i === index ? { ...s, ...patch } : s)) }));
+  const removeHazard = (index: number) => {
+    setSelected(null);
+    setLabels(prev => ({ ...prev, hazards: prev.hazards.filter((_, i) => i !== index) }));
+  };
+  const removeSign = (index: number) => {
+    setSelected(null);
+    setLabels(prev => ({ ...prev, signs: prev.signs.filter((_, i) => i !== index) }));
+  };
+
+  const save = async () => {
+    setSaving(true);
+    setSaveError(null);
+    try {
+      await onSave(normalizeGroundTruth(labels), note.trim());
+    } catch (err) {
+      setSaveError(err instanceof Error ? err.message : t('annot.saveFailed'));
+      setSaving(false);
+    }
+  };
+
+  const isSelected = (kind: 'hazard' | 'sign', index: number) => selected?.kind === kind && selected.index === index;
+  const rowClass = (kind: 'hazard' | 'sign', index: number) =>
+    `border rounded p-2 space-y-2 cursor-pointer ${isSelected(kind, index) ? 'border-hud-cyan bg-hud-cyan/5' : 'border-gray-700 bg-black/30'}`;
+
+  // Boxes come from the prediction; items added here have none and are matched by class only
+  const boxes = [
+    ...labels.hazards.map((h, index) => ({ box: h.box, kind: 'hazard' as const, index, label: h.type })),
+    ...labels.signs.map((s, index) => ({ box: s.box, kind: 'sign' as const, index, label: s.type }))
+  ].filter(item => item.box);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-5xl max-h-[90vh] flex flex-col bg-hud-dark border border-hud-border rounded-lg shadow-[0_0_40px_rgba(0,240,255,0.15)]"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-4 py-3 border-b border-hud-border">
+          <h2 className="flex items-center gap-2 font-mono text-sm uppercase tracking-widest text-hud-cyan">
+            <PenLine className="w-4 h-4" />
+            {t('annot.title')}
+          </h2>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={save}
+              disabled={saving}
+              className="flex items-center gap-1 px-2 py-1 text-[10px] font-mono uppercase border border-hud-cyan/50 text-hud-cyan rounded hover:bg-hud-cyan/10 disabled:opacity-50"
+            >
+              <Save className="w-3 h-3" /> {saving ? t('annot.saving') : t('annot.save')}
+            </button>
+            <button onClick={onClose} className="p-1 text-gray-500 hover:text-white" title={t('pre.close')}>
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        {saveError && <p className="px-4 pt-3 text-[10px] font-mono text-hud-red">{saveError}</p>}
+
+        <div className="flex-1 min-h-0 flex flex-col md:flex-row gap-4 p-4 overflow-hidden">
+          {/* Frame with label boxes */}
+          <div className="md:w-1/2 flex items-start justify-center">
+            <div className="relative inline-block">
+              <img src={frame} alt={t('annot.frameAlt')} className="block max-h-[65vh] max-w-full rounded border border-gray-800" />
+              {boxes.map(({ box, kind, index, label }) => (
+                <button
+                  key={`${kind}-${index}`}
+                  onClick={() => setSelected({ kind, index })}
+                  className={`absolute border-2 ${isSelected(kind, index) ? 'border-white' : kind === 'hazard' ? 'border-hud-red' : 'border-hud-cyan'}`}
+                  style={{
+                    left: `${box!.xMin * 100}%`,
+                    top: `${box!.yMin * 100}%`,
+                    width: `${(box!.xMax - box!.xMin) * 100}%`,
+                    height: `${(box!.yMax - box!.yMin) * 100}%`
+                  }}
+                  title={label}
+                />
+              ))}
+            </div>
+          </div>
+
+          {/* Label editor */}
+          <div className="md:w-1/2 overflow-y-auto custom-scrollbar space-y-4 pe-1">
+            <label className="flex items-center gap-3 text-[10px] font-mono uppercase tracking-widest text-gray-400">
+              {t('annot.trueLevel')}
+              <select
+                value={labels.safetyLevel}
+                onChange={e => setLabels(prev => ({ ...prev, safetyLevel: e.target.value as SafetyLevel }))}
+                className={inputClass}
+              >
+                {SAFETY_LEVELS.map(level => <option key={level} value={level}>{t(`safety.${level}`)}</option>)}
+              </select>
+              <span className="text-gray-600 normal-case tracking-normal">{t('annot.predicted', { level: t(`safety.${result.safetyLevel}`) })}</span>
+            </label>
+
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <h3 className="text-hud-red text-[10px] font-mono uppercase tracking-widest">{t('annot.hazards', { count: labels.hazards.length })}</h3>
+                <button
+                  onClick={() => setLabels(prev => ({ ...prev, hazards: [...prev.hazards, { type: '', severity: 'MEDIUM', description: '' }] }))}
+                  className="flex items-center gap-1 text-[10px] font-mono uppercase text-gray-400 hover:text-white"
+                >
+                  <Plus className="w-3 h-3" /> {t('rules.add')}
+                </button>
+              </div>
+              <div className="space-y-2">
+                {labels.hazards.map((hazard, index) => (
+                  <div key={index} className={rowClass('hazard', index)} onClick={() => setSelected({ kind: 'hazard', index })}>
+                    <div className="flex items-center gap-2">
+                      <input value={hazard.type} onChange={e => updateHazard(index, { type: e.target.value })} placeholder={t('annot.type')} className={`${inputClass} flex-1`} />
+                      <select value={hazard.severity} onChange={e => updateHazard(index, { severity: e.target.value as Hazard['severity'] })} className={inputClass}>
+                        {SEVERITIES.map(severity => <option key={severity} value={severity}>{t(`severity.${severity}`)}</option>)}
+                      </select>
+                      <button onClick={() => removeHazard(index)} className="p-1 text-gray-500 hover:text-hud-red" title={t('annot.remove')}>
+                        <Trash2 className="w-3 h-3" />
+                      </button>
+                    </div>
+                    <input value={hazard.description} onChange={e => updateHazard(index, { description: e.target.value })} placeholder={t('annot.description')} className={`${inputClass} w-full`} />
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <h3 className="text-hud-cyan text-[10px] font-mono uppercase tracking-widest">{t('annot.signs', { count: labels.signs.length })}</h3>
+                <button
+                  onClick={() => setLabels(prev => ({ ...prev, signs: [...prev.signs, { type: '', meaning: '', location: '' }] }))}
+                  className="flex items-center gap-1 text-[10px] font-mono uppercase text-gray-400 hover:text-white"
+                >
+                  <Plus className="w-3 h-3" /> {t('rules.add')}
+                </button>
+              </div>
+              <div className="space-y-2">
+                {labels.signs.map((sign, index) => (
+                  <div key={index} className={rowClass('sign', index)} onClick={() => setSelected({ kind: 'sign', index })}>
+                    <div className="flex items-center gap-2">
+                      <input value={sign.type} onChange={e => updateSign(index, { type: e.target.value })} placeholder={t('annot.type')} className={`${inputClass} flex-1`} />
+                      <input value={sign.location} onChange={e => updateSign(index, { location: e.target.value })} placeholder={t('annot.location')} className={`${inputClass} w-28`} />
+                      <button onClick={() => removeSign(index)} className="p-1 text-gray-500 hover:text-hud-red" title={t('annot.remove')}>
+                        <Trash2 className="w-3 h-3" />
+                      </button>
+                    </div>
+                    <input value={sign.meaning} onChange={e => updateSign(index, { meaning: e.target.value })} placeholder={t('annot.meaning')} className={`${inputClass} w-full`} />
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <label className="flex flex-col gap-1 text-[9px] font-mono uppercase tracking-widest text-gray-500">
+              {t('annot.note')}
+              <input value={note} onChange={e => setNote(e.target.value)} placeholder={t('annot.notePlaceholder')} className={inputClass} />
+            </label>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AnnotationEditor;
@@ -0,0 +1,50 @@
+import React, { useEffect, useRef } from 'react';
+import { AnalysisResult, CameraAssessment, SafetyLevel } from '../types';
+import { CameraFeed, resultForCamera } from '../services/cameraRig';
+import { Translator } from '../services/i18n';
+import DetectionOverlay from './DetectionOverlay';
+
+interface CameraPaneProps {
+  feed: CameraFeed;
+  result: AnalysisResult | null; // Merged result; the pane draws only this camera's detections
+  assessment?: CameraAssessment;
+  onVideo: (deviceId: string, video: HTMLVideoElement | null) => void; // Lets the app capture frames from every pane
+  t: Translator;
+}
+
+const LEVEL_CLASS: Record<SafetyLevel, string> = {
+  [SafetyLevel.SAFE]: 'border-hud-green/60 text-hud-green',
+  [SafetyLevel.CAUTION]: 'border-hud-amber/60 text-hud-amber',
+  [SafetyLevel.DANGER]: 'border-hud-red/60 text-hud-red'
+};
+
+// One tile of the multi-camera grid
+const CameraPane: React.FC<CameraPaneProps> = ({ feed, result, assessment, onVideo, t }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.srcObject = feed.stream;
+    video.play().catch(e => console.error("Video play error:", e));
+    onVideo(feed.deviceId, video);
+    return () => onVideo(feed.deviceId, null);
+  }, [feed, onVideo]);
+
+  return (
+    <div className="relative w-full h-full min-h-0 rounded-lg overflow-hidden border border-gray-800 bg-black/50">
+      <video ref={videoRef} autoPlay playsInline muted className="w-full h-full object-contain" />
+      <DetectionOverlay result={result ? resultForCamera(result, feed.label) : null} mediaRef={videoRef} />
+      <div className="absolute top-2 start-2 z-10 flex items-center gap-2">
+        <span className="px-2 py-0.5 rounded bg-black/70 font-mono text-[10px] uppercase tracking-wider text-white">{feed.label}</span>
+        {assessment && (
+          <span className={`px-2 py-0.5 rounded bg-black/70 border font-mono text-[10px] ${assessment.safetyLevel ? LEVEL_CLASS[assessment.safetyLevel] : 'border-gray-700 text-gray-500'}`}>
+            {assessment.safetyLevel ? t(`safety.${assessment.safetyLevel}`) : t('panel.cameraFailed')}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CameraPane;
@@ -0,0 +1,90 @@
+import React, { useEffect, useState } from 'react';
+import { Video, X, RefreshCw } from 'lucide-react';
+import { CameraDevice, CameraFeed, listCameras } from '../services/cameraRig';
+import { Translator } from '../services/i18n';
+
+interface CameraSetupProps {
+  feeds: CameraFeed[];
+  onToggle: (device: CameraDevice) => Promise<void>; // Opens the camera, or closes it when already active
+  onClose: () => void;
+  t: Translator;
+}
+
+const CameraSetup: React.FC<CameraSetupProps> = ({ feeds, onToggle, onClose, t }) => {
+  const [devices, setDevices] = useState<CameraDevice[]>([]);
+  const [pending, setPending] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const refresh = () => {
+    listCameras()
+      .then(setDevices)
+      .catch(err => setMessage(t('cams.listFailed', { error: err.message })));
+  };
+
+  useEffect(refresh, []);
+
+  const toggle = async (device: CameraDevice) => {
+    setPending(device.deviceId);
+    setMessage(null);
+    try {
+      await onToggle(device);
+    } catch (err) {
+      setMessage(`${device.label}: ${err instanceof Error ? err.message : t('cams.openFailed')}`);
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const isActive = (device: CameraDevice) => feeds.some(feed => feed.deviceId === device.deviceId);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-md flex flex-col bg-hud-dark border border-hud-border rounded-lg shadow-[0_0_40px_rgba(0,240,255,0.15)]"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-4 py-3 border-b border-hud-border">
+          <h2 className="flex items-center gap-2 font-mono text-sm uppercase tracking-widest text-hud-cyan">
+            <Video className="w-4 h-4" />
+            {t('panel.cameras')}
+          </h2>
+          <div className="flex items-center gap-2">
+            <button onClick={refresh} className="p-1 text-gray-500 hover:text-white" title={t('cams.rescan')}>
+              <RefreshCw className="w-4 h-4" />
+            </button>
+            <button onClick={onClose} className="p-1 text-gray-500 hover:text-white" title={t('pre.close')}>
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-4 space-y-2">
+          {devices.length === 0 && <p className="text-[11px] font-mono text-gray-500">{t('cams.none')}</p>}
+          {devices.map(device => (
+            <label
+              key={device.deviceId}
+              className={`flex items-center gap-3 px-3 py-2 rounded border cursor-pointer ${isActive(device) ? 'border-hud-cyan/50 bg-hud-cyan/5 text-white' : 'border-gray-700 text-gray-400'}`}
+            >
+              <input
+                type="checkbox"
+                checked={isActive(device)}
+                // The last open camera stays; reset to leave camera mode
+                disabled={pending !== null || (isActive(device) && feeds.length === 1)}
+                onChange={() => toggle(device)}
+                className="accent-hud-cyan"
+              />
+              <span className="flex-1 font-mono text-xs">{device.label}</span>
+              {pending === device.deviceId && <span className="text-[10px] font-mono text-hud-cyan animate-pulse">…</span>}
+            </label>
+          ))}
+          {message && <p className="text-[10px] font-mono text-hud-red">{message}</p>}
+          <p className="pt-2 text-[10px] font-mono text-gray-600">
+            {t('cams.hint')}
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CameraSetup;
@@ -0,0 +1,51 @@
+import React from 'react';
+import { Layers } from 'lucide-react';
+import { Translator } from '../services/i18n';
+
+interface ChangeDetectionHudProps {
+  threshold: number; // 0 disables skipping
+  sent: number;
+  skipped: number;
+  lastDifference: number | null;
+  onThresholdChange: (value: number) => void;
+  t: Translator;
+}
+
+const ChangeDetectionHud: React.FC<ChangeDetectionHudProps> = ({ threshold, sent, skipped, lastDifference, onThresholdChange, t }) => {
+  const total = sent + skipped;
+  const savedPercent = total > 0 ? Math.round((skipped / total) * 100) : 0;
+
+  return (
+    <div className="absolute bottom-4 end-4 z-30 bg-black/70 border border-gray-800 rounded px-3 py-2 font-mono text-[9px] text-gray-400 space-y-1 backdrop-blur-sm min-w-[180px]">
+      <div className="flex items-center justify-between gap-4">
+        <span className="flex items-center gap-1.5 text-gray-300 uppercase tracking-widest">
+          <Layers className="w-3 h-3" />
+          {t('hud.changeGate')}
+        </span>
+        <span className="text-hud-green">{t('hud.saved', { percent: savedPercent })}</span>
+      </div>
+      <div className="flex justify-between"><span>{t('hud.sentSkipped')}</span><span className="text-white">{sent} / {skipped}</span></div>
+      <div className="flex justify-between">
+        <span>{t('hud.lastDiff')}</span>
+        <span className={lastDifference !== null && lastDifference < threshold ? 'text-gray-500' : 'text-white'}>
+          {lastDifference === null ? '--' : `${(lastDifference * 100).toFixed(1)}%`}
+        </span>
+      </div>
+      <label className="flex items-center justify-between gap-2">
+        <span>{t('hud.threshold')}</span>
+        <input
+          type="range"
+          min={0}
+          max={0.2}
+          step={0.005}
+          value={threshold}
+          onChange={e => onThresholdChange(Number(e.target.value))}
+          className="w-20 accent-cyan-400"
+        />
+        <span className="text-white w-8 text-end">{threshold === 0 ? t('hud.off') : `${(threshold * 100).toFixed(1)}%`}</span>
+      </label>
+    </div>
+  );
+};
+
+export default ChangeDetectionHud;
@@ -0,0 +1,120 @@
+import React, { useEffect, useRef, useCallback } from 'react';
+import { AnalysisResult, BoundingBox, Hazard } from '../types';
+import { SURFACE_DEFECT_TYPES } from '../services/roadSurvey';
+import { toSourceBox } from '../services/preprocessing';
+
+interface DetectionOverlayProps {
+  result: AnalysisResult | null;
+  mediaRef: React.RefObject<HTMLVideoElement | HTMLImageElement | null>;
+}
+
+const SEVERITY_COLORS: Record<Hazard['severity'], string> = {
+  HIGH: '#ff2a2a',
+  MEDIUM: '#ff7a1a',
+  LOW: '#ffd500'
+};
+const SIGN_COLOR = '#00f0ff';
+// Survey defects by condition index, 1 (failed) to 5 (sound)
+const conditionColor = (index: number) => (index <= 2 ? '#ff2a2a' : index === 3 ? '#ff7a1a' : '#ffd500');
+
+// The media uses object-contain, so the frame is letterboxed inside the element.
+// Returns the rectangle (in CSS pixels) that the frame actually occupies.
+const getContentRect = (media: HTMLVideoElement | HTMLImageElement) => {
+  const width = media.clientWidth;
+  const height = media.clientHeight;
+  const intrinsicWidth = media instanceof HTMLVideoElement ? media.videoWidth : media.naturalWidth;
+  const intrinsicHeight = media instanceof HTMLVideoElement ? media.videoHeight : media.naturalHeight;
+
+  if (!intrinsicWidth || !intrinsicHeight) return null;
+
+  const scale = Math.min(width / intrinsicWidth, height / intrinsicHeight);
+  const contentWidth = intrinsicWidth * scale;
+  const contentHeight = intrinsicHeight * scale;
+  return {
+    x: (width - contentWidth) / 2,
+    y: (height - contentHeight) / 2,
+    width: contentWidth,
+    height: contentHeight
+  };
+};
+
+const DetectionOverlay: React.FC<DetectionOverlayProps> = ({ result, mediaRef }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  const draw = useCallback(() => {
+    const canvas = canvasRef.current;
+    const media = mediaRef.current;
+    if (!canvas || !media) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = Math.round(media.clientWidth * dpr);
+    canvas.height = Math.round(media.clientHeight * dpr);
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, media.clientWidth, media.clientHeight);
+
+    const rect = getContentRect(media);
+    if (!result || !rect) return;
+
+    // Boxes are relative to the frame that was sent; a cropped frame is only part of the media
+    const region = result.preprocessing?.region;
+    const drawBox = (frameBox: BoundingBox, color: string, label: string) => {
+      const box = toSourceBox(frameBox, region);
+      const x = rect.x + box.xMin * rect.width;
+      const y = rect.y + box.yMin * rect.height;
+      const w = (box.xMax - box.xMin) * rect.width;
+      const h = (box.yMax - box.yMin) * rect.height;
+
+      ctx.strokeStyle = color;
+      ctx.lineWidth = 2;
+      ctx.shadowColor = color;
+      ctx.shadowBlur = 8;
+      ctx.strokeRect(x, y, w, h);
+      ctx.shadowBlur = 0;
+
+      ctx.font = 'bold 10px "JetBrains Mono", monospace';
+      const textWidth = ctx.measureText(label).width;
+      // Keep the label inside the frame when the box touches the top edge
+      const labelY = y - 14 < rect.y ? y : y - 14;
+      ctx.fillStyle = color;
+      ctx.fillRect(x, labelY, textWidth + 8, 14);
+      ctx.fillStyle = '#000';
+      ctx.fillText(label, x + 4, labelY + 10);
+    };
+
+    result.signs.forEach(sign => {
+      if (sign.box) drawBox(sign.box, SIGN_COLOR, sign.type.toUpperCase());
+    });
+    result.defects?.forEach(defect => {
+      if (defect.box) drawBox(defect.box, conditionColor(defect.conditionIndex), `${SURFACE_DEFECT_TYPES[defect.type].label.toUpperCase()} · CI ${defect.conditionIndex}`);
+    });
+    result.hazards.forEach(hazard => {
+      if (hazard.box) drawBox(hazard.box, SEVERITY_COLORS[hazard.severity] ?? SEVERITY_COLORS.LOW, `${hazard.type.toUpperCase()} · ${hazard.severity}`);
+    });
+  }, [result, mediaRef]);
+
+  useEffect(() => {
+    draw();
+
+    const media = mediaRef.current;
+    if (!media) return;
+
+    // Redraw when the element is resized or the media reports its intrinsic size
+    const observer = new ResizeObserver(() => draw());
+    observer.observe(media);
+    media.addEventListener('loadedmetadata', draw);
+    media.addEventListener('load', draw);
+
+    return () => {
+      observer.disconnect();
+      media.removeEventListener('loadedmetadata', draw);
+      media.removeEventListener('load', draw);
+    };
+  }, [draw, mediaRef]);
+
+  return <canvas ref={canvasRef} className="absolute inset-0 w-full h-full pointer-events-none z-[5]" />;
+};
+
+export default DetectionOverlay;
@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { Activity, ChevronDown, ChevronUp, RotateCcw } from 'lucide-react';
+import { Percentiles, TelemetrySnapshot } from '../services/telemetry';
+import { Translator } from '../services/i18n';
+
+interface DiagnosticsHudProps {
+  snapshot: TelemetrySnapshot;
+  onReset: () => void;
+  t: Translator;
+}
+
+const formatMs = (ms: number) => (ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${Math.round(ms)}ms`);
+const formatBytes = (bytes: number) => (bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)}MB` : `${Math.round(bytes / 1024)}KB`);
+const formatCount = (n: number) => String(Math.round(n));
+
+const Row: React.FC<{ label: string; value: Percentiles | null; format: (n: number) => string }> = ({ label, value, format }) => (
+  <tr>
+    <td className="pe-3">{label}</td>
+    {value ? (
+      <>
+        <td className="text-end text-white">{format(value.p50)}</td>
+        <td className="text-end text-white">{format(value.p90)}</td>
+        <td className="text-end text-white">{format(value.p99)}</td>
+      </>
+    ) : (
+      <td colSpan={3} className="text-end text-gray-600">--</td>
+    )}
+  </tr>
+);
+
+// Rolling percentiles of the recent analyses; collapsed it only shows the median latency
+const DiagnosticsHud: React.FC<DiagnosticsHudProps> = ({ snapshot, onReset, t }) => {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className="absolute top-20 end-4 z-30 bg-black/70 border border-gray-800 rounded px-3 py-2 font-mono text-[9px] text-gray-400 backdrop-blur-sm min-w-[180px]">
+      <button onClick={() => setOpen(!open)} className="w-full flex items-center justify-between gap-4 hover:text-white">
+        <span className="flex items-center gap-1.5 text-gray-300 uppercase tracking-widest">
+          <Activity className="w-3 h-3" />
+          {t('hud.diagnostics')}
+        </span>
+        <span className="flex items-center gap-1">
+          {snapshot.latencyMs && <span className="text-white">p50 {formatMs(snapshot.latencyMs.p50)}</span>}
+          {open ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+        </span>
+      </button>
+
+      {open && (
+        <div className="mt-2 space-y-2">
+          <table className="w-full">
+            <thead className="text-gray-600">
+              <tr>
+                <th className="text-start font-normal">n={snapshot.samples}</th>
+                <th className="text-end font-normal">p50</th>
+                <th className="text-end font-normal">p90</th>
+                <th className="text-end font-normal">p99</th>
+              </tr>
+            </thead>
+            <tbody>
+              <Row label={t('hud.latency')} value={snapshot.latencyMs} format={formatMs} />
+              <Row label={t('hud.capture')} value={snapshot.captureMs} format={formatMs} />
+              <Row label={t('hud.frameSize')} value={snapshot.frameBytes} format={formatBytes} />
+              <Row label={t('hud.tokensIn')} value={snapshot.promptTokens} format={formatCount} />
+              <Row label={t('hud.tokensOut')} value={snapshot.outputTokens} format={formatCount} />
+            </tbody>
+          </table>
+
+          <div className="flex justify-between"><span>{t('hud.tokens')}</span><span className="text-white">{snapshot.sessionTokens}</span></div>
+          <div className="flex justify-between">
+            <span>{t('hud.errors')}</span>
+            <span className={snapshot.errors > 0 ? 'text-hud-red' : 'text-white'}>
+              {snapshot.errors}
+              {snapshot.errorRate !== null && ` (${Math.round(snapshot.errorRate * 100)}%)`}
+              {Object.entries(snapshot.errorsByKind).map(([kind, count]) => ` · ${kind} ${count}`).join('')}
+            </span>
+          </div>
+          {snapshot.lastError && (
+            <p className="text-hud-red/80 break-words max-w-[240px]" title={new Date(snapshot.lastError.at).toLocaleTimeString()}>
+              {snapshot.lastError.message}
+            </p>
+          )}
+          <div className="flex items-center justify-between pt-1 border-t border-gray-800">
+            <span className="text-gray-500 truncate max-w-[160px]">{snapshot.lastModel ?? '--'}</span>
+            <button onClick={onReset} className="p-0.5 text-gray-500 hover:text-white" title="Reset">
+              <RotateCcw className="w-3 h-3" />
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DiagnosticsHud;
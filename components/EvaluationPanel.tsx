@@ -0,0 +1,329 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FlaskConical, X, Download, Upload, Trash2, Play, Square } from 'lucide-react';
+import { LabeledFrame } from '../types';
+import { listProviders, getProvider } from '../services/providerRegistry';
+import { loadDataset, deleteLabeledFrame, clearDataset, saveLabeledFrame, exportDatasetJson, importDatasetJson } from '../services/datasetStore';
+import { evaluateDataset, loadEvaluationRuns, saveEvaluationRuns, EvaluationReport, ConfusionMatrix, SEVERITIES, SAFETY_LEVELS } from '../services/evaluation';
+import { isAbortError } from '../services/concurrency';
+import { ANALYSIS_PROFILES, getProfile } from '../services/analysisProfiles';
+import { downloadFile } from '../services/sessionExport';
+import { Translator } from '../services/i18n';
+
+interface EvaluationPanelProps {
+  defaultProviderId: string;
+  defaultProfileId: string;
+  language: string;
+  onClose: () => void;
+  t: Translator;
+}
+
+const buttonClass = 'flex items-center gap-1 px-2 py-1 text-[10px] font-mono uppercase border border-gray-700 text-gray-400 rounded hover:text-white hover:border-white disabled:opacity-40';
+
+const percent = (value: number | null) => (value === null ? '—' : `${Math.round(value * 100)}%`);
+
+const Matrix = <K extends string>({ title, matrix, keys, label, t }: { title: string; matrix: ConfusionMatrix<K>; keys: K[]; label: (key: K) => string; t: Translator }) => (
+  <div>
+    <h4 className="text-[9px] font-mono uppercase tracking-widest text-gray-500 mb-1">{title}</h4>
+    <table className="text-[10px] font-mono">
+      <thead>
+        <tr>
+          <th className="px-2 py-1 text-gray-600 text-start">{t('eval.labelVsPred')}</th>
+          {keys.map(key => <th key={key} className="px-2 py-1 text-gray-400">{label(key)}</th>)}
+        </tr>
+      </thead>
+      <tbody>
+        {keys.map(row => (
+          <tr key={row}>
+            <td className="px-2 py-1 text-gray-400">{label(row)}</td>
+            {keys.map(col => (
+              <td key={col} className={`px-2 py-1 text-center ${row === col ? 'text-hud-green' : matrix[row][col] ? 'text-hud-amber' : 'text-gray-700'}`}>
+                {matrix[row][col]}
+              </td>
+            ))}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+const ReportView: React.FC<{ report: EvaluationReport; t: Translator }> = ({ report, t }) => (
+  <div className="space-y-4">
+    <div className="grid grid-cols-2 sm:grid-cols-6 gap-2 text-center font-mono">
+      {[
+        [t('eval.hazardPR'), `${percent(report.hazards.precision)} / ${percent(report.hazards.recall)}`],
+        [t('eval.signPR'), `${percent(report.signs.precision)} / ${percent(report.signs.recall)}`],
+        [t('eval.safetyAgreement'), percent(report.safetyAgreement)],
+        [t('eval.failedFrames'), `${report.failed} / ${report.frames}`],
+        [t('eval.fellBack'), `${report.fellBack} / ${report.frames}`],
+        [t('eval.meanLatency'), report.meanLatencyMs === null ? '—' : `${Math.round(report.meanLatencyMs)} ms`]
+      ].map(([label, value]) => (
+        <div key={label} className="border border-gray-800 rounded p-2 bg-black/30">
+          <div className="text-[9px] uppercase tracking-widest text-gray-500">{label}</div>
+          <div className="text-sm text-white">{value}</div>
+        </div>
+      ))}
+    </div>
+
+    <table className="w-full text-[10px] font-mono">
+      <thead className="text-gray-500 uppercase tracking-widest">
+        <tr>
+          <th className="text-start py-1">{t('eval.class')}</th>
+          <th>TP</th>
+          <th>FP</th>
+          <th>FN</th>
+          <th>{t('eval.precision')}</th>
+          <th>{t('eval.recall')}</th>
+        </tr>
+      </thead>
+      <tbody>
+        {report.classes.map(c => (
+          <tr key={`${c.kind}-${c.name}`} className="border-t border-gray-800 text-center">
+            <td className={`text-start py-1 ${c.kind === 'hazard' ? 'text-red-200' : 'text-cyan-100'}`}>{c.name}</td>
+            <td className="text-hud-green">{c.tp}</td>
+            <td className={c.fp ? 'text-hud-amber' : 'text-gray-600'}>{c.fp}</td>
+            <td className={c.fn ? 'text-hud-red' : 'text-gray-600'}>{c.fn}</td>
+            <td>{percent(c.precision)}</td>
+            <td>{percent(c.recall)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+
+    <div className="flex flex-wrap gap-6">
+      <Matrix title={t('eval.severityMatrix')} matrix={report.severityConfusion} keys={SEVERITIES} label={key => t(`severity.${key}`)} t={t} />
+      <Matrix title={t('eval.safetyMatrix')} matrix={report.safetyConfusion} keys={SAFETY_LEVELS} label={key => t(`safety.${key}`)} t={t} />
+    </div>
+  </div>
+);
+
+const EvaluationPanel: React.FC<EvaluationPanelProps> = ({ defaultProviderId, defaultProfileId, language, onClose, t }) => {
+  const [frames, setFrames] = useState<LabeledFrame[]>([]);
+  const [runs, setRuns] = useState<EvaluationReport[]>(loadEvaluationRuns);
+  const [selectedRunId, setSelectedRunId] = useState<string | null>(runs[0]?.id ?? null);
+  const [providerId, setProviderId] = useState(defaultProviderId);
+  const [profileId, setProfileId] = useState(defaultProfileId);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const abort = useRef<AbortController | null>(null);
+  const importInput = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    loadDataset().then(setFrames).catch(err => setMessage(t('eval.loadFailed', { error: err.message })));
+    return () => abort.current?.abort();
+  }, []);
+
+  const run = async () => {
+    const controller = new AbortController();
+    abort.current = controller;
+    setMessage(null);
+    try {
+      const report = await evaluateDataset(frames, getProvider(providerId), {
+        language,
+        profileId,
+        signal: controller.signal,
+        onProgress: (done, total) => setProgress({ done, total })
+      });
+      setRuns(prev => saveEvaluationRuns([report, ...prev]));
+      setSelectedRunId(report.id);
+    } catch (err) {
+      if (!isAbortError(err)) setMessage(t('eval.failed', { error: err instanceof Error ? err.message : String(err) }));
+    } finally {
+      abort.current = null;
+      setProgress(null);
+    }
+  };
+
+  const removeFrame = async (id: string) => {
+    try {
+      await deleteLabeledFrame(id);
+      setFrames(prev => prev.filter(f => f.id !== id));
+    } catch (err) {
+      setMessage(t('eval.deleteFailed', { error: err instanceof Error ? err.message : String(err) }));
+    }
+  };
+
+  const clearAll = async () => {
+    if (!window.confirm(t('eval.confirmClear', { count: frames.length }))) return;
+    try {
+      await clearDataset();
+      setFrames([]);
+    } catch (err) {
+      setMessage(t('eval.deleteFailed', { error: err instanceof Error ? err.message : String(err) }));
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const imported = importDatasetJson(await file.text());
+      // Sequential: one transaction at a time keeps memory flat for large datasets
+      for (const frame of imported) await saveLabeledFrame(frame);
+      setFrames(await loadDataset());
+      setMessage(t('eval.imported', { count: imported.length }));
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : t('eval.importFailed'));
+    }
+  };
+
+  const selectedRun = runs.find(r => r.id === selectedRunId) ?? null;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-5xl max-h-[90vh] flex flex-col bg-hud-dark border border-hud-border rounded-lg shadow-[0_0_40px_rgba(0,240,255,0.15)]"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-4 py-3 border-b border-hud-border">
+          <h2 className="flex items-center gap-2 font-mono text-sm uppercase tracking-widest text-hud-cyan">
+            <FlaskConical className="w-4 h-4" />
+            {t('app.evaluate')}
+            <span className="text-[10px] text-gray-500">{t('eval.frames', { count: frames.length })}</span>
+          </h2>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => downloadFile(`nexvue-dataset-${new Date().toISOString().slice(0, 10)}.json`, exportDatasetJson(frames), 'application/json')}
+              disabled={frames.length === 0}
+              className={buttonClass}
+            >
+              <Download className="w-3 h-3" /> {t('eval.export')}
+            </button>
+            <button onClick={() => importInput.current?.click()} className={buttonClass}>
+              <Upload className="w-3 h-3" /> {t('eval.import')}
+            </button>
+            <button onClick={clearAll} disabled={frames.length === 0 || progress !== null} className={buttonClass}>
+              <Trash2 className="w-3 h-3" /> {t('reg.clear')}
+            </button>
+            <button onClick={onClose} className="p-1 text-gray-500 hover:text-white" title={t('pre.close')}>
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-4">
+          {message && <p className="text-[10px] font-mono text-hud-amber">{message}</p>}
+
+          {/* Labeled frames */}
+          {frames.length === 0 ? (
+            <div className="text-center text-xs font-mono text-gray-600 py-6">
+              {t('eval.empty')}
+            </div>
+          ) : (
+            <div className="flex gap-2 overflow-x-auto custom-scrollbar pb-1">
+              {frames.map(frame => (
+                <div key={frame.id} className="relative group flex-shrink-0 w-28" title={frame.note || undefined}>
+                  <img src={frame.frame} alt="" className="w-28 h-16 object-cover rounded border border-gray-800" />
+                  <div className="text-[9px] font-mono text-gray-500 mt-0.5">
+                    {t(`safety.${frame.labels.safetyLevel}`)} · {frame.labels.hazards.length}H {frame.labels.signs.length}S
+                  </div>
+                  <button
+                    onClick={() => removeFrame(frame.id)}
+                    disabled={progress !== null}
+                    className="absolute top-1 end-1 p-0.5 rounded bg-black/70 text-gray-400 hover:text-hud-red opacity-0 group-hover:opacity-100"
+                    title={t('eval.removeFrame')}
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Runner */}
+          <div className="flex flex-wrap items-center gap-3 border-t border-gray-800 pt-4">
+            <select
+              value={providerId}
+              onChange={e => setProviderId(e.target.value)}
+              disabled={progress !== null}
+              className="bg-black/40 border border-gray-700 rounded px-2 py-1 text-[11px] font-mono text-white outline-none"
+            >
+              {listProviders().map(provider => <option key={provider.id} value={provider.id}>{provider.label}</option>)}
+            </select>
+            <select
+              value={profileId}
+              onChange={e => setProfileId(e.target.value)}
+              disabled={progress !== null}
+              className="bg-black/40 border border-gray-700 rounded px-2 py-1 text-[11px] font-mono text-white outline-none"
+            >
+              {ANALYSIS_PROFILES.map(profile => <option key={profile.id} value={profile.id}>{profile.label}</option>)}
+            </select>
+            {progress ? (
+              <>
+                <button onClick={() => abort.current?.abort()} className={buttonClass}>
+                  <Square className="w-3 h-3" /> {t('eval.cancel')}
+                </button>
+                <span className="text-[10px] font-mono text-hud-cyan">{progress.done} / {progress.total}</span>
+              </>
+            ) : (
+              <button
+                onClick={run}
+                disabled={frames.length === 0}
+                className="flex items-center gap-1 px-2 py-1 text-[10px] font-mono uppercase border border-hud-cyan/50 text-hud-cyan rounded hover:bg-hud-cyan/10 disabled:opacity-40"
+              >
+                <Play className="w-3 h-3" /> {t('eval.run')}
+              </button>
+            )}
+          </div>
+
+          {/* Run comparison */}
+          {runs.length > 0 && (
+            <table className="w-full text-[10px] font-mono">
+              <thead className="text-gray-500 uppercase tracking-widest">
+                <tr>
+                  <th className="text-start py-1">{t('eval.runColumn')}</th>
+                  <th>{t('eval.framesColumn')}</th>
+                  <th>{t('eval.hazardPR')}</th>
+                  <th>{t('eval.signPR')}</th>
+                  <th>{t('eval.safetyColumn')}</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {runs.map(r => (
+                  <tr
+                    key={r.id}
+                    onClick={() => setSelectedRunId(r.id)}
+                    className={`border-t border-gray-800 text-center cursor-pointer ${r.id === selectedRunId ? 'text-hud-cyan bg-hud-cyan/5' : 'text-gray-300 hover:bg-white/5'}`}
+                  >
+                    <td className="text-start py-1">{r.providerLabel} · {getProfile(r.profileId).label} · {new Date(r.startedAt).toLocaleString()}</td>
+                    <td title={r.fellBack ? t('eval.fellBackHint', { count: r.fellBack }) : undefined}>{r.frames - r.failed - r.fellBack}/{r.frames}</td>
+                    <td>{percent(r.hazards.precision)} / {percent(r.hazards.recall)}</td>
+                    <td>{percent(r.signs.precision)} / {percent(r.signs.recall)}</td>
+                    <td>{percent(r.safetyAgreement)}</td>
+                    <td>
+                      <button
+                        onClick={e => {
+                          e.stopPropagation();
+                          setRuns(prev => saveEvaluationRuns(prev.filter(other => other.id !== r.id)));
+                        }}
+                        className="p-0.5 text-gray-600 hover:text-hud-red"
+                        title={t('eval.deleteRun')}
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {selectedRun && <ReportView report={selectedRun} t={t} />}
+        </div>
+
+        <input
+          ref={importInput}
+          type="file"
+          accept=".json,application/json"
+          onChange={e => {
+            const file = e.target.files?.[0];
+            if (file) handleImport(file);
+            e.target.value = '';
+          }}
+          className="hidden"
+        />
+      </div>
+    </div>
+  );
+};
+
+export default EvaluationPanel;
@@ -0,0 +1,171 @@
+import React, { useMemo, useState } from 'react';
+import { AnalysisResult, GeoTag, Hazard } from '../types';
+import { collectGeoHazards, clusterHazards } from '../services/hazardClustering';
+import { Map as MapIcon, Navigation } from 'lucide-react';
+import { Translator } from '../services/i18n';
+
+interface HazardMapProps {
+  analyses: { id: string; result: AnalysisResult }[];
+  currentPosition: GeoTag | null;
+  onSelect: (analysisId: string) => void;
+  t: Translator;
+}
+
+const VIEW_SIZE = 360;
+const PADDING = 28;
+const METERS_PER_DEG_LAT = 110574;
+const METERS_PER_DEG_LON_EQUATOR = 111320;
+const GRID_STEPS = [10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000, 25000];
+
+const SEVERITY_FILL: Record<Hazard['severity'], string> = {
+  HIGH: '#ff2a2a',
+  MEDIUM: '#ff7a1a',
+  LOW: '#ffd500'
+};
+
+const formatDistance = (meters: number) => (meters >= 1000 ? `${meters / 1000} km` : `${meters} m`);
+
+// No map tiles: positions are projected onto a local metric grid (equirectangular
+// around the data's centre latitude), which is accurate enough at street scale.
+const HazardMap: React.FC<HazardMapProps> = ({ analyses, currentPosition, onSelect, t }) => {
+  const [selectedCluster, setSelectedCluster] = useState<number | null>(null);
+
+  const clusters = useMemo(() => clusterHazards(collectGeoHazards(analyses)), [analyses]);
+  const path = useMemo(
+    () => analyses
+      .filter(a => a.result.geo)
+      .sort((a, b) => a.result.capturedAt.localeCompare(b.result.capturedAt))
+      .map(a => a.result.geo!),
+    [analyses]
+  );
+
+  const projection = useMemo(() => {
+    const points = [...path, ...clusters.map(c => c.center), ...(currentPosition ? [currentPosition] : [])];
+    if (points.length === 0) return null;
+
+    const lats = points.map(p => p.latitude);
+    const lons = points.map(p => p.longitude);
+    const minLat = Math.min(...lats);
+    const maxLat = Math.max(...lats);
+    const minLon = Math.min(...lons);
+    const maxLon = Math.max(...lons);
+    const metersPerDegLon = METERS_PER_DEG_LON_EQUATOR * Math.cos((((minLat + maxLat) / 2) * Math.PI) / 180);
+
+    // Never zoom in further than a 100 m span so a single point still has context
+    const spanX = Math.max(100, (maxLon - minLon) * metersPerDegLon);
+    const spanY = Math.max(100, (maxLat - minLat) * METERS_PER_DEG_LAT);
+    const pxPerMeter = (VIEW_SIZE - 2 * PADDING) / Math.max(spanX, spanY);
+    const centerLat = (minLat + maxLat) / 2;
+    const centerLon = (minLon + maxLon) / 2;
+
+    const gridMeters = GRID_STEPS.find(step => step * pxPerMeter >= 40) ?? GRID_STEPS[GRID_STEPS.length - 1];
+
+    return {
+      gridPx: gridMeters * pxPerMeter,
+      gridMeters,
+      project: (geo: GeoTag) => ({
+        x: VIEW_SIZE / 2 + (geo.longitude - centerLon) * metersPerDegLon * pxPerMeter,
+        y: VIEW_SIZE / 2 - (geo.latitude - centerLat) * METERS_PER_DEG_LAT * pxPerMeter
+      })
+    };
+  }, [path, clusters, currentPosition]);
+
+  const activeCluster = selectedCluster !== null ? clusters[selectedCluster] : null;
+
+  return (
+    <div className="h-full w-full flex flex-col bg-[#0a0a0f] overflow-y-auto custom-scrollbar">
+      <div className="p-6 pb-3 flex items-center justify-between">
+        <h3 className="text-hud-cyan text-[10px] font-mono uppercase tracking-widest flex items-center">
+          <MapIcon className="w-3 h-3 mr-2" />
+          {t('map.title')} <span className="ml-2 bg-hud-cyan/20 text-hud-cyan px-1.5 py-0.5 rounded text-[10px]">{clusters.length}</span>
+        </h3>
+        {projection && (
+          <span className="text-[9px] font-mono text-gray-500">{t('map.grid', { distance: formatDistance(projection.gridMeters) })}</span>
+        )}
+      </div>
+
+      {!projection ? (
+        <div className="mx-6 p-4 border border-gray-800 rounded bg-gray-900/30 text-center">
+          <p className="text-gray-500 text-xs italic">{t('map.empty')}</p>
+        </div>
+      ) : (
+        <div className="px-6">
+          <svg viewBox={`0 0 ${VIEW_SIZE} ${VIEW_SIZE}`} className="w-full border border-gray-800 rounded-sm bg-black">
+            <defs>
+              <pattern id="hazard-map-grid" width={projection.gridPx} height={projection.gridPx} patternUnits="userSpaceOnUse" x={VIEW_SIZE / 2} y={VIEW_SIZE / 2}>
+                <path d={`M ${projection.gridPx} 0 L 0 0 0 ${projection.gridPx}`} fill="none" stroke="rgba(0,240,255,0.12)" strokeWidth="1" />
+              </pattern>
+            </defs>
+            <rect width={VIEW_SIZE} height={VIEW_SIZE} fill="url(#hazard-map-grid)" />
+
+            {/* Vehicle path */}
+            {path.length > 1 && (
+              <polyline
+                points={path.map(geo => { const p = projection.project(geo); return `${p.x},${p.y}`; }).join(' ')}
+                fill="none"
+                stroke="rgba(0,240,255,0.5)"
+                strokeWidth="2"
+                strokeDasharray="4 3"
+              />
+            )}
+
+            {/* Hazard clusters */}
+            {clusters.map((cluster, idx) => {
+              const p = projection.project(cluster.center);
+              const radius = 6 + Math.sqrt(cluster.hazards.length) * 3;
+              return (
+                <g key={idx} onClick={() => setSelectedCluster(idx === selectedCluster ? null : idx)} className="cursor-pointer">
+                  <circle cx={p.x} cy={p.y} r={radius} fill={SEVERITY_FILL[cluster.maxSeverity]} fillOpacity={0.35} stroke={SEVERITY_FILL[cluster.maxSeverity]} strokeWidth={idx === selectedCluster ? 3 : 1.5} />
+                  {cluster.hazards.length > 1 && (
+                    <text x={p.x} y={p.y + 3} textAnchor="middle" fontSize="9" fontFamily="JetBrains Mono, monospace" fill="#fff">{cluster.hazards.length}</text>
+                  )}
+                </g>
+              );
+            })}
+
+            {/* Current position, pointing along the heading when known */}
+            {currentPosition && (() => {
+              const p = projection.project(currentPosition);
+              return (
+                <g transform={`translate(${p.x} ${p.y}) rotate(${currentPosition.heading ?? 0})`}>
+                  <circle r="9" fill="rgba(0,255,157,0.15)" />
+                  <path d="M 0 -7 L 5 5 L 0 2 L -5 5 Z" fill="#00ff9d" />
+                </g>
+              );
+            })()}
+          </svg>
+
+          {currentPosition && (
+            <div className="flex items-center gap-2 mt-2 text-[9px] font-mono text-gray-500">
+              <Navigation className="w-3 h-3 text-hud-green" />
+              {currentPosition.latitude.toFixed(5)}, {currentPosition.longitude.toFixed(5)}
+              {currentPosition.speed !== undefined && <span>• {(currentPosition.speed * 3.6).toFixed(0)} km/h</span>}
+              {currentPosition.accuracy !== undefined && <span>• ±{Math.round(currentPosition.accuracy)} m</span>}
+            </div>
+          )}
+
+          {/* Selected cluster details */}
+          {activeCluster && (
+            <div className="mt-4 space-y-2 pb-6">
+              {activeCluster.hazards.map((item, idx) => (
+                <button
+                  key={`${item.analysisId}-${idx}`}
+                  onClick={() => onSelect(item.analysisId)}
+                  className="w-full text-left bg-red-950/10 border border-red-900/30 p-2 rounded-sm hover:bg-red-950/20 transition-colors"
+                >
+                  <div className="flex justify-between items-center">
+                    <span className="font-bold text-xs text-red-200 font-mono">{item.hazard.type}</span>
+                    <span className="text-[9px] font-mono text-gray-500">{new Date(item.capturedAt).toLocaleTimeString()} • {t(`severity.${item.hazard.severity}`)}</span>
+                  </div>
+                  <p className="text-[10px] text-gray-400 leading-snug mt-1">{item.hazard.description}</p>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HazardMap;
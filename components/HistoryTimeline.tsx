@@ -0,0 +1,148 @@
+import React, { useRef } from 'react';
+import { AnalysisHistoryItem, SafetyLevel } from '../types';
+import { SessionExportFormat } from '../services/sessionExport';
+import { Translator } from '../services/i18n';
+import { History, Trash2, Download, FolderOpen, X } from 'lucide-react';
+
+interface HistoryTimelineProps {
+  items: AnalysisHistoryItem[];
+  selectedId: string | null;
+  isImported: boolean; // Showing a loaded session file instead of local history
+  includeThumbnails: boolean;
+  onSelect: (item: AnalysisHistoryItem) => void;
+  onClear: () => void;
+  onExport: (format: SessionExportFormat) => void;
+  onImport: (file: File) => void;
+  onCloseImport: () => void;
+  onIncludeThumbnailsChange: (value: boolean) => void;
+  t: Translator;
+}
+
+const safetyAccent: Record<SafetyLevel, string> = {
+  [SafetyLevel.SAFE]: 'border-hud-green/60 text-hud-green',
+  [SafetyLevel.CAUTION]: 'border-hud-amber/60 text-hud-amber',
+  [SafetyLevel.DANGER]: 'border-hud-red/60 text-hud-red'
+};
+
+const exportButtonClass = 'px-1.5 py-0.5 border border-gray-700 rounded text-gray-400 hover:text-hud-cyan hover:border-hud-cyan/50 transition-colors disabled:opacity-30 disabled:hover:text-gray-400 disabled:hover:border-gray-700';
+
+const HistoryTimeline: React.FC<HistoryTimelineProps> = ({
+  items,
+  selectedId,
+  isImported,
+  includeThumbnails,
+  onSelect,
+  onClear,
+  onExport,
+  onImport,
+  onCloseImport,
+  onIncludeThumbnailsChange,
+  t
+}) => {
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const hasGeo = items.some(item => item.geo);
+
+  return (
+    <div className="border-t border-hud-border bg-[#0a0a0f] flex flex-col">
+      <div className="flex items-center justify-between px-4 pt-3 pb-2">
+        <h3 className="text-hud-cyan text-[10px] font-mono uppercase tracking-widest flex items-center">
+          <History className="w-3 h-3 me-2" />
+          {isImported ? t('history.imported') : t('history.title')} <span className="ms-2 bg-hud-cyan/20 text-hud-cyan px-1.5 py-0.5 rounded text-[10px]">{items.length}</span>
+        </h3>
+        {isImported ? (
+          <button
+            onClick={onCloseImport}
+            className="flex items-center gap-1 text-[10px] font-mono text-gray-500 hover:text-white transition-colors uppercase"
+            title={t('history.backToLocal')}
+          >
+            <X className="w-3 h-3" />
+            {t('history.close')}
+          </button>
+        ) : items.length > 0 && (
+          <button
+            onClick={onClear}
+            className="flex items-center gap-1 text-[10px] font-mono text-gray-500 hover:text-hud-red transition-colors uppercase"
+            title={t('history.clearTitle')}
+          >
+            <Trash2 className="w-3 h-3" />
+            {t('history.clear')}
+          </button>
+        )}
+      </div>
+
+      {/* Session export / import */}
+      <div className="flex items-center gap-2 px-4 pb-2 text-[9px] font-mono uppercase">
+        <Download className="w-3 h-3 text-gray-500" />
+        <button onClick={() => onExport('json')} disabled={items.length === 0} className={exportButtonClass}>JSON</button>
+        <button onClick={() => onExport('csv')} disabled={items.length === 0} className={exportButtonClass}>CSV</button>
+        <button
+          onClick={() => onExport('geojson')}
+          disabled={!hasGeo}
+          className={exportButtonClass}
+          title={hasGeo ? t('history.exportGeo') : t('history.noGeo')}
+        >
+          GeoJSON
+        </button>
+        <label className="flex items-center gap-1 text-gray-500 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={includeThumbnails}
+            onChange={e => onIncludeThumbnailsChange(e.target.checked)}
+            className="accent-cyan-400"
+          />
+          {t('history.frames')}
+        </label>
+        <button
+          onClick={() => importInputRef.current?.click()}
+          className={`ms-auto flex items-center gap-1 ${exportButtonClass}`}
+        >
+          <FolderOpen className="w-3 h-3" />
+          {t('history.import')}
+        </button>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={e => {
+            const file = e.target.files?.[0];
+            if (file) onImport(file);
+            e.target.value = '';
+          }}
+          className="hidden"
+        />
+      </div>
+
+      {items.length === 0 ? (
+        <p className="px-4 pb-4 text-gray-600 text-xs italic">{t('history.empty')}</p>
+      ) : (
+        <div className="flex gap-3 overflow-x-auto px-4 pb-4 custom-scrollbar">
+          {items.map(item => (
+            <button
+              key={item.id}
+              onClick={() => onSelect(item)}
+              className={`flex-shrink-0 w-28 text-start rounded-sm border bg-black/40 overflow-hidden transition-all hover:bg-gray-900 ${
+                item.id === selectedId ? 'ring-1 ring-hud-cyan border-hud-cyan' : 'border-gray-800'
+              }`}
+            >
+              <div className="h-16 bg-black flex items-center justify-center">
+                {item.thumbnail ? (
+                  <img src={item.thumbnail} alt={t('history.scanAlt', { time: item.timestamp })} className="w-full h-full object-cover" />
+                ) : (
+                  <span className="text-[9px] font-mono text-gray-600">{t('history.noFrame')}</span>
+                )}
+              </div>
+              <div className={`px-2 py-1 border-t ${safetyAccent[item.safetyLevel] ?? 'border-gray-700 text-gray-400'}`}>
+                <div className="text-[9px] font-mono font-bold">{t(`safety.${item.safetyLevel}`)}</div>
+                <div className="text-[9px] font-mono text-gray-500">
+                  {item.timestamp} • {item.hazards.length}H/{item.signs.length}S
+                </div>
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HistoryTimeline;
@@ -0,0 +1,160 @@
+import React, { useMemo, useState } from 'react';
+import { Images, Square, Play, RotateCcw, X } from 'lucide-react';
+import { ImageBatchItem, SafetyLevel } from '../types';
+import { batchHazardTypes, filterImageBatch, sortImageBatch, ImageBatchSort } from '../services/imageBatch';
+import { Translator } from '../services/i18n';
+
+interface ImageBatchPanelProps {
+  items: ImageBatchItem[];
+  progress: { done: number; total: number } | null; // null when no batch is running
+  concurrency: number;
+  selectedId: string | null;
+  onConcurrencyChange: (value: number) => void;
+  onStart: () => void; // Analyzes every image that has no result yet
+  onCancel: () => void;
+  onSelect: (item: ImageBatchItem) => void;
+  onClose: () => void;
+  t: Translator;
+}
+
+const badgeColor: Record<SafetyLevel, string> = {
+  [SafetyLevel.SAFE]: 'bg-hud-green text-black',
+  [SafetyLevel.CAUTION]: 'bg-hud-amber text-black',
+  [SafetyLevel.DANGER]: 'bg-hud-red text-white'
+};
+
+const selectClass = 'bg-black/40 border border-gray-700 rounded px-1.5 py-0.5 text-[10px] text-white outline-none';
+
+const ImageBatchPanel: React.FC<ImageBatchPanelProps> = ({
+  items,
+  progress,
+  concurrency,
+  selectedId,
+  onConcurrencyChange,
+  onStart,
+  onCancel,
+  onSelect,
+  onClose,
+  t
+}) => {
+  const [level, setLevel] = useState<SafetyLevel | null>(null);
+  const [hazardType, setHazardType] = useState<string | null>(null);
+  const [sort, setSort] = useState<ImageBatchSort>('name');
+
+  const hazardTypes = useMemo(() => batchHazardTypes(items), [items]);
+  const shown = useMemo(() => sortImageBatch(filterImageBatch(items, { level, hazardType }), sort), [items, level, hazardType, sort]);
+
+  const running = progress !== null;
+  const percent = progress && progress.total > 0 ? Math.round((progress.done / progress.total) * 100) : 0;
+  const analyzed = items.filter(item => item.result).length;
+  const failed = items.filter(item => item.status === 'failed').length;
+  const pending = items.length - analyzed;
+
+  return (
+    <div className="border-t border-hud-border bg-[#0a0a0f] px-4 py-3 space-y-3 relative z-30 font-mono">
+      <div className="flex flex-wrap items-center gap-4">
+        <h3 className="text-hud-cyan text-[10px] uppercase tracking-widest flex items-center">
+          <Images className="w-3 h-3 me-2" />
+          {t('images.title', { count: items.length })}
+        </h3>
+
+        <label className="flex items-center gap-2 text-[10px] text-gray-400 uppercase">
+          {t('images.parallel')}
+          <input
+            type="number"
+            min={1}
+            max={8}
+            value={concurrency}
+            disabled={running}
+            onChange={e => onConcurrencyChange(Math.min(8, Math.max(1, Math.round(Number(e.target.value) || 1))))}
+            className="w-12 bg-black/40 border border-gray-700 rounded px-1.5 py-0.5 text-white disabled:opacity-50"
+          />
+        </label>
+
+        {running ? (
+          <button
+            onClick={onCancel}
+            className="flex items-center gap-2 px-3 py-1 border border-hud-red text-hud-red bg-hud-red/10 text-[10px] rounded uppercase hover:bg-hud-red/20 transition-all"
+          >
+            <Square className="w-3 h-3" />
+            {t('images.cancel', { done: progress.done, total: progress.total })}
+          </button>
+        ) : (
+          <button
+            onClick={onStart}
+            disabled={pending === 0}
+            className="flex items-center gap-2 px-3 py-1 border border-hud-cyan/50 text-hud-cyan bg-black/40 text-[10px] rounded uppercase hover:bg-hud-cyan/10 transition-all disabled:opacity-50"
+          >
+            {failed > 0 && failed === pending ? <RotateCcw className="w-3 h-3" /> : <Play className="w-3 h-3" />}
+            {failed > 0 && failed === pending ? t('images.retry', { count: failed }) : analyzed > 0 ? t('images.analyzeRemaining', { count: pending }) : t('images.analyzeAll')}
+          </button>
+        )}
+
+        <div className="flex items-center gap-2 ms-auto text-[10px] text-gray-500 uppercase">
+          <select value={level ?? ''} onChange={e => setLevel((e.target.value || null) as SafetyLevel | null)} className={selectClass}>
+            <option value="" className="bg-hud-dark">{t('images.allLevels')}</option>
+            {Object.values(SafetyLevel).map(l => <option key={l} value={l} className="bg-hud-dark">{t(`safety.${l}`)}</option>)}
+          </select>
+          <select value={hazardType ?? ''} onChange={e => setHazardType(e.target.value || null)} className={selectClass} disabled={hazardTypes.length === 0}>
+            <option value="" className="bg-hud-dark">{t('images.allHazards')}</option>
+            {hazardTypes.map(type => <option key={type} value={type} className="bg-hud-dark">{type}</option>)}
+          </select>
+          <select value={sort} onChange={e => setSort(e.target.value as ImageBatchSort)} className={selectClass}>
+            <option value="name" className="bg-hud-dark">{t('images.byName')}</option>
+            <option value="severity" className="bg-hud-dark">{t('images.bySeverity')}</option>
+          </select>
+          <button onClick={onClose} className="p-1 text-gray-500 hover:text-white" title={t('images.close')}>
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {running && (
+        <div className="w-full bg-gray-800 h-0.5 overflow-hidden">
+          <div className="bg-hud-cyan h-full transition-all" style={{ width: `${percent}%` }}></div>
+        </div>
+      )}
+
+      {/* Thumbnail grid */}
+      <div className="max-h-48 overflow-y-auto custom-scrollbar grid grid-cols-[repeat(auto-fill,minmax(96px,1fr))] gap-2">
+        {shown.length === 0 && (
+          <div className="col-span-full text-center text-[10px] text-gray-600 py-4">{t('images.noMatch')}</div>
+        )}
+        {shown.map(item => (
+          <button
+            key={item.id}
+            onClick={() => onSelect(item)}
+            title={item.error ? `${item.name}\n${item.error}` : item.name}
+            className={`relative aspect-video rounded-sm overflow-hidden border bg-black ${item.id === selectedId ? 'border-hud-cyan ring-1 ring-hud-cyan' : 'border-gray-800 hover:border-gray-500'}`}
+          >
+            <img src={item.thumbnail ?? item.url} alt={item.name} loading="lazy" className="w-full h-full object-cover" />
+            <span className="absolute top-0.5 start-0.5 flex gap-0.5 text-[8px] font-bold">
+              {item.result ? (
+                <span className={`px-1 rounded-sm ${badgeColor[item.result.safetyLevel]}`}>{t(`safety.${item.result.safetyLevel}`)}</span>
+              ) : item.status === 'failed' ? (
+                <span className="px-1 rounded-sm bg-gray-700 text-white">{t('images.failed')}</span>
+              ) : item.status !== 'queued' ? (
+                <span className="px-1 rounded-sm bg-black/70 text-hud-cyan animate-pulse">{item.status === 'retrying' ? t('images.retrying', { attempt: item.attempts }) : '...'}</span>
+              ) : null}
+              {item.result && item.result.hazards.length > 0 && (
+                <span className="px-1 rounded-sm bg-black/70 text-white">{item.result.hazards.length}</span>
+              )}
+            </span>
+            <span className="absolute bottom-0 inset-x-0 px-1 bg-black/70 text-[8px] text-gray-300 truncate text-start">{item.name}</span>
+          </button>
+        ))}
+      </div>
+
+      <div className="flex justify-between text-[9px] text-gray-600">
+        <span>{t('images.analyzed', { done: analyzed, total: items.length })}</span>
+        <span>
+          {items.filter(i => i.result?.safetyLevel === SafetyLevel.DANGER).length} {t('safety.DANGER')} •{' '}
+          {items.filter(i => i.result?.safetyLevel === SafetyLevel.CAUTION).length} {t('safety.CAUTION')} •{' '}
+          {failed} {t('images.failed')}
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default ImageBatchPanel;
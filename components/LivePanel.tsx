@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { Radio, Mic, MicOff, Send } from 'lucide-react';
+import { LiveExchange, LiveStatus } from '../services/liveSession';
+import { Translator } from '../services/i18n';
+
+interface LivePanelProps {
+  backendLabel: string;
+  status: LiveStatus;
+  micActive: boolean;
+  exchanges: LiveExchange[]; // Oldest first
+  onToggleMic: () => void;
+  onAsk: (question: string) => void;
+  t: Translator;
+}
+
+const statusStyle: Record<LiveStatus, string> = {
+  connecting: 'text-hud-amber border-hud-amber/50',
+  open: 'text-hud-green border-hud-green/50',
+  closed: 'text-gray-500 border-gray-700',
+  error: 'text-hud-red border-hud-red/50'
+};
+
+const LivePanel: React.FC<LivePanelProps> = ({ backendLabel, status, micActive, exchanges, onToggleMic, onAsk, t }) => {
+  const [question, setQuestion] = useState('');
+  const canAsk = status === 'open';
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = question.trim();
+    if (!text || !canAsk) return;
+    onAsk(text);
+    setQuestion('');
+  };
+
+  return (
+    <div className="border-t border-hud-border bg-[#0a0a0f] px-4 py-2 flex flex-col gap-2 relative z-30">
+      <div className="flex flex-wrap items-center gap-4">
+        <h3 className="text-hud-cyan text-[10px] font-mono uppercase tracking-widest flex items-center">
+          <Radio className="w-3 h-3 me-2" />
+          {t('live.title')}
+        </h3>
+        <span className={`px-1.5 py-0.5 rounded border text-[9px] font-mono uppercase tracking-wider ${statusStyle[status]}`}>
+          {status === 'connecting' ? t('live.connecting') : status === 'open' ? t('live.open') : t('live.closed')}
+        </span>
+        <span className="text-[10px] font-mono text-gray-600">{backendLabel}</span>
+
+        <form onSubmit={submit} className="flex-1 min-w-[200px] flex items-center gap-2">
+          <button
+            type="button"
+            onClick={onToggleMic}
+            disabled={!canAsk}
+            className={`p-1.5 rounded border transition-all disabled:opacity-40 ${micActive
+              ? 'bg-hud-red/20 border-hud-red text-hud-red animate-pulse'
+              : 'bg-black/40 border-gray-700 text-gray-400 hover:text-hud-cyan hover:border-hud-cyan/50'
+              }`}
+            title={micActive ? t('live.micStop') : t('live.micStart')}
+          >
+            {micActive ? <MicOff className="w-3 h-3" /> : <Mic className="w-3 h-3" />}
+          </button>
+          <input
+            type="text"
+            value={question}
+            onChange={e => setQuestion(e.target.value)}
+            disabled={!canAsk}
+            placeholder={t('live.askPlaceholder')}
+            className="flex-1 bg-black/40 border border-gray-700 rounded px-2 py-1 text-xs text-white placeholder-gray-600 outline-none focus:border-hud-cyan/50 disabled:opacity-40"
+          />
+          <button
+            type="submit"
+            disabled={!canAsk || !question.trim()}
+            className="flex items-center gap-1 px-3 py-1 border border-gray-700 text-gray-400 bg-black/40 font-mono text-[10px] rounded uppercase hover:text-hud-cyan hover:border-hud-cyan/50 transition-all disabled:opacity-40"
+          >
+            <Send className="w-3 h-3" />
+            {t('live.ask')}
+          </button>
+        </form>
+      </div>
+
+      {exchanges.length > 0 && (
+        <div className="max-h-24 overflow-y-auto custom-scrollbar space-y-1 text-xs">
+          {exchanges.slice(-5).map(exchange => (
+            <div key={exchange.id} className="flex flex-col">
+              <span className="text-gray-400 flex items-center gap-1">
+                {exchange.spoken && <Mic className="w-3 h-3 flex-shrink-0" />}
+                {exchange.question || t('live.listening')}
+              </span>
+              {exchange.answer && <span className="text-hud-cyan ps-4">{exchange.answer}</span>}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LivePanel;
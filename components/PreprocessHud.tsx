@@ -0,0 +1,40 @@
+import React from 'react';
+import { Aperture } from 'lucide-react';
+import { PreprocessingRecord } from '../types';
+import { describeStep } from '../services/preprocessing';
+import { Translator } from '../services/i18n';
+
+interface PreprocessHudProps {
+  before: string; // Small previews of the last sent frame
+  after: string;
+  record: PreprocessingRecord;
+  t: Translator;
+}
+
+const PreprocessHud: React.FC<PreprocessHudProps> = ({ before, after, record, t }) => (
+  <div className="absolute bottom-28 end-4 z-30 bg-black/70 border border-gray-800 rounded px-3 py-2 font-mono text-[9px] text-gray-400 space-y-1.5 backdrop-blur-sm pointer-events-none w-[236px]">
+    <div className="flex items-center gap-1.5 text-gray-300 uppercase tracking-widest">
+      <Aperture className="w-3 h-3" />
+      {t('hud.preprocess')}
+    </div>
+    <div className="grid grid-cols-2 gap-1.5">
+      {[{ label: t('hud.before'), src: before }, { label: t('hud.after'), src: after }].map(({ label, src }) => (
+        <figure key={label} className="space-y-0.5">
+          <img src={src} alt={label} className="w-full rounded-sm border border-gray-800" />
+          <figcaption className="text-gray-500">{label}</figcaption>
+        </figure>
+      ))}
+    </div>
+    <div className="flex flex-wrap gap-1">
+      {record.steps.length === 0 ? (
+        <span className="text-gray-600">--</span>
+      ) : (
+        record.steps.map((step, i) => (
+          <span key={i} className="px-1 border border-hud-cyan/30 text-hud-cyan rounded-sm">{describeStep(step)}</span>
+        ))
+      )}
+    </div>
+  </div>
+);
+
+export default PreprocessHud;
@@ -0,0 +1,156 @@
+import React from 'react';
+import { Aperture, RotateCcw, X } from 'lucide-react';
+import { DEFAULT_PREPROCESS_SETTINGS, MAX_ROI_CUT, PreprocessSettings as Settings, RegionOfInterest } from '../services/preprocessing';
+import { TranslationKey, Translator } from '../services/i18n';
+
+interface PreprocessSettingsProps {
+  settings: Settings;
+  onChange: (settings: Settings) => void;
+  onClose: () => void;
+  t: Translator;
+}
+
+const ROI_EDGES: { edge: keyof RegionOfInterest; label: TranslationKey }[] = [
+  { edge: 'top', label: 'pre.roiTop' },
+  { edge: 'bottom', label: 'pre.roiBottom' },
+  { edge: 'left', label: 'pre.roiLeft' },
+  { edge: 'right', label: 'pre.roiRight' }
+];
+
+const MAX_DIMENSIONS = [320, 480, 640, 800, 1024];
+
+const inputClass = 'bg-black/40 border border-gray-700 rounded px-2 py-1 text-[11px] font-mono text-white outline-none focus:border-hud-cyan';
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <label className="flex flex-col gap-1 text-[9px] font-mono uppercase tracking-widest text-gray-500">
+    {label}
+    {children}
+  </label>
+);
+
+const Toggle: React.FC<{ label: string; hint: string; checked: boolean; disabled?: boolean; onChange: (checked: boolean) => void }> = ({ label, hint, checked, disabled, onChange }) => (
+  <label className={`flex items-start gap-2 text-[10px] font-mono text-gray-400 ${disabled ? 'opacity-50' : ''}`}>
+    <input type="checkbox" checked={checked} disabled={disabled} onChange={e => onChange(e.target.checked)} className="accent-cyan-400 mt-0.5" />
+    <span>
+      <span className="block text-white uppercase">{label}</span>
+      <span className="block text-gray-500">{hint}</span>
+    </span>
+  </label>
+);
+
+// Frame enhancement for night, glare and low-visibility footage, applied before frames are encoded
+const PreprocessSettings: React.FC<PreprocessSettingsProps> = ({ settings, onChange, onClose, t }) => {
+  const update = (patch: Partial<Settings>) => onChange({ ...settings, ...patch });
+  const off = !settings.enabled;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-xl max-h-[85vh] flex flex-col bg-hud-dark border border-hud-border rounded-lg shadow-[0_0_40px_rgba(0,240,255,0.15)]"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-4 py-3 border-b border-hud-border">
+          <h2 className="flex items-center gap-2 font-mono text-sm uppercase tracking-widest text-hud-cyan">
+            <Aperture className="w-4 h-4" />
+            {t('pre.title')}
+          </h2>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => onChange({ ...DEFAULT_PREPROCESS_SETTINGS, enabled: settings.enabled })}
+              className="flex items-center gap-1 px-2 py-1 text-[10px] font-mono uppercase border border-gray-700 text-gray-400 rounded hover:text-white hover:border-white"
+              title={t('pre.defaultsHint')}
+            >
+              <RotateCcw className="w-3 h-3" /> {t('pre.defaults')}
+            </button>
+            <button onClick={onClose} className="p-1 text-gray-500 hover:text-white" title={t('pre.close')}>
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          <Toggle
+            label={t('pre.enable')}
+            hint={t('pre.enableHint')}
+            checked={settings.enabled}
+            onChange={enabled => update({ enabled })}
+          />
+
+          <div className="space-y-2 border-t border-gray-800 pt-3">
+            <Toggle
+              label={t('pre.denoise')}
+              hint={t('pre.denoiseHint')}
+              checked={settings.denoise}
+              disabled={off}
+              onChange={denoise => update({ denoise })}
+            />
+            <Toggle
+              label={t('pre.exposure')}
+              hint={t('pre.exposureHint')}
+              checked={settings.autoExposure}
+              disabled={off}
+              onChange={autoExposure => update({ autoExposure })}
+            />
+            <Toggle
+              label={t('pre.equalize')}
+              hint={t('pre.equalizeHint')}
+              checked={settings.equalize}
+              disabled={off}
+              onChange={equalize => update({ equalize })}
+            />
+            <label className={`flex items-center gap-2 ps-6 text-[10px] font-mono text-gray-400 ${off || !settings.equalize ? 'opacity-50' : ''}`}>
+              {t('pre.clipLimit')}
+              <input
+                type="range"
+                min={1}
+                max={5}
+                step={0.5}
+                value={settings.clipLimit}
+                disabled={off || !settings.equalize}
+                onChange={e => update({ clipLimit: Number(e.target.value) })}
+                className="w-32 accent-cyan-400"
+              />
+              <span className="text-white w-6">{settings.clipLimit}</span>
+            </label>
+          </div>
+
+          <div className={`space-y-2 border-t border-gray-800 pt-3 ${off ? 'opacity-50' : ''}`}>
+            <h3 className="text-[9px] font-mono uppercase tracking-widest text-gray-500">{t('pre.roi')}</h3>
+            <div className="grid grid-cols-2 gap-3">
+              {ROI_EDGES.map(({ edge, label }) => (
+                <Field key={edge} label={`${t(label)} · ${Math.round(settings.roi[edge] * 100)}%`}>
+                  <input
+                    type="range"
+                    min={0}
+                    max={MAX_ROI_CUT}
+                    step={0.01}
+                    value={settings.roi[edge]}
+                    disabled={off}
+                    onChange={e => update({ roi: { ...settings.roi, [edge]: Number(e.target.value) } })}
+                    className="accent-cyan-400"
+                  />
+                </Field>
+              ))}
+            </div>
+          </div>
+
+          <div className={`border-t border-gray-800 pt-3 ${off ? 'opacity-50' : ''}`}>
+            <Field label={t('pre.maxDimension')}>
+              <select
+                value={settings.maxDimension ?? ''}
+                disabled={off}
+                onChange={e => update({ maxDimension: e.target.value ? Number(e.target.value) : null })}
+                className={`${inputClass} w-40`}
+              >
+                <option value="" className="bg-hud-dark">{t('pre.profileDefault')}</option>
+                {MAX_DIMENSIONS.map(size => <option key={size} value={size} className="bg-hud-dark">{size} px</option>)}
+              </select>
+            </Field>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PreprocessSettings;
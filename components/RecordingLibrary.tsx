@@ -0,0 +1,91 @@
+import React, { useEffect, useState } from 'react';
+import { Clapperboard, X, Play, Trash2 } from 'lucide-react';
+import { DriveRecording, SafetyLevel } from '../types';
+import { loadRecordings, deleteRecording } from '../services/recordingStore';
+import { Translator } from '../services/i18n';
+
+interface RecordingLibraryProps {
+  onOpen: (recording: DriveRecording) => void;
+  onClose: () => void;
+  t: Translator;
+}
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+};
+
+const RecordingLibrary: React.FC<RecordingLibraryProps> = ({ onOpen, onClose, t }) => {
+  const [recordings, setRecordings] = useState<DriveRecording[] | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadRecordings()
+      .then(setRecordings)
+      .catch(err => {
+        setRecordings([]);
+        setMessage(t('rec.loadFailed', { error: err.message }));
+      });
+  }, []);
+
+  const remove = async (id: string) => {
+    try {
+      await deleteRecording(id);
+      setRecordings(prev => prev?.filter(r => r.id !== id) ?? null);
+    } catch (err) {
+      setMessage(t('rec.deleteFailed', { error: err instanceof Error ? err.message : String(err) }));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-2xl max-h-[85vh] flex flex-col bg-hud-dark border border-hud-border rounded-lg shadow-[0_0_40px_rgba(0,240,255,0.15)]"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-4 py-3 border-b border-hud-border">
+          <h2 className="flex items-center gap-2 font-mono text-sm uppercase tracking-widest text-hud-cyan">
+            <Clapperboard className="w-4 h-4" />
+            {t('rec.title')}
+          </h2>
+          <button onClick={onClose} className="p-1 text-gray-500 hover:text-white" title={t('pre.close')}>
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-2">
+          {message && <p className="text-[10px] font-mono text-hud-red">{message}</p>}
+          {recordings === null && <p className="text-[11px] font-mono text-gray-500 animate-pulse">{t('rec.loading')}</p>}
+          {recordings?.length === 0 && (
+            <p className="text-[11px] font-mono text-gray-500">{t('rec.empty')}</p>
+          )}
+          {recordings?.map(recording => {
+            const danger = recording.frames.filter(f => f.result.safetyLevel === SafetyLevel.DANGER).length;
+            return (
+              <div key={recording.id} className="flex items-center gap-3 px-3 py-2 border border-gray-800 rounded bg-black/30">
+                <div className="flex-1 min-w-0 font-mono">
+                  <div className="text-xs text-white">{new Date(recording.startedAt).toLocaleString()}</div>
+                  <div className="text-[10px] text-gray-500">
+                    {formatDuration(recording.durationMs)} · {t('rec.analyses', { count: recording.frames.length })} · {recording.providerId} / {recording.profileId}
+                    {danger > 0 && <span className="text-hud-red"> · {danger} {t('safety.DANGER')}</span>}
+                  </div>
+                </div>
+                <button
+                  onClick={() => onOpen(recording)}
+                  className="flex items-center gap-1 px-2 py-1 text-[10px] font-mono uppercase border border-hud-cyan/50 text-hud-cyan rounded hover:bg-hud-cyan/10"
+                >
+                  <Play className="w-3 h-3" /> {t('rec.replay')}
+                </button>
+                <button onClick={() => remove(recording.id)} className="p-1 text-gray-500 hover:text-hud-red" title={t('rec.delete')}>
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RecordingLibrary;
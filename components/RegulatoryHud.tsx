@@ -0,0 +1,80 @@
+import React from 'react';
+import { Gauge, RotateCcw } from 'lucide-react';
+import { RegulatoryRule, RegulatoryState } from '../types';
+import { getCatalogEntry } from '../services/signCatalog';
+import { isOverLimit, speedInLimitUnit } from '../services/regulatoryContext';
+import { Translator } from '../services/i18n';
+import SignIcon from './SignIcon';
+
+interface RegulatoryHudProps {
+  state: RegulatoryState | null;
+  speedMps?: number; // Device speed, when geolocation reports one
+  onClear: () => void;
+  t: Translator;
+}
+
+const formatAge = (since: number) => {
+  const seconds = Math.max(0, Math.round((Date.now() - since) / 1000));
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m`;
+};
+
+const RegulatoryHud: React.FC<RegulatoryHudProps> = ({ state, speedMps, onClear, t }) => {
+  const limit = state?.speedLimit ?? null;
+  const over = isOverLimit(state, speedMps);
+  const unit = limit?.unit ?? 'km/h';
+  const currentSpeed = speedMps !== undefined ? Math.round(speedInLimitUnit(speedMps, unit)) : null;
+
+  const ruleIcon = (rule: RegulatoryRule | null, label: string) => {
+    if (!state || !rule) return null;
+    const entry = getCatalogEntry(state.region, rule.code);
+    return (
+      <div className="flex items-center gap-1.5" title={`${label} · ${rule.code}`}>
+        {entry && <SignIcon icon={entry.icon} size={22} />}
+        <span className="text-gray-300 uppercase">{label}</span>
+        <span className="text-gray-600">{formatAge(rule.since)}</span>
+      </div>
+    );
+  };
+
+  return (
+    <div className={`absolute top-20 start-4 z-30 bg-black/70 border rounded px-3 py-2 font-mono text-[9px] text-gray-400 space-y-2 backdrop-blur-sm min-w-[160px] ${over ? 'border-hud-red animate-pulse' : 'border-gray-800'}`}>
+      <div className="flex items-center justify-between gap-4">
+        <span className="flex items-center gap-1.5 text-gray-300 uppercase tracking-widest">
+          <Gauge className="w-3 h-3" />
+          {t('reg.title')}
+        </span>
+        {state && (limit || state.noOvertaking || state.schoolZone) && (
+          <button onClick={onClear} className="text-gray-600 hover:text-white" title={t('reg.clear')}>
+            <RotateCcw className="w-3 h-3" />
+          </button>
+        )}
+      </div>
+
+      <div className="flex items-center gap-3">
+        {limit && state ? (
+          (() => {
+            const entry = getCatalogEntry(state.region, limit.code);
+            return entry
+              ? <SignIcon icon={entry.icon} params={{ speed: limit.value, unit: limit.unit }} size={40} title={`${entry.name} ${limit.value} ${limit.unit}`} />
+              : <span className="text-2xl font-bold text-white">{limit.value}</span>;
+          })()
+        ) : (
+          <div className="w-10 h-10 rounded-full border-2 border-dashed border-gray-700 flex items-center justify-center text-gray-600">--</div>
+        )}
+        <div className="space-y-0.5">
+          <div className={over ? 'text-hud-red font-bold' : 'text-white'}>
+            {currentSpeed !== null ? `${currentSpeed} ${unit}` : '--'}
+          </div>
+          <div className={over ? 'text-hud-red uppercase' : 'text-gray-500 uppercase'}>
+            {over ? t('reg.overLimit') : limit ? `${t('reg.limit')} ${limit.value} ${limit.unit}` : t('reg.noLimit')}
+          </div>
+        </div>
+      </div>
+
+      {ruleIcon(state?.noOvertaking ?? null, t('reg.noOvertaking'))}
+      {ruleIcon(state?.schoolZone ?? null, t('reg.schoolZone'))}
+    </div>
+  );
+};
+
+export default RegulatoryHud;
@@ -0,0 +1,184 @@
+import React from 'react';
+import { Play, Pause, SkipBack, SkipForward, RotateCw, Square, Clapperboard } from 'lucide-react';
+import { AnalysisResult, DriveRecording, SafetyLevel } from '../types';
+import { compareResults } from '../services/driveReplay';
+import { Translator } from '../services/i18n';
+
+interface ReplayPanelProps {
+  recording: DriveRecording;
+  index: number; // Frame on screen; -1 before the first analysis
+  timeSec: number;
+  playing: boolean;
+  rerun: (AnalysisResult | null)[] | null; // Current analyzer's answers, one per recorded frame
+  rerunProgress: { done: number; total: number } | null;
+  analyzerLabel: string;
+  onTogglePlay: () => void;
+  onSeek: (timeSec: number) => void;
+  onRerun: () => void;
+  onCancelRerun: () => void;
+  t: Translator;
+}
+
+const markerColor: Record<SafetyLevel, string> = {
+  [SafetyLevel.SAFE]: 'bg-hud-green',
+  [SafetyLevel.CAUTION]: 'bg-hud-amber',
+  [SafetyLevel.DANGER]: 'bg-hud-red'
+};
+
+const levelText: Record<SafetyLevel, string> = {
+  [SafetyLevel.SAFE]: 'text-hud-green',
+  [SafetyLevel.CAUTION]: 'text-hud-amber',
+  [SafetyLevel.DANGER]: 'text-hud-red'
+};
+
+const formatTime = (seconds: number) => {
+  const m = Math.floor(seconds / 60);
+  const s = Math.floor(seconds % 60);
+  return `${m}:${s.toString().padStart(2, '0')}`;
+};
+
+const ResultColumn: React.FC<{ title: string; result: AnalysisResult | null | undefined; highlight?: string[]; t: Translator }> = ({ title, result, highlight = [], t }) => (
+  <div className="flex-1 min-w-0 border border-gray-800 rounded p-2 bg-black/30">
+    <h4 className="text-[9px] font-mono uppercase tracking-widest text-gray-500 mb-1">{title}</h4>
+    {result ? (
+      <>
+        <div className={`font-mono text-sm font-bold ${levelText[result.safetyLevel]}`}>{t(`safety.${result.safetyLevel}`)}</div>
+        <p className="text-[10px] text-gray-400 leading-snug line-clamp-2 mb-1">{result.recommendation}</p>
+        <div className="flex flex-wrap gap-1">
+          {[...result.hazards, ...result.signs].map((item, i) => (
+            <span
+              key={i}
+              className={`text-[9px] font-mono px-1.5 py-0.5 rounded border ${highlight.includes(item.type.trim().toLowerCase()) ? 'border-hud-cyan text-hud-cyan' : 'border-gray-700 text-gray-400'}`}
+            >
+              {item.type}
+            </span>
+          ))}
+        </div>
+      </>
+    ) : (
+      <p className="text-[10px] font-mono text-gray-600">{result === null ? t('app.analysisFailed') : '—'}</p>
+    )}
+  </div>
+);
+
+const ReplayPanel: React.FC<ReplayPanelProps> = ({
+  recording,
+  index,
+  timeSec,
+  playing,
+  rerun,
+  rerunProgress,
+  analyzerLabel,
+  onTogglePlay,
+  onSeek,
+  onRerun,
+  onCancelRerun,
+  t
+}) => {
+  const duration = recording.durationMs / 1000;
+  const frames = recording.frames;
+  const recorded = index >= 0 ? frames[index].result : undefined;
+  const rerunResult = index >= 0 && rerun ? rerun[index] : undefined;
+  const difference = recorded && rerunResult ? compareResults(recorded, rerunResult) : null;
+  const changedFrames = rerun
+    ? rerun.filter((result, i) => result && result.safetyLevel !== frames[i].result.safetyLevel).length
+    : 0;
+
+  const seekToFrame = (i: number) => {
+    if (i >= 0 && i < frames.length) onSeek(frames[i].offsetMs / 1000);
+  };
+
+  const markers = (row: (AnalysisResult | null)[], label: string) => (
+    <div className="relative h-4 bg-gray-900/50 border border-gray-800 rounded-sm" title={label}>
+      {row.map((result, i) => (
+        <button
+          key={i}
+          onClick={() => seekToFrame(i)}
+          title={`${formatTime(frames[i].offsetMs / 1000)} • ${result ? t(`safety.${result.safetyLevel}`) : t('images.failed')}`}
+          className={`absolute top-0.5 bottom-0.5 w-1 -ml-[2px] rounded-sm ${result ? markerColor[result.safetyLevel] : 'bg-gray-600'} ${i === index ? 'ring-2 ring-white' : ''}`}
+          style={{ left: `${duration > 0 ? (frames[i].offsetMs / recording.durationMs) * 100 : 0}%` }}
+        />
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="border-t border-hud-border bg-[#0a0a0f] px-4 py-3 space-y-3 relative z-30">
+      <div className="flex flex-wrap items-center gap-3">
+        <h3 className="text-hud-cyan text-[10px] font-mono uppercase tracking-widest flex items-center">
+          <Clapperboard className="w-3 h-3 me-2" />
+          {t('replay.title', { date: new Date(recording.startedAt).toLocaleString() })}
+        </h3>
+
+        <div className="flex items-center gap-1">
+          <button onClick={() => seekToFrame(index - 1)} disabled={index <= 0} className="p-1 text-gray-400 hover:text-white disabled:opacity-30" title={t('replay.previous')}>
+            <SkipBack className="w-3.5 h-3.5" />
+          </button>
+          <button onClick={onTogglePlay} className="p-1 text-hud-cyan hover:text-white" title={playing ? t('replay.pause') : t('replay.play')}>
+            {playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+          </button>
+          <button onClick={() => seekToFrame(index + 1)} disabled={index >= frames.length - 1} className="p-1 text-gray-400 hover:text-white disabled:opacity-30" title={t('replay.next')}>
+            <SkipForward className="w-3.5 h-3.5" />
+          </button>
+        </div>
+
+        <span className="text-[10px] font-mono text-gray-400">
+          {formatTime(timeSec)} / {formatTime(duration)} · {t('replay.frame', { index: index + 1, total: frames.length })}
+        </span>
+
+        <div className="ms-auto flex items-center gap-2">
+          {rerunProgress ? (
+            <button
+              onClick={onCancelRerun}
+              className="flex items-center gap-2 px-3 py-1 border border-hud-red text-hud-red bg-hud-red/10 font-mono text-[10px] rounded uppercase hover:bg-hud-red/20 transition-all"
+            >
+              <Square className="w-3 h-3" />
+              {t('images.cancel', { done: rerunProgress.done, total: rerunProgress.total })}
+            </button>
+          ) : (
+            <button
+              onClick={onRerun}
+              disabled={frames.length === 0}
+              className="flex items-center gap-2 px-3 py-1 border border-hud-cyan/50 text-hud-cyan bg-black/40 font-mono text-[10px] rounded uppercase hover:bg-hud-cyan/10 transition-all disabled:opacity-50"
+              title={t('replay.rerunHint', { analyzer: analyzerLabel })}
+            >
+              <RotateCw className="w-3 h-3" />
+              {t('replay.rerun', { analyzer: analyzerLabel })}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Scrubber over the recording, with a marker per analyzed frame */}
+      <input
+        type="range"
+        min={0}
+        max={duration}
+        step={0.1}
+        value={Math.min(timeSec, duration)}
+        onChange={e => onSeek(Number(e.target.value))}
+        className="w-full accent-hud-cyan"
+      />
+      <div className="space-y-1">
+        {markers(frames.map(f => f.result), t('replay.recordedRow', { provider: recording.providerId }))}
+        {rerun && markers(rerun, t('replay.rerunRow', { analyzer: analyzerLabel }))}
+      </div>
+
+      {/* Recorded vs re-run for the frame on screen */}
+      {rerun && (
+        <div className="space-y-1">
+          <div className="flex gap-3">
+            <ResultColumn title={t('replay.recorded', { provider: recording.providerId })} result={recorded} highlight={difference?.removed} t={t} />
+            <ResultColumn title={t('replay.rerun', { analyzer: analyzerLabel })} result={rerunResult} highlight={difference?.added} t={t} />
+          </div>
+          <p className="text-[9px] font-mono text-gray-600">
+            {t('replay.changed', { count: changedFrames, total: frames.length })}
+            {difference && difference.safetyChanged ? ` · ${t('replay.frameChanged')}` : ''}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReplayPanel;
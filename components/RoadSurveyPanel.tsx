@@ -0,0 +1,146 @@
+import React, { useMemo, useState } from 'react';
+import { Construction, Download } from 'lucide-react';
+import { AnalysisResult } from '../types';
+import { buildRoadSurvey, DEFAULT_SEGMENT_LENGTH_M } from '../services/roadSurvey';
+import { downloadFile, exportRepairListCsv, exportSegmentsCsv, exportSurveyGeoJson } from '../services/sessionExport';
+import { Translator } from '../services/i18n';
+
+interface RoadSurveyPanelProps {
+  analyses: { id: string; result: AnalysisResult }[]; // One drive, in drive order
+  onSelect: (analysisId: string) => void;
+  t: Translator;
+}
+
+const SEGMENT_LENGTHS = [50, 100, 200, 500];
+
+// Scores and condition indexes share the 1 (failed) to 5 (sound) scale
+const scoreColor = (score: number) =>
+  score < 2 ? 'bg-hud-red' : score < 3 ? 'bg-orange-500' : score < 4 ? 'bg-hud-amber' : 'bg-hud-green';
+const scoreText = (score: number) =>
+  score < 2 ? 'text-hud-red' : score < 3 ? 'text-orange-400' : score < 4 ? 'text-hud-amber' : 'text-hud-green';
+
+const formatDistance = (meters: number) => (meters >= 1000 ? `${(meters / 1000).toFixed(2)} km` : `${Math.round(meters)} m`);
+
+const formatSize = (lengthM?: number, widthM?: number) =>
+  [lengthM, widthM].filter((v): v is number => v !== undefined).map(v => v.toFixed(1)).join(' × ');
+
+// Pavement condition of the road survey scans of one drive, for maintenance crews
+const RoadSurveyPanel: React.FC<RoadSurveyPanelProps> = ({ analyses, onSelect, t }) => {
+  const [segmentLength, setSegmentLength] = useState(DEFAULT_SEGMENT_LENGTH_M);
+  const survey = useMemo(() => buildRoadSurvey(analyses, segmentLength), [analyses, segmentLength]);
+  const geojson = useMemo(() => exportSurveyGeoJson(survey), [survey]);
+
+  if (survey.frames === 0) {
+    return (
+      <div className="h-full flex flex-col items-center justify-center p-6 text-center bg-[#0a0a0f]">
+        <Construction className="w-8 h-8 text-gray-700 mb-3" />
+        <p className="font-mono text-xs text-gray-400">{t('survey.empty')}</p>
+        <p className="text-[10px] text-gray-600 mt-1 max-w-[240px]">
+          {t('survey.emptyHint')}
+        </p>
+      </div>
+    );
+  }
+
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const totalLength = Math.max(1, survey.segments.reduce((sum, s) => sum + Math.max(s.endM - s.startM, 1), 0));
+
+  return (
+    <div className="h-full overflow-y-auto custom-scrollbar bg-[#0a0a0f] p-4 space-y-4 font-mono">
+      {/* Summary */}
+      <div className="flex items-end justify-between">
+        <div>
+          <h3 className="text-[9px] uppercase tracking-widest text-gray-500">{t('survey.condition')}</h3>
+          <div className={`text-3xl font-bold ${survey.score !== null ? scoreText(survey.score) : 'text-gray-500'}`}>
+            {survey.score?.toFixed(1) ?? '--'}<span className="text-sm text-gray-600"> / 5</span>
+          </div>
+        </div>
+        <div className="text-[10px] text-gray-400 text-end space-y-0.5">
+          <div>{formatDistance(survey.distanceM)} · {t('survey.scans', { count: survey.frames })}</div>
+          <div>{t('survey.defects', { count: survey.repairs.length })} · {t('survey.segmentCount', { count: survey.segments.length })}</div>
+          <label className="flex items-center justify-end gap-1 text-gray-500">
+            {t('survey.segment')}
+            <select
+              value={segmentLength}
+              onChange={e => setSegmentLength(Number(e.target.value))}
+              className="bg-black border border-gray-700 rounded px-1 text-[10px] text-gray-300"
+            >
+              {SEGMENT_LENGTHS.map(length => <option key={length} value={length}>{length} m</option>)}
+            </select>
+          </label>
+        </div>
+      </div>
+
+      {/* Segment scores along the drive */}
+      <div>
+        <h3 className="text-[9px] uppercase tracking-widest text-gray-500 mb-1">{t('survey.segments')}</h3>
+        <div className="flex h-4 rounded-sm overflow-hidden border border-gray-800 bg-gray-900/50">
+          {survey.segments.map(s => (
+            <div
+              key={s.index}
+              className={`${scoreColor(s.score)} border-e border-black/60 last:border-e-0`}
+              style={{ width: `${(Math.max(s.endM - s.startM, 1) / totalLength) * 100}%`, minWidth: 3 }}
+              title={t('survey.segmentHint', { index: s.index + 1, from: formatDistance(s.startM), to: formatDistance(s.endM), score: s.score, defects: s.defects, scans: s.frames })}
+            />
+          ))}
+        </div>
+      </div>
+
+      {/* Ranked repair list */}
+      <div>
+        <h3 className="text-[9px] uppercase tracking-widest text-gray-500 mb-2">{t('survey.repairs')}</h3>
+        {survey.repairs.length === 0 ? (
+          <p className="text-[10px] text-gray-600 italic">{t('survey.noDefects')}</p>
+        ) : (
+          <div className="space-y-1">
+            {survey.repairs.map(item => (
+              <button
+                key={item.rank}
+                onClick={() => onSelect(item.analysisId)}
+                className="w-full flex items-center gap-2 px-2 py-1.5 text-start border border-gray-800 rounded bg-black/30 hover:border-hud-cyan/50"
+              >
+                <span className="w-6 text-[10px] text-gray-500">#{item.rank}</span>
+                <span className={`w-1.5 self-stretch rounded-sm ${scoreColor(item.conditionIndex)}`} />
+                <span className="flex-1 min-w-0">
+                  <span className="block text-xs text-white truncate">{t(`defect.${item.type}`)}</span>
+                  <span className="block text-[9px] text-gray-500 truncate">
+                    CI {item.conditionIndex}/5
+                    {(item.lengthM !== undefined || item.widthM !== undefined) && ` · ~${formatSize(item.lengthM, item.widthM)} m`}
+                    {` · ${t('survey.seg', { index: item.segment + 1 })}`}
+                    {item.sightings > 1 && ` · ${t('survey.seen', { count: item.sightings })}`}
+                  </span>
+                </span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Exports for a works department */}
+      <div className="flex flex-wrap gap-2 pt-2 border-t border-gray-800">
+        <button
+          onClick={() => downloadFile(`nexvue-repairs-${stamp}.csv`, exportRepairListCsv(survey), 'text/csv')}
+          className="flex items-center gap-1 px-2 py-1 text-[10px] uppercase border border-hud-cyan/50 text-hud-cyan rounded hover:bg-hud-cyan/10"
+        >
+          <Download className="w-3 h-3" /> {t('survey.repairsCsv')}
+        </button>
+        <button
+          onClick={() => downloadFile(`nexvue-segments-${stamp}.csv`, exportSegmentsCsv(survey), 'text/csv')}
+          className="flex items-center gap-1 px-2 py-1 text-[10px] uppercase border border-hud-cyan/50 text-hud-cyan rounded hover:bg-hud-cyan/10"
+        >
+          <Download className="w-3 h-3" /> {t('survey.segmentsCsv')}
+        </button>
+        <button
+          onClick={() => geojson && downloadFile(`nexvue-survey-${stamp}.geojson`, geojson, 'application/geo+json')}
+          disabled={!geojson}
+          className="flex items-center gap-1 px-2 py-1 text-[10px] uppercase border border-hud-cyan/50 text-hud-cyan rounded hover:bg-hud-cyan/10 disabled:opacity-40"
+          title={geojson ? undefined : t('survey.noGeo')}
+        >
+          <Download className="w-3 h-3" /> GeoJSON
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default RoadSurveyPanel;
@@ -0,0 +1,62 @@
+import React, { useEffect, useState } from 'react';
+import { SchedulerStats, SchedulerState } from '../services/scanScheduler';
+import { Gauge } from 'lucide-react';
+import { Translator } from '../services/i18n';
+
+interface SchedulerHudProps {
+  stats: SchedulerStats;
+  t: Translator;
+}
+
+const stateStyle: Record<SchedulerState, string> = {
+  idle: 'text-gray-500',
+  running: 'text-hud-cyan',
+  waiting: 'text-hud-green',
+  backoff: 'text-hud-red'
+};
+
+const formatMs = (ms: number | null) => (ms === null ? '--' : ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${Math.round(ms)}ms`);
+
+const SchedulerHud: React.FC<SchedulerHudProps> = ({ stats, t }) => {
+  // Tick while a countdown is showing so "next in" stays current
+  const [now, setNow] = useState(Date.now());
+  useEffect(() => {
+    if (stats.nextRunAt === null) return;
+    const id = window.setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(id);
+  }, [stats.nextRunAt]);
+
+  const nextIn = stats.nextRunAt !== null ? Math.max(0, stats.nextRunAt - now) : null;
+
+  return (
+    <div className="absolute bottom-4 start-4 z-30 bg-black/70 border border-gray-800 rounded px-3 py-2 font-mono text-[9px] text-gray-400 space-y-1 backdrop-blur-sm pointer-events-none min-w-[180px]">
+      <div className="flex items-center justify-between gap-4">
+        <span className="flex items-center gap-1.5 text-gray-300 uppercase tracking-widest">
+          <Gauge className="w-3 h-3" />
+          {t('hud.scheduler')}
+        </span>
+        <span className={`uppercase font-bold ${stateStyle[stats.state]}`}>
+          {stats.state === 'backoff' ? 'BACKOFF' : stats.state}
+        </span>
+      </div>
+      <div className="flex justify-between"><span>{t('hud.latency')}</span><span className="text-white">{formatMs(stats.lastLatencyMs)} / avg {formatMs(stats.avgLatencyMs)}</span></div>
+      <div className="flex justify-between"><span>{t('hud.gap')}</span><span className="text-white">{formatMs(stats.intervalMs)}</span></div>
+      <div className="flex justify-between"><span>{t('hud.throughput')}</span><span className="text-white">{stats.scansPerMinute}/min</span></div>
+      <div className="flex justify-between">
+        <span>OK / ERR / 429</span>
+        <span className="text-white">{stats.completed} / {stats.failed} / {stats.rateLimited}</span>
+      </div>
+      {nextIn !== null && (
+        <div className={`flex justify-between ${stats.state === 'backoff' ? 'text-hud-red' : ''}`}>
+          <span>{stats.state === 'backoff' ? t('hud.retryIn') : t('hud.nextIn')}</span>
+          <span>{formatMs(nextIn)}</span>
+        </div>
+      )}
+      {stats.lastError && (
+        <div className="text-hud-red/80 truncate max-w-[220px]" title={stats.lastError}>{stats.lastError}</div>
+      )}
+    </div>
+  );
+};
+
+export default SchedulerHud;
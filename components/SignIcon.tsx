@@ -0,0 +1,119 @@
+import React from 'react';
+import { SignIconSpec } from '../services/signCatalog';
+import { SignParams } from '../types';
+
+interface SignIconProps {
+  icon: SignIconSpec;
+  params?: SignParams;
+  size?: number;
+  title?: string;
+}
+
+const RED = '#d7141a';
+const YELLOW = '#ffd500';
+const ORANGE = '#ff7a1a';
+const BLUE = '#0055a4';
+
+// Simplified renderings of the standard sign faces; enough to recognize at a glance.
+const SignIcon: React.FC<SignIconProps> = ({ icon, params, size = 32, title }) => {
+  const glyph = (icon.glyph ?? '').replace('{speed}', params?.speed !== undefined ? String(params.speed) : '?');
+  const long = glyph.length > 3;
+
+  const text = (fill: string, y = 50, fontSize = long ? 18 : 34) => (
+    <text x="50" y={y} textAnchor="middle" dominantBaseline="central" fontSize={fontSize} fontWeight="bold" fontFamily="Arial, sans-serif" fill={fill}>
+      {glyph}
+    </text>
+  );
+
+  const body = (() => {
+    switch (icon.shape) {
+      case 'octagon':
+        return (
+          <>
+            <polygon points="30,2 70,2 98,30 98,70 70,98 30,98 2,70 2,30" fill={RED} stroke="#fff" strokeWidth="4" />
+            {text('#fff', 50, 24)}
+          </>
+        );
+      case 'inverted-triangle':
+        return (
+          <>
+            <polygon points="4,8 96,8 50,94" fill="#fff" stroke={RED} strokeWidth="10" strokeLinejoin="round" />
+            {glyph && text(RED, 34, 14)}
+          </>
+        );
+      case 'no-entry':
+        return (
+          <>
+            <circle cx="50" cy="50" r="47" fill={RED} />
+            <rect x="18" y="41" width="64" height="18" fill="#fff" />
+          </>
+        );
+      case 'ring':
+        return (
+          <>
+            <circle cx="50" cy="50" r="43" fill="#fff" stroke={RED} strokeWidth="12" />
+            {text('#000')}
+            {icon.slash && <line x1="22" y1="22" x2="78" y2="78" stroke={RED} strokeWidth="10" />}
+          </>
+        );
+      case 'end': {
+        // Vienna "end of" signs: the cancelled restriction in grey under diagonal stripes
+        return (
+          <>
+            <circle cx="50" cy="50" r="46" fill="#fff" stroke="#000" strokeWidth="3" />
+            {glyph && text('#888')}
+            {[-12, 0, 12].map(offset => (
+              <line key={offset} x1={22 + offset} y1={78 + offset} x2={78 + offset} y2={22 + offset} stroke="#000" strokeWidth="4" />
+            ))}
+          </>
+        );
+      }
+      case 'triangle':
+        return (
+          <>
+            <polygon points="50,6 96,92 4,92" fill="#fff" stroke={RED} strokeWidth="8" strokeLinejoin="round" />
+            {text('#000', 64, long ? 14 : 30)}
+          </>
+        );
+      case 'diamond':
+        return (
+          <>
+            <polygon points="50,2 98,50 50,98 2,50" fill={icon.tone === 'orange' ? ORANGE : YELLOW} stroke="#000" strokeWidth="4" />
+            {text('#000', 50, long ? 14 : 30)}
+          </>
+        );
+      case 'rect': {
+        // MUTCD regulatory panel; speed limits get the two-line "SPEED LIMIT" legend
+        const isSpeed = icon.glyph === '{speed}';
+        return (
+          <>
+            <rect x="14" y="2" width="72" height="96" rx="6" fill="#fff" stroke="#000" strokeWidth="4" />
+            {isSpeed ? (
+              <>
+                <text x="50" y="22" textAnchor="middle" fontSize="14" fontWeight="bold" fontFamily="Arial, sans-serif">SPEED</text>
+                <text x="50" y="38" textAnchor="middle" fontSize="14" fontWeight="bold" fontFamily="Arial, sans-serif">LIMIT</text>
+                {text('#000', 70, 34)}
+              </>
+            ) : text('#000', 50, 14)}
+          </>
+        );
+      }
+      case 'square':
+        return (
+          <>
+            <rect x="4" y="4" width="92" height="92" rx="8" fill={BLUE} stroke="#fff" strokeWidth="4" />
+            {text('#fff', 52, 44)}
+          </>
+        );
+    }
+  })();
+
+  return (
+    <svg width={size} height={size} viewBox="0 0 100 100" role="img" aria-label={title} className="flex-shrink-0">
+      {title && <title>{title}</title>}
+      {body}
+    </svg>
+  );
+};
+
+export default SignIcon;
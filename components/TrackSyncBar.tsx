@@ -0,0 +1,70 @@
+import React, { useRef } from 'react';
+import { MapPin, X } from 'lucide-react';
+import { Translator } from '../services/i18n';
+
+interface TrackSyncBarProps {
+  trackName: string | null; // Loaded GPX/NMEA file, null when none
+  pointCount: number;
+  durationSec: number;
+  offsetSec: number; // Track time = video time + offset
+  onLoad: (file: File) => void;
+  onClear: () => void;
+  onOffsetChange: (value: number) => void;
+  t: Translator;
+}
+
+const TrackSyncBar: React.FC<TrackSyncBarProps> = ({ trackName, pointCount, durationSec, offsetSec, onLoad, onClear, onOffsetChange, t }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <div className="border-t border-hud-border bg-[#0a0a0f] px-4 py-2 flex flex-wrap items-center gap-4 relative z-30">
+      <h3 className="text-hud-cyan text-[10px] font-mono uppercase tracking-widest flex items-center">
+        <MapPin className="w-3 h-3 mr-2" />
+        {t('gps.title')}
+      </h3>
+
+      {trackName ? (
+        <>
+          <span className="text-[10px] font-mono text-gray-400 truncate max-w-[200px]" title={trackName}>
+            {trackName} • {t('gps.points', { count: pointCount })} • {Math.round(durationSec)}s
+          </span>
+          <label className="flex items-center gap-2 text-[10px] font-mono text-gray-400 uppercase" title={t('gps.offsetHint')}>
+            {t('gps.offset')}
+            <input
+              type="number"
+              step={0.5}
+              value={offsetSec}
+              onChange={e => onOffsetChange(Number(e.target.value) || 0)}
+              className="w-16 bg-black/40 border border-gray-700 rounded px-1.5 py-0.5 text-white"
+            />
+            s
+          </label>
+          <button onClick={onClear} className="text-gray-500 hover:text-white transition-colors" title={t('gps.remove')}>
+            <X className="w-3 h-3" />
+          </button>
+        </>
+      ) : (
+        <button
+          onClick={() => inputRef.current?.click()}
+          className="px-3 py-1 border border-gray-700 text-gray-400 bg-black/40 font-mono text-[10px] rounded uppercase hover:text-hud-cyan hover:border-hud-cyan/50 transition-all"
+        >
+          {t('gps.load')}
+        </button>
+      )}
+
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".gpx,.nmea,.nma,.txt,.log,application/gpx+xml"
+        onChange={e => {
+          const file = e.target.files?.[0];
+          if (file) onLoad(file);
+          e.target.value = '';
+        }}
+        className="hidden"
+      />
+    </div>
+  );
+};
+
+export default TrackSyncBar;
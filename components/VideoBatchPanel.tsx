@@ -0,0 +1,142 @@
+import React from 'react';
+import { SafetyLevel, VideoBatchEntry } from '../types';
+import { Film, Square, Play } from 'lucide-react';
+import { Translator } from '../services/i18n';
+
+interface VideoBatchPanelProps {
+  duration: number; // Seconds; 0 until the video metadata is loaded
+  entries: VideoBatchEntry[];
+  progress: { done: number; total: number } | null; // null when no batch is running
+  intervalSec: number;
+  concurrency: number;
+  selectedTime: number | null;
+  onIntervalChange: (value: number) => void;
+  onConcurrencyChange: (value: number) => void;
+  onStart: () => void;
+  onCancel: () => void;
+  onSelect: (entry: VideoBatchEntry) => void;
+  t: Translator;
+}
+
+const markerColor: Record<SafetyLevel, string> = {
+  [SafetyLevel.SAFE]: 'bg-hud-green',
+  [SafetyLevel.CAUTION]: 'bg-hud-amber',
+  [SafetyLevel.DANGER]: 'bg-hud-red'
+};
+
+const formatTime = (seconds: number) => {
+  const m = Math.floor(seconds / 60);
+  const s = Math.floor(seconds % 60);
+  return `${m}:${s.toString().padStart(2, '0')}`;
+};
+
+const VideoBatchPanel: React.FC<VideoBatchPanelProps> = ({
+  duration,
+  entries,
+  progress,
+  intervalSec,
+  concurrency,
+  selectedTime,
+  onIntervalChange,
+  onConcurrencyChange,
+  onStart,
+  onCancel,
+  onSelect,
+  t
+}) => {
+  const running = progress !== null;
+  const percent = progress && progress.total > 0 ? Math.round((progress.done / progress.total) * 100) : 0;
+
+  return (
+    <div className="border-t border-hud-border bg-[#0a0a0f] px-4 py-3 space-y-3 relative z-30">
+      <div className="flex flex-wrap items-center gap-4">
+        <h3 className="text-hud-cyan text-[10px] font-mono uppercase tracking-widest flex items-center">
+          <Film className="w-3 h-3 mr-2" />
+          {t('videos.title')}
+        </h3>
+
+        <label className="flex items-center gap-2 text-[10px] font-mono text-gray-400 uppercase">
+          {t('videos.every')}
+          <input
+            type="number"
+            min={0.5}
+            step={0.5}
+            value={intervalSec}
+            disabled={running}
+            onChange={e => onIntervalChange(Math.max(0.5, Number(e.target.value) || 0.5))}
+            className="w-14 bg-black/40 border border-gray-700 rounded px-1.5 py-0.5 text-white disabled:opacity-50"
+          />
+          s
+        </label>
+
+        <label className="flex items-center gap-2 text-[10px] font-mono text-gray-400 uppercase">
+          {t('images.parallel')}
+          <input
+            type="number"
+            min={1}
+            max={8}
+            value={concurrency}
+            disabled={running}
+            onChange={e => onConcurrencyChange(Math.min(8, Math.max(1, Math.round(Number(e.target.value) || 1))))}
+            className="w-12 bg-black/40 border border-gray-700 rounded px-1.5 py-0.5 text-white disabled:opacity-50"
+          />
+        </label>
+
+        {running ? (
+          <button
+            onClick={onCancel}
+            className="flex items-center gap-2 px-3 py-1 border border-hud-red text-hud-red bg-hud-red/10 font-mono text-[10px] rounded uppercase hover:bg-hud-red/20 transition-all"
+          >
+            <Square className="w-3 h-3" />
+            {t('images.cancel', { done: progress.done, total: progress.total })}
+          </button>
+        ) : (
+          <button
+            onClick={onStart}
+            disabled={duration === 0}
+            className="flex items-center gap-2 px-3 py-1 border border-hud-cyan/50 text-hud-cyan bg-black/40 font-mono text-[10px] rounded uppercase hover:bg-hud-cyan/10 transition-all disabled:opacity-50"
+          >
+            <Play className="w-3 h-3" />
+            {t('videos.analyze')}
+          </button>
+        )}
+      </div>
+
+      {running && (
+        <div className="w-full bg-gray-800 h-0.5 overflow-hidden">
+          <div className="bg-hud-cyan h-full transition-all" style={{ width: `${percent}%` }}></div>
+        </div>
+      )}
+
+      {/* Timeline: one marker per analyzed frame, positioned by video time */}
+      {duration > 0 && entries.length > 0 && (
+        <div>
+          <div className="relative h-6 bg-gray-900/50 border border-gray-800 rounded-sm">
+            {entries.map(entry => (
+              <button
+                key={entry.time}
+                onClick={() => onSelect(entry)}
+                title={`${formatTime(entry.time)} • ${entry.result ? t(`safety.${entry.result.safetyLevel}`) : t('images.failed')}`}
+                className={`absolute top-1 bottom-1 w-1.5 -ml-[3px] rounded-sm transition-transform hover:scale-y-125 ${
+                  entry.result ? markerColor[entry.result.safetyLevel] : 'bg-gray-600'
+                } ${entry.time === selectedTime ? 'ring-2 ring-white' : ''}`}
+                style={{ left: `${(entry.time / duration) * 100}%` }}
+              />
+            ))}
+          </div>
+          <div className="flex justify-between text-[9px] font-mono text-gray-600 mt-1">
+            <span>0:00</span>
+            <span>
+              {entries.filter(e => e.result?.safetyLevel === SafetyLevel.DANGER).length} {t('safety.DANGER')} •{' '}
+              {entries.filter(e => e.result?.safetyLevel === SafetyLevel.CAUTION).length} {t('safety.CAUTION')} •{' '}
+              {entries.filter(e => !e.result).length} {t('images.failed')}
+            </span>
+            <span>{formatTime(duration)}</span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VideoBatchPanel;
@@ -0,0 +1,49 @@
+// Puts the on-device detector's assets under public/ so the app never needs a CDN
+// for them (see services/onDeviceDetector.ts):
+//   public/tfjs-wasm/        WASM backend binaries, copied from node_modules
+//   public/models/coco-ssd/  COCO-SSD lite_mobilenet_v2 graph model, downloaded once
+//
+//   npm run fetch-detector
+
+import { copyFileSync, existsSync, mkdirSync, readdirSync, writeFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const root = join(dirname(fileURLToPath(import.meta.url)), "..");
+const MODEL_SOURCE = "https://storage.googleapis.com/tfjs-models/savedmodel/ssdlite_mobilenet_v2/";
+
+const copyWasm = () => {
+  const from = join(root, "node_modules/@tensorflow/tfjs-backend-wasm/dist");
+  const to = join(root, "public/tfjs-wasm");
+  mkdirSync(to, { recursive: true });
+  const files = readdirSync(from).filter(name => name.endsWith(".wasm"));
+  files.forEach(name => copyFileSync(join(from, name), join(to, name)));
+  console.log(`Copied ${files.length} WASM binaries to public/tfjs-wasm`);
+};
+
+const download = async (url) => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`${url}: HTTP ${response.status}`);
+  return Buffer.from(await response.arrayBuffer());
+};
+
+const fetchModel = async () => {
+  const to = join(root, "public/models/coco-ssd");
+  if (existsSync(join(to, "model.json")) && !process.argv.includes("--force")) {
+    console.log("Model already in public/models/coco-ssd (pass --force to download again)");
+    return;
+  }
+  mkdirSync(to, { recursive: true });
+
+  const manifest = await download(`${MODEL_SOURCE}model.json`);
+  const shards = JSON.parse(manifest.toString("utf8")).weightsManifest.flatMap(group => group.paths);
+  for (const shard of shards) {
+    writeFileSync(join(to, shard), await download(`${MODEL_SOURCE}${shard}`));
+  }
+  // Written last so an interrupted run is downloaded again next time
+  writeFileSync(join(to, "model.json"), manifest);
+  console.log(`Downloaded model.json and ${shards.length} weight shards to public/models/coco-ssd`);
+};
+
+copyWasm();
+await fetchModel();
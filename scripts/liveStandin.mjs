@@ -0,0 +1,106 @@
+// Offline stand-in for the Gemini Live session (see services/liveStandin.ts).
+// Replays fixtures/mockScenes.json over the streaming line protocol, one
+// detection at a time, and answers driver questions from the last scene.
+//
+//   npm run live-standin            (listens on ws://localhost:8787)
+//   LIVE_STANDIN_PORT=9000 npm run live-standin
+
+import { readFileSync } from "node:fs";
+import { WebSocketServer } from "ws";
+
+const PORT = Number(process.env.LIVE_STANDIN_PORT) || 8787;
+const LINE_DELAY_MS = Number(process.env.LIVE_STANDIN_LINE_DELAY_MS) || 300;
+
+const scenes = JSON.parse(readFileSync(new URL("../fixtures/mockScenes.json", import.meta.url), "utf8"));
+
+const wait = ms => new Promise(resolve => setTimeout(resolve, ms));
+
+const describe = hazards => hazards.map(h => `${h.type.toLowerCase()} (${h.severity.toLowerCase()})`).join(", ");
+
+// Picks hazards on the side the question mentions, using box centers
+const answerFor = (question, scene) => {
+  const text = question.toLowerCase();
+  const side = text.includes("left") ? "left" : text.includes("right") ? "right" : null;
+  const hazards = scene?.hazards ?? [];
+  const relevant = side
+    ? hazards.filter(h => h.box && (side === "left" ? (h.box.xMin + h.box.xMax) / 2 < 0.45 : (h.box.xMin + h.box.xMax) / 2 > 0.55))
+    : hazards;
+
+  if (!scene) return "No scene has been analyzed yet.";
+  if (relevant.length === 0) return side ? `Nothing reported on the ${side}.` : "No hazards in view.";
+  return `${side ? `On the ${side}: ` : ""}${describe(relevant)}.`;
+};
+
+const server = new WebSocketServer({ port: PORT });
+
+server.on("connection", socket => {
+  let call = 0;
+  let busy = false;
+  let lastScene = null;
+  let audioBytes = 0;
+
+  const send = message => {
+    if (socket.readyState === socket.OPEN) socket.send(JSON.stringify(message));
+  };
+  const sendLine = object => send({ type: "text", text: `${JSON.stringify(object)}\n` });
+
+  const streamReport = async () => {
+    busy = true;
+    const scene = scenes[call++ % scenes.length];
+    for (const hazard of scene.hazards) {
+      await wait(LINE_DELAY_MS);
+      sendLine({ hazard });
+    }
+    for (const sign of scene.signs) {
+      await wait(LINE_DELAY_MS);
+      sendLine({ sign });
+    }
+    await wait(LINE_DELAY_MS);
+    sendLine({ summary: { safetyLevel: scene.safetyLevel, recommendation: scene.recommendation } });
+    send({ type: "turnComplete" });
+    lastScene = scene;
+    busy = false;
+  };
+
+  const answer = question => {
+    sendLine({ answer: answerFor(question, lastScene) });
+    send({ type: "turnComplete" });
+  };
+
+  socket.on("message", raw => {
+    let message;
+    try {
+      message = JSON.parse(String(raw));
+    } catch {
+      return;
+    }
+
+    switch (message.type) {
+      case "setup":
+        console.log(`Session opened (language ${message.language ?? "en"}, signs ${message.signRegion ?? "EU"})`);
+        break;
+      case "frame":
+        // Frames that arrive mid-report are dropped, like a model that is still talking
+        if (!busy) streamReport();
+        break;
+      case "audio":
+        audioBytes += Buffer.byteLength(message.data ?? "", "base64");
+        break;
+      case "audioEnd": {
+        // No speech recognition offline; treat every spoken question as a general one
+        const seconds = (audioBytes / 32000).toFixed(1); // 16 kHz, 16-bit mono
+        audioBytes = 0;
+        send({ type: "transcript", text: `(spoken question, ${seconds}s)` });
+        answer("");
+        break;
+      }
+      case "ask":
+        answer(String(message.text ?? ""));
+        break;
+    }
+  });
+
+  socket.on("close", () => console.log("Session closed"));
+});
+
+console.log(`Live stand-in listening on ws://localhost:${PORT}`);
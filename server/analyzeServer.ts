@@ -0,0 +1,207 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from "node:http";
+import { SignRegion } from "../types";
+import { VisionProvider } from "../services/visionProvider";
+import { isRecord, ModelOutputError } from "../services/responseValidator";
+import { isRateLimitError } from "../services/scanScheduler";
+import { isAbortError } from "../services/concurrency";
+import { SIGN_REGIONS } from "../services/signCatalog";
+import { ANALYSIS_PROFILES } from "../services/analysisProfiles";
+import { LANGUAGES } from "../services/i18n";
+import { AnalyzeRequest, ServerErrorBody, ServerErrorKind } from "../services/proxyProvider";
+import { RateLimiter } from "./rateLimiter";
+
+export interface AnalyzeServerConfig {
+  upstream: VisionProvider; // Gemini in production, the mock provider in tests
+  limiter: RateLimiter;
+  maxBodyBytes: number;
+  allowedOrigin: string; // CORS origin of the web app, or "*"
+  trustProxy?: boolean; // Identify clients by X-Forwarded-For instead of the socket address
+  liveToken?: () => Promise<string>; // Mints Gemini Live tokens; unset when there is no key
+}
+
+interface RequestError extends Error {
+  status: number;
+  kind: ServerErrorKind;
+}
+
+const requestError = (status: number, kind: ServerErrorKind, message: string): RequestError =>
+  Object.assign(new Error(message), { status, kind });
+
+const isRequestError = (error: unknown): error is RequestError =>
+  error instanceof Error && typeof (error as RequestError).status === "number" && typeof (error as RequestError).kind === "string";
+
+// Same prefixes the Gemini service strips; anything else is not a frame we can send
+const FRAME_PATTERN = /^(data:image\/(png|jpeg|jpg|webp);base64,)?[A-Za-z0-9+/]+={0,2}$/;
+
+const readOptionalId = <T extends string>(raw: Record<string, unknown>, field: string, allowed: readonly string[]): T | undefined => {
+  const value = raw[field];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== "string" || !allowed.includes(value)) {
+    throw requestError(400, "bad-request", `"${field}" must be one of: ${allowed.join(", ")}`);
+  }
+  return value as T;
+};
+
+const parseRequest = (text: string): AnalyzeRequest => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw requestError(400, "bad-request", "Body is not valid JSON");
+  }
+  if (!isRecord(raw)) throw requestError(400, "bad-request", "Body must be a JSON object");
+  if (typeof raw.frame !== "string" || !FRAME_PATTERN.test(raw.frame)) {
+    throw requestError(400, "bad-request", '"frame" must be a base64 JPEG, PNG or WebP image');
+  }
+  return {
+    frame: raw.frame,
+    profileId: readOptionalId(raw, "profileId", ANALYSIS_PROFILES.map(p => p.id)),
+    language: readOptionalId(raw, "language", LANGUAGES.map(l => l.code)),
+    signRegion: readOptionalId<SignRegion>(raw, "signRegion", SIGN_REGIONS)
+  };
+};
+
+// Oversized bodies are refused as soon as they cross the cap; the rest is drained unread
+const readBody = (req: IncomingMessage, maxBytes: number): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const tooLarge = () => requestError(413, "too-large", `Request body is larger than ${maxBytes} bytes`);
+    if (Number(req.headers["content-length"]) > maxBytes) {
+      req.resume();
+      reject(tooLarge());
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+    let refused = false;
+    req.on("data", (chunk: Buffer) => {
+      if (refused) return;
+      size += chunk.length;
+      if (size > maxBytes) {
+        refused = true;
+        chunks.length = 0;
+        reject(tooLarge());
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => {
+      if (!refused) resolve(Buffer.concat(chunks).toString("utf8"));
+    });
+    req.on("error", reject);
+  });
+
+const upstreamError = (error: unknown): ServerErrorBody["error"] & { status: number } => {
+  if (error instanceof ModelOutputError) {
+    return { status: 502, kind: "invalid-output", message: error.message, field: error.field, reason: error.reason };
+  }
+  if (isRateLimitError(error)) {
+    return { status: 429, kind: "rate-limit", message: "The model is rate limited, try again shortly" };
+  }
+  return { status: 502, kind: "upstream", message: "The model could not be reached" };
+};
+
+/**
+ * HTTP front for the vision model. Holds the API key so the browser never sees
+ * it, limits each client's request rate and body size, and only ever returns
+ * results that passed the response validator.
+ *
+ *   POST /analyze     AnalyzeRequest -> AnalysisResult
+ *   POST /live-token  -> { token } for one Gemini Live session
+ *   GET  /health
+ */
+export const createAnalyzeServer = (config: AnalyzeServerConfig): Server => {
+  const send = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+    res.writeHead(status, { "Content-Type": "application/json", ...headers });
+    res.end(JSON.stringify(body));
+  };
+
+  const sendError = (res: ServerResponse, status: number, error: ServerErrorBody["error"], headers?: Record<string, string>) =>
+    send(res, status, { error } satisfies ServerErrorBody, headers);
+
+  const clientId = (req: IncomingMessage): string => {
+    const forwarded = req.headers["x-forwarded-for"];
+    if (config.trustProxy && typeof forwarded === "string" && forwarded) return forwarded.split(",")[0].trim();
+    return req.socket.remoteAddress ?? "unknown";
+  };
+
+  // Refuses the request (and returns false) when the client is over its limit
+  const admit = (req: IncomingMessage, res: ServerResponse): boolean => {
+    const { allowed, retryAfterMs } = config.limiter.take(clientId(req));
+    if (!allowed) {
+      sendError(res, 429, { kind: "rate-limit", message: "Too many requests" }, { "Retry-After": String(Math.ceil(retryAfterMs / 1000)) });
+    }
+    return allowed;
+  };
+
+  const analyze = async (req: IncomingMessage, res: ServerResponse) => {
+    if (!admit(req, res)) return;
+    const request = parseRequest(await readBody(req, config.maxBodyBytes));
+
+    // A client that hangs up no longer needs the answer
+    const controller = new AbortController();
+    res.on("close", () => {
+      if (!res.writableEnded) controller.abort();
+    });
+
+    try {
+      const result = await config.upstream.analyze(request.frame, {
+        profileId: request.profileId,
+        language: request.language,
+        signRegion: request.signRegion,
+        signal: controller.signal
+      });
+      send(res, 200, result);
+    } catch (err) {
+      if (controller.signal.aborted || isAbortError(err)) return;
+      console.error(`${config.upstream.label} analysis failed:`, err);
+      const { status, ...error } = upstreamError(err);
+      sendError(res, status, error);
+    }
+  };
+
+  const liveToken = async (req: IncomingMessage, res: ServerResponse) => {
+    if (!config.liveToken) {
+      sendError(res, 503, { kind: "unavailable", message: "Live sessions need the Gemini upstream" });
+      return;
+    }
+    if (!admit(req, res)) return;
+    try {
+      send(res, 200, { token: await config.liveToken() });
+    } catch (err) {
+      console.error("Live token request failed:", err);
+      const { status, ...error } = upstreamError(err);
+      sendError(res, status, error);
+    }
+  };
+
+  return createServer(async (req, res) => {
+    res.setHeader("Access-Control-Allow-Origin", config.allowedOrigin);
+    res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
+    res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+
+    const path = new URL(req.url ?? "/", "http://localhost").pathname;
+    try {
+      if (req.method === "OPTIONS") {
+        res.writeHead(204).end();
+      } else if (req.method === "POST" && path === "/analyze") {
+        await analyze(req, res);
+      } else if (req.method === "POST" && path === "/live-token") {
+        await liveToken(req, res);
+      } else if (req.method === "GET" && path === "/health") {
+        send(res, 200, { ok: true, upstream: config.upstream.id });
+      } else {
+        sendError(res, 404, { kind: "bad-request", message: `No route for ${req.method} ${path}` });
+      }
+    } catch (err) {
+      if (res.headersSent) return;
+      if (isRequestError(err)) {
+        // Stop reading a body we refused instead of waiting for the rest of it
+        sendError(res, err.status, { kind: err.kind, message: err.message }, err.status === 413 ? { Connection: "close" } : {});
+        return;
+      }
+      console.error("Unexpected server error:", err);
+      sendError(res, 500, { kind: "upstream", message: "Internal server error" });
+    }
+  });
+};
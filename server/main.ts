@@ -0,0 +1,48 @@
+// Analysis server: the only place the Gemini API key lives.
+//
+//   npm run server                          (listens on http://localhost:8788)
+//   ANALYZE_UPSTREAM=stub npm run server     (mock scenes, no key needed)
+//
+// GEMINI_API_KEY is read from the environment or .env.local. The web app finds
+// the server through ANALYZE_SERVER_URL at build time.
+
+import { createAnalyzeServer } from "./analyzeServer";
+import { createRateLimiter } from "./rateLimiter";
+import { createGeminiProvider, createLiveToken } from "../services/geminiService";
+import { createMockProvider } from "../services/mockProvider";
+
+try {
+  process.loadEnvFile(".env.local");
+} catch {
+  // No file; rely on the environment
+}
+
+const readNumber = (value: string | undefined, fallback: number): number => {
+  const parsed = Number(value);
+  return value && isFinite(parsed) ? parsed : fallback;
+};
+
+const PORT = readNumber(process.env.ANALYZE_PORT, 8788);
+const apiKey = process.env.GEMINI_API_KEY;
+const useStub = process.env.ANALYZE_UPSTREAM === "stub";
+
+if (!useStub && !apiKey) {
+  console.error("GEMINI_API_KEY is not configured (set it, or run with ANALYZE_UPSTREAM=stub)");
+  process.exit(1);
+}
+
+const server = createAnalyzeServer({
+  upstream: useStub ? createMockProvider({ latencyMs: readNumber(process.env.MOCK_LATENCY_MS, 600) }) : createGeminiProvider(apiKey!),
+  liveToken: useStub ? undefined : () => createLiveToken(apiKey!),
+  limiter: createRateLimiter({
+    perMinute: readNumber(process.env.ANALYZE_RATE_PER_MINUTE, 60),
+    burst: readNumber(process.env.ANALYZE_RATE_BURST, 10)
+  }),
+  maxBodyBytes: readNumber(process.env.ANALYZE_MAX_BODY_BYTES, 4 * 1024 * 1024),
+  allowedOrigin: process.env.ANALYZE_ALLOWED_ORIGIN || "*",
+  trustProxy: process.env.ANALYZE_TRUST_PROXY === "1"
+});
+
+server.listen(PORT, () => {
+  console.log(`Analysis server (${useStub ? "stub" : "Gemini"} upstream) listening on http://localhost:${PORT}`);
+});
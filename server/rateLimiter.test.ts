@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { createRateLimiter } from "./rateLimiter";
+
+const clock = () => {
+  let time = 0;
+  return { now: () => time, advance: (ms: number) => { time += ms; } };
+};
+
+describe("createRateLimiter", () => {
+  it("allows a burst, then refuses with the wait until the next token", () => {
+    const { now } = clock();
+    const limiter = createRateLimiter({ perMinute: 6, burst: 2 }, now);
+    expect(limiter.take("a").allowed).toBe(true);
+    expect(limiter.take("a").allowed).toBe(true);
+    expect(limiter.take("a")).toEqual({ allowed: false, retryAfterMs: 10000 });
+  });
+
+  it("refills at the sustained rate", () => {
+    const { now, advance } = clock();
+    const limiter = createRateLimiter({ perMinute: 6, burst: 1 }, now);
+    limiter.take("a");
+    advance(5000);
+    expect(limiter.take("a")).toEqual({ allowed: false, retryAfterMs: 5000 });
+    advance(5000);
+    expect(limiter.take("a").allowed).toBe(true);
+  });
+
+  it("keeps a bucket per client", () => {
+    const limiter = createRateLimiter({ perMinute: 1, burst: 1 }, clock().now);
+    expect(limiter.take("a").allowed).toBe(true);
+    expect(limiter.take("a").allowed).toBe(false);
+    expect(limiter.take("b").allowed).toBe(true);
+  });
+
+  it("never stores more than the burst for an idle client", () => {
+    const { now, advance } = clock();
+    const limiter = createRateLimiter({ perMinute: 60, burst: 2 }, now);
+    limiter.take("a");
+    advance(10 * 60000);
+    expect(limiter.take("a").allowed).toBe(true);
+    expect(limiter.take("a").allowed).toBe(true);
+    expect(limiter.take("a").allowed).toBe(false);
+  });
+});
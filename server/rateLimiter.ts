@@ -0,0 +1,52 @@
+export interface RateLimitConfig {
+  perMinute: number; // Sustained requests per client
+  burst: number; // Requests a client may make back to back
+}
+
+export interface RateLimiter {
+  /** Spends one request for `clientId`; when refused, says how long until the next one is allowed. */
+  take: (clientId: string) => { allowed: boolean; retryAfterMs: number };
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+// Idle clients are forgotten once their bucket would have refilled anyway
+const PRUNE_INTERVAL_MS = 60000;
+
+/** Token bucket per client id. */
+export const createRateLimiter = (config: RateLimitConfig, now: () => number = Date.now): RateLimiter => {
+  const refillPerMs = config.perMinute / 60000;
+  const buckets = new Map<string, Bucket>();
+  let prunedAt = now();
+
+  const refill = (bucket: Bucket, at: number) =>
+    Math.min(config.burst, bucket.tokens + (at - bucket.updatedAt) * refillPerMs);
+
+  const prune = (at: number) => {
+    if (at - prunedAt < PRUNE_INTERVAL_MS) return;
+    prunedAt = at;
+    buckets.forEach((bucket, id) => {
+      if (refill(bucket, at) >= config.burst) buckets.delete(id);
+    });
+  };
+
+  return {
+    take: clientId => {
+      const at = now();
+      prune(at);
+      const bucket = buckets.get(clientId) ?? { tokens: config.burst, updatedAt: at };
+      bucket.tokens = refill(bucket, at);
+      bucket.updatedAt = at;
+      buckets.set(clientId, bucket);
+
+      if (bucket.tokens < 1) {
+        return { allowed: false, retryAfterMs: Math.ceil((1 - bucket.tokens) / refillPerMs) };
+      }
+      bucket.tokens -= 1;
+      return { allowed: true, retryAfterMs: 0 };
+    }
+  };
+};
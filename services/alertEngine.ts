@@ -0,0 +1,204 @@
+import { Hazard, RoadSign, SafetyLevel } from "../types";
+import { EarconName } from "./earcons";
+import type { TranslationKey, Translator } from "./i18n";
+
+export type AlertPriority = "critical" | "high" | "normal" | "low";
+export type AlertFlash = "red" | "amber";
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  kind: "hazard" | "sign" | "safety";
+  typePattern: string; // Case-insensitive substring of the hazard/sign type; empty matches all
+  minSeverity: Hazard["severity"]; // Hazards only
+  safetyLevel: SafetyLevel; // Safety rules only
+  message: string; // Template: {type} {severity} {description} {meaning} {recommendation}
+  messageKey?: TranslationKey; // Built-in message, spoken in the UI language; dropped once the message is edited
+  speak: boolean;
+  interrupt: boolean; // Cut off whatever is being spoken
+  earcon: EarconName | null;
+  flash: AlertFlash | null;
+  priority: AlertPriority;
+  cooldownSec: number; // Per rule and object type
+}
+
+export interface Alert {
+  ruleId: string;
+  message: string;
+  speak: boolean;
+  interrupt: boolean;
+  earcon: EarconName | null;
+  flash: AlertFlash | null;
+  priority: AlertPriority;
+}
+
+/** What a scan contributes to alerting; callers may pass only newly tracked objects. */
+export interface AlertScene {
+  safetyLevel: SafetyLevel;
+  recommendation: string;
+  hazards: Hazard[];
+  signs: RoadSign[];
+}
+
+export const PRIORITY_RANK: Record<AlertPriority, number> = { critical: 3, high: 2, normal: 1, low: 0 };
+const SEVERITY_RANK: Record<Hazard["severity"], number> = { LOW: 0, MEDIUM: 1, HIGH: 2 };
+// The same sentence is never spoken twice within this window, whichever rule produced it.
+const DUPLICATE_WINDOW_MS = 15000;
+const RULES_STORAGE_KEY = "nexvue.alertRules";
+
+const rule = (partial: Partial<AlertRule> & Pick<AlertRule, "id" | "name" | "kind" | "message">): AlertRule => ({
+  enabled: true,
+  typePattern: "",
+  minSeverity: "LOW",
+  safetyLevel: SafetyLevel.DANGER,
+  speak: true,
+  interrupt: false,
+  earcon: null,
+  flash: null,
+  priority: "normal",
+  cooldownSec: 30,
+  ...partial
+});
+
+export const DEFAULT_ALERT_RULES: AlertRule[] = [
+  rule({
+    id: "pedestrian-high", name: "Pedestrian in path", kind: "hazard", typePattern: "pedestrian", minSeverity: "HIGH",
+    message: "Pedestrian! {description}", messageKey: "alert.pedestrian", interrupt: true, earcon: "alarm", flash: "red", priority: "critical", cooldownSec: 5
+  }),
+  rule({
+    id: "hazard-high", name: "High severity hazard", kind: "hazard", minSeverity: "HIGH",
+    message: "{type} ahead.", messageKey: "alert.hazardAhead", earcon: "alarm", flash: "red", priority: "high", cooldownSec: 10
+  }),
+  rule({
+    id: "pothole", name: "Pothole", kind: "hazard", typePattern: "pothole", minSeverity: "MEDIUM",
+    message: "Pothole ahead.", messageKey: "alert.pothole", earcon: "chime", flash: "amber", priority: "normal", cooldownSec: 20
+  }),
+  rule({
+    id: "speed-limit", name: "Speed limit sign", kind: "sign", typePattern: "speed",
+    message: "{type} sign ahead.", messageKey: "alert.speedLimit", earcon: "ping", priority: "normal", cooldownSec: 60
+  }),
+  rule({
+    id: "stop-sign", name: "Stop sign", kind: "sign", typePattern: "stop",
+    message: "Stop sign ahead.", messageKey: "alert.stopSign", earcon: "ping", priority: "high", cooldownSec: 30
+  }),
+  rule({
+    id: "danger", name: "Scene: danger", kind: "safety", safetyLevel: SafetyLevel.DANGER,
+    message: "Warning. {recommendation}", messageKey: "alert.danger", interrupt: true, earcon: "alarm", flash: "red", priority: "critical", cooldownSec: 8
+  }),
+  rule({
+    id: "caution", name: "Scene: caution", kind: "safety", safetyLevel: SafetyLevel.CAUTION,
+    message: "Caution. {recommendation}", messageKey: "alert.caution", earcon: "chime", flash: "amber", priority: "normal", cooldownSec: 20
+  }),
+  rule({
+    id: "safe", name: "Scene: safe", kind: "safety", safetyLevel: SafetyLevel.SAFE,
+    message: "{recommendation}", priority: "low", cooldownSec: 60
+  })
+];
+
+export const createRuleId = () => `rule-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+export const createEmptyRule = (): AlertRule =>
+  rule({ id: createRuleId(), name: "New rule", kind: "hazard", message: "{type} detected.", messageKey: "alert.detected" });
+
+/** Rules saved in localStorage, or the defaults when nothing (valid) is stored. */
+export const loadAlertRules = (): AlertRule[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(RULES_STORAGE_KEY) ?? "null");
+    if (Array.isArray(stored)) {
+      // Fill fields added since the rules were saved; unedited built-in messages get their key back
+      return stored.map(entry => {
+        const builtIn = DEFAULT_ALERT_RULES.find(r => r.id === entry.id && r.message === entry.message);
+        return rule({ messageKey: builtIn?.messageKey, ...entry });
+      });
+    }
+  } catch (err) {
+    console.error("Error reading alert rules:", err);
+  }
+  return DEFAULT_ALERT_RULES;
+};
+
+export const saveAlertRules = (rules: AlertRule[]): void => {
+  localStorage.setItem(RULES_STORAGE_KEY, JSON.stringify(rules));
+};
+
+/** Rules with built-in messages replaced by their translation. */
+export const localizeAlertRules = (rules: AlertRule[], t: Translator): AlertRule[] =>
+  rules.map(r => (r.messageKey ? { ...r, message: t(r.messageKey) } : r));
+
+const fillTemplate = (template: string, values: Record<string, string>) =>
+  template.replace(/\{(\w+)\}/g, (_, key: string) => values[key] ?? "").replace(/\s+/g, " ").trim();
+
+const matchesType = (pattern: string, type: string) =>
+  !pattern.trim() || type.toLowerCase().includes(pattern.trim().toLowerCase());
+
+export interface AlertEngine {
+  evaluate: (scene: AlertScene, rules: AlertRule[], now?: number) => Alert[];
+  reset: () => void;
+}
+
+/**
+ * Stateful rule evaluator. Remembers when each rule last fired for each object type
+ * (cooldowns) and which sentences were spoken recently (de-duplication).
+ * Returned alerts are ordered most urgent first.
+ */
+export const createAlertEngine = (): AlertEngine => {
+  const lastFired = new Map<string, number>();
+  const lastMessage = new Map<string, number>();
+
+  const evaluate = (scene: AlertScene, rules: AlertRule[], now: number = Date.now()): Alert[] => {
+    const alerts: Alert[] = [];
+    const emitted = new Set<string>();
+
+    const fire = (r: AlertRule, cooldownKey: string, values: Record<string, string>) => {
+      const key = `${r.id}:${cooldownKey.toLowerCase()}`;
+      if (now - (lastFired.get(key) ?? -Infinity) < r.cooldownSec * 1000) return;
+
+      const message = fillTemplate(r.message, { recommendation: scene.recommendation, ...values });
+      const normalized = message.toLowerCase();
+      if (emitted.has(normalized)) return;
+      if (r.speak && now - (lastMessage.get(normalized) ?? -Infinity) < DUPLICATE_WINDOW_MS) return;
+
+      lastFired.set(key, now);
+      emitted.add(normalized);
+      if (r.speak) lastMessage.set(normalized, now);
+      alerts.push({
+        ruleId: r.id,
+        message,
+        speak: r.speak,
+        interrupt: r.interrupt,
+        earcon: r.earcon,
+        flash: r.flash,
+        priority: r.priority
+      });
+    };
+
+    const enabled = rules.filter(r => r.enabled);
+
+    // Each hazard or sign is handled by the first rule (in list order) that matches it,
+    // so a specific rule placed above a generic one replaces it rather than doubling up.
+    scene.hazards.forEach(h => {
+      const r = enabled.find(candidate => candidate.kind === "hazard" &&
+        matchesType(candidate.typePattern, h.type) &&
+        SEVERITY_RANK[h.severity] >= SEVERITY_RANK[candidate.minSeverity]);
+      if (r) fire(r, h.type, { type: h.type, severity: h.severity, description: h.description });
+    });
+    scene.signs.forEach(s => {
+      const r = enabled.find(candidate => candidate.kind === "sign" && matchesType(candidate.typePattern, s.type));
+      if (r) fire(r, s.type, { type: s.type, meaning: s.meaning });
+    });
+    enabled
+      .filter(r => r.kind === "safety" && r.safetyLevel === scene.safetyLevel)
+      .forEach(r => fire(r, scene.safetyLevel, {}));
+
+    return alerts.sort((a, b) => PRIORITY_RANK[b.priority] - PRIORITY_RANK[a.priority]);
+  };
+
+  return {
+    evaluate,
+    reset: () => {
+      lastFired.clear();
+      lastMessage.clear();
+    }
+  };
+};
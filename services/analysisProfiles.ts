@@ -0,0 +1,117 @@
+// Named analysis setups. A profile bundles everything that changes what the
+// model sees and is asked: model id, prompts, schema extensions and how frames
+// are captured. Results record the profile id so runs can be compared later.
+
+export interface SceneAttributeSpec {
+  description: string;
+  values: string[]; // Allowed answers, reported verbatim in `AnalysisResult.attributes`
+}
+
+export interface CaptureSettings {
+  maxWidth: number | null; // Frames wider than this are downscaled; null keeps the source size
+  jpegQuality: number; // 0-1
+}
+
+export interface AnalysisProfile {
+  id: string;
+  label: string;
+  description: string;
+  model: string;
+  temperature: number;
+  systemInstruction: string;
+  prompt: string;
+  hazardTypes?: string[]; // Vocabulary the model should use for hazard `type`
+  sceneAttributes?: Record<string, SceneAttributeSpec>; // Extra per-scene fields added to the schema
+  surfaceDefects?: boolean; // Ask for typed pavement defects (`AnalysisResult.defects`) for the road survey
+  capture: CaptureSettings;
+  timeoutMs: number; // Latency budget of a cloud call; slower calls are handed to the on-device fallback
+}
+
+const BASE_SYSTEM_INSTRUCTION =
+  "You are an advanced autonomous vehicle vision system. Your priority is safety. Be precise about road signs and extremely vigilant about hazards like potholes and obstacles.";
+
+export const ANALYSIS_PROFILES: AnalysisProfile[] = [
+  {
+    id: "general",
+    label: "General",
+    description: "Balanced defaults for mixed driving",
+    model: "gemini-2.5-flash",
+    temperature: 0.2,
+    systemInstruction: BASE_SYSTEM_INSTRUCTION,
+    prompt: "Analyze this road scene for an autonomous driving system. Identify road signs, detect potholes or road damage, and spot obstacles. Give a tight bounding box for every sign and hazard. Provide a safety assessment and driving recommendation.",
+    capture: { maxWidth: null, jpegQuality: 0.8 },
+    timeoutMs: 8000
+  },
+  {
+    id: "urban-fast",
+    label: "Urban (fast)",
+    description: "Low latency for city streets: people, bikes and junctions up close",
+    model: "gemini-2.5-flash-lite",
+    temperature: 0.2,
+    systemInstruction: BASE_SYSTEM_INSTRUCTION,
+    prompt: "Analyze this city street scene. Focus on pedestrians, cyclists, scooters, opening car doors, crossings, traffic lights and junction signs within about 50 meters. Give a tight bounding box for every sign and hazard. Provide a safety assessment and a short driving recommendation.",
+    hazardTypes: ["Pedestrian", "Cyclist", "Vehicle", "Motorcycle", "Animal", "Obstacle", "Pothole", "Construction"],
+    capture: { maxWidth: 960, jpegQuality: 0.7 },
+    timeoutMs: 5000
+  },
+  {
+    id: "highway",
+    label: "Highway",
+    description: "Distant objects at speed: stopped vehicles, debris, lane closures",
+    model: "gemini-2.5-flash",
+    temperature: 0.2,
+    systemInstruction: BASE_SYSTEM_INSTRUCTION,
+    prompt: "Analyze this highway scene at speed. Look far ahead for stopped or slow vehicles, debris, lane closures, merging traffic, work zones and overhead or gantry signs. Give a tight bounding box for every sign and hazard, including small distant ones. Provide a safety assessment and driving recommendation.",
+    hazardTypes: ["Stopped Vehicle", "Slow Vehicle", "Debris", "Lane Closure", "Work Zone", "Merging Vehicle", "Animal", "Pothole"],
+    capture: { maxWidth: 1920, jpegQuality: 0.85 },
+    timeoutMs: 8000
+  },
+  {
+    id: "night",
+    label: "Night / low visibility",
+    description: "Dark, fog or rain: unlit road users, glare and reflective signs",
+    model: "gemini-2.5-flash",
+    temperature: 0.1,
+    systemInstruction: `${BASE_SYSTEM_INSTRUCTION} The image may be dark, foggy or wet; say so rather than guessing, and treat poorly visible road users as higher severity.`,
+    prompt: "Analyze this low-visibility road scene. Look for unlit pedestrians and cyclists, vehicles without lights, glare, standing water and reflective signs. Give a tight bounding box for every sign and hazard. Report the visibility, provide a safety assessment and a cautious driving recommendation.",
+    sceneAttributes: {
+      visibility: { description: "How far and how clearly the road can be seen", values: ["GOOD", "REDUCED", "POOR"] },
+      lighting: { description: "Main light source", values: ["DAYLIGHT", "DUSK", "STREETLIGHTS", "HEADLIGHTS_ONLY"] }
+    },
+    capture: { maxWidth: 1920, jpegQuality: 0.9 },
+    timeoutMs: 10000
+  },
+  {
+    id: "road-survey",
+    label: "Road survey",
+    description: "Maintenance survey of the road surface; slower, more thorough model",
+    model: "gemini-2.5-pro",
+    temperature: 0.1,
+    systemInstruction: "You are a road maintenance inspector reviewing dashcam frames. Report every defect in the road surface precisely; traffic is secondary.",
+    prompt: "Survey the road surface in this frame. Report every pothole, crack (longitudinal, transverse or alligator), rutting, raveling, patch, edge break, faded or missing lane marking and standing water as a defect, with a tight bounding box, its estimated length and width in meters and a condition index from 1 (failed) to 5 (sound) for the pavement at that spot. Only defects that endanger traffic also go in hazards. Still list road signs. Rate the overall surface condition and give a maintenance-oriented recommendation.",
+    surfaceDefects: true,
+    sceneAttributes: {
+      surfaceCondition: { description: "Overall condition of the visible road surface", values: ["GOOD", "FAIR", "POOR", "FAILED"] }
+    },
+    capture: { maxWidth: null, jpegQuality: 0.92 },
+    timeoutMs: 60000 // The pro model is slow on full-resolution frames
+  }
+];
+
+export const DEFAULT_PROFILE_ID = "general";
+const PROFILE_STORAGE_KEY = "nexvue.profile";
+
+export const getProfile = (id: string | undefined): AnalysisProfile =>
+  ANALYSIS_PROFILES.find(p => p.id === id) ?? ANALYSIS_PROFILES.find(p => p.id === DEFAULT_PROFILE_ID)!;
+
+export const loadProfileId = (): string => getProfile(localStorage.getItem(PROFILE_STORAGE_KEY) ?? undefined).id;
+
+export const saveProfileId = (id: string): void => {
+  localStorage.setItem(PROFILE_STORAGE_KEY, id);
+};
+
+/** Canvas size for a source frame, downscaled to `maxWidth` when it is wider. */
+export const captureSize = (maxWidth: number | null | undefined, width: number, height: number): { width: number; height: number } => {
+  const scale = maxWidth ? Math.min(1, maxWidth / width) : 1;
+  return { width: Math.round(width * scale), height: Math.round(height * scale) };
+};
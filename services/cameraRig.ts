@@ -0,0 +1,142 @@
+import { AnalysisMetrics, AnalysisResult, CameraAssessment, SafetyLevel } from "../types";
+import { AnalyzeOptions, VisionProvider, createAbortError, stampAnalysis } from "./visionProvider";
+
+// Several cameras (front, rear, sides) are analyzed separately and merged into
+// one scene. Camera labels double as ids: they are stamped onto every hazard
+// and sign so panes, tracking and exports can tell the views apart.
+
+export interface CameraDevice {
+  deviceId: string;
+  label: string;
+}
+
+export interface CameraFeed extends CameraDevice {
+  stream: MediaStream;
+}
+
+const SAFETY_RANK: Record<SafetyLevel, number> = {
+  [SafetyLevel.SAFE]: 0,
+  [SafetyLevel.CAUTION]: 1,
+  [SafetyLevel.DANGER]: 2
+};
+
+// "HD Webcam (046d:0825)" -> "HD Webcam"; unnamed devices are numbered
+const cleanLabel = (label: string, index: number) =>
+  label.replace(/\s*\([0-9a-f]{4}:[0-9a-f]{4}\)\s*$/i, "").trim() || `Camera ${index + 1}`;
+
+/**
+ * Video inputs with readable, unique labels. Browsers hide labels until camera
+ * permission is granted, so call this after the first stream is open.
+ */
+export const listCameras = async (): Promise<CameraDevice[]> => {
+  const devices = (await navigator.mediaDevices.enumerateDevices()).filter(d => d.kind === "videoinput");
+  const seen = new Map<string, number>();
+  return devices.map((device, index) => {
+    const base = cleanLabel(device.label, index);
+    const count = (seen.get(base) ?? 0) + 1;
+    seen.set(base, count);
+    return { deviceId: device.deviceId, label: count > 1 ? `${base} ${count}` : base };
+  });
+};
+
+/** Opens the rear-facing camera; once permission is granted its device label can be looked up. */
+export const openDefaultCamera = async (): Promise<CameraFeed> => {
+  const stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: "environment" } });
+  const deviceId = stream.getVideoTracks()[0]?.getSettings().deviceId ?? "default";
+  const device = (await listCameras().catch(() => [])).find(d => d.deviceId === deviceId);
+  return { deviceId, label: device?.label ?? "Camera 1", stream };
+};
+
+export const openCamera = async (device: CameraDevice): Promise<CameraFeed> => {
+  const stream = await navigator.mediaDevices.getUserMedia({ video: { deviceId: { exact: device.deviceId } } });
+  return { ...device, stream };
+};
+
+export const stopFeed = (feed: CameraFeed): void => {
+  feed.stream.getTracks().forEach(track => track.stop());
+};
+
+// Cameras are analyzed in parallel: the slowest one sets the latency, tokens add up
+const mergeMetrics = (results: AnalysisResult[]): AnalysisMetrics => {
+  const sum = (field: "promptTokens" | "outputTokens" | "totalTokens") =>
+    results.some(r => r.metrics?.[field] !== undefined) ? results.reduce((total, r) => total + (r.metrics?.[field] ?? 0), 0) : undefined;
+  const latencies = results.map(r => r.metrics?.latencyMs).filter((ms): ms is number => ms !== undefined);
+  return {
+    model: results[0].metrics?.model,
+    latencyMs: latencies.length ? Math.max(...latencies) : undefined,
+    promptTokens: sum("promptTokens"),
+    outputTokens: sum("outputTokens"),
+    totalTokens: sum("totalTokens")
+  };
+};
+
+/**
+ * Combines per-camera results into one scene. The overall safety level is the
+ * worst any camera reported; the recommendation comes from the camera(s) at
+ * that level. A null result means that camera's analysis failed; it is listed
+ * but does not count towards the assessment.
+ */
+export const mergeCameraResults = (views: { camera: string; result: AnalysisResult | null }[]): AnalysisResult => {
+  const analyzed = views.filter((view): view is { camera: string; result: AnalysisResult } => view.result !== null);
+  if (analyzed.length === 0) throw new Error("No camera could be analyzed");
+
+  const worst = analyzed.reduce(
+    (level, { result }) => (SAFETY_RANK[result.safetyLevel] > SAFETY_RANK[level] ? result.safetyLevel : level),
+    SafetyLevel.SAFE
+  );
+  const cameras: CameraAssessment[] = views.map(({ camera, result }) => ({
+    camera,
+    safetyLevel: result?.safetyLevel ?? null,
+    recommendation: result?.recommendation ?? ""
+  }));
+  const first = analyzed[0].result;
+
+  return stampAnalysis({
+    hazards: analyzed.flatMap(({ camera, result }) => result.hazards.map(hazard => ({ ...hazard, camera }))),
+    signs: analyzed.flatMap(({ camera, result }) => result.signs.map(sign => ({ ...sign, camera }))),
+    safetyLevel: worst,
+    recommendation: analyzed
+      .filter(({ result }) => result.safetyLevel === worst)
+      .map(({ camera, result }) => `${camera}: ${result.recommendation}`)
+      .join(" "),
+    signRegion: first.signRegion,
+    engine: first.engine,
+    profileId: first.profileId,
+    ...(analyzed.some(({ result }) => result.defects)
+      ? { defects: analyzed.flatMap(({ camera, result }) => (result.defects ?? []).map(defect => ({ ...defect, camera }))) }
+      : {}),
+    cameras,
+    metrics: mergeMetrics(analyzed.map(({ result }) => result))
+  });
+};
+
+/** The part of a merged result seen by one camera, for its pane. */
+export const resultForCamera = (result: AnalysisResult, camera: string): AnalysisResult => ({
+  ...result,
+  hazards: result.hazards.filter(hazard => hazard.camera === camera),
+  signs: result.signs.filter(sign => sign.camera === camera),
+  ...(result.defects ? { defects: result.defects.filter(defect => defect.camera === camera) } : {})
+});
+
+/**
+ * Analyzes one frame per camera in parallel and merges the answers. A camera
+ * whose request fails is reported in `cameras` without failing the scan,
+ * unless every camera failed.
+ */
+export const analyzeCameras = async (
+  provider: VisionProvider,
+  frames: { camera: string; dataUrl: string }[],
+  options: AnalyzeOptions = {}
+): Promise<AnalysisResult> => {
+  const settled = await Promise.allSettled(frames.map(frame => provider.analyze(frame.dataUrl, options)));
+  if (options.signal?.aborted) throw createAbortError();
+
+  const rejected = settled.filter((outcome): outcome is PromiseRejectedResult => outcome.status === "rejected");
+  if (rejected.length === settled.length) throw rejected[0].reason;
+
+  return mergeCameraResults(settled.map((outcome, index) => {
+    if (outcome.status === "fulfilled") return { camera: frames[index].camera, result: outcome.value };
+    console.error(`Analysis failed for camera ${frames[index].camera}:`, outcome.reason);
+    return { camera: frames[index].camera, result: null };
+  }));
+};
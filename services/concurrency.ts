@@ -0,0 +1,61 @@
+import { createAbortError } from "./visionProvider";
+
+export interface Limiter {
+  acquire: () => Promise<void>;
+  release: () => void;
+}
+
+/** Counting semaphore: at most `limit` holders between acquire() and release(). */
+export const createLimiter = (limit: number): Limiter => {
+  const max = Math.max(1, Math.floor(limit));
+  const waiting: (() => void)[] = [];
+  let active = 0;
+
+  return {
+    acquire: () => {
+      if (active < max) {
+        active++;
+        return Promise.resolve();
+      }
+      // The releasing holder hands its slot straight to the next waiter
+      return new Promise<void>(resolve => waiting.push(resolve));
+    },
+    release: () => {
+      const next = waiting.shift();
+      if (next) {
+        next();
+      } else {
+        active = Math.max(0, active - 1);
+      }
+    }
+  };
+};
+
+/**
+ * Runs `worker` over `items` with at most `limit` calls in flight.
+ * Results keep the input order. Rejects with an AbortError once `signal` fires.
+ */
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>,
+  signal?: AbortSignal
+): Promise<R[]> => {
+  const limiter = createLimiter(limit);
+  const results: R[] = new Array(items.length);
+
+  await Promise.all(items.map(async (item, index) => {
+    await limiter.acquire();
+    try {
+      if (signal?.aborted) throw createAbortError();
+      results[index] = await worker(item, index);
+    } finally {
+      limiter.release();
+    }
+  }));
+
+  return results;
+};
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof Error && error.name === "AbortError";
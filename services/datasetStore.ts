@@ -0,0 +1,104 @@
+import { AnalysisResult, GroundTruth, LabeledFrame } from "../types";
+import { DATASET_STORE, withStore } from "./db";
+import { isRecord, validateAnalysis } from "./responseValidator";
+import { classifyAnalysis, DEFAULT_SIGN_REGION, SIGN_REGIONS } from "./signCatalog";
+
+// Labeled frames for the evaluation runner. Frames are full-size JPEGs, so
+// the dataset is kept apart from the history and has no retention limit.
+
+export const DATASET_FORMAT = "nexvue-dataset";
+export const DATASET_VERSION = 1;
+
+/** Returns labeled frames, oldest first, so evaluation order is stable. */
+export const loadDataset = async (): Promise<LabeledFrame[]> =>
+  (await withStore<LabeledFrame[]>(DATASET_STORE, "readonly", store => store.index("labeledAt").getAll())) ?? [];
+
+export const saveLabeledFrame = async (frame: LabeledFrame): Promise<void> => {
+  await withStore(DATASET_STORE, "readwrite", store => store.put(frame));
+};
+
+export const deleteLabeledFrame = async (id: string): Promise<void> => {
+  await withStore(DATASET_STORE, "readwrite", store => store.delete(id));
+};
+
+export const clearDataset = async (): Promise<void> => {
+  await withStore(DATASET_STORE, "readwrite", store => store.clear());
+};
+
+/** Ground truth starts from what the model said; the reviewer corrects it from there. */
+export const groundTruthFromResult = (result: AnalysisResult): GroundTruth => ({
+  hazards: result.hazards.map(({ type, severity, description, box }) => ({ type, severity, description, box })),
+  signs: result.signs.map(({ type, meaning, location, box, code, params }) => ({ type, meaning, location, box, code, params })),
+  safetyLevel: result.safetyLevel,
+  signRegion: result.signRegion ?? DEFAULT_SIGN_REGION
+});
+
+/**
+ * Drops rows left without a type and re-codes signs after editing, so a
+ * renamed sign is compared by its new catalog code.
+ */
+export const normalizeGroundTruth = (labels: GroundTruth): GroundTruth => {
+  const classified = classifyAnalysis({
+    hazards: labels.hazards.filter(h => h.type.trim()).map(h => ({ ...h, type: h.type.trim() })),
+    signs: labels.signs
+      .filter(s => s.type.trim())
+      .map(({ type, meaning, location, box }) => ({ type: type.trim(), meaning, location, box })),
+    safetyLevel: labels.safetyLevel,
+    recommendation: ""
+  }, labels.signRegion);
+  return { hazards: classified.hazards, signs: classified.signs, safetyLevel: classified.safetyLevel, signRegion: labels.signRegion };
+};
+
+export const exportDatasetJson = (frames: LabeledFrame[]): string =>
+  JSON.stringify({ format: DATASET_FORMAT, version: DATASET_VERSION, exportedAt: new Date().toISOString(), frames }, null, 2);
+
+// The original prediction is informational; a damaged one is dropped rather than failing the import
+const readPrediction = (raw: unknown): AnalysisResult | undefined => {
+  if (!isRecord(raw)) return undefined;
+  try {
+    const capturedAt = typeof raw.capturedAt === "string" ? raw.capturedAt : new Date().toISOString();
+    return { ...validateAnalysis(raw), timestamp: String(raw.timestamp ?? ""), capturedAt };
+  } catch {
+    return undefined;
+  }
+};
+
+/** Parses a file written by exportDatasetJson; labels go through the model output validator. */
+export const importDatasetJson = (text: string): LabeledFrame[] => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error("Dataset file is not valid JSON");
+  }
+
+  if (!isRecord(raw) || raw.format !== DATASET_FORMAT || !Array.isArray(raw.frames)) {
+    throw new Error("Not a NexVue dataset file");
+  }
+  if (typeof raw.version !== "number" || raw.version > DATASET_VERSION) {
+    throw new Error(`Unsupported dataset version ${raw.version}; this build reads up to ${DATASET_VERSION}`);
+  }
+
+  return (raw.frames as unknown[]).map((entry, idx): LabeledFrame => {
+    if (!isRecord(entry) || typeof entry.frame !== "string" || !entry.frame.startsWith("data:image/")) {
+      throw new Error(`Frame #${idx + 1} in the dataset has no image`);
+    }
+    const rawLabels = isRecord(entry.labels) ? entry.labels : {};
+    let labels;
+    try {
+      labels = validateAnalysis({ ...rawLabels, recommendation: "" });
+    } catch (err) {
+      throw new Error(`Labels of frame #${idx + 1} are invalid: ${err instanceof Error ? err.message : err}`);
+    }
+    const signRegion = SIGN_REGIONS.find(region => region === rawLabels.signRegion) ?? DEFAULT_SIGN_REGION;
+
+    return {
+      id: typeof entry.id === "string" ? entry.id : `imported-${idx}`,
+      frame: entry.frame,
+      labeledAt: Number(entry.labeledAt) || Date.now(),
+      labels: normalizeGroundTruth({ hazards: labels.hazards, signs: labels.signs, safetyLevel: labels.safetyLevel, signRegion }),
+      prediction: readPrediction(entry.prediction),
+      note: typeof entry.note === "string" ? entry.note : undefined
+    };
+  });
+};
@@ -0,0 +1,56 @@
+// Shared IndexedDB handle. Every store the app persists is created here so
+// version upgrades happen in one place.
+const DB_NAME = "nexvue";
+const DB_VERSION = 3;
+
+export const HISTORY_STORE = "history";
+export const DATASET_STORE = "dataset"; // Labeled frames for evaluation (v2)
+export const RECORDING_STORE = "recordings"; // Drive recordings for replay (v3)
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    if (!window.indexedDB) {
+      reject(new Error("IndexedDB is not available in this browser"));
+      return;
+    }
+
+    const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(HISTORY_STORE)) {
+        const store = db.createObjectStore(HISTORY_STORE, { keyPath: "id" });
+        store.createIndex("savedAt", "savedAt");
+      }
+      if (!db.objectStoreNames.contains(DATASET_STORE)) {
+        const store = db.createObjectStore(DATASET_STORE, { keyPath: "id" });
+        store.createIndex("labeledAt", "labeledAt");
+      }
+      if (!db.objectStoreNames.contains(RECORDING_STORE)) {
+        const store = db.createObjectStore(RECORDING_STORE, { keyPath: "id" });
+        store.createIndex("startedAt", "startedAt");
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Wraps a single-store transaction and resolves once it has committed.
+export const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T | undefined>((resolve, reject) => {
+      const tx = db.transaction(storeName, mode);
+      const request = run(tx.objectStore(storeName));
+      tx.oncomplete = () => resolve(request ? request.result : undefined);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+};
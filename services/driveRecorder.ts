@@ -0,0 +1,70 @@
+import { AnalysisResult, DriveRecording, RecordedFrame } from "../types";
+
+// Records the camera with MediaRecorder and logs every analysis made meanwhile,
+// timed against the same clock, so the drive can be replayed exactly.
+
+export interface DriveRecorder {
+  addFrame: (frame: string, result: AnalysisResult) => void;
+  elapsedMs: () => number;
+  stop: () => Promise<DriveRecording>;
+}
+
+const MIME_CANDIDATES = ["video/webm;codecs=vp9", "video/webm;codecs=vp8", "video/webm", "video/mp4"];
+
+const pickMimeType = () =>
+  typeof MediaRecorder.isTypeSupported === "function"
+    ? MIME_CANDIDATES.find(type => MediaRecorder.isTypeSupported(type))
+    : undefined;
+
+export const isRecordingSupported = (): boolean => typeof window !== "undefined" && "MediaRecorder" in window;
+
+/** Starts recording `stream`. `meta` describes the analyzer setup, for the replay header. */
+export const startDriveRecorder = (
+  stream: MediaStream,
+  meta: Pick<DriveRecording, "providerId" | "profileId" | "signRegion">
+): DriveRecorder => {
+  const mimeType = pickMimeType();
+  const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+  const chunks: Blob[] = [];
+  const frames: RecordedFrame[] = [];
+  const startedAt = new Date();
+  // Offsets count from the first recorded video frame; analyses made before it land at 0
+  let origin = performance.now();
+
+  recorder.onstart = () => {
+    origin = performance.now();
+  };
+  recorder.ondataavailable = event => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  recorder.start(1000); // Flush every second so a crash loses little
+
+  const elapsedMs = () => Math.max(0, performance.now() - origin);
+
+  return {
+    addFrame: (frame, result) => {
+      if (recorder.state === "inactive") return;
+      frames.push({ offsetMs: Math.round(elapsedMs()), frame, result });
+    },
+    elapsedMs,
+    stop: () =>
+      new Promise((resolve, reject) => {
+        if (recorder.state === "inactive") {
+          reject(new Error("Recorder already stopped"));
+          return;
+        }
+        const durationMs = Math.round(elapsedMs());
+        recorder.onstop = () =>
+          resolve({
+            id: crypto.randomUUID(),
+            startedAt: startedAt.toISOString(),
+            durationMs,
+            video: new Blob(chunks, { type: recorder.mimeType || mimeType || "video/webm" }),
+            ...meta,
+            frames
+          });
+        recorder.onerror = () => reject(new Error("Recording failed"));
+        recorder.stop();
+      })
+  };
+};
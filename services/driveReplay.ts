@@ -0,0 +1,126 @@
+import { AnalysisResult, DriveRecording, RecordedFrame, RegulatoryState, TrackedScene } from "../types";
+import { VisionProvider } from "./visionProvider";
+import { mapWithConcurrency, isAbortError } from "./concurrency";
+import { updateTrackedScene } from "./sceneTracker";
+import { updateRegulatoryState } from "./regulatoryContext";
+
+/** Index of the last frame analyzed at or before `offsetMs`, or -1 before the first. */
+export const frameIndexAt = (frames: RecordedFrame[], offsetMs: number): number => {
+  let low = 0;
+  let high = frames.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (frames[mid].offsetMs <= offsetMs) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return found;
+};
+
+/**
+ * Scene state as the driver saw it at frame `index`. Tracking and limits are
+ * folded from the first frame on, timed by each result's capture time, so
+ * seeking anywhere gives the same state as playing through.
+ */
+export const replayStateAt = (
+  frames: RecordedFrame[],
+  index: number
+): { tracked: TrackedScene | null; regulatory: RegulatoryState | null } => {
+  let tracked: TrackedScene | null = null;
+  let regulatory: RegulatoryState | null = null;
+  frames.slice(0, index + 1).forEach(({ result }) => {
+    const at = new Date(result.capturedAt).getTime();
+    tracked = updateTrackedScene(tracked, result, at);
+    regulatory = updateRegulatoryState(regulatory, result, at);
+  });
+  return { tracked, regulatory };
+};
+
+export interface RerunOptions {
+  profileId?: string;
+  language?: string;
+  concurrency?: number;
+  signal?: AbortSignal;
+  onProgress?: (done: number, total: number) => void;
+}
+
+/** Sends every recorded frame through `provider` again; a failed frame yields null. */
+export const rerunRecording = async (
+  recording: DriveRecording,
+  provider: VisionProvider,
+  options: RerunOptions = {}
+): Promise<(AnalysisResult | null)[]> => {
+  let done = 0;
+  options.onProgress?.(0, recording.frames.length);
+  return mapWithConcurrency(recording.frames, options.concurrency ?? 2, async ({ frame }) => {
+    let result: AnalysisResult | null = null;
+    try {
+      result = await provider.analyze(frame, {
+        signal: options.signal,
+        language: options.language,
+        signRegion: recording.signRegion,
+        profileId: options.profileId
+      });
+    } catch (err) {
+      if (isAbortError(err) || options.signal?.aborted) throw err;
+      console.error("Re-run failed for a recorded frame:", err);
+    }
+    options.onProgress?.(++done, recording.frames.length);
+    return result;
+  }, options.signal);
+};
+
+export interface ResultDifference {
+  safetyChanged: boolean;
+  added: string[]; // Detection types only the re-run reported
+  removed: string[]; // Detection types only the recording reported
+}
+
+const detectionTypes = (result: AnalysisResult) =>
+  [...result.hazards, ...result.signs].map(item => item.type.trim().toLowerCase());
+
+// Multiset difference, so "2 pedestrians" vs "1 pedestrian" shows one removed
+const subtract = (from: string[], other: string[]) => {
+  const left = [...other];
+  return from.filter(type => {
+    const index = left.indexOf(type);
+    if (index === -1) return true;
+    left.splice(index, 1);
+    return false;
+  });
+};
+
+export const compareResults = (recorded: AnalysisResult, rerun: AnalysisResult): ResultDifference => {
+  const before = detectionTypes(recorded);
+  const after = detectionTypes(rerun);
+  return {
+    safetyChanged: recorded.safetyLevel !== rerun.safetyLevel,
+    added: subtract(after, before),
+    removed: subtract(before, after)
+  };
+};
+
+/**
+ * MediaRecorder WebM files carry no duration, and browsers cannot seek in them
+ * until they have scanned to the end once. Resolves when the video is seekable
+ * and back at the start.
+ */
+export const prepareRecordedVideo = (video: HTMLVideoElement): Promise<void> =>
+  new Promise(resolve => {
+    if (Number.isFinite(video.duration)) {
+      resolve();
+      return;
+    }
+    const rewind = () => {
+      if (!Number.isFinite(video.duration)) return;
+      video.removeEventListener("durationchange", rewind);
+      video.currentTime = 0;
+      resolve();
+    };
+    video.addEventListener("durationchange", rewind);
+    video.currentTime = Number.MAX_SAFE_INTEGER;
+  });
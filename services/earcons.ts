@@ -0,0 +1,53 @@
+// Short synthesized tones that accompany (or stand in for) spoken alerts.
+// Generated with Web Audio, so they work without TTS voices or audio assets.
+
+export type EarconName = "alarm" | "chime" | "ping";
+
+export const EARCON_NAMES: EarconName[] = ["alarm", "chime", "ping"];
+
+// [frequency Hz, start offset s, duration s]
+const PATTERNS: Record<EarconName, [number, number, number][]> = {
+  alarm: [[880, 0, 0.12], [660, 0.14, 0.12], [880, 0.28, 0.12], [660, 0.42, 0.12]],
+  chime: [[660, 0, 0.18], [990, 0.2, 0.25]],
+  ping: [[1200, 0, 0.1]]
+};
+
+let context: AudioContext | null = null;
+
+const getContext = (): AudioContext | null => {
+  if (!context) {
+    const Ctor = window.AudioContext ?? (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+    if (!Ctor) return null;
+    context = new Ctor();
+  }
+  // Browsers start the context suspended until a user gesture; resume is a no-op otherwise
+  if (context.state === "suspended") context.resume().catch(() => undefined);
+  return context;
+};
+
+export const playEarcon = (name: EarconName, volume: number = 0.2): void => {
+  const ctx = getContext();
+  if (!ctx) return;
+
+  const start = ctx.currentTime;
+  PATTERNS[name].forEach(([frequency, offset, duration]) => {
+    const oscillator = ctx.createOscillator();
+    const gain = ctx.createGain();
+    oscillator.type = name === "alarm" ? "square" : "sine";
+    oscillator.frequency.value = frequency;
+
+    // Short attack/release envelope to avoid clicks
+    gain.gain.setValueAtTime(0, start + offset);
+    gain.gain.linearRampToValueAtTime(volume, start + offset + 0.01);
+    gain.gain.linearRampToValueAtTime(0, start + offset + duration);
+
+    oscillator.connect(gain).connect(ctx.destination);
+    oscillator.start(start + offset);
+    oscillator.stop(start + offset + duration + 0.02);
+  });
+};
+
+/** Call from a click handler so later alerts are allowed to play. */
+export const unlockAudio = (): void => {
+  getContext();
+};
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { AnalysisResult, GroundTruth, Hazard, LabeledFrame, SafetyLevel } from "../types";
+import { evaluateDataset, scoreEvaluation } from "./evaluation";
+import { VisionProvider } from "./visionProvider";
+
+const hazard = (type: string, severity: Hazard["severity"] = "HIGH", box?: Hazard["box"]): Hazard =>
+  ({ type, severity, description: "", ...(box ? { box } : {}) });
+
+const labels = (overrides: Partial<GroundTruth> = {}): GroundTruth =>
+  ({ hazards: [], signs: [], safetyLevel: SafetyLevel.SAFE, signRegion: "EU", ...overrides });
+
+const prediction = (overrides: Partial<AnalysisResult> = {}): AnalysisResult => ({
+  signs: [],
+  hazards: [],
+  safetyLevel: SafetyLevel.SAFE,
+  recommendation: "",
+  timestamp: "",
+  capturedAt: "2026-01-01T00:00:00.000Z",
+  ...overrides
+});
+
+describe("scoreEvaluation", () => {
+  it("counts matches, misses and false alarms per class", () => {
+    const report = scoreEvaluation([{
+      labels: labels({ hazards: [hazard("Pothole"), hazard("Pedestrian")] }),
+      prediction: prediction({ hazards: [hazard("pothole", "MEDIUM"), hazard("Debris")] })
+    }]);
+    const byName = Object.fromEntries(report.classes.map(c => [c.name, c]));
+    expect(byName.Pothole).toMatchObject({ tp: 1, fp: 0, fn: 0 });
+    expect(byName.Pedestrian).toMatchObject({ tp: 0, fn: 1, recall: 0, precision: null });
+    expect(byName.Debris).toMatchObject({ fp: 1, recall: null });
+    expect(report.hazards).toEqual({ precision: 0.5, recall: 0.5 });
+    expect(report.severityConfusion.HIGH.MEDIUM).toBe(1);
+  });
+
+  it("needs box overlap when both sides have boxes", () => {
+    const report = scoreEvaluation([{
+      labels: labels({ hazards: [hazard("Pothole", "HIGH", { xMin: 0, yMin: 0, xMax: 0.2, yMax: 0.2 })] }),
+      prediction: prediction({ hazards: [hazard("Pothole", "HIGH", { xMin: 0.5, yMin: 0.5, xMax: 0.7, yMax: 0.7 })] })
+    }]);
+    expect(report.classes[0]).toMatchObject({ tp: 0, fp: 1, fn: 1 });
+  });
+
+  it("compares coded signs by catalog code", () => {
+    const report = scoreEvaluation([{
+      labels: labels({ signs: [{ type: "Speed Limit 50", meaning: "", location: "", code: "C,14" }] }),
+      prediction: prediction({ signs: [{ type: "50 km/h limit", meaning: "", location: "", code: "C,14" }] })
+    }]);
+    expect(report.signs).toEqual({ precision: 1, recall: 1 });
+  });
+
+  it("leaves failed frames out of the scores", () => {
+    const report = scoreEvaluation([
+      { labels: labels({ safetyLevel: SafetyLevel.DANGER }), prediction: prediction({ safetyLevel: SafetyLevel.DANGER }) },
+      { labels: labels(), prediction: null }
+    ]);
+    expect(report).toMatchObject({ frames: 2, failed: 1, safetyAgreement: 1 });
+  });
+});
+
+describe("evaluateDataset", () => {
+  const frame = (id: string, safetyLevel: SafetyLevel): LabeledFrame =>
+    ({ id, frame: "data:image/jpeg;base64,AA", labeledAt: 0, labels: labels({ safetyLevel }) });
+
+  it("counts frames a fallback engine answered without scoring them", async () => {
+    const provider: VisionProvider = {
+      id: "gemini",
+      label: "Gemini",
+      analyze: async frameUrl => frameUrl === "fallback"
+        ? prediction({ engine: "on-device", safetyLevel: SafetyLevel.SAFE })
+        : prediction({ engine: "gemini", safetyLevel: SafetyLevel.DANGER })
+    };
+    const frames = [frame("a", SafetyLevel.DANGER), { ...frame("b", SafetyLevel.SAFE), frame: "fallback" }];
+    const report = await evaluateDataset(frames, provider);
+    expect(report).toMatchObject({ frames: 2, fellBack: 1, failed: 0, safetyAgreement: 1, providerId: "gemini" });
+    expect(report.safetyConfusion.SAFE.SAFE).toBe(0);
+  });
+});
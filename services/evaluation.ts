@@ -0,0 +1,242 @@
+import { AnalysisResult, BoundingBox, GroundTruth, Hazard, LabeledFrame, RoadSign, SafetyLevel } from "../types";
+import { VisionProvider } from "./visionProvider";
+import { mapWithConcurrency, isAbortError } from "./concurrency";
+import { DEFAULT_PROFILE_ID } from "./analysisProfiles";
+
+// Scores an analyzer against the labeled dataset. Detections are matched to
+// labels of the same class; with boxes on both sides a pair also needs
+// MIN_IOU overlap, without boxes the class alone decides.
+const MIN_IOU = 0.3;
+const MAX_STORED_RUNS = 10;
+const RUNS_STORAGE_KEY = "nexvue.evaluationRuns";
+
+type Severity = Hazard["severity"];
+export const SEVERITIES: Severity[] = ["LOW", "MEDIUM", "HIGH"];
+export const SAFETY_LEVELS: SafetyLevel[] = [SafetyLevel.SAFE, SafetyLevel.CAUTION, SafetyLevel.DANGER];
+
+export interface ClassScore {
+  kind: "hazard" | "sign";
+  name: string; // Label type as the reviewer wrote it (or the prediction's, for false positives)
+  tp: number;
+  fp: number;
+  fn: number;
+  precision: number | null; // null when the class was never predicted
+  recall: number | null; // null when the class never occurs in the labels
+}
+
+/** Rows are the labeled value, columns the predicted one. */
+export type ConfusionMatrix<K extends string> = Record<K, Record<K, number>>;
+
+export interface EvaluationReport {
+  id: string;
+  providerId: string;
+  providerLabel: string;
+  profileId: string;
+  startedAt: string; // ISO 8601
+  durationMs: number;
+  frames: number;
+  failed: number; // Frames the analyzer errored on; excluded from the scores
+  fellBack: number; // Frames another engine answered (e.g. the on-device fallback); excluded too
+  meanLatencyMs: number | null;
+  classes: ClassScore[];
+  hazards: { precision: number | null; recall: number | null };
+  signs: { precision: number | null; recall: number | null };
+  severityConfusion: ConfusionMatrix<Severity>;
+  safetyConfusion: ConfusionMatrix<SafetyLevel>;
+  safetyAgreement: number | null; // Share of frames with the right safetyLevel
+}
+
+export interface EvaluationOptions {
+  concurrency?: number;
+  language?: string;
+  profileId?: string;
+  signal?: AbortSignal;
+  onProgress?: (done: number, total: number) => void;
+}
+
+const emptyMatrix = <K extends string>(keys: K[]): ConfusionMatrix<K> =>
+  Object.fromEntries(keys.map(row => [row, Object.fromEntries(keys.map(col => [col, 0]))])) as ConfusionMatrix<K>;
+
+const ratio = (num: number, den: number) => (den > 0 ? num / den : null);
+
+const iou = (a: BoundingBox, b: BoundingBox) => {
+  const w = Math.min(a.xMax, b.xMax) - Math.max(a.xMin, b.xMin);
+  const h = Math.min(a.yMax, b.yMax) - Math.max(a.yMin, b.yMin);
+  if (w <= 0 || h <= 0) return 0;
+  const overlap = w * h;
+  const area = (box: BoundingBox) => (box.xMax - box.xMin) * (box.yMax - box.yMin);
+  return overlap / (area(a) + area(b) - overlap);
+};
+
+const normalizeType = (type: string) => type.trim().toLowerCase().replace(/\s+/g, " ");
+
+// Coded signs compare by catalog code, so "Speed Limit 50" and "50 km/h limit" agree
+const classKey = (item: Hazard | RoadSign) =>
+  "code" in item && item.code ? `code:${item.code}` : normalizeType(item.type);
+
+/** Greedy one-to-one matching, best overlap first. Returns label index -> prediction index. */
+const matchDetections = <T extends Hazard | RoadSign>(labels: T[], predictions: T[]): Map<number, number> => {
+  const pairs: { label: number; prediction: number; score: number }[] = [];
+  labels.forEach((label, l) => {
+    predictions.forEach((prediction, p) => {
+      if (classKey(label) !== classKey(prediction)) return;
+      const score = label.box && prediction.box ? iou(label.box, prediction.box) : MIN_IOU;
+      if (score >= MIN_IOU) pairs.push({ label: l, prediction: p, score });
+    });
+  });
+  pairs.sort((a, b) => b.score - a.score);
+
+  const matches = new Map<number, number>();
+  const used = new Set<number>();
+  pairs.forEach(({ label, prediction }) => {
+    if (matches.has(label) || used.has(prediction)) return;
+    matches.set(label, prediction);
+    used.add(prediction);
+  });
+  return matches;
+};
+
+interface Tally {
+  classes: Map<string, ClassScore>;
+  severityConfusion: ConfusionMatrix<Severity>;
+  safetyConfusion: ConfusionMatrix<SafetyLevel>;
+}
+
+const tallyList = <T extends Hazard | RoadSign>(tally: Tally, kind: ClassScore["kind"], labels: T[], predictions: T[]) => {
+  const matches = matchDetections(labels, predictions);
+  const entry = (item: T) => {
+    const key = `${kind}:${classKey(item)}`;
+    if (!tally.classes.has(key)) {
+      tally.classes.set(key, { kind, name: item.type, tp: 0, fp: 0, fn: 0, precision: null, recall: null });
+    }
+    return tally.classes.get(key)!;
+  };
+
+  labels.forEach((label, l) => {
+    const p = matches.get(l);
+    if (p === undefined) {
+      entry(label).fn++;
+      return;
+    }
+    entry(label).tp++;
+    if (kind === "hazard") {
+      tally.severityConfusion[(label as Hazard).severity][(predictions[p] as Hazard).severity]++;
+    }
+  });
+  const matched = new Set(matches.values());
+  predictions.forEach((prediction, p) => {
+    if (!matched.has(p)) entry(prediction).fp++;
+  });
+};
+
+const summarize = (classes: ClassScore[]) => {
+  const sum = (field: "tp" | "fp" | "fn") => classes.reduce((total, c) => total + c[field], 0);
+  return { precision: ratio(sum("tp"), sum("tp") + sum("fp")), recall: ratio(sum("tp"), sum("tp") + sum("fn")) };
+};
+
+/** Scores predictions against labels; a null prediction means the analyzer failed on that frame. */
+export const scoreEvaluation = (
+  results: { labels: GroundTruth; prediction: AnalysisResult | null }[]
+): Pick<EvaluationReport, "frames" | "failed" | "classes" | "hazards" | "signs" | "severityConfusion" | "safetyConfusion" | "safetyAgreement"> => {
+  const tally: Tally = {
+    classes: new Map(),
+    severityConfusion: emptyMatrix(SEVERITIES),
+    safetyConfusion: emptyMatrix(SAFETY_LEVELS)
+  };
+  let scored = 0;
+  let agreed = 0;
+
+  results.forEach(({ labels, prediction }) => {
+    if (!prediction) return;
+    scored++;
+    tallyList(tally, "hazard", labels.hazards, prediction.hazards);
+    tallyList(tally, "sign", labels.signs, prediction.signs);
+    tally.safetyConfusion[labels.safetyLevel][prediction.safetyLevel]++;
+    if (labels.safetyLevel === prediction.safetyLevel) agreed++;
+  });
+
+  const classes = Array.from(tally.classes.values())
+    .map(c => ({ ...c, precision: ratio(c.tp, c.tp + c.fp), recall: ratio(c.tp, c.tp + c.fn) }))
+    .sort((a, b) => a.kind.localeCompare(b.kind) || (b.tp + b.fn) - (a.tp + a.fn) || a.name.localeCompare(b.name));
+
+  return {
+    frames: results.length,
+    failed: results.length - scored,
+    classes,
+    hazards: summarize(classes.filter(c => c.kind === "hazard")),
+    signs: summarize(classes.filter(c => c.kind === "sign")),
+    severityConfusion: tally.severityConfusion,
+    safetyConfusion: tally.safetyConfusion,
+    safetyAgreement: ratio(agreed, scored)
+  };
+};
+
+// Answered by a fallback engine rather than the provider under test
+const fellBackFrom = (provider: VisionProvider, prediction: AnalysisResult | null) =>
+  prediction?.engine !== undefined && prediction.engine !== provider.id;
+
+/**
+ * Replays every labeled frame through `provider` and scores the answers.
+ * Each frame is analyzed with the sign region it was labeled in, so codes are comparable.
+ * Frames a fallback engine answered are counted but left out of the scores and
+ * latency, so an outage can't pass the fallback's numbers off as the provider's.
+ */
+export const evaluateDataset = async (
+  frames: LabeledFrame[],
+  provider: VisionProvider,
+  options: EvaluationOptions = {}
+): Promise<EvaluationReport> => {
+  const startedAt = new Date();
+  const latencies: number[] = [];
+  let done = 0;
+  options.onProgress?.(0, frames.length);
+
+  const results = await mapWithConcurrency(frames, options.concurrency ?? 2, async frame => {
+    const started = performance.now();
+    let prediction: AnalysisResult | null = null;
+    try {
+      prediction = await provider.analyze(frame.frame, {
+        signal: options.signal,
+        language: options.language,
+        signRegion: frame.labels.signRegion,
+        profileId: options.profileId
+      });
+      if (!fellBackFrom(provider, prediction)) latencies.push(performance.now() - started);
+    } catch (err) {
+      if (isAbortError(err) || options.signal?.aborted) throw err;
+      console.error(`Evaluation failed on frame ${frame.id}:`, err);
+    }
+    options.onProgress?.(++done, frames.length);
+    return { labels: frame.labels, prediction };
+  }, options.signal);
+
+  return {
+    id: `${startedAt.getTime()}-${provider.id}-${options.profileId ?? DEFAULT_PROFILE_ID}`,
+    providerId: provider.id,
+    providerLabel: provider.label,
+    profileId: options.profileId ?? DEFAULT_PROFILE_ID,
+    startedAt: startedAt.toISOString(),
+    durationMs: Date.now() - startedAt.getTime(),
+    meanLatencyMs: latencies.length ? latencies.reduce((a, b) => a + b, 0) / latencies.length : null,
+    ...scoreEvaluation(results.filter(({ prediction }) => !fellBackFrom(provider, prediction))),
+    frames: frames.length,
+    fellBack: results.filter(({ prediction }) => fellBackFrom(provider, prediction)).length
+  };
+};
+
+// Past runs are kept so a prompt or model change can be compared after a rebuild
+export const loadEvaluationRuns = (): EvaluationReport[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(RUNS_STORAGE_KEY) ?? "[]");
+    // Runs saved before fallbacks were tracked have no count
+    return Array.isArray(parsed) ? parsed.map(run => ({ fellBack: 0, ...run })) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveEvaluationRuns = (runs: EvaluationReport[]): EvaluationReport[] => {
+  const kept = runs.slice(0, MAX_STORED_RUNS);
+  localStorage.setItem(RUNS_STORAGE_KEY, JSON.stringify(kept));
+  return kept;
+};
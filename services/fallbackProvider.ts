@@ -0,0 +1,67 @@
+import { AnalyzeOptions, VisionProvider, createAbortError } from "./visionProvider";
+import { ModelOutputError } from "./responseValidator";
+import { getProfile } from "./analysisProfiles";
+import { isTransientError } from "./scanScheduler";
+
+export interface FallbackOptions {
+  retryAfterMs?: number; // After an outage, skip the primary for this long
+}
+
+// fetch rejects with a TypeError when the request never got an answer
+const isOutage = (error: unknown): boolean => {
+  if (error instanceof ModelOutputError) return false;
+  const status = (error as { status?: unknown })?.status;
+  if (typeof status === "number") return status >= 500;
+  return error instanceof TypeError || isTransientError(error);
+};
+
+/**
+ * Answers with `fallback` when `primary` can't be reached (except for profiles
+ * that need surface defects, which get the error instead): network failures,
+ * 5xx responses, calls over the profile's `timeoutMs`, or the browser being
+ * offline. After such an outage the primary is left alone for `retryAfterMs`,
+ * so it doesn't cost a timeout on every scan.
+ * Everything else is passed through: caller aborts are intentional, and 4xx
+ * responses (rate limits, oversized or bad frames) and invalid model output
+ * mean the primary is up and the caller should react to it.
+ */
+export const withFallback = (primary: VisionProvider, fallback: VisionProvider, config: FallbackOptions = {}): VisionProvider => {
+  const retryAfterMs = config.retryAfterMs ?? 30000;
+  let skipPrimaryUntil = 0;
+
+  const useFallback = async (frame: string, options: AnalyzeOptions) =>
+    ({ ...await fallback.analyze(frame, options), engine: fallback.id });
+
+  return {
+    ...primary,
+    analyze: async (frame: string, options: AnalyzeOptions = {}) => {
+      const profile = getProfile(options.profileId);
+      // The fallback can't report surface defects, so a survey scan answered by it would read as clean road
+      const canFallBack = !profile.surfaceDefects;
+      if (canFallBack && (!navigator.onLine || Date.now() < skipPrimaryUntil)) return useFallback(frame, options);
+
+      const controller = new AbortController();
+      const onAbort = () => controller.abort();
+      options.signal?.addEventListener("abort", onAbort, { once: true });
+      let timedOut = false;
+      const timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, profile.timeoutMs);
+
+      try {
+        return await primary.analyze(frame, { ...options, signal: controller.signal });
+      } catch (err) {
+        if (options.signal?.aborted) throw createAbortError();
+        if (!timedOut && !isOutage(err)) throw err;
+        if (!canFallBack) throw timedOut ? new Error(`${primary.label} timed out after ${profile.timeoutMs} ms`) : err;
+        console.warn(`${primary.label} ${timedOut ? "timed out" : "failed"}, using ${fallback.label}:`, err);
+        skipPrimaryUntil = Date.now() + retryAfterMs;
+        return useFallback(frame, options);
+      } finally {
+        clearTimeout(timer);
+        options.signal?.removeEventListener("abort", onAbort);
+      }
+    }
+  };
+};
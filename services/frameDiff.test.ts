@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_CHANGE_THRESHOLD, frameDifference } from "./frameDiff";
+
+const CELLS = 32 * 18;
+
+describe("frameDifference", () => {
+  it("is 0 for identical signatures and ignores noise below the cell threshold", () => {
+    const a = new Float32Array(CELLS).fill(0.1);
+    const b = a.map(v => v + 0.05);
+    expect(frameDifference(a, a)).toBe(0);
+    expect(frameDifference(a, b)).toBe(0);
+  });
+
+  it("is the fraction of cells that changed", () => {
+    const a = new Float32Array(CELLS);
+    const b = new Float32Array(CELLS);
+    b.fill(0.5, 0, CELLS / 4);
+    expect(frameDifference(a, b)).toBe(0.25);
+  });
+
+  it("lets a small new object clear the default threshold", () => {
+    const a = new Float32Array(CELLS);
+    const b = new Float32Array(CELLS);
+    b.fill(0.3, 100, 115); // About a distant pedestrian's worth of cells
+    expect(frameDifference(a, b)).toBeGreaterThan(DEFAULT_CHANGE_THRESHOLD);
+  });
+
+  it("treats signatures of different sizes as entirely changed", () => {
+    expect(frameDifference(new Float32Array(CELLS), new Float32Array(10))).toBe(1);
+  });
+});
@@ -0,0 +1,54 @@
+// Cheap client-side change detection: frames are reduced to a tiny grayscale
+// signature and compared by how many of its cells changed. Counting cells
+// instead of averaging keeps a small new object (a pedestrian stepping out, a
+// brake light) from being diluted by the rest of an unchanged frame.
+
+const SIGNATURE_WIDTH = 32;
+const SIGNATURE_HEIGHT = 18;
+
+// Brightness difference (0-1) beyond which a signature cell counts as changed;
+// above sensor noise, which the downsampling already averages out.
+const CELL_CHANGE = 0.08;
+
+// Fraction of changed cells (0-1) below which two frames count as the same
+// scene. 2% is about a dozen of the 576 cells, roughly a distant pedestrian.
+export const DEFAULT_CHANGE_THRESHOLD = 0.02;
+
+let scratch: HTMLCanvasElement | null = null;
+
+/**
+ * Downsamples `source` to a 32x18 grayscale signature. The mean brightness is
+ * subtracted so auto-exposure drift alone does not count as a scene change.
+ */
+export const computeFrameSignature = (source: CanvasImageSource): Float32Array | null => {
+  scratch = scratch ?? document.createElement("canvas");
+  scratch.width = SIGNATURE_WIDTH;
+  scratch.height = SIGNATURE_HEIGHT;
+  const ctx = scratch.getContext("2d", { willReadFrequently: true });
+  if (!ctx) return null;
+
+  ctx.drawImage(source, 0, 0, SIGNATURE_WIDTH, SIGNATURE_HEIGHT);
+  const { data } = ctx.getImageData(0, 0, SIGNATURE_WIDTH, SIGNATURE_HEIGHT);
+
+  const signature = new Float32Array(SIGNATURE_WIDTH * SIGNATURE_HEIGHT);
+  let sum = 0;
+  for (let i = 0; i < signature.length; i++) {
+    // Rec. 601 luma, scaled to 0-1
+    const luma = (0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]) / 255;
+    signature[i] = luma;
+    sum += luma;
+  }
+  const mean = sum / signature.length;
+  for (let i = 0; i < signature.length; i++) signature[i] -= mean;
+  return signature;
+};
+
+/** Fraction of signature cells that changed by more than `CELL_CHANGE`, 0 (identical) to 1. */
+export const frameDifference = (a: Float32Array, b: Float32Array): number => {
+  if (a.length !== b.length) return 1;
+  let changed = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (Math.abs(a[i] - b[i]) > CELL_CHANGE) changed++;
+  }
+  return changed / a.length;
+};
@@ -0,0 +1,107 @@
+import { GoogleGenAI, Modality, Session } from "@google/genai";
+import { LIVE_API_VERSION, promptInstructions } from "./geminiService";
+import { fetchLiveToken } from "./proxyProvider";
+import { LIVE_PROTOCOL_INSTRUCTIONS, LiveBackend, createLiveReportParser, toBase64Payload } from "./liveSession";
+import { AnalysisProfile, getProfile } from "./analysisProfiles";
+
+const LIVE_MODEL = "gemini-live-2.5-flash-preview";
+
+const REPORT_PROMPT = "Scene report for the latest frame.";
+
+// The live model is fixed; the profile contributes its focus and any extra scene fields
+const profileInstructions = (profile: AnalysisProfile): string => {
+  const attributes = Object.entries(profile.sceneAttributes ?? {})
+    .map(([key, spec]) => `"${key}" (${spec.values.join("|")})`);
+  return ` Reporting focus: ${profile.prompt}` +
+    (attributes.length ? ` Add "attributes": {${attributes.join(", ")}} to every summary.` : "");
+};
+
+/**
+ * Gemini Live session. Frames go out as realtime video; a scene report is
+ * requested whenever the previous one has finished and a newer frame exists,
+ * so reports run back to back instead of on a fixed timer. Spoken questions
+ * are answered by the model's own voice activity detection. Each session
+ * authenticates with a single-use token from the analysis server.
+ */
+export const createGeminiLiveBackend = (serverUrl: string): LiveBackend => ({
+  id: "gemini-live",
+  label: "Gemini Live",
+  connect: async (callbacks, options = {}) => {
+    const parser = createLiveReportParser(callbacks, options);
+    const profile = getProfile(options.profileId);
+    let session: Session | null = null;
+    let turnOpen = false;
+    let pendingFrame = false;
+    let closed = false;
+
+    const requestReport = () => {
+      if (!session || closed || turnOpen || !pendingFrame) return;
+      turnOpen = true;
+      pendingFrame = false;
+      session.sendClientContent({ turns: REPORT_PROMPT, turnComplete: true });
+    };
+
+    callbacks.onStatus("connecting");
+    const client = new GoogleGenAI({ apiKey: await fetchLiveToken(serverUrl), httpOptions: { apiVersion: LIVE_API_VERSION } });
+    session = await client.live.connect({
+      model: LIVE_MODEL,
+      config: {
+        responseModalities: [Modality.TEXT],
+        inputAudioTranscription: {},
+        temperature: profile.temperature,
+        systemInstruction:
+          `${profile.systemInstruction} You are watching a live dashcam feed. ` +
+          LIVE_PROTOCOL_INSTRUCTIONS + profileInstructions(profile) + promptInstructions(options)
+      },
+      callbacks: {
+        onopen: () => callbacks.onStatus("open"),
+        onmessage: message => {
+          const content = message.serverContent;
+          if (!content) return;
+
+          const heard = content.inputTranscription?.text;
+          if (heard) callbacks.onTranscript?.(heard);
+
+          const text = content.modelTurn?.parts?.map(part => part.text ?? "").join("");
+          if (text) parser.push(text);
+
+          if (content.turnComplete || content.interrupted) {
+            parser.flush();
+            turnOpen = false;
+            requestReport();
+          }
+        },
+        onerror: event => callbacks.onStatus("error", event.message || "Live session error"),
+        onclose: event => {
+          closed = true;
+          callbacks.onStatus("closed", event.reason || undefined);
+        }
+      }
+    });
+
+    return {
+      sendFrame: frame => {
+        if (closed) return;
+        session!.sendRealtimeInput({ video: { data: toBase64Payload(frame), mimeType: "image/jpeg" } });
+        pendingFrame = true;
+        requestReport();
+      },
+      sendAudio: pcm => {
+        if (!closed) session!.sendRealtimeInput({ audio: { data: pcm, mimeType: "audio/pcm;rate=16000" } });
+      },
+      endAudio: () => {
+        if (!closed) session!.sendRealtimeInput({ audioStreamEnd: true });
+      },
+      ask: question => {
+        if (closed) return;
+        // Typed questions go through the ordered turn channel like report requests
+        turnOpen = true;
+        session!.sendClientContent({ turns: question, turnComplete: true });
+      },
+      close: () => {
+        closed = true;
+        session?.close();
+      }
+    };
+  }
+});
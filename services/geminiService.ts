@@ -1,12 +1,67 @@
 import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { AnalysisResult, SafetyLevel } from "../types";
+import { AnalysisResult } from "../types";
+import { AnalyzeOptions, VisionProvider, stampAnalysis } from "./visionProvider";
+import { parseModelOutput } from "./responseValidator";
+import { getLanguage } from "./i18n";
+import { classifyAnalysis, SIGN_CATALOGS, DEFAULT_SIGN_REGION } from "./signCatalog";
+import { AnalysisProfile, getProfile } from "./analysisProfiles";
+import { SURFACE_DEFECT_IDS } from "./roadSurvey";
 
-// Initialize the client.
-// Note: In a real production app, you might proxy this or use a different auth flow.
-// For this prototype, we assume the environment variable is injected.
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// Runs on the analysis server (server/); the browser reaches it through the
+// proxy provider.
 
-const analysisSchema: Schema = {
+// Ephemeral tokens only exist on the v1alpha API, for both minting and use
+export const LIVE_API_VERSION = "v1alpha";
+
+// Gemini is trained to emit boxes as [ymin, xmin, ymax, xmax] on a 0-1000 grid,
+// so we ask for that layout and convert to normalized coordinates afterwards.
+const boxSchema: Schema = {
+  type: Type.ARRAY,
+  items: { type: Type.INTEGER },
+  description: "Bounding box as [ymin, xmin, ymax, xmax], normalized to 0-1000"
+};
+
+const hazardTypeDescription = (profile: AnalysisProfile): string =>
+  profile.hazardTypes
+    ? `Type of hazard, preferably one of: ${profile.hazardTypes.join(", ")}`
+    : "Type of hazard (e.g., Pothole, Pedestrian, Animal, Debris)";
+
+// Profiles can ask for extra per-scene fields; they arrive as `attributes`
+const attributesSchema = (profile: AnalysisProfile): Record<string, Schema> => {
+  const specs = Object.entries(profile.sceneAttributes ?? {});
+  if (specs.length === 0) return {};
+  return {
+    attributes: {
+      type: Type.OBJECT,
+      properties: Object.fromEntries(specs.map(([key, spec]) => [key, { type: Type.STRING, enum: spec.values, description: spec.description }])),
+      required: specs.map(([key]) => key)
+    }
+  };
+};
+
+const defectsSchema = (profile: AnalysisProfile): Record<string, Schema> =>
+  profile.surfaceDefects
+    ? {
+        defects: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              type: { type: Type.STRING, enum: SURFACE_DEFECT_IDS, description: "Kind of pavement defect" },
+              conditionIndex: { type: Type.INTEGER, description: "Pavement condition at the defect, 1 (failed) to 5 (sound)" },
+              lengthM: { type: Type.NUMBER, description: "Estimated length in meters" },
+              widthM: { type: Type.NUMBER, description: "Estimated width in meters" },
+              description: { type: Type.STRING, description: "Extent and state of the defect" },
+              box_2d: boxSchema
+            },
+            required: ["type", "conditionIndex", "description", "box_2d"]
+          },
+          description: "Every defect in the visible road surface."
+        }
+      }
+    : {};
+
+const analysisSchema = (profile: AnalysisProfile): Schema => ({
   type: Type.OBJECT,
   properties: {
     signs: {
@@ -16,9 +71,10 @@ const analysisSchema: Schema = {
         properties: {
           type: { type: Type.STRING, description: "Type of sign (e.g., Speed Limit, Stop, Yield)" },
           meaning: { type: Type.STRING, description: "What the sign indicates" },
-          location: { type: Type.STRING, description: "Relative location in the image (e.g., Top Right, Center)" }
+          location: { type: Type.STRING, description: "Relative location in the image (e.g., Top Right, Center)" },
+          box_2d: boxSchema
         },
-        required: ["type", "meaning", "location"]
+        required: ["type", "meaning", "location", "box_2d"]
       },
       description: "List of identified road signs."
     },
@@ -27,11 +83,12 @@ const analysisSchema: Schema = {
       items: {
         type: Type.OBJECT,
         properties: {
-          type: { type: Type.STRING, description: "Type of hazard (e.g., Pothole, Pedestrian, Animal, Debris)" },
+          type: { type: Type.STRING, description: hazardTypeDescription(profile) },
           severity: { type: Type.STRING, enum: ["LOW", "MEDIUM", "HIGH"], description: "Severity of the hazard" },
-          description: { type: Type.STRING, description: "Details about the hazard" }
+          description: { type: Type.STRING, description: "Details about the hazard" },
+          box_2d: boxSchema
         },
-        required: ["type", "severity", "description"]
+        required: ["type", "severity", "description", "box_2d"]
       },
       description: "List of detected hazards including potholes and obstacles."
     },
@@ -43,20 +100,39 @@ const analysisSchema: Schema = {
     recommendation: {
       type: Type.STRING,
       description: "Driving recommendation for the driver or autonomous system."
-    }
+    },
+    ...attributesSchema(profile),
+    ...defectsSchema(profile)
   },
-  required: ["signs", "hazards", "safetyLevel", "recommendation"]
+  required: ["signs", "hazards", "safetyLevel", "recommendation", ...Object.keys(attributesSchema(profile)), ...Object.keys(defectsSchema(profile))]
+});
+
+// `type`, `severity` and `safetyLevel` stay in English: alert rules and tracking key off them.
+const languageInstruction = (code: string | undefined): string => {
+  const language = getLanguage(code);
+  if (language.code === "en") return "";
+  return ` Write every "meaning", "description" and "recommendation" in ${language.englishName}. Keep "type", "location", "severity" and "safetyLevel" in English.`;
+};
+
+// Standard names with the posted value ("Speed Limit 50") map cleanly onto the sign catalog
+const signInstruction = (options: AnalyzeOptions): string => {
+  const catalog = SIGN_CATALOGS[options.signRegion ?? DEFAULT_SIGN_REGION];
+  return ` Signs follow the ${catalog.standard} (${catalog.label}); name each sign by its standard name and include any posted value, e.g. "Speed Limit 50".`;
 };
 
-export const analyzeRoadScene = async (base64Image: string): Promise<AnalysisResult> => {
+/** Region and language clauses shared by the polling prompt and the live session. */
+export const promptInstructions = (options: AnalyzeOptions): string =>
+  signInstruction(options) + languageInstruction(options.language);
+
+export const analyzeRoadScene = async (client: GoogleGenAI, base64Image: string, options: AnalyzeOptions = {}): Promise<AnalysisResult> => {
   try {
-    const modelId = "gemini-2.5-flash"; // Fast and capable vision model
-    
+    const profile = getProfile(options.profileId);
+
     // Remove the data URL prefix if present to get raw base64
     const cleanBase64 = base64Image.replace(/^data:image\/(png|jpeg|jpg|webp);base64,/, "");
 
-    const response = await ai.models.generateContent({
-      model: modelId,
+    const response = await client.models.generateContent({
+      model: profile.model,
       contents: {
         parts: [
           {
@@ -66,15 +142,16 @@ export const analyzeRoadScene = async (base64Image: string): Promise<AnalysisRes
             }
           },
           {
-            text: "Analyze this road scene for an autonomous driving system. Identify road signs, detect potholes or road damage, and spot obstacles. Provide a safety assessment and driving recommendation."
+            text: profile.prompt + promptInstructions(options)
           }
         ]
       },
       config: {
         responseMimeType: "application/json",
-        responseSchema: analysisSchema,
-        systemInstruction: "You are an advanced autonomous vehicle vision system. Your priority is safety. Be precise about road signs and extremely vigilant about hazards like potholes and obstacles.",
-        temperature: 0.2 // Low temperature for more deterministic/analytical results
+        responseSchema: analysisSchema(profile),
+        systemInstruction: profile.systemInstruction,
+        temperature: profile.temperature, // Low for more deterministic/analytical results
+        abortSignal: options.signal
       }
     });
 
@@ -83,14 +160,38 @@ export const analyzeRoadScene = async (base64Image: string): Promise<AnalysisRes
       throw new Error("No response text from Gemini");
     }
 
-    const data = JSON.parse(text) as AnalysisResult;
-    return {
-      ...data,
-      timestamp: new Date().toLocaleTimeString()
-    };
+    const usage = response.usageMetadata;
+    return stampAnalysis({
+      ...classifyAnalysis(parseModelOutput(text), options.signRegion),
+      metrics: {
+        model: response.modelVersion ?? profile.model,
+        promptTokens: usage?.promptTokenCount,
+        outputTokens: usage?.candidatesTokenCount,
+        totalTokens: usage?.totalTokenCount
+      }
+    });
 
   } catch (error) {
     console.error("Gemini Analysis Error:", error);
     throw error;
   }
+};
+
+export const createGeminiProvider = (apiKey: string): VisionProvider => {
+  const client = new GoogleGenAI({ apiKey });
+  return {
+    id: "gemini",
+    label: "Gemini",
+    analyze: (frame, options) => analyzeRoadScene(client, frame, options)
+  };
+};
+
+/** Single-use token for one Live session, so the browser never needs the API key. */
+export const createLiveToken = async (apiKey: string): Promise<string> => {
+  const client = new GoogleGenAI({ apiKey, httpOptions: { apiVersion: LIVE_API_VERSION } });
+  const token = await client.authTokens.create({ config: { uses: 1 } });
+  if (!token.name) {
+    throw new Error("Gemini returned no live token");
+  }
+  return token.name;
 };
\ No newline at end of file
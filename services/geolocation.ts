@@ -0,0 +1,56 @@
+import { GeoTag } from "../types";
+
+export const toGeoTag = (position: GeolocationPosition): GeoTag => {
+  const { latitude, longitude, accuracy, heading, speed } = position.coords;
+  return {
+    latitude,
+    longitude,
+    accuracy,
+    // The API reports null (or NaN while stationary) when it has no value
+    heading: heading !== null && isFinite(heading) ? heading : undefined,
+    speed: speed !== null && isFinite(speed) ? speed : undefined
+  };
+};
+
+/**
+ * Streams high-accuracy fixes from the Geolocation API.
+ * Returns a function that stops the watch.
+ */
+export const watchGeolocation = (
+  onFix: (geo: GeoTag) => void,
+  onError: (message: string) => void
+): (() => void) => {
+  if (!navigator.geolocation) {
+    onError("Geolocation is not available in this browser");
+    return () => undefined;
+  }
+
+  const watchId = navigator.geolocation.watchPosition(
+    position => onFix(toGeoTag(position)),
+    error => onError(error.message || "Could not read device position"),
+    { enableHighAccuracy: true, maximumAge: 1000, timeout: 15000 }
+  );
+  return () => navigator.geolocation.clearWatch(watchId);
+};
+
+const EARTH_RADIUS_M = 6371000;
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/** Great-circle distance in meters. */
+export const haversineMeters = (a: GeoTag, b: GeoTag): number => {
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLon = toRadians(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+/** Initial bearing from a to b in degrees clockwise from north. */
+export const bearingDegrees = (a: GeoTag, b: GeoTag): number => {
+  const lat1 = toRadians(a.latitude);
+  const lat2 = toRadians(b.latitude);
+  const dLon = toRadians(b.longitude - a.longitude);
+  const y = Math.sin(dLon) * Math.cos(lat2);
+  const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLon);
+  return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+};
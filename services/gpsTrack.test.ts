@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { parseTrackFile, positionAtTime } from "./gpsTrack";
+
+const NMEA = [
+  "$GPRMC,120000.00,A,4807.038,N,01131.000,E,022.4,084.4,230394,003.1,W*6A",
+  "$GPGGA,120000.00,4807.038,N,01131.000,E,1,08,0.9,545.4,M,46.9,M,,*47",
+  "$GNRMC,120000.50,A,4807.048,N,01131.000,E,,,230394,,*00",
+  "$GPRMC,120001.00,V,4807.058,N,01131.000,E,,,230394,,*00",
+  "$GPRMC,120002.25,A,4807.068,S,01131.000,W,010.0,180.0,230394,,"
+].join("\r\n");
+
+describe("parseTrackFile", () => {
+  it("reads valid RMC fixes of any talker, timed from the first fix to the millisecond", () => {
+    const track = parseTrackFile(NMEA, "drive.nmea");
+    expect(track.map(point => point.time)).toEqual([0, 0.5, 2.25]);
+  });
+
+  it("converts ddmm.mmmm coordinates with their hemisphere", () => {
+    const [first, , last] = parseTrackFile(NMEA);
+    expect(first.geo.latitude).toBeCloseTo(48 + 7.038 / 60, 6);
+    expect(first.geo.longitude).toBeCloseTo(11 + 31 / 60, 6);
+    expect(last.geo.latitude).toBeLessThan(0);
+    expect(last.geo.longitude).toBeLessThan(0);
+  });
+
+  it("takes speed and heading from the sentence, or derives them from the next fix", () => {
+    const [first, second] = parseTrackFile(NMEA);
+    expect(first.geo.speed).toBeCloseTo(22.4 * 0.514444, 4);
+    expect(first.geo.heading).toBe(84.4);
+    expect(second.geo.speed).toBeGreaterThan(0);
+    expect(second.geo.heading).toBeDefined();
+  });
+
+  it("rejects a log without usable fixes", () => {
+    expect(() => parseTrackFile("$GPRMC,120000,V,,,,,,,230394,,")).toThrow(/No valid RMC sentences/);
+  });
+});
+
+describe("positionAtTime", () => {
+  const track = parseTrackFile(NMEA);
+
+  it("interpolates between fixes", () => {
+    const geo = positionAtTime(track, 0.25)!;
+    expect(geo.latitude).toBeCloseTo((track[0].geo.latitude + track[1].geo.latitude) / 2, 6);
+  });
+
+  it("is undefined outside the recorded range", () => {
+    expect(positionAtTime(track, -1)).toBeUndefined();
+    expect(positionAtTime(track, 3)).toBeUndefined();
+    expect(positionAtTime([], 0)).toBeUndefined();
+  });
+});
@@ -0,0 +1,128 @@
+import { GeoTag } from "../types";
+import { bearingDegrees, haversineMeters } from "./geolocation";
+
+export interface TrackPoint {
+  time: number; // Seconds since the first point of the track
+  geo: GeoTag;
+}
+
+const KNOTS_TO_MPS = 0.514444;
+
+const parseGpx = (text: string): { epochMs: number; geo: GeoTag }[] => {
+  const doc = new DOMParser().parseFromString(text, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length > 0) {
+    throw new Error("GPX file is not valid XML");
+  }
+
+  return Array.from(doc.getElementsByTagName("trkpt")).flatMap(point => {
+    const latitude = Number(point.getAttribute("lat"));
+    const longitude = Number(point.getAttribute("lon"));
+    const epochMs = Date.parse(point.getElementsByTagName("time")[0]?.textContent ?? "");
+    if (!isFinite(latitude) || !isFinite(longitude) || isNaN(epochMs)) return [];
+    return [{ epochMs, geo: { latitude, longitude } }];
+  });
+};
+
+// NMEA coordinates are ddmm.mmmm (latitude) / dddmm.mmmm (longitude)
+const parseNmeaCoordinate = (value: string, hemisphere: string): number => {
+  const dot = value.indexOf(".");
+  const degreeDigits = (dot === -1 ? value.length : dot) - 2;
+  const degrees = Number(value.slice(0, degreeDigits));
+  const minutes = Number(value.slice(degreeDigits));
+  const decimal = degrees + minutes / 60;
+  return hemisphere === "S" || hemisphere === "W" ? -decimal : decimal;
+};
+
+// hhmmss.sss + ddmmyy -> epoch ms (UTC). Date.UTC drops fractional seconds, so
+// the decimals are added as milliseconds (10 Hz receivers log several fixes a second)
+const parseNmeaTime = (time: string, date: string): number => {
+  const year = 2000 + Number(date.slice(4, 6));
+  return Date.UTC(
+    year,
+    Number(date.slice(2, 4)) - 1,
+    Number(date.slice(0, 2)),
+    Number(time.slice(0, 2)),
+    Number(time.slice(2, 4)),
+    Number(time.slice(4, 6))
+  ) + Math.round(Number(`0${time.slice(6)}`) * 1000);
+};
+
+/** Reads RMC sentences (any talker: GP, GN, GL...). Other sentences are ignored. */
+const parseNmea = (text: string): { epochMs: number; geo: GeoTag }[] => {
+  return text.split(/\r?\n/).flatMap(line => {
+    const sentence = line.trim().replace(/\*[0-9A-F]{2}$/i, "");
+    if (!/^\$..RMC,/.test(sentence)) return [];
+
+    const [, time, status, lat, latHemi, lon, lonHemi, speedKnots, course, date] = sentence.split(",");
+    if (status !== "A" || !lat || !lon || !time || !date) return [];
+
+    const epochMs = parseNmeaTime(time, date);
+    const speed = Number(speedKnots);
+    const heading = Number(course);
+    return [{
+      epochMs,
+      geo: {
+        latitude: parseNmeaCoordinate(lat, latHemi),
+        longitude: parseNmeaCoordinate(lon, lonHemi),
+        speed: speedKnots && isFinite(speed) ? speed * KNOTS_TO_MPS : undefined,
+        heading: course && isFinite(heading) ? heading : undefined
+      }
+    }];
+  });
+};
+
+/**
+ * Parses a GPX or NMEA log into points timed relative to the first fix.
+ * Speed and heading missing from the file are derived from neighbouring points.
+ */
+export const parseTrackFile = (text: string, filename: string = ""): TrackPoint[] => {
+  const isGpx = /\.gpx$/i.test(filename) || /<gpx[\s>]/.test(text);
+  const raw = (isGpx ? parseGpx(text) : parseNmea(text)).sort((a, b) => a.epochMs - b.epochMs);
+  if (raw.length === 0) {
+    throw new Error(isGpx ? "No timed track points found in GPX file" : "No valid RMC sentences found in NMEA log");
+  }
+
+  const start = raw[0].epochMs;
+  return raw.map((point, idx) => {
+    // Derive motion from the following segment (the preceding one for the last point)
+    const [from, to] = idx < raw.length - 1 ? [point, raw[idx + 1]] : [raw[idx - 1] ?? point, point];
+    const seconds = (to.epochMs - from.epochMs) / 1000;
+
+    const geo = { ...point.geo };
+    if (geo.speed === undefined && seconds > 0) geo.speed = haversineMeters(from.geo, to.geo) / seconds;
+    if (geo.heading === undefined && from !== to) geo.heading = bearingDegrees(from.geo, to.geo);
+    return { time: (point.epochMs - start) / 1000, geo };
+  });
+};
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+/**
+ * Interpolated position at `seconds` into the track, or undefined when the time
+ * falls outside the recorded range.
+ */
+export const positionAtTime = (track: TrackPoint[], seconds: number): GeoTag | undefined => {
+  if (track.length === 0 || seconds < track[0].time || seconds > track[track.length - 1].time) {
+    return undefined;
+  }
+
+  // Binary search for the last point at or before `seconds`
+  let lo = 0;
+  let hi = track.length - 1;
+  while (lo < hi) {
+    const mid = Math.ceil((lo + hi) / 2);
+    if (track[mid].time <= seconds) lo = mid; else hi = mid - 1;
+  }
+
+  const a = track[lo];
+  const b = track[lo + 1];
+  if (!b || b.time === a.time) return a.geo;
+
+  const t = (seconds - a.time) / (b.time - a.time);
+  return {
+    latitude: lerp(a.geo.latitude, b.geo.latitude, t),
+    longitude: lerp(a.geo.longitude, b.geo.longitude, t),
+    speed: a.geo.speed !== undefined && b.geo.speed !== undefined ? lerp(a.geo.speed, b.geo.speed, t) : a.geo.speed,
+    heading: a.geo.heading
+  };
+};
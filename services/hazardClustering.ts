@@ -0,0 +1,54 @@
+import { AnalysisResult, GeoTag, Hazard } from "../types";
+import { haversineMeters } from "./geolocation";
+
+export interface GeoHazard {
+  analysisId: string;
+  capturedAt: string;
+  geo: GeoTag;
+  hazard: Hazard;
+}
+
+export interface HazardCluster {
+  center: GeoTag;
+  hazards: GeoHazard[];
+  maxSeverity: Hazard["severity"];
+}
+
+const SEVERITY_RANK: Record<Hazard["severity"], number> = { LOW: 0, MEDIUM: 1, HIGH: 2 };
+
+/** Flattens geotagged analyses into one entry per hazard. */
+export const collectGeoHazards = (analyses: { id: string; result: AnalysisResult }[]): GeoHazard[] =>
+  analyses.flatMap(({ id, result }) =>
+    result.geo
+      ? result.hazards.map(hazard => ({ analysisId: id, capturedAt: result.capturedAt, geo: result.geo!, hazard }))
+      : []
+  );
+
+/**
+ * Greedy distance clustering: each hazard joins the first cluster whose centroid
+ * is within `radiusMeters`, otherwise it starts a new one. Repeated reports of the
+ * same pothole from consecutive scans collapse into a single marker.
+ */
+export const clusterHazards = (hazards: GeoHazard[], radiusMeters: number = 25): HazardCluster[] => {
+  const clusters: HazardCluster[] = [];
+
+  hazards.forEach(item => {
+    const cluster = clusters.find(c => haversineMeters(c.center, item.geo) <= radiusMeters);
+    if (!cluster) {
+      clusters.push({ center: { ...item.geo }, hazards: [item], maxSeverity: item.hazard.severity });
+      return;
+    }
+
+    cluster.hazards.push(item);
+    const n = cluster.hazards.length;
+    cluster.center = {
+      latitude: cluster.center.latitude + (item.geo.latitude - cluster.center.latitude) / n,
+      longitude: cluster.center.longitude + (item.geo.longitude - cluster.center.longitude) / n
+    };
+    if (SEVERITY_RANK[item.hazard.severity] > SEVERITY_RANK[cluster.maxSeverity]) {
+      cluster.maxSeverity = item.hazard.severity;
+    }
+  });
+
+  return clusters;
+};
@@ -0,0 +1,35 @@
+import { AnalysisHistoryItem } from "../types";
+import { HISTORY_STORE, withStore } from "./db";
+
+// Scan history is kept in IndexedDB so it survives a reload.
+// Thumbnails are small JPEG data URLs, so a few hundred entries stay well under quota.
+const MAX_HISTORY_ITEMS = 300;
+
+/** Returns saved scans, newest first. */
+export const loadHistory = async (): Promise<AnalysisHistoryItem[]> => {
+  const items = await withStore<AnalysisHistoryItem[]>(HISTORY_STORE, "readonly", store => store.index("savedAt").getAll());
+  return (items ?? [])
+    .map(item => ({
+      ...item,
+      // Entries saved before ISO timestamps existed fall back to the save time
+      capturedAt: item.capturedAt ?? new Date(item.savedAt).toISOString()
+    }))
+    .reverse();
+};
+
+/** Persists a scan and drops the oldest entries beyond the retention limit. */
+export const saveHistoryItem = async (item: AnalysisHistoryItem): Promise<void> => {
+  await withStore(HISTORY_STORE, "readwrite", store => store.put(item));
+
+  const keys = await withStore<IDBValidKey[]>(HISTORY_STORE, "readonly", store => store.index("savedAt").getAllKeys());
+  if (keys && keys.length > MAX_HISTORY_ITEMS) {
+    const stale = keys.slice(0, keys.length - MAX_HISTORY_ITEMS);
+    await withStore(HISTORY_STORE, "readwrite", store => {
+      stale.forEach(key => store.delete(key));
+    });
+  }
+};
+
+export const clearHistory = async (): Promise<void> => {
+  await withStore(HISTORY_STORE, "readwrite", store => store.clear());
+};
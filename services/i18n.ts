@@ -0,0 +1,2002 @@
+// Minimal i18n layer for the fixed UI strings. Model output (meanings,
+// descriptions, recommendations) is localized by the provider instead.
+
+export type LanguageCode = "en" | "es" | "fr" | "de" | "hi" | "ar";
+
+export interface Language {
+  code: LanguageCode;
+  label: string; // Native name, shown in the picker
+  englishName: string; // Used in model prompts
+  speechLang: string; // BCP 47 tag for speechSynthesis
+  dir: "ltr" | "rtl";
+}
+
+export const LANGUAGES: Language[] = [
+  { code: "en", label: "English", englishName: "English", speechLang: "en-US", dir: "ltr" },
+  { code: "es", label: "Español", englishName: "Spanish", speechLang: "es-ES", dir: "ltr" },
+  { code: "fr", label: "Français", englishName: "French", speechLang: "fr-FR", dir: "ltr" },
+  { code: "de", label: "Deutsch", englishName: "German", speechLang: "de-DE", dir: "ltr" },
+  { code: "hi", label: "हिन्दी", englishName: "Hindi", speechLang: "hi-IN", dir: "ltr" },
+  { code: "ar", label: "العربية", englishName: "Arabic", speechLang: "ar-SA", dir: "rtl" }
+];
+
+const LANGUAGE_STORAGE_KEY = "nexvue.language";
+
+export const getLanguage = (code: string | undefined): Language =>
+  LANGUAGES.find(l => l.code === code) ?? LANGUAGES[0];
+
+export const loadLanguage = (): LanguageCode => {
+  const stored = localStorage.getItem(LANGUAGE_STORAGE_KEY);
+  if (stored && LANGUAGES.some(l => l.code === stored)) return stored as LanguageCode;
+  // First run: follow the browser if we support its language
+  return getLanguage(navigator.language?.slice(0, 2)).code;
+};
+
+export const saveLanguage = (code: LanguageCode): void => {
+  localStorage.setItem(LANGUAGE_STORAGE_KEY, code);
+};
+
+const en = {
+  "panel.processing": "PROCESSING",
+  "panel.processingDetail": "OBJECT DETECTION IN PROGRESS",
+  "panel.noData": "NO TELEMETRY DATA",
+  "panel.noDataHint": "Initiate visual scanning sequence to detect road conditions.",
+  "panel.safetyAssessment": "Safety Assessment",
+  "panel.recommendation": "System Recommendation",
+  "panel.hazards": "Detected Hazards",
+  "panel.noHazards": "No immediate hazards detected.",
+  "panel.defects": "Surface Defects",
+  "panel.noDefects": "Road surface sound",
+  "panel.conditionIndex": "Condition index, 1 (failed) to 5 (sound)",
+  "panel.signs": "Signage Analysis",
+  "panel.noSigns": "No traffic signs identified.",
+  "panel.unmapped": "No catalog match",
+  "panel.unmappedHint": "No entry in the selected region's sign catalog",
+  "safety.SAFE": "SAFE",
+  "safety.CAUTION": "CAUTION",
+  "safety.DANGER": "DANGER",
+  "severity.LOW": "LOW",
+  "severity.MEDIUM": "MEDIUM",
+  "severity.HIGH": "HIGH",
+  "track.NEW": "NEW",
+  "track.PERSISTING": "PERSISTING",
+  "track.CLEARED": "CLEARED",
+  "hud.scheduler": "Scheduler",
+  "hud.latency": "LATENCY",
+  "hud.diagnostics": "Diagnostics",
+  "hud.capture": "CAPTURE",
+  "hud.frameSize": "FRAME",
+  "hud.tokensIn": "TOKENS IN",
+  "hud.tokensOut": "TOKENS OUT",
+  "hud.tokens": "TOKENS",
+  "hud.errors": "ERRORS",
+  "hud.preprocess": "PREPROCESSING",
+  "hud.before": "BEFORE",
+  "hud.after": "AFTER",
+  "hud.gap": "GAP",
+  "hud.throughput": "THROUGHPUT",
+  "hud.nextIn": "NEXT IN",
+  "hud.retryIn": "RETRY IN",
+  "hud.changeGate": "Change Gate",
+  "hud.saved": "{percent}% SAVED",
+  "hud.sentSkipped": "SENT / SKIPPED",
+  "hud.lastDiff": "LAST DIFF",
+  "hud.threshold": "THRESHOLD",
+  "hud.off": "OFF",
+  "hud.analyzing": "ANALYZING FRAME DATA...",
+  "reg.title": "Regulatory",
+  "reg.clear": "Clear",
+  "reg.overLimit": "OVER LIMIT",
+  "reg.limit": "LIMIT",
+  "reg.noLimit": "NO LIMIT KNOWN",
+  "reg.noOvertaking": "No overtaking",
+  "reg.schoolZone": "School zone",
+  "reg.overspeedSpeech": "Speed limit {limit}. Slow down.",
+  "alert.pedestrian": "Pedestrian! {description}",
+  "alert.hazardAhead": "{type} ahead.",
+  "alert.pothole": "Pothole ahead.",
+  "alert.speedLimit": "{type} sign ahead.",
+  "alert.stopSign": "Stop sign ahead.",
+  "alert.danger": "Warning. {recommendation}",
+  "alert.caution": "Caution. {recommendation}",
+  "alert.detected": "{type} detected.",
+  "live.title": "Live Stream",
+  "live.connecting": "CONNECTING",
+  "live.open": "STREAMING",
+  "live.closed": "DISCONNECTED",
+  "live.receiving": "RECEIVING",
+  "live.incoming": "Incoming Report",
+  "live.micStart": "Ask by voice",
+  "live.micStop": "Stop listening",
+  "live.listening": "Listening…",
+  "live.askPlaceholder": "Ask about the road, e.g. is the left lane clear?",
+  "live.ask": "Ask",
+  "device.safe": "No close objects detected on-device. Proceed with normal caution.",
+  "device.caution": "Objects near the driving path. Reduce speed and stay alert.",
+  "device.danger": "Object in the driving path. Slow down and prepare to stop.",
+  "device.inPath": "In the driving path ({score}% confidence, detected on-device).",
+  "device.left": "On the left ({score}% confidence, detected on-device).",
+  "device.right": "On the right ({score}% confidence, detected on-device).",
+  "device.stop": "Stop and yield",
+  "device.trafficLight": "Traffic signal ahead",
+  "panel.engineOnDevice": "On-device",
+  "panel.cameras": "Cameras",
+  "panel.cameraFailed": "No result",
+  "app.live": "LIVE",
+  "app.annotate": "ANNOTATE",
+  "app.evaluate": "Dataset & evaluation",
+  "app.standby": "SYSTEM STANDBY",
+  "app.standbyHint": "Select an input source to begin autonomous road analysis and hazard detection.",
+  "app.liveCamera": "LIVE CAMERA",
+  "app.uploadMedia": "UPLOAD MEDIA",
+  "app.uploadFolder": "UPLOAD FOLDER",
+  "app.annotateHint": "Correct this result and add it to the evaluation dataset",
+  "app.backend": "Vision backend",
+  "app.tab.analysis": "Analysis",
+  "app.tab.map": "Hazard Map",
+  "app.tab.survey": "Road Survey",
+  "err.camera": "Could not access camera. Check permissions or try a different browser.",
+  "err.gpsTrack": "Could not read GPS track.",
+  "err.sessionImport": "Could not import session file.",
+  "err.videoBatch": "Batch analysis failed. Check that the video can be decoded.",
+  "err.noImages": "No images found in the selection.",
+  "err.imageBatch": "Image set analysis failed. Try again.",
+  "err.drop": "The dropped files could not be read.",
+  "err.invalidOutput": "The model returned unusable data ({field}). The previous result is kept.",
+  "err.rateLimit": "Rate limit reached. Wait a moment and try again.",
+  "err.analysis": "Analysis failed. Try again.",
+  "err.liveUnavailable": "Live streaming unavailable ({reason}). Falling back to auto-scan.",
+  "err.liveInvalid": "The model streamed unusable data ({field}). The line was skipped.",
+  "err.microphone": "Could not access microphone. Check permissions.",
+  "err.recordUnsupported": "This browser cannot record the camera.",
+  "err.recordingNotSaved": "Recording not saved: {error}",
+  "err.rerun": "Re-running the recording failed.",
+  "map.title": "Hazard Map",
+  "map.grid": "GRID {distance}",
+  "map.empty": "No geotagged scans yet. Use the live camera with location access, or load a GPX/NMEA track for an uploaded video.",
+  "gps.title": "GPS Track",
+  "gps.points": "{count} PTS",
+  "gps.offset": "Offset",
+  "gps.offsetHint": "Seconds to add to the video time to find the matching track time",
+  "gps.remove": "Remove track",
+  "gps.load": "Load GPX / NMEA",
+  "images.title": "Image Set · {count}",
+  "images.parallel": "Parallel",
+  "images.cancel": "Cancel {done}/{total}",
+  "images.retry": "Retry {count} failed",
+  "images.analyzeRemaining": "Analyze {count} remaining",
+  "images.analyzeAll": "Analyze All",
+  "images.allLevels": "All levels",
+  "images.allHazards": "All hazards",
+  "images.byName": "By name",
+  "images.bySeverity": "Most severe first",
+  "images.close": "Close image set",
+  "images.noMatch": "No images match the filters.",
+  "images.failed": "FAILED",
+  "images.retrying": "RETRY {attempt}",
+  "images.analyzed": "{done}/{total} analyzed",
+  "survey.empty": "No road survey scans yet",
+  "survey.emptyHint": "Switch the analysis profile to Road survey and drive; each scan adds its surface defects here.",
+  "survey.condition": "Road condition",
+  "survey.scans": "{count} scans",
+  "survey.defects": "{count} defects",
+  "survey.segmentCount": "{count} segments",
+  "survey.segment": "segment",
+  "survey.segments": "Segments",
+  "survey.segmentHint": "Segment {index} · {from}–{to} · score {score} · {defects} defects in {scans} scans",
+  "survey.repairs": "Repair priority",
+  "survey.noDefects": "No defects reported.",
+  "survey.seg": "seg {index}",
+  "survey.seen": "seen {count}×",
+  "survey.repairsCsv": "Repairs CSV",
+  "survey.segmentsCsv": "Segments CSV",
+  "survey.noGeo": "No geotagged survey scans",
+  "defect.POTHOLE": "Pothole",
+  "defect.ALLIGATOR_CRACKING": "Alligator Cracking",
+  "defect.EDGE_BREAK": "Edge Break",
+  "defect.RUTTING": "Rutting",
+  "defect.STANDING_WATER": "Standing Water",
+  "defect.LONGITUDINAL_CRACKING": "Longitudinal Cracking",
+  "defect.TRANSVERSE_CRACKING": "Transverse Cracking",
+  "defect.RAVELING": "Raveling",
+  "defect.FADED_MARKING": "Faded Lane Marking",
+  "defect.PATCH": "Patch",
+  "annot.title": "Annotate Frame",
+  "annot.saving": "Saving",
+  "annot.save": "Save to dataset",
+  "annot.saveFailed": "Could not save the labeled frame.",
+  "annot.frameAlt": "Frame to label",
+  "annot.trueLevel": "True safety level",
+  "annot.predicted": "predicted {level}",
+  "annot.hazards": "Hazards ({count})",
+  "annot.signs": "Signs ({count})",
+  "annot.type": "Type",
+  "annot.remove": "Remove",
+  "annot.description": "Description",
+  "annot.location": "Location",
+  "annot.meaning": "Meaning",
+  "annot.note": "Note",
+  "annot.notePlaceholder": "Optional, e.g. night, rain",
+  "rules.title": "Alert Rules",
+  "rules.add": "Add",
+  "rules.defaultsHint": "Restore default rules",
+  "rules.hint": "Each hazard or sign uses the first matching rule in this list. Message placeholders:",
+  "rules.empty": "No rules - results will not trigger alerts.",
+  "rules.enabled": "Enabled",
+  "rules.delete": "Delete rule",
+  "rules.appliesTo": "Applies to",
+  "rules.kindHazard": "Hazard",
+  "rules.kindSign": "Sign",
+  "rules.kindSafety": "Scene level",
+  "rules.level": "Level",
+  "rules.typeContains": "Type contains",
+  "rules.any": "any",
+  "rules.minSeverity": "Min severity",
+  "rules.priority": "Priority",
+  "rules.message": "Message",
+  "rules.speak": "SPEAK",
+  "rules.interrupt": "INTERRUPT",
+  "rules.earcon": "Earcon",
+  "rules.preview": "Preview",
+  "rules.flash": "Flash",
+  "rules.none": "none",
+  "rules.flashRed": "red",
+  "rules.flashAmber": "amber",
+  "rules.cooldown": "Cooldown (s)",
+  "priority.critical": "critical",
+  "priority.high": "high",
+  "priority.normal": "normal",
+  "priority.low": "low",
+  "eval.frames": "{count} frames",
+  "eval.export": "Export",
+  "eval.import": "Import",
+  "eval.empty": "No labeled frames yet. Use Annotate on a scan result to correct it and add it here.",
+  "eval.removeFrame": "Remove from dataset",
+  "eval.cancel": "Cancel",
+  "eval.run": "Run evaluation",
+  "eval.runColumn": "Run",
+  "eval.framesColumn": "Frames",
+  "eval.safetyColumn": "Safety",
+  "eval.deleteRun": "Delete run",
+  "eval.hazardPR": "Hazard P / R",
+  "eval.signPR": "Sign P / R",
+  "eval.safetyAgreement": "Safety agreement",
+  "eval.failedFrames": "Failed frames",
+  "eval.fellBack": "Fallback frames",
+  "eval.fellBackHint": "{count} frames were answered by a fallback engine and are not scored",
+  "eval.meanLatency": "Mean latency",
+  "eval.class": "Class",
+  "eval.precision": "Precision",
+  "eval.recall": "Recall",
+  "eval.severityMatrix": "Hazard severity (matched hazards)",
+  "eval.safetyMatrix": "Safety level",
+  "eval.labelVsPred": "label \\ pred",
+  "eval.loadFailed": "Could not load the dataset: {error}",
+  "eval.deleteFailed": "Could not delete from the dataset: {error}",
+  "eval.failed": "Evaluation failed: {error}",
+  "eval.confirmClear": "Delete all {count} labeled frames?",
+  "eval.imported": "Imported {count} labeled frames.",
+  "eval.importFailed": "Could not import the dataset.",
+  "cams.rescan": "Rescan devices",
+  "cams.none": "No cameras found.",
+  "cams.hint": "Every open camera is analyzed on each scan. The overall safety level is the worst any camera reports.",
+  "cams.listFailed": "Could not list cameras: {error}",
+  "cams.openFailed": "could not open the camera",
+  "rec.title": "Drive Recordings",
+  "rec.loading": "Loading…",
+  "rec.empty": "No recordings yet. Start one with REC while the camera is running.",
+  "rec.analyses": "{count} analyses",
+  "rec.replay": "Replay",
+  "rec.delete": "Delete recording",
+  "rec.loadFailed": "Could not load recordings: {error}",
+  "rec.deleteFailed": "Could not delete the recording: {error}",
+  "replay.title": "Replay · {date}",
+  "app.analysisFailed": "Analysis failed",
+  "replay.previous": "Previous analysis",
+  "replay.next": "Next analysis",
+  "replay.play": "Play",
+  "replay.pause": "Pause",
+  "replay.frame": "frame {index}/{total}",
+  "replay.rerunHint": "Analyze every recorded frame again with {analyzer}",
+  "replay.rerun": "Re-run · {analyzer}",
+  "replay.recorded": "Recorded · {provider}",
+  "replay.recordedRow": "Recorded ({provider})",
+  "replay.rerunRow": "Re-run ({analyzer})",
+  "replay.changed": "{count} of {total} frames changed safety level",
+  "replay.frameChanged": "this frame changed",
+  "videos.title": "Batch Analysis",
+  "videos.every": "Every",
+  "videos.analyze": "Analyze Clip",
+  "pre.title": "Preprocessing",
+  "pre.defaults": "Defaults",
+  "pre.defaultsHint": "Restore default settings",
+  "pre.close": "Close",
+  "pre.enable": "Enable pipeline",
+  "pre.enableHint": "Applies to scans, auto-scan and video batches. Off sends frames only sized for the analysis profile.",
+  "pre.denoise": "Denoise",
+  "pre.denoiseHint": "3×3 blur against sensor noise in dark footage. Runs first.",
+  "pre.exposure": "Auto exposure",
+  "pre.exposureHint": "Gamma that brings under- or over-exposed frames toward mid-grey.",
+  "pre.equalize": "Equalize (CLAHE)",
+  "pre.equalizeHint": "Local contrast for night scenes and glare, without blowing out the whole frame.",
+  "pre.clipLimit": "CLIP LIMIT",
+  "pre.roi": "Region of interest (cut from each edge)",
+  "pre.roiTop": "Top (sky)",
+  "pre.roiBottom": "Bottom (hood)",
+  "pre.roiLeft": "Left",
+  "pre.roiRight": "Right",
+  "pre.maxDimension": "Max dimension",
+  "pre.profileDefault": "profile default",
+  "app.dropHint": "Drop photos or a folder to analyze them as a set, or a single video",
+  "app.scan": "SCAN",
+  "app.scanning": "SCANNING",
+  "app.auto": "AUTO",
+  "app.stop": "STOP",
+  "app.reset": "RESET",
+  "app.resetMode": "Reset Mode",
+  "history.title": "Scan History",
+  "history.imported": "Imported Session",
+  "history.close": "Close",
+  "history.backToLocal": "Back to local history",
+  "history.clear": "Clear",
+  "history.clearTitle": "Clear History",
+  "history.exportGeo": "Export geotagged detections",
+  "history.noGeo": "No geotagged scans in this session",
+  "history.frames": "Frames",
+  "history.import": "Import",
+  "history.empty": "Completed scans will appear here.",
+  "history.noFrame": "NO FRAME",
+  "history.scanAlt": "Scan {time}",
+  "app.processing": "PROCESSING",
+  "app.online": "SYSTEM ONLINE",
+  "app.voiceActive": "Voice Active",
+  "app.voiceMuted": "Voice Muted",
+  "app.language": "Language",
+  "app.signRegion": "Sign region",
+  "app.profile": "Analysis profile",
+  "app.cameras": "Cameras",
+  "app.record": "REC",
+  "app.recordings": "Recordings",
+  "app.systemError": "System Error",
+  "app.invalidOutput": "Invalid Model Output",
+  "app.dismiss": "Dismiss"
+};
+
+export type TranslationKey = keyof typeof en;
+
+// Missing keys fall back to English
+const translations: Record<LanguageCode, Partial<Record<TranslationKey, string>>> = {
+  en,
+  es: {
+    "panel.processing": "PROCESANDO",
+    "panel.processingDetail": "DETECCIÓN DE OBJETOS EN CURSO",
+    "panel.noData": "SIN DATOS DE TELEMETRÍA",
+    "panel.noDataHint": "Inicie el escaneo visual para detectar el estado de la vía.",
+    "panel.safetyAssessment": "Evaluación de seguridad",
+    "panel.recommendation": "Recomendación del sistema",
+    "panel.hazards": "Peligros detectados",
+    "panel.noHazards": "No se detectaron peligros inmediatos.",
+    "panel.defects": "Defectos del firme",
+    "panel.noDefects": "Firme en buen estado",
+    "panel.conditionIndex": "Índice de condición, 1 (fallado) a 5 (sano)",
+    "panel.signs": "Análisis de señales",
+    "panel.noSigns": "No se identificaron señales de tráfico.",
+    "panel.unmapped": "Sin código",
+    "panel.unmappedHint": "Sin entrada en el catálogo de señales de la región",
+    "safety.SAFE": "SEGURO",
+    "safety.CAUTION": "PRECAUCIÓN",
+    "safety.DANGER": "PELIGRO",
+    "severity.LOW": "BAJA",
+    "severity.MEDIUM": "MEDIA",
+    "severity.HIGH": "ALTA",
+    "track.NEW": "NUEVO",
+    "track.PERSISTING": "PERSISTE",
+    "track.CLEARED": "DESPEJADO",
+    "hud.scheduler": "Planificador",
+    "hud.latency": "LATENCIA",
+    "hud.diagnostics": "Diagnóstico",
+    "hud.capture": "CAPTURA",
+    "hud.frameSize": "FOTOGRAMA",
+    "hud.tokensIn": "TOKENS ENTRADA",
+    "hud.tokensOut": "TOKENS SALIDA",
+    "hud.tokens": "TOKENS",
+    "hud.errors": "ERRORES",
+    "hud.preprocess": "PREPROCESADO",
+    "hud.before": "ANTES",
+    "hud.after": "DESPUÉS",
+    "hud.gap": "INTERVALO",
+    "hud.throughput": "RENDIMIENTO",
+    "hud.nextIn": "SIGUIENTE EN",
+    "hud.retryIn": "REINTENTO EN",
+    "hud.changeGate": "Filtro de cambios",
+    "hud.saved": "{percent}% AHORRADO",
+    "hud.sentSkipped": "ENVIADOS / OMITIDOS",
+    "hud.lastDiff": "ÚLTIMA DIF.",
+    "hud.threshold": "UMBRAL",
+    "hud.off": "NO",
+    "hud.analyzing": "ANALIZANDO FOTOGRAMA...",
+    "reg.title": "Normativa",
+    "reg.clear": "Borrar",
+    "reg.overLimit": "EXCESO DE VELOCIDAD",
+    "reg.limit": "LÍMITE",
+    "reg.noLimit": "SIN LÍMITE CONOCIDO",
+    "reg.noOvertaking": "Prohibido adelantar",
+    "reg.schoolZone": "Zona escolar",
+    "reg.overspeedSpeech": "Límite de velocidad {limit}. Reduzca la velocidad.",
+    "alert.pedestrian": "¡Peatón! {description}",
+    "alert.hazardAhead": "{type} más adelante.",
+    "alert.pothole": "Bache más adelante.",
+    "alert.speedLimit": "Señal de {type} más adelante.",
+    "alert.stopSign": "Señal de alto más adelante.",
+    "alert.danger": "Atención. {recommendation}",
+    "alert.caution": "Precaución. {recommendation}",
+    "alert.detected": "{type} detectado.",
+    "live.title": "Transmisión en vivo",
+    "live.connecting": "CONECTANDO",
+    "live.open": "TRANSMITIENDO",
+    "live.closed": "DESCONECTADO",
+    "live.receiving": "RECIBIENDO",
+    "live.incoming": "Informe entrante",
+    "live.micStart": "Preguntar por voz",
+    "live.micStop": "Dejar de escuchar",
+    "live.listening": "Escuchando…",
+    "live.askPlaceholder": "Pregunte por la vía, p. ej. ¿está libre el carril izquierdo?",
+    "live.ask": "Preguntar",
+    "device.safe": "No se detectaron objetos cercanos en el dispositivo. Continúe con precaución normal.",
+    "device.caution": "Objetos cerca de la trayectoria. Reduzca la velocidad y manténgase atento.",
+    "device.danger": "Objeto en la trayectoria. Reduzca la velocidad y prepárese para detenerse.",
+    "device.inPath": "En la trayectoria ({score}% de confianza, detectado en el dispositivo).",
+    "device.left": "A la izquierda ({score}% de confianza, detectado en el dispositivo).",
+    "device.right": "A la derecha ({score}% de confianza, detectado en el dispositivo).",
+    "device.stop": "Detenerse y ceder el paso",
+    "device.trafficLight": "Semáforo más adelante",
+    "panel.engineOnDevice": "En el dispositivo",
+    "panel.cameras": "Cámaras",
+    "panel.cameraFailed": "Sin resultado",
+    "app.live": "EN VIVO",
+    "app.annotate": "ANOTAR",
+    "app.evaluate": "Conjunto de datos y evaluación",
+    "app.standby": "SISTEMA EN ESPERA",
+    "app.standbyHint": "Seleccione una fuente de entrada para iniciar el análisis de la vía y la detección de peligros.",
+    "app.liveCamera": "CÁMARA EN VIVO",
+    "app.uploadMedia": "SUBIR ARCHIVO",
+    "app.uploadFolder": "SUBIR CARPETA",
+    "app.annotateHint": "Corregir este resultado y añadirlo al conjunto de evaluación",
+    "app.backend": "Motor de visión",
+    "app.tab.analysis": "Análisis",
+    "app.tab.map": "Mapa de peligros",
+    "app.tab.survey": "Inspección vial",
+    "err.camera": "No se pudo acceder a la cámara. Revise los permisos o pruebe otro navegador.",
+    "err.gpsTrack": "No se pudo leer la traza GPS.",
+    "err.sessionImport": "No se pudo importar el archivo de sesión.",
+    "err.videoBatch": "El análisis por lotes falló. Compruebe que el vídeo se puede decodificar.",
+    "err.noImages": "No se encontraron imágenes en la selección.",
+    "err.imageBatch": "El análisis del conjunto de imágenes falló. Inténtelo de nuevo.",
+    "err.drop": "No se pudieron leer los archivos soltados.",
+    "err.invalidOutput": "El modelo devolvió datos inutilizables ({field}). Se conserva el resultado anterior.",
+    "err.rateLimit": "Se alcanzó el límite de solicitudes. Espere un momento e inténtelo de nuevo.",
+    "err.analysis": "El análisis falló. Inténtelo de nuevo.",
+    "err.liveUnavailable": "Transmisión en vivo no disponible ({reason}). Se usa el escaneo automático.",
+    "err.liveInvalid": "El modelo transmitió datos inutilizables ({field}). Se omitió la línea.",
+    "err.microphone": "No se pudo acceder al micrófono. Revise los permisos.",
+    "err.recordUnsupported": "Este navegador no puede grabar la cámara.",
+    "err.recordingNotSaved": "Grabación no guardada: {error}",
+    "err.rerun": "Falló la repetición de la grabación.",
+    "map.title": "Mapa de peligros",
+    "map.grid": "CUADRÍCULA {distance}",
+    "map.empty": "Aún no hay escaneos geoetiquetados. Use la cámara en vivo con acceso a la ubicación o cargue una traza GPX/NMEA para un vídeo subido.",
+    "gps.title": "Traza GPS",
+    "gps.points": "{count} PTOS",
+    "gps.offset": "Desfase",
+    "gps.offsetHint": "Segundos que se suman al tiempo del vídeo para encontrar el tiempo correspondiente de la traza",
+    "gps.remove": "Quitar traza",
+    "gps.load": "Cargar GPX / NMEA",
+    "images.title": "Conjunto de imágenes · {count}",
+    "images.parallel": "Paralelo",
+    "images.cancel": "Cancelar {done}/{total}",
+    "images.retry": "Reintentar {count} fallidas",
+    "images.analyzeRemaining": "Analizar {count} restantes",
+    "images.analyzeAll": "Analizar todo",
+    "images.allLevels": "Todos los niveles",
+    "images.allHazards": "Todos los peligros",
+    "images.byName": "Por nombre",
+    "images.bySeverity": "Más graves primero",
+    "images.close": "Cerrar conjunto de imágenes",
+    "images.noMatch": "Ninguna imagen coincide con los filtros.",
+    "images.failed": "FALLIDA",
+    "images.retrying": "REINTENTO {attempt}",
+    "images.analyzed": "{done}/{total} analizadas",
+    "survey.empty": "Aún no hay escaneos de inspección vial",
+    "survey.emptyHint": "Cambie el perfil de análisis a Inspección vial y conduzca; cada escaneo añade aquí sus defectos de superficie.",
+    "survey.condition": "Estado de la vía",
+    "survey.scans": "{count} escaneos",
+    "survey.defects": "{count} defectos",
+    "survey.segmentCount": "{count} tramos",
+    "survey.segment": "tramo",
+    "survey.segments": "Tramos",
+    "survey.segmentHint": "Tramo {index} · {from}–{to} · puntuación {score} · {defects} defectos en {scans} escaneos",
+    "survey.repairs": "Prioridad de reparación",
+    "survey.noDefects": "No se informaron defectos.",
+    "survey.seg": "tramo {index}",
+    "survey.seen": "visto {count}×",
+    "survey.repairsCsv": "Reparaciones CSV",
+    "survey.segmentsCsv": "Tramos CSV",
+    "survey.noGeo": "No hay escaneos de inspección geoetiquetados",
+    "defect.POTHOLE": "Bache",
+    "defect.ALLIGATOR_CRACKING": "Piel de cocodrilo",
+    "defect.EDGE_BREAK": "Rotura de borde",
+    "defect.RUTTING": "Roderas",
+    "defect.STANDING_WATER": "Agua estancada",
+    "defect.LONGITUDINAL_CRACKING": "Fisuras longitudinales",
+    "defect.TRANSVERSE_CRACKING": "Fisuras transversales",
+    "defect.RAVELING": "Desprendimiento de árido",
+    "defect.FADED_MARKING": "Marca vial desgastada",
+    "defect.PATCH": "Parche",
+    "annot.title": "Anotar fotograma",
+    "annot.saving": "Guardando",
+    "annot.save": "Guardar en el conjunto de datos",
+    "annot.saveFailed": "No se pudo guardar el fotograma etiquetado.",
+    "annot.frameAlt": "Fotograma para etiquetar",
+    "annot.trueLevel": "Nivel de seguridad real",
+    "annot.predicted": "predicho {level}",
+    "annot.hazards": "Peligros ({count})",
+    "annot.signs": "Señales ({count})",
+    "annot.type": "Tipo",
+    "annot.remove": "Quitar",
+    "annot.description": "Descripción",
+    "annot.location": "Ubicación",
+    "annot.meaning": "Significado",
+    "annot.note": "Nota",
+    "annot.notePlaceholder": "Opcional, p. ej. noche, lluvia",
+    "rules.title": "Reglas de alerta",
+    "rules.add": "Añadir",
+    "rules.defaultsHint": "Restaurar reglas predeterminadas",
+    "rules.hint": "Cada peligro o señal usa la primera regla coincidente de esta lista. Marcadores del mensaje:",
+    "rules.empty": "Sin reglas: los resultados no activarán alertas.",
+    "rules.enabled": "Activada",
+    "rules.delete": "Eliminar regla",
+    "rules.appliesTo": "Se aplica a",
+    "rules.kindHazard": "Peligro",
+    "rules.kindSign": "Señal",
+    "rules.kindSafety": "Nivel de la escena",
+    "rules.level": "Nivel",
+    "rules.typeContains": "El tipo contiene",
+    "rules.any": "cualquiera",
+    "rules.minSeverity": "Gravedad mínima",
+    "rules.priority": "Prioridad",
+    "rules.message": "Mensaje",
+    "rules.speak": "HABLAR",
+    "rules.interrupt": "INTERRUMPIR",
+    "rules.earcon": "Tono",
+    "rules.preview": "Vista previa",
+    "rules.flash": "Destello",
+    "rules.none": "ninguno",
+    "rules.flashRed": "rojo",
+    "rules.flashAmber": "ámbar",
+    "rules.cooldown": "Espera (s)",
+    "priority.critical": "crítica",
+    "priority.high": "alta",
+    "priority.normal": "normal",
+    "priority.low": "baja",
+    "eval.frames": "{count} fotogramas",
+    "eval.export": "Exportar",
+    "eval.import": "Importar",
+    "eval.empty": "Aún no hay fotogramas etiquetados. Use Anotar en un resultado para corregirlo y añadirlo aquí.",
+    "eval.removeFrame": "Quitar del conjunto de datos",
+    "eval.cancel": "Cancelar",
+    "eval.run": "Ejecutar evaluación",
+    "eval.runColumn": "Ejecución",
+    "eval.framesColumn": "Fotogramas",
+    "eval.safetyColumn": "Seguridad",
+    "eval.deleteRun": "Eliminar ejecución",
+    "eval.hazardPR": "Peligros P / R",
+    "eval.signPR": "Señales P / R",
+    "eval.safetyAgreement": "Acuerdo de seguridad",
+    "eval.failedFrames": "Fotogramas fallidos",
+    "eval.fellBack": "Fotogramas de respaldo",
+    "eval.fellBackHint": "{count} fotogramas los respondió un motor de respaldo y no se puntúan",
+    "eval.meanLatency": "Latencia media",
+    "eval.class": "Clase",
+    "eval.precision": "Precisión",
+    "eval.recall": "Exhaustividad",
+    "eval.severityMatrix": "Gravedad del peligro (peligros emparejados)",
+    "eval.safetyMatrix": "Nivel de seguridad",
+    "eval.labelVsPred": "etiqueta \\ pred",
+    "eval.loadFailed": "No se pudo cargar el conjunto de datos: {error}",
+    "eval.deleteFailed": "No se pudo eliminar del conjunto de datos: {error}",
+    "eval.failed": "La evaluación falló: {error}",
+    "eval.confirmClear": "¿Eliminar los {count} fotogramas etiquetados?",
+    "eval.imported": "Se importaron {count} fotogramas etiquetados.",
+    "eval.importFailed": "No se pudo importar el conjunto de datos.",
+    "cams.rescan": "Volver a buscar dispositivos",
+    "cams.none": "No se encontraron cámaras.",
+    "cams.hint": "Cada cámara abierta se analiza en cada escaneo. El nivel de seguridad global es el peor que informe cualquier cámara.",
+    "cams.listFailed": "No se pudieron listar las cámaras: {error}",
+    "cams.openFailed": "no se pudo abrir la cámara",
+    "rec.title": "Grabaciones de conducción",
+    "rec.loading": "Cargando…",
+    "rec.empty": "Aún no hay grabaciones. Inicie una con REC mientras la cámara está en marcha.",
+    "rec.analyses": "{count} análisis",
+    "rec.replay": "Reproducir",
+    "rec.delete": "Eliminar grabación",
+    "rec.loadFailed": "No se pudieron cargar las grabaciones: {error}",
+    "rec.deleteFailed": "No se pudo eliminar la grabación: {error}",
+    "replay.title": "Reproducción · {date}",
+    "app.analysisFailed": "Análisis fallido",
+    "replay.previous": "Análisis anterior",
+    "replay.next": "Análisis siguiente",
+    "replay.play": "Reproducir",
+    "replay.pause": "Pausa",
+    "replay.frame": "fotograma {index}/{total}",
+    "replay.rerunHint": "Volver a analizar cada fotograma grabado con {analyzer}",
+    "replay.rerun": "Repetir · {analyzer}",
+    "replay.recorded": "Grabado · {provider}",
+    "replay.recordedRow": "Grabado ({provider})",
+    "replay.rerunRow": "Repetido ({analyzer})",
+    "replay.changed": "{count} de {total} fotogramas cambiaron de nivel de seguridad",
+    "replay.frameChanged": "este fotograma cambió",
+    "videos.title": "Análisis por lotes",
+    "videos.every": "Cada",
+    "videos.analyze": "Analizar clip",
+    "pre.title": "Preprocesamiento",
+    "pre.defaults": "Predeterminados",
+    "pre.defaultsHint": "Restaurar la configuración predeterminada",
+    "pre.close": "Cerrar",
+    "pre.enable": "Activar canal",
+    "pre.enableHint": "Se aplica a escaneos, escaneo automático y lotes de vídeo. Desactivado envía los fotogramas solo redimensionados para el perfil de análisis.",
+    "pre.denoise": "Reducir ruido",
+    "pre.denoiseHint": "Desenfoque 3×3 contra el ruido del sensor en imágenes oscuras. Se aplica primero.",
+    "pre.exposure": "Exposición automática",
+    "pre.exposureHint": "Gamma que acerca los fotogramas sub- o sobreexpuestos al gris medio.",
+    "pre.equalize": "Ecualizar (CLAHE)",
+    "pre.equalizeHint": "Contraste local para escenas nocturnas y deslumbramientos, sin quemar todo el fotograma.",
+    "pre.clipLimit": "LÍMITE DE RECORTE",
+    "pre.roi": "Región de interés (recorte de cada borde)",
+    "pre.roiTop": "Arriba (cielo)",
+    "pre.roiBottom": "Abajo (capó)",
+    "pre.roiLeft": "Izquierda",
+    "pre.roiRight": "Derecha",
+    "pre.maxDimension": "Dimensión máxima",
+    "pre.profileDefault": "predeterminado del perfil",
+    "app.dropHint": "Suelte fotos o una carpeta para analizarlas como conjunto, o un solo vídeo",
+    "app.scan": "ESCANEAR",
+    "app.scanning": "ESCANEANDO",
+    "app.auto": "AUTO",
+    "app.stop": "DETENER",
+    "app.reset": "REINICIAR",
+    "app.resetMode": "Reiniciar modo",
+    "history.title": "Historial de escaneos",
+    "history.imported": "Sesión importada",
+    "history.close": "Cerrar",
+    "history.backToLocal": "Volver al historial local",
+    "history.clear": "Borrar",
+    "history.clearTitle": "Borrar historial",
+    "history.exportGeo": "Exportar detecciones georreferenciadas",
+    "history.noGeo": "No hay escaneos georreferenciados en esta sesión",
+    "history.frames": "Fotogramas",
+    "history.import": "Importar",
+    "history.empty": "Los escaneos completados aparecerán aquí.",
+    "history.noFrame": "SIN IMAGEN",
+    "history.scanAlt": "Escaneo {time}",
+    "app.processing": "PROCESANDO",
+    "app.online": "SISTEMA EN LÍNEA",
+    "app.voiceActive": "Voz activa",
+    "app.voiceMuted": "Voz silenciada",
+    "app.language": "Idioma",
+    "app.signRegion": "Región de señales",
+    "app.profile": "Perfil de análisis",
+    "app.cameras": "Cámaras",
+    "app.record": "GRABAR",
+    "app.recordings": "Grabaciones",
+    "app.systemError": "Error del sistema",
+    "app.invalidOutput": "Respuesta del modelo no válida",
+    "app.dismiss": "Cerrar"
+  },
+  fr: {
+    "panel.processing": "TRAITEMENT",
+    "panel.processingDetail": "DÉTECTION D'OBJETS EN COURS",
+    "panel.noData": "AUCUNE DONNÉE DE TÉLÉMÉTRIE",
+    "panel.noDataHint": "Lancez l'analyse visuelle pour détecter l'état de la route.",
+    "panel.safetyAssessment": "Évaluation de sécurité",
+    "panel.recommendation": "Recommandation du système",
+    "panel.hazards": "Dangers détectés",
+    "panel.noHazards": "Aucun danger immédiat détecté.",
+    "panel.defects": "Défauts de chaussée",
+    "panel.noDefects": "Chaussée en bon état",
+    "panel.conditionIndex": "Indice d'état, 1 (ruiné) à 5 (sain)",
+    "panel.signs": "Analyse de la signalisation",
+    "panel.noSigns": "Aucun panneau identifié.",
+    "panel.unmapped": "Non répertorié",
+    "panel.unmappedHint": "Aucune entrée dans le catalogue de la région",
+    "safety.SAFE": "SÛR",
+    "safety.CAUTION": "PRUDENCE",
+    "safety.DANGER": "DANGER",
+    "severity.LOW": "FAIBLE",
+    "severity.MEDIUM": "MOYENNE",
+    "severity.HIGH": "ÉLEVÉE",
+    "track.NEW": "NOUVEAU",
+    "track.PERSISTING": "PERSISTANT",
+    "track.CLEARED": "DISPARU",
+    "hud.scheduler": "Planificateur",
+    "hud.latency": "LATENCE",
+    "hud.diagnostics": "Diagnostics",
+    "hud.capture": "CAPTURE",
+    "hud.frameSize": "IMAGE",
+    "hud.tokensIn": "TOKENS ENTRÉE",
+    "hud.tokensOut": "TOKENS SORTIE",
+    "hud.tokens": "TOKENS",
+    "hud.errors": "ERREURS",
+    "hud.preprocess": "PRÉTRAITEMENT",
+    "hud.before": "AVANT",
+    "hud.after": "APRÈS",
+    "hud.gap": "INTERVALLE",
+    "hud.throughput": "DÉBIT",
+    "hud.nextIn": "PROCHAIN DANS",
+    "hud.retryIn": "NOUVEL ESSAI DANS",
+    "hud.changeGate": "Filtre de changement",
+    "hud.saved": "{percent}% ÉCONOMISÉ",
+    "hud.sentSkipped": "ENVOYÉS / IGNORÉS",
+    "hud.lastDiff": "DERNIER ÉCART",
+    "hud.threshold": "SEUIL",
+    "hud.off": "NON",
+    "hud.analyzing": "ANALYSE DE L'IMAGE...",
+    "reg.title": "Réglementation",
+    "reg.clear": "Effacer",
+    "reg.overLimit": "EXCÈS DE VITESSE",
+    "reg.limit": "LIMITE",
+    "reg.noLimit": "AUCUNE LIMITE CONNUE",
+    "reg.noOvertaking": "Dépassement interdit",
+    "reg.schoolZone": "Zone scolaire",
+    "reg.overspeedSpeech": "Limite de vitesse {limit}. Ralentissez.",
+    "alert.pedestrian": "Piéton ! {description}",
+    "alert.hazardAhead": "{type} devant.",
+    "alert.pothole": "Nid-de-poule devant.",
+    "alert.speedLimit": "Panneau {type} devant.",
+    "alert.stopSign": "Panneau stop devant.",
+    "alert.danger": "Attention. {recommendation}",
+    "alert.caution": "Prudence. {recommendation}",
+    "alert.detected": "{type} détecté.",
+    "live.title": "Flux en direct",
+    "live.connecting": "CONNEXION",
+    "live.open": "EN DIRECT",
+    "live.closed": "DÉCONNECTÉ",
+    "live.receiving": "RÉCEPTION",
+    "live.incoming": "Rapport en cours",
+    "live.micStart": "Demander à voix haute",
+    "live.micStop": "Arrêter l'écoute",
+    "live.listening": "Écoute…",
+    "live.askPlaceholder": "Posez une question, p. ex. la voie de gauche est-elle libre ?",
+    "live.ask": "Demander",
+    "device.safe": "Aucun objet proche détecté sur l'appareil. Roulez avec la prudence habituelle.",
+    "device.caution": "Objets près de la trajectoire. Ralentissez et restez attentif.",
+    "device.danger": "Objet sur la trajectoire. Ralentissez et préparez-vous à vous arrêter.",
+    "device.inPath": "Sur la trajectoire ({score} % de confiance, détecté sur l'appareil).",
+    "device.left": "À gauche ({score} % de confiance, détecté sur l'appareil).",
+    "device.right": "À droite ({score} % de confiance, détecté sur l'appareil).",
+    "device.stop": "Arrêt et cédez le passage",
+    "device.trafficLight": "Feu de signalisation à venir",
+    "panel.engineOnDevice": "Sur l'appareil",
+    "panel.cameras": "Caméras",
+    "panel.cameraFailed": "Aucun résultat",
+    "app.live": "DIRECT",
+    "app.annotate": "ANNOTER",
+    "app.evaluate": "Jeu de données et évaluation",
+    "app.standby": "SYSTÈME EN VEILLE",
+    "app.standbyHint": "Choisissez une source d'entrée pour lancer l'analyse de la route et la détection des dangers.",
+    "app.liveCamera": "CAMÉRA EN DIRECT",
+    "app.uploadMedia": "IMPORTER UN MÉDIA",
+    "app.uploadFolder": "IMPORTER UN DOSSIER",
+    "app.annotateHint": "Corriger ce résultat et l'ajouter au jeu d'évaluation",
+    "app.backend": "Moteur de vision",
+    "app.tab.analysis": "Analyse",
+    "app.tab.map": "Carte des dangers",
+    "app.tab.survey": "Inspection routière",
+    "err.camera": "Impossible d'accéder à la caméra. Vérifiez les autorisations ou essayez un autre navigateur.",
+    "err.gpsTrack": "Impossible de lire la trace GPS.",
+    "err.sessionImport": "Impossible d'importer le fichier de session.",
+    "err.videoBatch": "L'analyse par lot a échoué. Vérifiez que la vidéo peut être décodée.",
+    "err.noImages": "Aucune image trouvée dans la sélection.",
+    "err.imageBatch": "L'analyse du lot d'images a échoué. Réessayez.",
+    "err.drop": "Impossible de lire les fichiers déposés.",
+    "err.invalidOutput": "Le modèle a renvoyé des données inutilisables ({field}). Le résultat précédent est conservé.",
+    "err.rateLimit": "Limite de requêtes atteinte. Patientez un instant et réessayez.",
+    "err.analysis": "L'analyse a échoué. Réessayez.",
+    "err.liveUnavailable": "Diffusion en direct indisponible ({reason}). Retour à l'analyse auto.",
+    "err.liveInvalid": "Le modèle a diffusé des données inutilisables ({field}). La ligne a été ignorée.",
+    "err.microphone": "Impossible d'accéder au microphone. Vérifiez les autorisations.",
+    "err.recordUnsupported": "Ce navigateur ne peut pas enregistrer la caméra.",
+    "err.recordingNotSaved": "Enregistrement non sauvegardé : {error}",
+    "err.rerun": "La relecture de l'enregistrement a échoué.",
+    "map.title": "Carte des dangers",
+    "map.grid": "GRILLE {distance}",
+    "map.empty": "Aucune analyse géolocalisée pour l'instant. Utilisez la caméra en direct avec l'accès à la position, ou chargez une trace GPX/NMEA pour une vidéo importée.",
+    "gps.title": "Trace GPS",
+    "gps.points": "{count} PTS",
+    "gps.offset": "Décalage",
+    "gps.offsetHint": "Secondes à ajouter au temps de la vidéo pour trouver le temps correspondant de la trace",
+    "gps.remove": "Retirer la trace",
+    "gps.load": "Charger GPX / NMEA",
+    "images.title": "Lot d'images · {count}",
+    "images.parallel": "Parallèle",
+    "images.cancel": "Annuler {done}/{total}",
+    "images.retry": "Réessayer {count} en échec",
+    "images.analyzeRemaining": "Analyser les {count} restantes",
+    "images.analyzeAll": "Tout analyser",
+    "images.allLevels": "Tous les niveaux",
+    "images.allHazards": "Tous les dangers",
+    "images.byName": "Par nom",
+    "images.bySeverity": "Les plus graves d'abord",
+    "images.close": "Fermer le lot d'images",
+    "images.noMatch": "Aucune image ne correspond aux filtres.",
+    "images.failed": "ÉCHEC",
+    "images.retrying": "ESSAI {attempt}",
+    "images.analyzed": "{done}/{total} analysées",
+    "survey.empty": "Aucune analyse d'inspection routière pour l'instant",
+    "survey.emptyHint": "Passez le profil d'analyse sur Inspection routière et roulez ; chaque analyse ajoute ici ses défauts de chaussée.",
+    "survey.condition": "État de la chaussée",
+    "survey.scans": "{count} analyses",
+    "survey.defects": "{count} défauts",
+    "survey.segmentCount": "{count} tronçons",
+    "survey.segment": "tronçon",
+    "survey.segments": "Tronçons",
+    "survey.segmentHint": "Tronçon {index} · {from}–{to} · note {score} · {defects} défauts sur {scans} analyses",
+    "survey.repairs": "Priorité de réparation",
+    "survey.noDefects": "Aucun défaut signalé.",
+    "survey.seg": "tronçon {index}",
+    "survey.seen": "vu {count}×",
+    "survey.repairsCsv": "Réparations CSV",
+    "survey.segmentsCsv": "Tronçons CSV",
+    "survey.noGeo": "Aucune analyse d'inspection géolocalisée",
+    "defect.POTHOLE": "Nid-de-poule",
+    "defect.ALLIGATOR_CRACKING": "Faïençage",
+    "defect.EDGE_BREAK": "Rupture de rive",
+    "defect.RUTTING": "Orniérage",
+    "defect.STANDING_WATER": "Eau stagnante",
+    "defect.LONGITUDINAL_CRACKING": "Fissures longitudinales",
+    "defect.TRANSVERSE_CRACKING": "Fissures transversales",
+    "defect.RAVELING": "Désenrobage",
+    "defect.FADED_MARKING": "Marquage effacé",
+    "defect.PATCH": "Rapiéçage",
+    "annot.title": "Annoter l'image",
+    "annot.saving": "Enregistrement",
+    "annot.save": "Enregistrer dans le jeu de données",
+    "annot.saveFailed": "Impossible d'enregistrer l'image annotée.",
+    "annot.frameAlt": "Image à annoter",
+    "annot.trueLevel": "Niveau de sécurité réel",
+    "annot.predicted": "prédit {level}",
+    "annot.hazards": "Dangers ({count})",
+    "annot.signs": "Panneaux ({count})",
+    "annot.type": "Type",
+    "annot.remove": "Retirer",
+    "annot.description": "Description",
+    "annot.location": "Position",
+    "annot.meaning": "Signification",
+    "annot.note": "Note",
+    "annot.notePlaceholder": "Facultatif, p. ex. nuit, pluie",
+    "rules.title": "Règles d'alerte",
+    "rules.add": "Ajouter",
+    "rules.defaultsHint": "Rétablir les règles par défaut",
+    "rules.hint": "Chaque danger ou panneau utilise la première règle correspondante de cette liste. Variables du message :",
+    "rules.empty": "Aucune règle : les résultats ne déclencheront pas d'alerte.",
+    "rules.enabled": "Activée",
+    "rules.delete": "Supprimer la règle",
+    "rules.appliesTo": "S'applique à",
+    "rules.kindHazard": "Danger",
+    "rules.kindSign": "Panneau",
+    "rules.kindSafety": "Niveau de la scène",
+    "rules.level": "Niveau",
+    "rules.typeContains": "Le type contient",
+    "rules.any": "tous",
+    "rules.minSeverity": "Gravité min.",
+    "rules.priority": "Priorité",
+    "rules.message": "Message",
+    "rules.speak": "PARLER",
+    "rules.interrupt": "INTERROMPRE",
+    "rules.earcon": "Signal sonore",
+    "rules.preview": "Aperçu",
+    "rules.flash": "Flash",
+    "rules.none": "aucun",
+    "rules.flashRed": "rouge",
+    "rules.flashAmber": "orange",
+    "rules.cooldown": "Délai (s)",
+    "priority.critical": "critique",
+    "priority.high": "haute",
+    "priority.normal": "normale",
+    "priority.low": "basse",
+    "eval.frames": "{count} images",
+    "eval.export": "Exporter",
+    "eval.import": "Importer",
+    "eval.empty": "Aucune image annotée pour l'instant. Utilisez Annoter sur un résultat pour le corriger et l'ajouter ici.",
+    "eval.removeFrame": "Retirer du jeu de données",
+    "eval.cancel": "Annuler",
+    "eval.run": "Lancer l'évaluation",
+    "eval.runColumn": "Exécution",
+    "eval.framesColumn": "Images",
+    "eval.safetyColumn": "Sécurité",
+    "eval.deleteRun": "Supprimer l'exécution",
+    "eval.hazardPR": "Dangers P / R",
+    "eval.signPR": "Panneaux P / R",
+    "eval.safetyAgreement": "Accord de sécurité",
+    "eval.failedFrames": "Images en échec",
+    "eval.fellBack": "Images de repli",
+    "eval.fellBackHint": "{count} images ont été traitées par un moteur de repli et ne sont pas notées",
+    "eval.meanLatency": "Latence moyenne",
+    "eval.class": "Classe",
+    "eval.precision": "Précision",
+    "eval.recall": "Rappel",
+    "eval.severityMatrix": "Gravité des dangers (dangers appariés)",
+    "eval.safetyMatrix": "Niveau de sécurité",
+    "eval.labelVsPred": "étiquette \\ préd",
+    "eval.loadFailed": "Impossible de charger le jeu de données : {error}",
+    "eval.deleteFailed": "Impossible de supprimer du jeu de données : {error}",
+    "eval.failed": "Échec de l'évaluation : {error}",
+    "eval.confirmClear": "Supprimer les {count} images annotées ?",
+    "eval.imported": "{count} images annotées importées.",
+    "eval.importFailed": "Impossible d'importer le jeu de données.",
+    "cams.rescan": "Rechercher les appareils",
+    "cams.none": "Aucune caméra trouvée.",
+    "cams.hint": "Chaque caméra ouverte est analysée à chaque analyse. Le niveau de sécurité global est le pire signalé par une caméra.",
+    "cams.listFailed": "Impossible de lister les caméras : {error}",
+    "cams.openFailed": "impossible d'ouvrir la caméra",
+    "rec.title": "Enregistrements de trajets",
+    "rec.loading": "Chargement…",
+    "rec.empty": "Aucun enregistrement pour l'instant. Lancez-en un avec REC pendant que la caméra tourne.",
+    "rec.analyses": "{count} analyses",
+    "rec.replay": "Relire",
+    "rec.delete": "Supprimer l'enregistrement",
+    "rec.loadFailed": "Impossible de charger les enregistrements : {error}",
+    "rec.deleteFailed": "Impossible de supprimer l'enregistrement : {error}",
+    "replay.title": "Relecture · {date}",
+    "app.analysisFailed": "Échec de l'analyse",
+    "replay.previous": "Analyse précédente",
+    "replay.next": "Analyse suivante",
+    "replay.play": "Lecture",
+    "replay.pause": "Pause",
+    "replay.frame": "image {index}/{total}",
+    "replay.rerunHint": "Analyser à nouveau chaque image enregistrée avec {analyzer}",
+    "replay.rerun": "Relancer · {analyzer}",
+    "replay.recorded": "Enregistré · {provider}",
+    "replay.recordedRow": "Enregistré ({provider})",
+    "replay.rerunRow": "Relancé ({analyzer})",
+    "replay.changed": "{count} images sur {total} ont changé de niveau de sécurité",
+    "replay.frameChanged": "cette image a changé",
+    "videos.title": "Analyse par lot",
+    "videos.every": "Toutes les",
+    "videos.analyze": "Analyser le clip",
+    "pre.title": "Prétraitement",
+    "pre.defaults": "Par défaut",
+    "pre.defaultsHint": "Rétablir les réglages par défaut",
+    "pre.close": "Fermer",
+    "pre.enable": "Activer le pipeline",
+    "pre.enableHint": "S'applique aux analyses, à l'analyse auto et aux lots vidéo. Désactivé, les images sont seulement redimensionnées pour le profil d'analyse.",
+    "pre.denoise": "Débruitage",
+    "pre.denoiseHint": "Flou 3×3 contre le bruit du capteur dans les images sombres. Appliqué en premier.",
+    "pre.exposure": "Exposition auto",
+    "pre.exposureHint": "Gamma qui ramène les images sous- ou surexposées vers le gris moyen.",
+    "pre.equalize": "Égaliser (CLAHE)",
+    "pre.equalizeHint": "Contraste local pour les scènes de nuit et l'éblouissement, sans brûler toute l'image.",
+    "pre.clipLimit": "LIMITE DE COUPURE",
+    "pre.roi": "Région d'intérêt (coupe sur chaque bord)",
+    "pre.roiTop": "Haut (ciel)",
+    "pre.roiBottom": "Bas (capot)",
+    "pre.roiLeft": "Gauche",
+    "pre.roiRight": "Droite",
+    "pre.maxDimension": "Dimension max.",
+    "pre.profileDefault": "par défaut du profil",
+    "app.dropHint": "Déposez des photos ou un dossier pour les analyser en lot, ou une seule vidéo",
+    "app.scan": "ANALYSER",
+    "app.scanning": "ANALYSE",
+    "app.auto": "AUTO",
+    "app.stop": "ARRÊTER",
+    "app.reset": "RÉINITIALISER",
+    "app.resetMode": "Réinitialiser le mode",
+    "history.title": "Historique des analyses",
+    "history.imported": "Session importée",
+    "history.close": "Fermer",
+    "history.backToLocal": "Retour à l'historique local",
+    "history.clear": "Effacer",
+    "history.clearTitle": "Effacer l'historique",
+    "history.exportGeo": "Exporter les détections géolocalisées",
+    "history.noGeo": "Aucune analyse géolocalisée dans cette session",
+    "history.frames": "Images",
+    "history.import": "Importer",
+    "history.empty": "Les analyses terminées apparaîtront ici.",
+    "history.noFrame": "AUCUNE IMAGE",
+    "history.scanAlt": "Analyse {time}",
+    "app.processing": "TRAITEMENT",
+    "app.online": "SYSTÈME EN LIGNE",
+    "app.voiceActive": "Voix activée",
+    "app.voiceMuted": "Voix coupée",
+    "app.language": "Langue",
+    "app.signRegion": "Région des panneaux",
+    "app.profile": "Profil d'analyse",
+    "app.cameras": "Caméras",
+    "app.record": "ENREG",
+    "app.recordings": "Enregistrements",
+    "app.systemError": "Erreur système",
+    "app.invalidOutput": "Réponse du modèle invalide",
+    "app.dismiss": "Fermer"
+  },
+  de: {
+    "panel.processing": "VERARBEITUNG",
+    "panel.processingDetail": "OBJEKTERKENNUNG LÄUFT",
+    "panel.noData": "KEINE TELEMETRIEDATEN",
+    "panel.noDataHint": "Starten Sie den visuellen Scan, um den Straßenzustand zu erfassen.",
+    "panel.safetyAssessment": "Sicherheitsbewertung",
+    "panel.recommendation": "Systemempfehlung",
+    "panel.hazards": "Erkannte Gefahren",
+    "panel.noHazards": "Keine unmittelbaren Gefahren erkannt.",
+    "panel.defects": "Fahrbahnschäden",
+    "panel.noDefects": "Fahrbahn in gutem Zustand",
+    "panel.conditionIndex": "Zustandsindex, 1 (zerstört) bis 5 (intakt)",
+    "panel.signs": "Verkehrszeichen",
+    "panel.noSigns": "Keine Verkehrszeichen erkannt.",
+    "panel.unmapped": "Nicht katalogisiert",
+    "panel.unmappedHint": "Kein Eintrag im Zeichenkatalog der Region",
+    "safety.SAFE": "SICHER",
+    "safety.CAUTION": "VORSICHT",
+    "safety.DANGER": "GEFAHR",
+    "severity.LOW": "NIEDRIG",
+    "severity.MEDIUM": "MITTEL",
+    "severity.HIGH": "HOCH",
+    "track.NEW": "NEU",
+    "track.PERSISTING": "BESTEHEND",
+    "track.CLEARED": "VERSCHWUNDEN",
+    "hud.scheduler": "Planer",
+    "hud.latency": "LATENZ",
+    "hud.diagnostics": "Diagnose",
+    "hud.capture": "ERFASSUNG",
+    "hud.frameSize": "BILD",
+    "hud.tokensIn": "TOKENS EIN",
+    "hud.tokensOut": "TOKENS AUS",
+    "hud.tokens": "TOKENS",
+    "hud.errors": "FEHLER",
+    "hud.preprocess": "VORVERARBEITUNG",
+    "hud.before": "VORHER",
+    "hud.after": "NACHHER",
+    "hud.gap": "ABSTAND",
+    "hud.throughput": "DURCHSATZ",
+    "hud.nextIn": "NÄCHSTER IN",
+    "hud.retryIn": "ERNEUT IN",
+    "hud.changeGate": "Änderungsfilter",
+    "hud.saved": "{percent}% GESPART",
+    "hud.sentSkipped": "GESENDET / ÜBERSPRUNGEN",
+    "hud.lastDiff": "LETZTE DIFF.",
+    "hud.threshold": "SCHWELLE",
+    "hud.off": "AUS",
+    "hud.analyzing": "BILDDATEN WERDEN ANALYSIERT...",
+    "reg.title": "Verkehrsregeln",
+    "reg.clear": "Zurücksetzen",
+    "reg.overLimit": "ZU SCHNELL",
+    "reg.limit": "LIMIT",
+    "reg.noLimit": "KEIN LIMIT BEKANNT",
+    "reg.noOvertaking": "Überholverbot",
+    "reg.schoolZone": "Schulzone",
+    "reg.overspeedSpeech": "Tempolimit {limit}. Bitte langsamer fahren.",
+    "alert.pedestrian": "Fußgänger! {description}",
+    "alert.hazardAhead": "{type} voraus.",
+    "alert.pothole": "Schlagloch voraus.",
+    "alert.speedLimit": "Schild {type} voraus.",
+    "alert.stopSign": "Stoppschild voraus.",
+    "alert.danger": "Warnung. {recommendation}",
+    "alert.caution": "Vorsicht. {recommendation}",
+    "alert.detected": "{type} erkannt.",
+    "live.title": "Live-Stream",
+    "live.connecting": "VERBINDE",
+    "live.open": "LIVE",
+    "live.closed": "GETRENNT",
+    "live.receiving": "EMPFANGE",
+    "live.incoming": "Eingehender Bericht",
+    "live.micStart": "Per Sprache fragen",
+    "live.micStop": "Zuhören beenden",
+    "live.listening": "Höre zu…",
+    "live.askPlaceholder": "Frage zur Straße, z. B. ist die linke Spur frei?",
+    "live.ask": "Fragen",
+    "device.safe": "Keine nahen Objekte auf dem Gerät erkannt. Mit normaler Vorsicht weiterfahren.",
+    "device.caution": "Objekte nahe der Fahrspur. Geschwindigkeit verringern und aufmerksam bleiben.",
+    "device.danger": "Objekt in der Fahrspur. Abbremsen und anhaltebereit sein.",
+    "device.inPath": "In der Fahrspur ({score} % Konfidenz, auf dem Gerät erkannt).",
+    "device.left": "Links ({score} % Konfidenz, auf dem Gerät erkannt).",
+    "device.right": "Rechts ({score} % Konfidenz, auf dem Gerät erkannt).",
+    "device.stop": "Anhalten und Vorfahrt gewähren",
+    "device.trafficLight": "Ampel voraus",
+    "panel.engineOnDevice": "Auf dem Gerät",
+    "panel.cameras": "Kameras",
+    "panel.cameraFailed": "Kein Ergebnis",
+    "app.live": "LIVE",
+    "app.annotate": "ANNOTIEREN",
+    "app.evaluate": "Datensatz und Auswertung",
+    "app.standby": "SYSTEM BEREIT",
+    "app.standbyHint": "Wählen Sie eine Eingabequelle, um die Straßenanalyse und Gefahrenerkennung zu starten.",
+    "app.liveCamera": "LIVE-KAMERA",
+    "app.uploadMedia": "MEDIEN HOCHLADEN",
+    "app.uploadFolder": "ORDNER HOCHLADEN",
+    "app.annotateHint": "Dieses Ergebnis korrigieren und dem Auswertungsdatensatz hinzufügen",
+    "app.backend": "Vision-Backend",
+    "app.tab.analysis": "Analyse",
+    "app.tab.map": "Gefahrenkarte",
+    "app.tab.survey": "Straßenzustand",
+    "err.camera": "Kein Zugriff auf die Kamera. Prüfen Sie die Berechtigungen oder versuchen Sie einen anderen Browser.",
+    "err.gpsTrack": "Der GPS-Track konnte nicht gelesen werden.",
+    "err.sessionImport": "Die Sitzungsdatei konnte nicht importiert werden.",
+    "err.videoBatch": "Stapelanalyse fehlgeschlagen. Prüfen Sie, ob das Video dekodiert werden kann.",
+    "err.noImages": "In der Auswahl wurden keine Bilder gefunden.",
+    "err.imageBatch": "Analyse des Bildsatzes fehlgeschlagen. Bitte erneut versuchen.",
+    "err.drop": "Die abgelegten Dateien konnten nicht gelesen werden.",
+    "err.invalidOutput": "Das Modell lieferte unbrauchbare Daten ({field}). Das vorherige Ergebnis bleibt erhalten.",
+    "err.rateLimit": "Anfragelimit erreicht. Warten Sie kurz und versuchen Sie es erneut.",
+    "err.analysis": "Analyse fehlgeschlagen. Bitte erneut versuchen.",
+    "err.liveUnavailable": "Live-Stream nicht verfügbar ({reason}). Wechsel zu Auto-Scan.",
+    "err.liveInvalid": "Das Modell streamte unbrauchbare Daten ({field}). Die Zeile wurde übersprungen.",
+    "err.microphone": "Kein Zugriff auf das Mikrofon. Prüfen Sie die Berechtigungen.",
+    "err.recordUnsupported": "Dieser Browser kann die Kamera nicht aufzeichnen.",
+    "err.recordingNotSaved": "Aufzeichnung nicht gespeichert: {error}",
+    "err.rerun": "Erneute Analyse der Aufzeichnung fehlgeschlagen.",
+    "map.title": "Gefahrenkarte",
+    "map.grid": "RASTER {distance}",
+    "map.empty": "Noch keine georeferenzierten Scans. Nutzen Sie die Live-Kamera mit Standortzugriff oder laden Sie einen GPX/NMEA-Track zu einem hochgeladenen Video.",
+    "gps.title": "GPS-Track",
+    "gps.points": "{count} PKT",
+    "gps.offset": "Versatz",
+    "gps.offsetHint": "Sekunden, die zur Videozeit addiert werden, um die passende Trackzeit zu finden",
+    "gps.remove": "Track entfernen",
+    "gps.load": "GPX / NMEA laden",
+    "images.title": "Bildsatz · {count}",
+    "images.parallel": "Parallel",
+    "images.cancel": "Abbrechen {done}/{total}",
+    "images.retry": "{count} fehlgeschlagene wiederholen",
+    "images.analyzeRemaining": "{count} verbleibende analysieren",
+    "images.analyzeAll": "Alle analysieren",
+    "images.allLevels": "Alle Stufen",
+    "images.allHazards": "Alle Gefahren",
+    "images.byName": "Nach Name",
+    "images.bySeverity": "Schwerste zuerst",
+    "images.close": "Bildsatz schließen",
+    "images.noMatch": "Keine Bilder entsprechen den Filtern.",
+    "images.failed": "FEHLGESCHLAGEN",
+    "images.retrying": "VERSUCH {attempt}",
+    "images.analyzed": "{done}/{total} analysiert",
+    "survey.empty": "Noch keine Straßenzustandsscans",
+    "survey.emptyHint": "Stellen Sie das Analyseprofil auf Straßenzustand und fahren Sie los; jeder Scan fügt hier seine Oberflächenschäden hinzu.",
+    "survey.condition": "Straßenzustand",
+    "survey.scans": "{count} Scans",
+    "survey.defects": "{count} Schäden",
+    "survey.segmentCount": "{count} Abschnitte",
+    "survey.segment": "Abschnitt",
+    "survey.segments": "Abschnitte",
+    "survey.segmentHint": "Abschnitt {index} · {from}–{to} · Wert {score} · {defects} Schäden in {scans} Scans",
+    "survey.repairs": "Reparaturpriorität",
+    "survey.noDefects": "Keine Schäden gemeldet.",
+    "survey.seg": "Abschn. {index}",
+    "survey.seen": "{count}× gesehen",
+    "survey.repairsCsv": "Reparaturen CSV",
+    "survey.segmentsCsv": "Abschnitte CSV",
+    "survey.noGeo": "Keine georeferenzierten Zustandsscans",
+    "defect.POTHOLE": "Schlagloch",
+    "defect.ALLIGATOR_CRACKING": "Netzrisse",
+    "defect.EDGE_BREAK": "Randausbruch",
+    "defect.RUTTING": "Spurrinnen",
+    "defect.STANDING_WATER": "Stehendes Wasser",
+    "defect.LONGITUDINAL_CRACKING": "Längsrisse",
+    "defect.TRANSVERSE_CRACKING": "Querrisse",
+    "defect.RAVELING": "Kornausbruch",
+    "defect.FADED_MARKING": "Verblasste Markierung",
+    "defect.PATCH": "Flickstelle",
+    "annot.title": "Frame annotieren",
+    "annot.saving": "Wird gespeichert",
+    "annot.save": "Im Datensatz speichern",
+    "annot.saveFailed": "Der gelabelte Frame konnte nicht gespeichert werden.",
+    "annot.frameAlt": "Zu labelnder Frame",
+    "annot.trueLevel": "Tatsächliche Sicherheitsstufe",
+    "annot.predicted": "vorhergesagt {level}",
+    "annot.hazards": "Gefahren ({count})",
+    "annot.signs": "Schilder ({count})",
+    "annot.type": "Typ",
+    "annot.remove": "Entfernen",
+    "annot.description": "Beschreibung",
+    "annot.location": "Position",
+    "annot.meaning": "Bedeutung",
+    "annot.note": "Notiz",
+    "annot.notePlaceholder": "Optional, z. B. Nacht, Regen",
+    "rules.title": "Alarmregeln",
+    "rules.add": "Hinzufügen",
+    "rules.defaultsHint": "Standardregeln wiederherstellen",
+    "rules.hint": "Jede Gefahr und jedes Schild nutzt die erste passende Regel dieser Liste. Platzhalter für Meldungen:",
+    "rules.empty": "Keine Regeln – Ergebnisse lösen keine Alarme aus.",
+    "rules.enabled": "Aktiviert",
+    "rules.delete": "Regel löschen",
+    "rules.appliesTo": "Gilt für",
+    "rules.kindHazard": "Gefahr",
+    "rules.kindSign": "Schild",
+    "rules.kindSafety": "Szenenstufe",
+    "rules.level": "Stufe",
+    "rules.typeContains": "Typ enthält",
+    "rules.any": "beliebig",
+    "rules.minSeverity": "Min. Schwere",
+    "rules.priority": "Priorität",
+    "rules.message": "Meldung",
+    "rules.speak": "SPRECHEN",
+    "rules.interrupt": "UNTERBRECHEN",
+    "rules.earcon": "Signalton",
+    "rules.preview": "Vorschau",
+    "rules.flash": "Blitz",
+    "rules.none": "keiner",
+    "rules.flashRed": "rot",
+    "rules.flashAmber": "gelb",
+    "rules.cooldown": "Sperrzeit (s)",
+    "priority.critical": "kritisch",
+    "priority.high": "hoch",
+    "priority.normal": "normal",
+    "priority.low": "niedrig",
+    "eval.frames": "{count} Frames",
+    "eval.export": "Exportieren",
+    "eval.import": "Importieren",
+    "eval.empty": "Noch keine gelabelten Frames. Korrigieren Sie ein Scan-Ergebnis mit Annotieren, um es hier hinzuzufügen.",
+    "eval.removeFrame": "Aus dem Datensatz entfernen",
+    "eval.cancel": "Abbrechen",
+    "eval.run": "Auswertung starten",
+    "eval.runColumn": "Lauf",
+    "eval.framesColumn": "Frames",
+    "eval.safetyColumn": "Sicherheit",
+    "eval.deleteRun": "Lauf löschen",
+    "eval.hazardPR": "Gefahren P / R",
+    "eval.signPR": "Schilder P / R",
+    "eval.safetyAgreement": "Sicherheitsübereinstimmung",
+    "eval.failedFrames": "Fehlgeschlagene Frames",
+    "eval.fellBack": "Fallback-Frames",
+    "eval.fellBackHint": "{count} Frames wurden von einer Fallback-Engine beantwortet und nicht bewertet",
+    "eval.meanLatency": "Mittlere Latenz",
+    "eval.class": "Klasse",
+    "eval.precision": "Präzision",
+    "eval.recall": "Trefferquote",
+    "eval.severityMatrix": "Gefahrenschwere (zugeordnete Gefahren)",
+    "eval.safetyMatrix": "Sicherheitsstufe",
+    "eval.labelVsPred": "Label \\ Vorh.",
+    "eval.loadFailed": "Der Datensatz konnte nicht geladen werden: {error}",
+    "eval.deleteFailed": "Löschen aus dem Datensatz fehlgeschlagen: {error}",
+    "eval.failed": "Auswertung fehlgeschlagen: {error}",
+    "eval.confirmClear": "Alle {count} gelabelten Frames löschen?",
+    "eval.imported": "{count} gelabelte Frames importiert.",
+    "eval.importFailed": "Der Datensatz konnte nicht importiert werden.",
+    "cams.rescan": "Geräte neu suchen",
+    "cams.none": "Keine Kameras gefunden.",
+    "cams.hint": "Jede geöffnete Kamera wird bei jedem Scan analysiert. Die Gesamtsicherheitsstufe ist die schlechteste, die eine Kamera meldet.",
+    "cams.listFailed": "Kameras konnten nicht aufgelistet werden: {error}",
+    "cams.openFailed": "Kamera konnte nicht geöffnet werden",
+    "rec.title": "Fahrtaufzeichnungen",
+    "rec.loading": "Wird geladen…",
+    "rec.empty": "Noch keine Aufzeichnungen. Starten Sie eine mit REC, während die Kamera läuft.",
+    "rec.analyses": "{count} Analysen",
+    "rec.replay": "Wiedergeben",
+    "rec.delete": "Aufzeichnung löschen",
+    "rec.loadFailed": "Aufzeichnungen konnten nicht geladen werden: {error}",
+    "rec.deleteFailed": "Die Aufzeichnung konnte nicht gelöscht werden: {error}",
+    "replay.title": "Wiedergabe · {date}",
+    "app.analysisFailed": "Analyse fehlgeschlagen",
+    "replay.previous": "Vorherige Analyse",
+    "replay.next": "Nächste Analyse",
+    "replay.play": "Abspielen",
+    "replay.pause": "Pause",
+    "replay.frame": "Frame {index}/{total}",
+    "replay.rerunHint": "Jeden aufgezeichneten Frame erneut mit {analyzer} analysieren",
+    "replay.rerun": "Erneut · {analyzer}",
+    "replay.recorded": "Aufgezeichnet · {provider}",
+    "replay.recordedRow": "Aufgezeichnet ({provider})",
+    "replay.rerunRow": "Erneut ({analyzer})",
+    "replay.changed": "{count} von {total} Frames änderten die Sicherheitsstufe",
+    "replay.frameChanged": "dieser Frame hat sich geändert",
+    "videos.title": "Stapelanalyse",
+    "videos.every": "Alle",
+    "videos.analyze": "Clip analysieren",
+    "pre.title": "Vorverarbeitung",
+    "pre.defaults": "Standard",
+    "pre.defaultsHint": "Standardeinstellungen wiederherstellen",
+    "pre.close": "Schließen",
+    "pre.enable": "Pipeline aktivieren",
+    "pre.enableHint": "Gilt für Scans, Auto-Scan und Video-Stapel. Aus sendet Frames nur auf das Analyseprofil skaliert.",
+    "pre.denoise": "Entrauschen",
+    "pre.denoiseHint": "3×3-Weichzeichner gegen Sensorrauschen in dunklen Aufnahmen. Läuft zuerst.",
+    "pre.exposure": "Auto-Belichtung",
+    "pre.exposureHint": "Gamma, das unter- oder überbelichtete Frames Richtung Mittelgrau bringt.",
+    "pre.equalize": "Ausgleichen (CLAHE)",
+    "pre.equalizeHint": "Lokaler Kontrast für Nachtszenen und Blendung, ohne den ganzen Frame zu überstrahlen.",
+    "pre.clipLimit": "CLIP-GRENZE",
+    "pre.roi": "Interessensbereich (Beschnitt je Kante)",
+    "pre.roiTop": "Oben (Himmel)",
+    "pre.roiBottom": "Unten (Motorhaube)",
+    "pre.roiLeft": "Links",
+    "pre.roiRight": "Rechts",
+    "pre.maxDimension": "Maximale Größe",
+    "pre.profileDefault": "Profilstandard",
+    "app.dropHint": "Fotos oder einen Ordner ablegen, um sie als Satz zu analysieren, oder ein einzelnes Video",
+    "app.scan": "SCANNEN",
+    "app.scanning": "SCANNT",
+    "app.auto": "AUTO",
+    "app.stop": "STOPP",
+    "app.reset": "ZURÜCKSETZEN",
+    "app.resetMode": "Modus zurücksetzen",
+    "history.title": "Scan-Verlauf",
+    "history.imported": "Importierte Sitzung",
+    "history.close": "Schließen",
+    "history.backToLocal": "Zurück zum lokalen Verlauf",
+    "history.clear": "Leeren",
+    "history.clearTitle": "Verlauf leeren",
+    "history.exportGeo": "Detektionen mit Geotag exportieren",
+    "history.noGeo": "Keine Scans mit Geotag in dieser Sitzung",
+    "history.frames": "Bilder",
+    "history.import": "Importieren",
+    "history.empty": "Abgeschlossene Scans erscheinen hier.",
+    "history.noFrame": "KEIN BILD",
+    "history.scanAlt": "Scan {time}",
+    "app.processing": "VERARBEITUNG",
+    "app.online": "SYSTEM ONLINE",
+    "app.voiceActive": "Sprache an",
+    "app.voiceMuted": "Sprache aus",
+    "app.language": "Sprache",
+    "app.signRegion": "Zeichenregion",
+    "app.profile": "Analyseprofil",
+    "app.cameras": "Kameras",
+    "app.record": "AUFN",
+    "app.recordings": "Aufnahmen",
+    "app.systemError": "Systemfehler",
+    "app.invalidOutput": "Ungültige Modellantwort",
+    "app.dismiss": "Schließen"
+  },
+  hi: {
+    "panel.processing": "प्रोसेसिंग",
+    "panel.processingDetail": "वस्तु पहचान जारी है",
+    "panel.noData": "कोई टेलीमेट्री डेटा नहीं",
+    "panel.noDataHint": "सड़क की स्थिति जानने के लिए विज़ुअल स्कैन शुरू करें।",
+    "panel.safetyAssessment": "सुरक्षा आकलन",
+    "panel.recommendation": "सिस्टम सुझाव",
+    "panel.hazards": "पहचाने गए खतरे",
+    "panel.noHazards": "कोई तात्कालिक खतरा नहीं मिला।",
+    "panel.defects": "सतह दोष",
+    "panel.noDefects": "सड़क की सतह ठीक है",
+    "panel.conditionIndex": "स्थिति सूचकांक, 1 (विफल) से 5 (ठीक)",
+    "panel.signs": "संकेत विश्लेषण",
+    "panel.noSigns": "कोई यातायात संकेत नहीं मिला।",
+    "panel.unmapped": "कैटलॉग में नहीं",
+    "panel.unmappedHint": "चुने गए क्षेत्र की संकेत सूची में नहीं है",
+    "safety.SAFE": "सुरक्षित",
+    "safety.CAUTION": "सावधान",
+    "safety.DANGER": "खतरा",
+    "severity.LOW": "कम",
+    "severity.MEDIUM": "मध्यम",
+    "severity.HIGH": "उच्च",
+    "track.NEW": "नया",
+    "track.PERSISTING": "बना हुआ",
+    "track.CLEARED": "हटा",
+    "hud.scheduler": "शेड्यूलर",
+    "hud.latency": "विलंब",
+    "hud.diagnostics": "निदान",
+    "hud.capture": "कैप्चर",
+    "hud.frameSize": "फ़्रेम",
+    "hud.tokensIn": "इनपुट टोकन",
+    "hud.tokensOut": "आउटपुट टोकन",
+    "hud.tokens": "टोकन",
+    "hud.errors": "त्रुटियाँ",
+    "hud.preprocess": "पूर्व-प्रसंस्करण",
+    "hud.before": "पहले",
+    "hud.after": "बाद में",
+    "hud.gap": "अंतराल",
+    "hud.throughput": "थ्रूपुट",
+    "hud.nextIn": "अगला",
+    "hud.retryIn": "पुनः प्रयास",
+    "hud.changeGate": "बदलाव फ़िल्टर",
+    "hud.saved": "{percent}% बचत",
+    "hud.sentSkipped": "भेजे / छोड़े",
+    "hud.lastDiff": "पिछला अंतर",
+    "hud.threshold": "सीमा",
+    "hud.off": "बंद",
+    "hud.analyzing": "फ़्रेम का विश्लेषण हो रहा है...",
+    "reg.title": "नियम",
+    "reg.clear": "साफ़ करें",
+    "reg.overLimit": "गति सीमा से अधिक",
+    "reg.limit": "सीमा",
+    "reg.noLimit": "कोई ज्ञात सीमा नहीं",
+    "reg.noOvertaking": "ओवरटेक निषेध",
+    "reg.schoolZone": "स्कूल क्षेत्र",
+    "reg.overspeedSpeech": "गति सीमा {limit}। धीमे चलें।",
+    "alert.pedestrian": "पैदल यात्री! {description}",
+    "alert.hazardAhead": "आगे {type}।",
+    "alert.pothole": "आगे गड्ढा है।",
+    "alert.speedLimit": "आगे {type} का संकेत।",
+    "alert.stopSign": "आगे रुकें का संकेत है।",
+    "alert.danger": "चेतावनी। {recommendation}",
+    "alert.caution": "सावधान। {recommendation}",
+    "alert.detected": "{type} पाया गया।",
+    "live.title": "लाइव स्ट्रीम",
+    "live.connecting": "कनेक्ट हो रहा है",
+    "live.open": "स्ट्रीमिंग",
+    "live.closed": "डिस्कनेक्ट",
+    "live.receiving": "प्राप्त हो रहा है",
+    "live.incoming": "आने वाली रिपोर्ट",
+    "live.micStart": "बोलकर पूछें",
+    "live.micStop": "सुनना बंद करें",
+    "live.listening": "सुन रहा है…",
+    "live.askPlaceholder": "सड़क के बारे में पूछें, जैसे क्या बाईं लेन खाली है?",
+    "live.ask": "पूछें",
+    "device.safe": "डिवाइस पर कोई नज़दीकी वस्तु नहीं मिली। सामान्य सावधानी से आगे बढ़ें।",
+    "device.caution": "रास्ते के पास वस्तुएँ हैं। गति कम करें और सतर्क रहें।",
+    "device.danger": "रास्ते में वस्तु है। धीमे हों और रुकने के लिए तैयार रहें।",
+    "device.inPath": "रास्ते में ({score}% विश्वास, डिवाइस पर पहचाना गया)।",
+    "device.left": "बाईं ओर ({score}% विश्वास, डिवाइस पर पहचाना गया)।",
+    "device.right": "दाईं ओर ({score}% विश्वास, डिवाइस पर पहचाना गया)।",
+    "device.stop": "रुकें और रास्ता दें",
+    "device.trafficLight": "आगे ट्रैफ़िक सिग्नल",
+    "panel.engineOnDevice": "डिवाइस पर",
+    "panel.cameras": "कैमरे",
+    "panel.cameraFailed": "कोई परिणाम नहीं",
+    "app.live": "लाइव",
+    "app.annotate": "लेबल करें",
+    "app.evaluate": "डेटासेट और मूल्यांकन",
+    "app.standby": "सिस्टम स्टैंडबाय",
+    "app.standbyHint": "सड़क विश्लेषण और खतरा पहचान शुरू करने के लिए इनपुट स्रोत चुनें।",
+    "app.liveCamera": "लाइव कैमरा",
+    "app.uploadMedia": "मीडिया अपलोड",
+    "app.uploadFolder": "फ़ोल्डर अपलोड",
+    "app.annotateHint": "इस परिणाम को सुधारें और मूल्यांकन डेटासेट में जोड़ें",
+    "app.backend": "विज़न बैकएंड",
+    "app.tab.analysis": "विश्लेषण",
+    "app.tab.map": "खतरा मानचित्र",
+    "app.tab.survey": "सड़क सर्वेक्षण",
+    "err.camera": "कैमरे तक पहुँच नहीं हो सकी। अनुमतियाँ जाँचें या कोई दूसरा ब्राउज़र आज़माएँ।",
+    "err.gpsTrack": "GPS ट्रैक पढ़ा नहीं जा सका।",
+    "err.sessionImport": "सत्र फ़ाइल आयात नहीं हो सकी।",
+    "err.videoBatch": "बैच विश्लेषण विफल। जाँचें कि वीडियो डिकोड हो सकता है।",
+    "err.noImages": "चयन में कोई छवि नहीं मिली।",
+    "err.imageBatch": "छवि सेट विश्लेषण विफल। फिर से प्रयास करें।",
+    "err.drop": "छोड़ी गई फ़ाइलें पढ़ी नहीं जा सकीं।",
+    "err.invalidOutput": "मॉडल ने अनुपयोगी डेटा लौटाया ({field})। पिछला परिणाम रखा गया है।",
+    "err.rateLimit": "दर सीमा पूरी हो गई। थोड़ा रुकें और फिर प्रयास करें।",
+    "err.analysis": "विश्लेषण विफल। फिर से प्रयास करें।",
+    "err.liveUnavailable": "लाइव स्ट्रीमिंग उपलब्ध नहीं ({reason})। ऑटो-स्कैन पर लौट रहे हैं।",
+    "err.liveInvalid": "मॉडल ने अनुपयोगी डेटा स्ट्रीम किया ({field})। पंक्ति छोड़ दी गई।",
+    "err.microphone": "माइक्रोफ़ोन तक पहुँच नहीं हो सकी। अनुमतियाँ जाँचें।",
+    "err.recordUnsupported": "यह ब्राउज़र कैमरा रिकॉर्ड नहीं कर सकता।",
+    "err.recordingNotSaved": "रिकॉर्डिंग सहेजी नहीं गई: {error}",
+    "err.rerun": "रिकॉर्डिंग फिर से चलाना विफल रहा।",
+    "map.title": "खतरा मानचित्र",
+    "map.grid": "ग्रिड {distance}",
+    "map.empty": "अभी तक कोई जियोटैग किया गया स्कैन नहीं। स्थान अनुमति के साथ लाइव कैमरा का उपयोग करें, या अपलोड किए गए वीडियो के लिए GPX/NMEA ट्रैक लोड करें।",
+    "gps.title": "GPS ट्रैक",
+    "gps.points": "{count} बिंदु",
+    "gps.offset": "ऑफ़सेट",
+    "gps.offsetHint": "मिलते-जुलते ट्रैक समय के लिए वीडियो समय में जोड़े जाने वाले सेकंड",
+    "gps.remove": "ट्रैक हटाएँ",
+    "gps.load": "GPX / NMEA लोड करें",
+    "images.title": "छवि सेट · {count}",
+    "images.parallel": "समानांतर",
+    "images.cancel": "रद्द करें {done}/{total}",
+    "images.retry": "{count} विफल फिर से आज़माएँ",
+    "images.analyzeRemaining": "शेष {count} का विश्लेषण करें",
+    "images.analyzeAll": "सभी का विश्लेषण करें",
+    "images.allLevels": "सभी स्तर",
+    "images.allHazards": "सभी खतरे",
+    "images.byName": "नाम से",
+    "images.bySeverity": "सबसे गंभीर पहले",
+    "images.close": "छवि सेट बंद करें",
+    "images.noMatch": "कोई छवि फ़िल्टर से मेल नहीं खाती।",
+    "images.failed": "विफल",
+    "images.retrying": "पुनः प्रयास {attempt}",
+    "images.analyzed": "{done}/{total} विश्लेषित",
+    "survey.empty": "अभी तक कोई सड़क सर्वेक्षण स्कैन नहीं",
+    "survey.emptyHint": "विश्लेषण प्रोफ़ाइल को सड़क सर्वेक्षण पर करें और गाड़ी चलाएँ; हर स्कैन अपनी सतह की खामियाँ यहाँ जोड़ता है।",
+    "survey.condition": "सड़क की स्थिति",
+    "survey.scans": "{count} स्कैन",
+    "survey.defects": "{count} खामियाँ",
+    "survey.segmentCount": "{count} खंड",
+    "survey.segment": "खंड",
+    "survey.segments": "खंड",
+    "survey.segmentHint": "खंड {index} · {from}–{to} · स्कोर {score} · {scans} स्कैन में {defects} खामियाँ",
+    "survey.repairs": "मरम्मत प्राथमिकता",
+    "survey.noDefects": "कोई खामी दर्ज नहीं।",
+    "survey.seg": "खंड {index}",
+    "survey.seen": "{count}× देखा गया",
+    "survey.repairsCsv": "मरम्मत CSV",
+    "survey.segmentsCsv": "खंड CSV",
+    "survey.noGeo": "कोई जियोटैग किया गया सर्वेक्षण स्कैन नहीं",
+    "defect.POTHOLE": "गड्ढा",
+    "defect.ALLIGATOR_CRACKING": "जाल-दरारें",
+    "defect.EDGE_BREAK": "किनारा टूटना",
+    "defect.RUTTING": "लीक धँसना",
+    "defect.STANDING_WATER": "जमा पानी",
+    "defect.LONGITUDINAL_CRACKING": "अनुदैर्ध्य दरारें",
+    "defect.TRANSVERSE_CRACKING": "अनुप्रस्थ दरारें",
+    "defect.RAVELING": "बजरी उखड़ना",
+    "defect.FADED_MARKING": "फीकी लेन मार्किंग",
+    "defect.PATCH": "पैच",
+    "annot.title": "फ़्रेम एनोटेट करें",
+    "annot.saving": "सहेजा जा रहा है",
+    "annot.save": "डेटासेट में सहेजें",
+    "annot.saveFailed": "लेबल किया गया फ़्रेम सहेजा नहीं जा सका।",
+    "annot.frameAlt": "लेबल करने के लिए फ़्रेम",
+    "annot.trueLevel": "वास्तविक सुरक्षा स्तर",
+    "annot.predicted": "अनुमानित {level}",
+    "annot.hazards": "खतरे ({count})",
+    "annot.signs": "संकेत ({count})",
+    "annot.type": "प्रकार",
+    "annot.remove": "हटाएँ",
+    "annot.description": "विवरण",
+    "annot.location": "स्थान",
+    "annot.meaning": "अर्थ",
+    "annot.note": "टिप्पणी",
+    "annot.notePlaceholder": "वैकल्पिक, जैसे रात, बारिश",
+    "rules.title": "अलर्ट नियम",
+    "rules.add": "जोड़ें",
+    "rules.defaultsHint": "डिफ़ॉल्ट नियम पुनर्स्थापित करें",
+    "rules.hint": "हर खतरा या संकेत इस सूची का पहला मेल खाता नियम उपयोग करता है। संदेश प्लेसहोल्डर:",
+    "rules.empty": "कोई नियम नहीं - परिणाम अलर्ट ट्रिगर नहीं करेंगे।",
+    "rules.enabled": "सक्षम",
+    "rules.delete": "नियम हटाएँ",
+    "rules.appliesTo": "लागू होता है",
+    "rules.kindHazard": "खतरा",
+    "rules.kindSign": "संकेत",
+    "rules.kindSafety": "दृश्य स्तर",
+    "rules.level": "स्तर",
+    "rules.typeContains": "प्रकार में शामिल",
+    "rules.any": "कोई भी",
+    "rules.minSeverity": "न्यूनतम गंभीरता",
+    "rules.priority": "प्राथमिकता",
+    "rules.message": "संदेश",
+    "rules.speak": "बोलें",
+    "rules.interrupt": "बाधित करें",
+    "rules.earcon": "ध्वनि संकेत",
+    "rules.preview": "पूर्वावलोकन",
+    "rules.flash": "फ़्लैश",
+    "rules.none": "कोई नहीं",
+    "rules.flashRed": "लाल",
+    "rules.flashAmber": "एम्बर",
+    "rules.cooldown": "ठहराव (से.)",
+    "priority.critical": "गंभीर",
+    "priority.high": "उच्च",
+    "priority.normal": "सामान्य",
+    "priority.low": "निम्न",
+    "eval.frames": "{count} फ़्रेम",
+    "eval.export": "निर्यात",
+    "eval.import": "आयात",
+    "eval.empty": "अभी तक कोई लेबल किया गया फ़्रेम नहीं। किसी स्कैन परिणाम को सुधारने और यहाँ जोड़ने के लिए एनोटेट का उपयोग करें।",
+    "eval.removeFrame": "डेटासेट से हटाएँ",
+    "eval.cancel": "रद्द करें",
+    "eval.run": "मूल्यांकन चलाएँ",
+    "eval.runColumn": "रन",
+    "eval.framesColumn": "फ़्रेम",
+    "eval.safetyColumn": "सुरक्षा",
+    "eval.deleteRun": "रन हटाएँ",
+    "eval.hazardPR": "खतरे P / R",
+    "eval.signPR": "संकेत P / R",
+    "eval.safetyAgreement": "सुरक्षा सहमति",
+    "eval.failedFrames": "विफल फ़्रेम",
+    "eval.fellBack": "फ़ॉलबैक फ़्रेम",
+    "eval.fellBackHint": "{count} फ़्रेम का उत्तर फ़ॉलबैक इंजन ने दिया और उनका स्कोर नहीं किया गया",
+    "eval.meanLatency": "औसत विलंब",
+    "eval.class": "वर्ग",
+    "eval.precision": "परिशुद्धता",
+    "eval.recall": "रिकॉल",
+    "eval.severityMatrix": "खतरे की गंभीरता (मिलान किए गए खतरे)",
+    "eval.safetyMatrix": "सुरक्षा स्तर",
+    "eval.labelVsPred": "लेबल \\ अनुमान",
+    "eval.loadFailed": "डेटासेट लोड नहीं हो सका: {error}",
+    "eval.deleteFailed": "डेटासेट से हटाया नहीं जा सका: {error}",
+    "eval.failed": "मूल्यांकन विफल: {error}",
+    "eval.confirmClear": "सभी {count} लेबल किए गए फ़्रेम हटाएँ?",
+    "eval.imported": "{count} लेबल किए गए फ़्रेम आयात किए गए।",
+    "eval.importFailed": "डेटासेट आयात नहीं हो सका।",
+    "cams.rescan": "डिवाइस फिर से खोजें",
+    "cams.none": "कोई कैमरा नहीं मिला।",
+    "cams.hint": "हर स्कैन पर हर खुला कैमरा विश्लेषित होता है। कुल सुरक्षा स्तर किसी भी कैमरे द्वारा बताया गया सबसे खराब स्तर है।",
+    "cams.listFailed": "कैमरों की सूची नहीं बन सकी: {error}",
+    "cams.openFailed": "कैमरा नहीं खुल सका",
+    "rec.title": "ड्राइव रिकॉर्डिंग",
+    "rec.loading": "लोड हो रहा है…",
+    "rec.empty": "अभी तक कोई रिकॉर्डिंग नहीं। कैमरा चलते समय REC से एक शुरू करें।",
+    "rec.analyses": "{count} विश्लेषण",
+    "rec.replay": "रीप्ले",
+    "rec.delete": "रिकॉर्डिंग हटाएँ",
+    "rec.loadFailed": "रिकॉर्डिंग लोड नहीं हो सकीं: {error}",
+    "rec.deleteFailed": "रिकॉर्डिंग हटाई नहीं जा सकी: {error}",
+    "replay.title": "रीप्ले · {date}",
+    "app.analysisFailed": "विश्लेषण विफल",
+    "replay.previous": "पिछला विश्लेषण",
+    "replay.next": "अगला विश्लेषण",
+    "replay.play": "चलाएँ",
+    "replay.pause": "रोकें",
+    "replay.frame": "फ़्रेम {index}/{total}",
+    "replay.rerunHint": "हर रिकॉर्ड किए गए फ़्रेम का {analyzer} से फिर विश्लेषण करें",
+    "replay.rerun": "फिर चलाएँ · {analyzer}",
+    "replay.recorded": "रिकॉर्ड किया गया · {provider}",
+    "replay.recordedRow": "रिकॉर्ड किया गया ({provider})",
+    "replay.rerunRow": "फिर चलाया गया ({analyzer})",
+    "replay.changed": "{total} में से {count} फ़्रेम का सुरक्षा स्तर बदला",
+    "replay.frameChanged": "यह फ़्रेम बदला",
+    "videos.title": "बैच विश्लेषण",
+    "videos.every": "हर",
+    "videos.analyze": "क्लिप का विश्लेषण करें",
+    "pre.title": "प्रीप्रोसेसिंग",
+    "pre.defaults": "डिफ़ॉल्ट",
+    "pre.defaultsHint": "डिफ़ॉल्ट सेटिंग्स पुनर्स्थापित करें",
+    "pre.close": "बंद करें",
+    "pre.enable": "पाइपलाइन सक्षम करें",
+    "pre.enableHint": "स्कैन, ऑटो-स्कैन और वीडियो बैच पर लागू। बंद होने पर फ़्रेम केवल विश्लेषण प्रोफ़ाइल के आकार में भेजे जाते हैं।",
+    "pre.denoise": "शोर हटाएँ",
+    "pre.denoiseHint": "अंधेरी फ़ुटेज में सेंसर शोर के विरुद्ध 3×3 ब्लर। सबसे पहले चलता है।",
+    "pre.exposure": "स्वतः एक्सपोज़र",
+    "pre.exposureHint": "गामा जो कम या अधिक एक्सपोज़्ड फ़्रेम को मध्य-धूसर की ओर लाता है।",
+    "pre.equalize": "समतुल्य करें (CLAHE)",
+    "pre.equalizeHint": "रात के दृश्यों और चकाचौंध के लिए स्थानीय कंट्रास्ट, पूरे फ़्रेम को अधिक उजला किए बिना।",
+    "pre.clipLimit": "क्लिप सीमा",
+    "pre.roi": "रुचि का क्षेत्र (हर किनारे से कटौती)",
+    "pre.roiTop": "ऊपर (आकाश)",
+    "pre.roiBottom": "नीचे (बोनट)",
+    "pre.roiLeft": "बाएँ",
+    "pre.roiRight": "दाएँ",
+    "pre.maxDimension": "अधिकतम आयाम",
+    "pre.profileDefault": "प्रोफ़ाइल डिफ़ॉल्ट",
+    "app.dropHint": "फ़ोटो या फ़ोल्डर को सेट के रूप में विश्लेषण के लिए छोड़ें, या एक वीडियो",
+    "app.scan": "स्कैन",
+    "app.scanning": "स्कैनिंग",
+    "app.auto": "ऑटो",
+    "app.stop": "रोकें",
+    "app.reset": "रीसेट",
+    "app.resetMode": "मोड रीसेट करें",
+    "history.title": "स्कैन इतिहास",
+    "history.imported": "आयातित सत्र",
+    "history.close": "बंद करें",
+    "history.backToLocal": "स्थानीय इतिहास पर वापस जाएँ",
+    "history.clear": "साफ़ करें",
+    "history.clearTitle": "इतिहास साफ़ करें",
+    "history.exportGeo": "जियोटैग किए गए डिटेक्शन निर्यात करें",
+    "history.noGeo": "इस सत्र में कोई जियोटैग किया गया स्कैन नहीं",
+    "history.frames": "फ़्रेम",
+    "history.import": "आयात करें",
+    "history.empty": "पूरे हुए स्कैन यहाँ दिखाई देंगे।",
+    "history.noFrame": "कोई फ़्रेम नहीं",
+    "history.scanAlt": "स्कैन {time}",
+    "app.processing": "प्रोसेसिंग",
+    "app.online": "सिस्टम ऑनलाइन",
+    "app.voiceActive": "आवाज़ चालू",
+    "app.voiceMuted": "आवाज़ बंद",
+    "app.language": "भाषा",
+    "app.signRegion": "संकेत क्षेत्र",
+    "app.profile": "विश्लेषण प्रोफ़ाइल",
+    "app.cameras": "कैमरे",
+    "app.record": "रिकॉर्ड",
+    "app.recordings": "रिकॉर्डिंग",
+    "app.systemError": "सिस्टम त्रुटि",
+    "app.invalidOutput": "मॉडल का अमान्य उत्तर",
+    "app.dismiss": "बंद करें"
+  },
+  ar: {
+    "panel.processing": "جارٍ المعالجة",
+    "panel.processingDetail": "جارٍ اكتشاف الأجسام",
+    "panel.noData": "لا توجد بيانات",
+    "panel.noDataHint": "ابدأ المسح البصري لاكتشاف حالة الطريق.",
+    "panel.safetyAssessment": "تقييم السلامة",
+    "panel.recommendation": "توصية النظام",
+    "panel.hazards": "المخاطر المكتشفة",
+    "panel.noHazards": "لم يتم اكتشاف مخاطر فورية.",
+    "panel.defects": "عيوب السطح",
+    "panel.noDefects": "سطح الطريق سليم",
+    "panel.conditionIndex": "مؤشر الحالة، من 1 (منهار) إلى 5 (سليم)",
+    "panel.signs": "تحليل اللافتات",
+    "panel.noSigns": "لم يتم التعرف على أي إشارات مرور.",
+    "panel.unmapped": "غير مصنّفة",
+    "panel.unmappedHint": "لا يوجد إدخال في دليل إشارات المنطقة",
+    "safety.SAFE": "آمن",
+    "safety.CAUTION": "حذر",
+    "safety.DANGER": "خطر",
+    "severity.LOW": "منخفضة",
+    "severity.MEDIUM": "متوسطة",
+    "severity.HIGH": "عالية",
+    "track.NEW": "جديد",
+    "track.PERSISTING": "مستمر",
+    "track.CLEARED": "زال",
+    "hud.scheduler": "المجدول",
+    "hud.latency": "زمن الاستجابة",
+    "hud.diagnostics": "التشخيص",
+    "hud.capture": "الالتقاط",
+    "hud.frameSize": "الإطار",
+    "hud.tokensIn": "رموز الإدخال",
+    "hud.tokensOut": "رموز الإخراج",
+    "hud.tokens": "الرموز",
+    "hud.errors": "الأخطاء",
+    "hud.preprocess": "المعالجة المسبقة",
+    "hud.before": "قبل",
+    "hud.after": "بعد",
+    "hud.gap": "الفاصل",
+    "hud.throughput": "الإنتاجية",
+    "hud.nextIn": "التالي بعد",
+    "hud.retryIn": "إعادة بعد",
+    "hud.changeGate": "مرشح التغيير",
+    "hud.saved": "توفير {percent}%",
+    "hud.sentSkipped": "مرسلة / متجاوزة",
+    "hud.lastDiff": "آخر فرق",
+    "hud.threshold": "العتبة",
+    "hud.off": "إيقاف",
+    "hud.analyzing": "جارٍ تحليل الإطار...",
+    "reg.title": "اللوائح",
+    "reg.clear": "مسح",
+    "reg.overLimit": "تجاوز الحد",
+    "reg.limit": "الحد",
+    "reg.noLimit": "لا يوجد حد معروف",
+    "reg.noOvertaking": "ممنوع التجاوز",
+    "reg.schoolZone": "منطقة مدرسية",
+    "reg.overspeedSpeech": "الحد الأقصى للسرعة {limit}. خفف السرعة.",
+    "alert.pedestrian": "أحد المشاة! {description}",
+    "alert.hazardAhead": "{type} أمامك.",
+    "alert.pothole": "حفرة أمامك.",
+    "alert.speedLimit": "إشارة {type} أمامك.",
+    "alert.stopSign": "إشارة قف أمامك.",
+    "alert.danger": "تحذير. {recommendation}",
+    "alert.caution": "انتبه. {recommendation}",
+    "alert.detected": "تم اكتشاف {type}.",
+    "live.title": "بث مباشر",
+    "live.connecting": "جارٍ الاتصال",
+    "live.open": "بث مباشر",
+    "live.closed": "غير متصل",
+    "live.receiving": "جارٍ الاستلام",
+    "live.incoming": "تقرير وارد",
+    "live.micStart": "اسأل بالصوت",
+    "live.micStop": "إيقاف الاستماع",
+    "live.listening": "جارٍ الاستماع…",
+    "live.askPlaceholder": "اسأل عن الطريق، مثلًا هل المسار الأيسر خالٍ؟",
+    "live.ask": "اسأل",
+    "device.safe": "لم يُكتشف أي جسم قريب على الجهاز. تابع بحذر عادي.",
+    "device.caution": "أجسام قرب مسار القيادة. خفف السرعة وابقَ منتبهًا.",
+    "device.danger": "جسم في مسار القيادة. خفف السرعة واستعد للتوقف.",
+    "device.inPath": "في مسار القيادة (ثقة {score}%، اكتُشف على الجهاز).",
+    "device.left": "على اليسار (ثقة {score}%، اكتُشف على الجهاز).",
+    "device.right": "على اليمين (ثقة {score}%، اكتُشف على الجهاز).",
+    "device.stop": "قف وأعطِ الأولوية",
+    "device.trafficLight": "إشارة مرور أمامك",
+    "panel.engineOnDevice": "على الجهاز",
+    "panel.cameras": "الكاميرات",
+    "panel.cameraFailed": "لا توجد نتيجة",
+    "app.live": "مباشر",
+    "app.annotate": "توسيم",
+    "app.evaluate": "مجموعة البيانات والتقييم",
+    "app.standby": "النظام في وضع الاستعداد",
+    "app.standbyHint": "اختر مصدر إدخال لبدء تحليل الطريق واكتشاف المخاطر.",
+    "app.liveCamera": "كاميرا مباشرة",
+    "app.uploadMedia": "رفع وسائط",
+    "app.uploadFolder": "رفع مجلد",
+    "app.annotateHint": "صحّح هذه النتيجة وأضفها إلى مجموعة بيانات التقييم",
+    "app.backend": "محرك الرؤية",
+    "app.tab.analysis": "التحليل",
+    "app.tab.map": "خريطة المخاطر",
+    "app.tab.survey": "مسح الطريق",
+    "err.camera": "تعذّر الوصول إلى الكاميرا. تحقق من الأذونات أو جرّب متصفحًا آخر.",
+    "err.gpsTrack": "تعذّرت قراءة مسار GPS.",
+    "err.sessionImport": "تعذّر استيراد ملف الجلسة.",
+    "err.videoBatch": "فشل التحليل الدفعي. تحقق من إمكانية فك ترميز الفيديو.",
+    "err.noImages": "لم يتم العثور على صور في التحديد.",
+    "err.imageBatch": "فشل تحليل مجموعة الصور. حاول مرة أخرى.",
+    "err.drop": "تعذّرت قراءة الملفات المُسقطة.",
+    "err.invalidOutput": "أعاد النموذج بيانات غير صالحة ({field}). تم الإبقاء على النتيجة السابقة.",
+    "err.rateLimit": "تم بلوغ حد الطلبات. انتظر لحظة وحاول مرة أخرى.",
+    "err.analysis": "فشل التحليل. حاول مرة أخرى.",
+    "err.liveUnavailable": "البث المباشر غير متاح ({reason}). الرجوع إلى المسح التلقائي.",
+    "err.liveInvalid": "بثّ النموذج بيانات غير صالحة ({field}). تم تخطي السطر.",
+    "err.microphone": "تعذّر الوصول إلى الميكروفون. تحقق من الأذونات.",
+    "err.recordUnsupported": "لا يستطيع هذا المتصفح تسجيل الكاميرا.",
+    "err.recordingNotSaved": "لم يُحفظ التسجيل: {error}",
+    "err.rerun": "فشلت إعادة تحليل التسجيل.",
+    "map.title": "خريطة المخاطر",
+    "map.grid": "الشبكة {distance}",
+    "map.empty": "لا توجد عمليات مسح موسومة جغرافيًا بعد. استخدم الكاميرا المباشرة مع إذن الموقع، أو حمّل مسار GPX/NMEA لفيديو مرفوع.",
+    "gps.title": "مسار GPS",
+    "gps.points": "{count} نقطة",
+    "gps.offset": "الإزاحة",
+    "gps.offsetHint": "الثواني التي تُضاف إلى زمن الفيديو لإيجاد زمن المسار المطابق",
+    "gps.remove": "إزالة المسار",
+    "gps.load": "تحميل GPX / NMEA",
+    "images.title": "مجموعة الصور · {count}",
+    "images.parallel": "متوازي",
+    "images.cancel": "إلغاء {done}/{total}",
+    "images.retry": "إعادة محاولة {count} فاشلة",
+    "images.analyzeRemaining": "تحليل {count} متبقية",
+    "images.analyzeAll": "تحليل الكل",
+    "images.allLevels": "كل المستويات",
+    "images.allHazards": "كل المخاطر",
+    "images.byName": "حسب الاسم",
+    "images.bySeverity": "الأشد خطورة أولًا",
+    "images.close": "إغلاق مجموعة الصور",
+    "images.noMatch": "لا توجد صور تطابق عوامل التصفية.",
+    "images.failed": "فشل",
+    "images.retrying": "إعادة {attempt}",
+    "images.analyzed": "{done}/{total} تم تحليلها",
+    "survey.empty": "لا توجد عمليات مسح لحالة الطريق بعد",
+    "survey.emptyHint": "بدّل ملف التحليل إلى مسح الطريق وقُد؛ يضيف كل مسح عيوب السطح هنا.",
+    "survey.condition": "حالة الطريق",
+    "survey.scans": "{count} عمليات مسح",
+    "survey.defects": "{count} عيوب",
+    "survey.segmentCount": "{count} مقاطع",
+    "survey.segment": "المقطع",
+    "survey.segments": "المقاطع",
+    "survey.segmentHint": "المقطع {index} · {from}–{to} · الدرجة {score} · {defects} عيوب في {scans} عمليات مسح",
+    "survey.repairs": "أولوية الإصلاح",
+    "survey.noDefects": "لم يُبلَّغ عن عيوب.",
+    "survey.seg": "مقطع {index}",
+    "survey.seen": "شوهد {count}×",
+    "survey.repairsCsv": "الإصلاحات CSV",
+    "survey.segmentsCsv": "المقاطع CSV",
+    "survey.noGeo": "لا توجد عمليات مسح موسومة جغرافيًا",
+    "defect.POTHOLE": "حفرة",
+    "defect.ALLIGATOR_CRACKING": "تشقق شبكي",
+    "defect.EDGE_BREAK": "تكسّر الحافة",
+    "defect.RUTTING": "تخدد",
+    "defect.STANDING_WATER": "مياه راكدة",
+    "defect.LONGITUDINAL_CRACKING": "تشقق طولي",
+    "defect.TRANSVERSE_CRACKING": "تشقق عرضي",
+    "defect.RAVELING": "تفكك السطح",
+    "defect.FADED_MARKING": "علامات حارة باهتة",
+    "defect.PATCH": "رقعة",
+    "annot.title": "التعليق على الإطار",
+    "annot.saving": "جارٍ الحفظ",
+    "annot.save": "الحفظ في مجموعة البيانات",
+    "annot.saveFailed": "تعذّر حفظ الإطار الموسوم.",
+    "annot.frameAlt": "الإطار المراد وسمه",
+    "annot.trueLevel": "مستوى السلامة الفعلي",
+    "annot.predicted": "المتوقَّع {level}",
+    "annot.hazards": "المخاطر ({count})",
+    "annot.signs": "الإشارات ({count})",
+    "annot.type": "النوع",
+    "annot.remove": "إزالة",
+    "annot.description": "الوصف",
+    "annot.location": "الموقع",
+    "annot.meaning": "المعنى",
+    "annot.note": "ملاحظة",
+    "annot.notePlaceholder": "اختياري، مثل ليل، مطر",
+    "rules.title": "قواعد التنبيه",
+    "rules.add": "إضافة",
+    "rules.defaultsHint": "استعادة القواعد الافتراضية",
+    "rules.hint": "يستخدم كل خطر أو إشارة أول قاعدة مطابقة في هذه القائمة. عناصر نائبة للرسالة:",
+    "rules.empty": "لا قواعد - لن تُطلق النتائج أي تنبيهات.",
+    "rules.enabled": "مفعّلة",
+    "rules.delete": "حذف القاعدة",
+    "rules.appliesTo": "ينطبق على",
+    "rules.kindHazard": "خطر",
+    "rules.kindSign": "إشارة",
+    "rules.kindSafety": "مستوى المشهد",
+    "rules.level": "المستوى",
+    "rules.typeContains": "النوع يحتوي",
+    "rules.any": "أي",
+    "rules.minSeverity": "الحد الأدنى للشدة",
+    "rules.priority": "الأولوية",
+    "rules.message": "الرسالة",
+    "rules.speak": "نطق",
+    "rules.interrupt": "مقاطعة",
+    "rules.earcon": "نغمة التنبيه",
+    "rules.preview": "معاينة",
+    "rules.flash": "وميض",
+    "rules.none": "لا شيء",
+    "rules.flashRed": "أحمر",
+    "rules.flashAmber": "كهرماني",
+    "rules.cooldown": "فترة التهدئة (ث)",
+    "priority.critical": "حرجة",
+    "priority.high": "عالية",
+    "priority.normal": "عادية",
+    "priority.low": "منخفضة",
+    "eval.frames": "{count} إطارات",
+    "eval.export": "تصدير",
+    "eval.import": "استيراد",
+    "eval.empty": "لا توجد إطارات موسومة بعد. استخدم التعليق على نتيجة مسح لتصحيحها وإضافتها هنا.",
+    "eval.removeFrame": "إزالة من مجموعة البيانات",
+    "eval.cancel": "إلغاء",
+    "eval.run": "تشغيل التقييم",
+    "eval.runColumn": "التشغيل",
+    "eval.framesColumn": "الإطارات",
+    "eval.safetyColumn": "السلامة",
+    "eval.deleteRun": "حذف التشغيل",
+    "eval.hazardPR": "المخاطر P / R",
+    "eval.signPR": "الإشارات P / R",
+    "eval.safetyAgreement": "تطابق السلامة",
+    "eval.failedFrames": "الإطارات الفاشلة",
+    "eval.fellBack": "إطارات بديلة",
+    "eval.fellBackHint": "أجاب محرك بديل عن {count} إطارات ولم تُحتسب في النتيجة",
+    "eval.meanLatency": "متوسط زمن الاستجابة",
+    "eval.class": "الفئة",
+    "eval.precision": "الدقة",
+    "eval.recall": "الاستدعاء",
+    "eval.severityMatrix": "شدة الخطر (المخاطر المتطابقة)",
+    "eval.safetyMatrix": "مستوى السلامة",
+    "eval.labelVsPred": "الوسم \\ التنبؤ",
+    "eval.loadFailed": "تعذّر تحميل مجموعة البيانات: {error}",
+    "eval.deleteFailed": "تعذّر الحذف من مجموعة البيانات: {error}",
+    "eval.failed": "فشل التقييم: {error}",
+    "eval.confirmClear": "حذف كل الإطارات الموسومة وعددها {count}؟",
+    "eval.imported": "تم استيراد {count} إطارات موسومة.",
+    "eval.importFailed": "تعذّر استيراد مجموعة البيانات.",
+    "cams.rescan": "إعادة البحث عن الأجهزة",
+    "cams.none": "لم يتم العثور على كاميرات.",
+    "cams.hint": "تُحلَّل كل كاميرا مفتوحة في كل عملية مسح. مستوى السلامة العام هو الأسوأ بين ما تبلغ عنه الكاميرات.",
+    "cams.listFailed": "تعذّر سرد الكاميرات: {error}",
+    "cams.openFailed": "تعذّر فتح الكاميرا",
+    "rec.title": "تسجيلات القيادة",
+    "rec.loading": "جارٍ التحميل…",
+    "rec.empty": "لا توجد تسجيلات بعد. ابدأ تسجيلًا بزر REC أثناء تشغيل الكاميرا.",
+    "rec.analyses": "{count} تحليلات",
+    "rec.replay": "إعادة التشغيل",
+    "rec.delete": "حذف التسجيل",
+    "rec.loadFailed": "تعذّر تحميل التسجيلات: {error}",
+    "rec.deleteFailed": "تعذّر حذف التسجيل: {error}",
+    "replay.title": "إعادة التشغيل · {date}",
+    "app.analysisFailed": "فشل التحليل",
+    "replay.previous": "التحليل السابق",
+    "replay.next": "التحليل التالي",
+    "replay.play": "تشغيل",
+    "replay.pause": "إيقاف مؤقت",
+    "replay.frame": "الإطار {index}/{total}",
+    "replay.rerunHint": "إعادة تحليل كل إطار مسجّل باستخدام {analyzer}",
+    "replay.rerun": "إعادة التشغيل · {analyzer}",
+    "replay.recorded": "المسجَّل · {provider}",
+    "replay.recordedRow": "المسجَّل ({provider})",
+    "replay.rerunRow": "المعاد ({analyzer})",
+    "replay.changed": "{count} من {total} إطارات تغيّر مستوى سلامتها",
+    "replay.frameChanged": "تغيّر هذا الإطار",
+    "videos.title": "تحليل دفعي",
+    "videos.every": "كل",
+    "videos.analyze": "تحليل المقطع",
+    "pre.title": "المعالجة المسبقة",
+    "pre.defaults": "الافتراضي",
+    "pre.defaultsHint": "استعادة الإعدادات الافتراضية",
+    "pre.close": "إغلاق",
+    "pre.enable": "تفعيل المعالجة",
+    "pre.enableHint": "يُطبَّق على عمليات المسح والمسح التلقائي ودفعات الفيديو. عند الإيقاف تُرسَل الإطارات بحجم ملف التحليل فقط.",
+    "pre.denoise": "إزالة التشويش",
+    "pre.denoiseHint": "تمويه 3×3 ضد ضوضاء المستشعر في اللقطات المظلمة. يُطبَّق أولًا.",
+    "pre.exposure": "تعريض تلقائي",
+    "pre.exposureHint": "غاما تقرّب الإطارات ناقصة أو زائدة التعريض من الرمادي المتوسط.",
+    "pre.equalize": "موازنة (CLAHE)",
+    "pre.equalizeHint": "تباين موضعي للمشاهد الليلية والوهج دون إحراق الإطار بأكمله.",
+    "pre.clipLimit": "حد القص",
+    "pre.roi": "منطقة الاهتمام (القص من كل حافة)",
+    "pre.roiTop": "أعلى (السماء)",
+    "pre.roiBottom": "أسفل (غطاء المحرك)",
+    "pre.roiLeft": "يسار",
+    "pre.roiRight": "يمين",
+    "pre.maxDimension": "البعد الأقصى",
+    "pre.profileDefault": "افتراضي الملف",
+    "app.dropHint": "أفلت صورًا أو مجلدًا لتحليلها كمجموعة، أو فيديو واحدًا",
+    "app.scan": "مسح",
+    "app.scanning": "جارٍ المسح",
+    "app.auto": "تلقائي",
+    "app.stop": "إيقاف",
+    "app.reset": "إعادة ضبط",
+    "app.resetMode": "إعادة ضبط الوضع",
+    "history.title": "سجل الفحص",
+    "history.imported": "جلسة مستوردة",
+    "history.close": "إغلاق",
+    "history.backToLocal": "العودة إلى السجل المحلي",
+    "history.clear": "مسح",
+    "history.clearTitle": "مسح السجل",
+    "history.exportGeo": "تصدير الاكتشافات ذات الموقع الجغرافي",
+    "history.noGeo": "لا توجد عمليات فحص ذات موقع جغرافي في هذه الجلسة",
+    "history.frames": "الإطارات",
+    "history.import": "استيراد",
+    "history.empty": "ستظهر عمليات الفحص المكتملة هنا.",
+    "history.noFrame": "لا يوجد إطار",
+    "history.scanAlt": "فحص {time}",
+    "app.processing": "جارٍ المعالجة",
+    "app.online": "النظام متصل",
+    "app.voiceActive": "الصوت مفعّل",
+    "app.voiceMuted": "الصوت مكتوم",
+    "app.language": "اللغة",
+    "app.signRegion": "منطقة الإشارات",
+    "app.profile": "ملف التحليل",
+    "app.cameras": "الكاميرات",
+    "app.record": "تسجيل",
+    "app.recordings": "التسجيلات",
+    "app.systemError": "خطأ في النظام",
+    "app.invalidOutput": "استجابة نموذج غير صالحة",
+    "app.dismiss": "إغلاق"
+  }
+};
+
+export type Translator = (key: TranslationKey, vars?: Record<string, string | number>) => string;
+
+export const createTranslator = (code: LanguageCode): Translator => (key, vars) => {
+  const template = translations[code][key] ?? en[key];
+  return vars ? template.replace(/\{(\w+)\}/g, (_, name: string) => String(vars[name] ?? "")) : template;
+};
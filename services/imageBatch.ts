@@ -0,0 +1,257 @@
+import { AnalysisResult, Hazard, ImageBatchItem, PreprocessingRecord, SafetyLevel, SignRegion } from "../types";
+import { VisionProvider, createAbortError } from "./visionProvider";
+import { isAbortError, mapWithConcurrency } from "./concurrency";
+import { isRateLimitError, isTransientError } from "./scanScheduler";
+import { DEFAULT_PREPROCESS_SETTINGS, PreprocessSettings, preprocessFrame } from "./preprocessing";
+import { createThumbnail, loadImage } from "./imageUtils";
+
+// Batch analysis of a photo set (e.g. an inspection folder): every image is
+// encoded like a single upload (`encodeImage`) and sent through the provider
+// with bounded concurrency; rate limits and transient failures are retried
+// with backoff.
+
+export interface PickedFile {
+  file: File;
+  path: string; // Relative to the picked or dropped folder
+}
+
+export interface ImageBatchOptions {
+  concurrency: number;
+  maxAttempts?: number; // Including the first
+  baseBackoffMs?: number;
+  jpegQuality?: number;
+  maxWidth?: number | null; // Applied when an image has to be re-encoded
+  preprocess?: PreprocessSettings;
+  language?: string;
+  signRegion?: SignRegion;
+  profileId?: string;
+  signal?: AbortSignal;
+  onUpdate?: (id: string, patch: Partial<ImageBatchItem>) => void;
+}
+
+export type ImageBatchSort = "severity" | "name";
+
+export interface ImageBatchFilter {
+  level: SafetyLevel | null;
+  hazardType: string | null; // Case-insensitive
+}
+
+const IMAGE_EXTENSIONS = /\.(jpe?g|png|webp|gif|bmp|avif)$/i;
+// What the analysis server accepts as-is; anything else is re-encoded as JPEG
+const SENDABLE_TYPES = /^image\/(jpeg|png|webp)$/;
+
+export const isImageFile = (file: File): boolean => file.type.startsWith("image/") || IMAGE_EXTENSIONS.test(file.name);
+
+// --- Picking ---
+
+export const pickedFromInput = (files: FileList | File[]): PickedFile[] =>
+  Array.from(files).map(file => ({ file, path: file.webkitRelativePath || file.name }));
+
+const readEntries = (reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> =>
+  new Promise((resolve, reject) => reader.readEntries(resolve, reject));
+
+const entryFile = (entry: FileSystemFileEntry): Promise<File> =>
+  new Promise((resolve, reject) => entry.file(resolve, reject));
+
+const walkEntry = async (entry: FileSystemEntry, out: PickedFile[]): Promise<void> => {
+  if (entry.isFile) {
+    out.push({ file: await entryFile(entry as FileSystemFileEntry), path: entry.fullPath.replace(/^\//, "") });
+  } else if (entry.isDirectory) {
+    // readEntries hands out a directory in chunks until it returns an empty one
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    for (let chunk = await readEntries(reader); chunk.length > 0; chunk = await readEntries(reader)) {
+      for (const child of chunk) await walkEntry(child, out);
+    }
+  }
+};
+
+/** Files of a drop, with dropped folders walked recursively. */
+export const collectDroppedFiles = async (transfer: DataTransfer): Promise<PickedFile[]> => {
+  // Entries are only readable while the drop event is being handled, so take them all first
+  const entries = Array.from(transfer.items)
+    .filter(item => item.kind === "file")
+    .map(item => item.webkitGetAsEntry?.() ?? null);
+  if (entries.length === 0 || entries.some(entry => entry === null)) return pickedFromInput(transfer.files);
+
+  const picked: PickedFile[] = [];
+  for (const entry of entries) await walkEntry(entry!, picked);
+  return picked;
+};
+
+/** Queue items for the images among `picked`, in path order. The caller revokes the URLs. */
+export const createImageBatch = (picked: PickedFile[]): ImageBatchItem[] =>
+  picked
+    .filter(({ file }) => isImageFile(file))
+    .sort((a, b) => a.path.localeCompare(b.path, undefined, { numeric: true }))
+    .map(({ file, path }) => ({
+      id: crypto.randomUUID(),
+      name: path,
+      url: URL.createObjectURL(file),
+      status: "queued",
+      attempts: 0,
+      result: null
+    }));
+
+// --- Analysis ---
+
+const wait = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+const readDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+
+// Length of the encoded data URL, which is what lands in the request body: 1 MiB
+// under the analysis server's default 4 MiB body cap for the JSON around the frame
+export const MAX_FRAME_CHARS = 3 * 1024 * 1024;
+// Re-encoding shrinks the image by this factor until the frame fits the budget
+const SHRINK_STEP = 0.75;
+const MIN_SHRINK_WIDTH = 640;
+
+/**
+ * Encodes an uploaded image for analysis. The original file goes out untouched
+ * only when the pipeline is off, the format can be sent, it is within the
+ * profile's `maxWidth` and its data URL is under `MAX_FRAME_CHARS`; otherwise it is drawn into
+ * `canvas` through the preprocessing pipeline and re-encoded as JPEG at the
+ * profile's quality, shrinking further while it is over that budget.
+ */
+export const encodeImage = async (
+  url: string,
+  preprocess: PreprocessSettings,
+  capture: { maxWidth?: number | null; jpegQuality?: number },
+  canvas: HTMLCanvasElement = document.createElement("canvas")
+): Promise<{ frame: string; preprocessing: PreprocessingRecord | null }> => {
+  const blob = await (await fetch(url)).blob();
+  const image = await loadImage(url);
+  const fitsWidth = !capture.maxWidth || image.naturalWidth <= capture.maxWidth;
+  if (!preprocess.enabled && SENDABLE_TYPES.test(blob.type) && fitsWidth) {
+    const frame = await readDataUrl(blob);
+    if (frame.length <= MAX_FRAME_CHARS) return { frame, preprocessing: null };
+  }
+
+  let maxWidth = capture.maxWidth;
+  for (;;) {
+    const record = preprocessFrame(image, image.naturalWidth, image.naturalHeight, canvas, preprocess, maxWidth);
+    const frame = canvas.toDataURL("image/jpeg", capture.jpegQuality ?? 0.8);
+    if (frame.length <= MAX_FRAME_CHARS || canvas.width <= MIN_SHRINK_WIDTH) {
+      return { frame, preprocessing: preprocess.enabled ? record : null };
+    }
+    maxWidth = Math.max(MIN_SHRINK_WIDTH, Math.round(canvas.width * SHRINK_STEP));
+  }
+};
+
+/**
+ * Analyzes `items` with at most `concurrency` requests in flight, reporting
+ * every status change through `onUpdate`. Rate limits and transient errors are
+ * retried up to `maxAttempts` with jittered exponential backoff; other failures
+ * mark the item failed and the batch moves on. Rejects with an AbortError when
+ * cancelled.
+ */
+export const analyzeImages = async (
+  items: ImageBatchItem[],
+  provider: VisionProvider,
+  options: ImageBatchOptions
+): Promise<void> => {
+  const { signal, onUpdate } = options;
+  const maxAttempts = Math.max(1, options.maxAttempts ?? 3);
+  const baseBackoffMs = options.baseBackoffMs ?? 2000;
+  const preprocess = options.preprocess ?? DEFAULT_PREPROCESS_SETTINGS;
+
+  await mapWithConcurrency(items, options.concurrency, async item => {
+    onUpdate?.(item.id, { status: "analyzing", error: undefined });
+    let attempts = item.attempts;
+    try {
+      const thumbnail = item.thumbnail ?? (await createThumbnail(item.url));
+      if (!item.thumbnail) onUpdate?.(item.id, { thumbnail });
+      const { frame, preprocessing } = await encodeImage(item.url, preprocess, options);
+
+      for (let attempt = 1; ; attempt++) {
+        attempts++;
+        try {
+          const result = await provider.analyze(frame, { signal, language: options.language, signRegion: options.signRegion, profileId: options.profileId });
+          onUpdate?.(item.id, { status: "done", attempts, result: preprocessing ? { ...result, preprocessing } : result });
+          return;
+        } catch (err) {
+          if (isAbortError(err) || signal?.aborted) throw err;
+          if (attempt >= maxAttempts || !(isRateLimitError(err) || isTransientError(err))) throw err;
+          const ceiling = baseBackoffMs * 2 ** (attempt - 1);
+          onUpdate?.(item.id, { status: "retrying", attempts, error: err instanceof Error ? err.message : String(err) });
+          await wait(ceiling / 2 + Math.random() * (ceiling / 2), signal);
+        }
+      }
+    } catch (err) {
+      if (isAbortError(err) || signal?.aborted) {
+        onUpdate?.(item.id, { status: "queued", attempts });
+        throw createAbortError();
+      }
+      onUpdate?.(item.id, { status: "failed", attempts, error: err instanceof Error ? err.message : String(err) });
+    }
+  }, signal);
+};
+
+// --- Grid view ---
+
+const SAFETY_RANK: Record<SafetyLevel, number> = {
+  [SafetyLevel.SAFE]: 0,
+  [SafetyLevel.CAUTION]: 1,
+  [SafetyLevel.DANGER]: 2
+};
+
+const SEVERITY_RANK: Record<Hazard["severity"], number> = { LOW: 0, MEDIUM: 1, HIGH: 2 };
+
+// Safety level first, then the worst hazard, then how many hazards; unanalyzed images sort last
+const severityKey = (result: AnalysisResult | null): number[] =>
+  result
+    ? [SAFETY_RANK[result.safetyLevel], Math.max(-1, ...result.hazards.map(h => SEVERITY_RANK[h.severity])), result.hazards.length]
+    : [-1, -1, -1];
+
+const compareKeys = (a: number[], b: number[]) => {
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return 0;
+};
+
+/** Distinct hazard types reported across the set, for the filter. */
+export const batchHazardTypes = (items: ImageBatchItem[]): string[] => {
+  const types = new Map<string, string>();
+  items.forEach(item => item.result?.hazards.forEach(h => {
+    const key = h.type.trim().toLowerCase();
+    if (key && !types.has(key)) types.set(key, h.type.trim());
+  }));
+  return [...types.values()].sort((a, b) => a.localeCompare(b));
+};
+
+export const filterImageBatch = (items: ImageBatchItem[], filter: ImageBatchFilter): ImageBatchItem[] => {
+  const hazardType = filter.hazardType?.toLowerCase();
+  return items.filter(item => {
+    if (filter.level && item.result?.safetyLevel !== filter.level) return false;
+    if (hazardType && !item.result?.hazards.some(h => h.type.trim().toLowerCase() === hazardType)) return false;
+    return true;
+  });
+};
+
+export const sortImageBatch = (items: ImageBatchItem[], sort: ImageBatchSort): ImageBatchItem[] =>
+  [...items].sort((a, b) =>
+    sort === "severity"
+      ? compareKeys(severityKey(b.result), severityKey(a.result)) || a.name.localeCompare(b.name, undefined, { numeric: true })
+      : a.name.localeCompare(b.name, undefined, { numeric: true })
+  );
@@ -0,0 +1,38 @@
+// Small canvas helpers shared by capture, history and export code.
+
+export const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Could not decode image"));
+    img.src = src;
+  });
+};
+
+/** Small JPEG of any drawable source (video, canvas, image), for side-by-side previews. */
+export const previewDataUrl = (source: CanvasImageSource, width: number, height: number, maxSize: number = 160): string => {
+  const scale = Math.min(1, maxSize / Math.max(width, height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+  canvas.getContext("2d")?.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL("image/jpeg", 0.6);
+};
+
+/**
+ * Downscales a captured frame to a small JPEG data URL for the history timeline.
+ * The longest side is capped at `maxSize` pixels; the aspect ratio is kept.
+ */
+export const createThumbnail = async (dataUrl: string, maxSize: number = 160): Promise<string> => {
+  const img = await loadImage(dataUrl);
+  const scale = Math.min(1, maxSize / Math.max(img.naturalWidth, img.naturalHeight));
+
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return dataUrl;
+
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL("image/jpeg", 0.6);
+};
@@ -0,0 +1,140 @@
+import { AnalysisResult, Hazard, RoadSign, SignRegion } from "../types";
+import { isRecord, ModelOutputError, validateAnalysis, validateHazard, validateSign } from "./responseValidator";
+import { classifyAnalysis, classifySign, DEFAULT_SIGN_REGION } from "./signCatalog";
+import { stampAnalysis } from "./visionProvider";
+
+// Streaming mode: a persistent session receives frames continuously and
+// reports scenes as newline-delimited JSON, one detection per line, so the
+// panel can fill in while a report is still arriving:
+//   {"hazard": {...}}   {"sign": {...}}   — same fields as the polling schema
+//   {"summary": {"safetyLevel": "...", "recommendation": "..."}}   — closes a report
+//   {"answer": "..."}   — reply to a driver question
+
+export type LiveStatus = "connecting" | "open" | "closed" | "error";
+
+/** Detections of the report currently being streamed. */
+export interface LiveDraft {
+  hazards: Hazard[];
+  signs: RoadSign[];
+}
+
+/** One driver question and its answer, as shown in the live panel. */
+export interface LiveExchange {
+  id: number;
+  question: string; // Typed text, or the transcript of a spoken question (may still be filling in)
+  spoken: boolean;
+  answer?: string;
+}
+
+export interface LiveSessionCallbacks {
+  onStatus: (status: LiveStatus, detail?: string) => void;
+  onDraft: (draft: LiveDraft) => void;
+  onAnalysis: (result: AnalysisResult) => void;
+  onAnswer: (text: string) => void;
+  onTranscript?: (text: string) => void; // What the backend heard from the microphone
+  onInvalid?: (error: ModelOutputError) => void;
+}
+
+export interface LiveConnectOptions {
+  language?: string;
+  signRegion?: SignRegion;
+  profileId?: string;
+}
+
+export interface LiveSession {
+  sendFrame: (frame: string) => void; // JPEG data URL
+  sendAudio: (pcm16Base64: string) => void; // 16 kHz mono
+  endAudio: () => void;
+  ask: (question: string) => void;
+  close: () => void;
+}
+
+/** A backend that can hold a streaming session. */
+export interface LiveBackend {
+  id: string;
+  label: string;
+  connect: (callbacks: LiveSessionCallbacks, options?: LiveConnectOptions) => Promise<LiveSession>;
+}
+
+export const LIVE_PROTOCOL_INSTRUCTIONS = [
+  "Reply only with newline-delimited JSON, one object per line, no markdown.",
+  "When asked for a scene report, write one line per detection as {\"hazard\": {type, severity, description, box_2d}} or {\"sign\": {type, meaning, location, box_2d}},",
+  "then finish with {\"summary\": {\"safetyLevel\": \"SAFE\"|\"CAUTION\"|\"DANGER\", \"recommendation\": \"...\"}}.",
+  "box_2d is [ymin, xmin, ymax, xmax] on a 0-1000 grid.",
+  "When the driver asks a question, answer briefly on one line as {\"answer\": \"...\"}."
+].join(" ");
+
+/**
+ * Turns streamed text chunks into drafts, finished analyses and answers.
+ * Lines that are not valid JSON (or break the schema) are reported and skipped,
+ * so one bad line never loses the rest of the report.
+ */
+export const createLiveReportParser = (callbacks: LiveSessionCallbacks, options: LiveConnectOptions = {}) => {
+  let buffer = "";
+  let hazards: unknown[] = [];
+  let signs: unknown[] = [];
+  let draft: LiveDraft = { hazards: [], signs: [] };
+
+  const invalid = (field: string, message: string) => callbacks.onInvalid?.(new ModelOutputError(field, message));
+
+  const handleLine = (line: string) => {
+    if (line.startsWith("```")) return; // Stray markdown fences
+    let message: unknown;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      invalid("$", `streamed line is not valid JSON: ${line.slice(0, 60)}`);
+      return;
+    }
+    if (!isRecord(message)) return;
+
+    try {
+      if ("hazard" in message) {
+        const hazard = validateHazard(message.hazard, `hazards[${hazards.length}]`);
+        hazards.push(message.hazard);
+        draft = { ...draft, hazards: [...draft.hazards, hazard] };
+        callbacks.onDraft(draft);
+      } else if ("sign" in message) {
+        const sign = validateSign(message.sign, `signs[${signs.length}]`);
+        signs.push(message.sign);
+        draft = { ...draft, signs: [...draft.signs, { ...sign, ...classifySign(sign, options.signRegion ?? DEFAULT_SIGN_REGION) }] };
+        callbacks.onDraft(draft);
+      } else if ("summary" in message) {
+        const summary = isRecord(message.summary) ? message.summary : {};
+        const analysis = validateAnalysis({ ...summary, hazards, signs });
+        callbacks.onAnalysis(stampAnalysis(classifyAnalysis(analysis, options.signRegion)));
+        reset();
+      } else if (typeof message.answer === "string" && message.answer.trim()) {
+        callbacks.onAnswer(message.answer.trim());
+      }
+    } catch (err) {
+      if (err instanceof ModelOutputError) callbacks.onInvalid?.(err);
+      else throw err;
+    }
+  };
+
+  const reset = () => {
+    hazards = [];
+    signs = [];
+    draft = { hazards: [], signs: [] };
+  };
+
+  return {
+    push: (chunk: string) => {
+      buffer += chunk;
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+      lines.map(l => l.trim()).filter(Boolean).forEach(handleLine);
+    },
+    /** End of a model turn: the last line may not have had a trailing newline. */
+    flush: () => {
+      const rest = buffer.trim();
+      buffer = "";
+      if (rest) handleLine(rest);
+    },
+    reset
+  };
+};
+
+/** Strips the data URL prefix; realtime inputs take raw base64. */
+export const toBase64Payload = (dataUrl: string): string => dataUrl.replace(/^data:[^;]+;base64,/, "");
@@ -0,0 +1,70 @@
+import { LiveBackend, createLiveReportParser, toBase64Payload } from "./liveSession";
+
+// Client for scripts/liveStandin.mjs, a local WebSocket server that replays
+// the mock scenes over the streaming protocol so live mode works offline.
+//
+// client -> server: {type: "setup", language, signRegion} | {type: "frame", data}
+//                   | {type: "audio", data} | {type: "audioEnd"} | {type: "ask", text}
+// server -> client: {type: "text", text} | {type: "turnComplete"} | {type: "transcript", text}
+
+const CONNECT_TIMEOUT_MS = 5000;
+
+export const createStandinLiveBackend = (url: string): LiveBackend => ({
+  id: "live-standin",
+  label: "Local stand-in",
+  connect: (callbacks, options = {}) => new Promise((resolve, reject) => {
+    const parser = createLiveReportParser(callbacks, options);
+    const socket = new WebSocket(url);
+    let opened = false;
+
+    const send = (message: Record<string, unknown>) => {
+      if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+    };
+
+    const timer = setTimeout(() => {
+      socket.close();
+      reject(new Error(`Live stand-in at ${url} did not answer`));
+    }, CONNECT_TIMEOUT_MS);
+
+    callbacks.onStatus("connecting");
+
+    socket.onopen = () => {
+      opened = true;
+      clearTimeout(timer);
+      send({ type: "setup", language: options.language, signRegion: options.signRegion });
+      callbacks.onStatus("open");
+      resolve({
+        sendFrame: frame => send({ type: "frame", data: toBase64Payload(frame) }),
+        sendAudio: data => send({ type: "audio", data }),
+        endAudio: () => send({ type: "audioEnd" }),
+        ask: text => send({ type: "ask", text }),
+        close: () => socket.close()
+      });
+    };
+
+    socket.onmessage = event => {
+      let message: { type?: string; text?: string };
+      try {
+        message = JSON.parse(String(event.data));
+      } catch {
+        return;
+      }
+      if (message.type === "text" && message.text) parser.push(message.text);
+      else if (message.type === "turnComplete") parser.flush();
+      else if (message.type === "transcript" && message.text) callbacks.onTranscript?.(message.text);
+    };
+
+    socket.onerror = () => {
+      if (!opened) {
+        clearTimeout(timer);
+        reject(new Error(`Could not connect to live stand-in at ${url}`));
+      } else {
+        callbacks.onStatus("error", "Live stand-in connection error");
+      }
+    };
+
+    socket.onclose = event => {
+      if (opened) callbacks.onStatus("closed", event.reason || undefined);
+    };
+  })
+});
@@ -0,0 +1,44 @@
+// Microphone capture as 16 kHz mono PCM16, the format realtime audio input expects.
+
+const SAMPLE_RATE = 16000;
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const toPcm16 = (samples: Float32Array): Uint8Array => {
+  const pcm = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    pcm[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
+  }
+  return new Uint8Array(pcm.buffer);
+};
+
+/**
+ * Starts recording and calls `onChunk` with base64 PCM16 roughly every 250 ms.
+ * Resolves to a function that stops recording and releases the microphone.
+ */
+export const startMicrophone = async (onChunk: (pcm16Base64: string) => void): Promise<() => void> => {
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: { channelCount: 1, echoCancellation: true, noiseSuppression: true } });
+  // The browser resamples the input to the context rate
+  const context = new AudioContext({ sampleRate: SAMPLE_RATE });
+  const source = context.createMediaStreamSource(stream);
+  // ScriptProcessor is deprecated but needs no separate worklet module, and 4096 samples is only ~250 ms here
+  const processor = context.createScriptProcessor(4096, 1, 1);
+
+  processor.onaudioprocess = event => onChunk(toBase64(toPcm16(event.inputBuffer.getChannelData(0))));
+  source.connect(processor);
+  processor.connect(context.destination);
+
+  return () => {
+    processor.disconnect();
+    source.disconnect();
+    stream.getTracks().forEach(track => track.stop());
+    context.close().catch(() => undefined);
+  };
+};
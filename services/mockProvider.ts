@@ -0,0 +1,65 @@
+import { AnalyzeOptions, VisionProvider, createAbortError, stampAnalysis } from "./visionProvider";
+import { validateAnalysis } from "./responseValidator";
+import { classifyAnalysis } from "./signCatalog";
+import { getProfile } from "./analysisProfiles";
+import mockScenes from "../fixtures/mockScenes.json";
+
+export interface MockProviderConfig {
+  scenes?: unknown[]; // Scripted raw responses, returned in order and looped
+  latencyMs?: number;
+  failEvery?: number; // Every Nth call rejects; 0 disables failures
+  failureMessage?: string;
+}
+
+const wait = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+};
+
+/**
+ * Offline stand-in for a real model. The output depends only on the call count,
+ * never on the frame, so runs are reproducible.
+ */
+export const createMockProvider = (config: MockProviderConfig = {}): VisionProvider => {
+  const scenes = config.scenes ?? mockScenes;
+  const latencyMs = config.latencyMs ?? 600;
+  const failEvery = config.failEvery ?? 0;
+  let calls = 0;
+
+  return {
+    id: "mock",
+    label: "Mock (offline)",
+    analyze: async (_frame: string, options: AnalyzeOptions = {}) => {
+      const call = calls++;
+      await wait(latencyMs, options.signal);
+
+      if (failEvery > 0 && (call + 1) % failEvery === 0) {
+        throw new Error(config.failureMessage ?? `Mock provider failure on call ${call + 1}`);
+      }
+
+      // Scripted defects are only reported to the road survey profile, like the real schema
+      const scene = structuredClone(scenes[call % scenes.length]) as Record<string, unknown>;
+      if (getProfile(options.profileId).surfaceDefects) scene.defects ??= [];
+      else delete scene.defects;
+
+      // Scripted scenes go through the same validation as real model output
+      return stampAnalysis({
+        ...classifyAnalysis(validateAnalysis(scene), options.signRegion),
+        metrics: { model: "mock" }
+      });
+    }
+  };
+};
@@ -0,0 +1,153 @@
+import type { DetectedObject, ObjectDetection } from "@tensorflow-models/coco-ssd";
+import { BoundingBox, Hazard, RoadSign, SafetyLevel } from "../types";
+import { AnalyzeOptions, VisionProvider, createAbortError, stampAnalysis } from "./visionProvider";
+import { classifyAnalysis } from "./signCatalog";
+import { createTranslator, getLanguage } from "./i18n";
+import { loadImage } from "./imageUtils";
+
+// In-browser COCO-SSD detector used when the cloud model is unreachable.
+// Weights and WASM binaries are served from public/ (see scripts/fetchDetectorAssets.mjs),
+// so nothing is fetched from a CDN at run time.
+
+export const ON_DEVICE_ENGINE_ID = "on-device";
+
+const MODEL_URL = "models/coco-ssd/model.json";
+const MODEL_BASE = "lite_mobilenet_v2";
+const WASM_PATH = "tfjs-wasm/";
+const MIN_SCORE = 0.45;
+const MAX_DETECTIONS = 20;
+
+// COCO classes we report, mapped to the hazard types the cloud model uses
+const HAZARD_TYPES: Record<string, string> = {
+  person: "Pedestrian",
+  bicycle: "Cyclist",
+  motorcycle: "Motorcycle",
+  car: "Vehicle",
+  truck: "Truck",
+  bus: "Bus",
+  train: "Train",
+  dog: "Animal",
+  cat: "Animal",
+  horse: "Animal",
+  cow: "Animal",
+  sheep: "Animal",
+  bird: "Animal",
+  bench: "Obstacle",
+  chair: "Obstacle",
+  suitcase: "Obstacle",
+  backpack: "Obstacle",
+  "potted plant": "Obstacle",
+  "sports ball": "Obstacle",
+  skateboard: "Obstacle",
+  "fire hydrant": "Obstacle"
+};
+
+// Vulnerable road users are one severity step worse than an object of the same size
+const VULNERABLE = new Set(["Pedestrian", "Cyclist", "Animal"]);
+
+let detector: Promise<ObjectDetection> | null = null;
+
+/** Loads TF.js and the model once; WebGL when the browser has it, WASM on the CPU otherwise. */
+const loadDetector = (): Promise<ObjectDetection> => {
+  detector ??= (async () => {
+    const tf = await import("@tensorflow/tfjs-core");
+    await import("@tensorflow/tfjs-backend-webgl");
+    const wasm = await import("@tensorflow/tfjs-backend-wasm");
+    wasm.setWasmPaths(WASM_PATH);
+    const webgl = await tf.setBackend("webgl").catch(() => false);
+    if (!webgl && !(await tf.setBackend("wasm"))) {
+      throw new Error("No TF.js backend available for on-device detection");
+    }
+
+    const cocoSsd = await import("@tensorflow-models/coco-ssd");
+    return cocoSsd.load({ base: MODEL_BASE, modelUrl: MODEL_URL });
+  })().catch(err => {
+    detector = null; // Let the next call retry, e.g. after the assets are fetched
+    throw new Error(`On-device detector unavailable: ${err instanceof Error ? err.message : String(err)}`);
+  });
+  return detector;
+};
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+const toBox = ([x, y, width, height]: DetectedObject["bbox"], imageWidth: number, imageHeight: number): BoundingBox => ({
+  xMin: clamp01(x / imageWidth),
+  yMin: clamp01(y / imageHeight),
+  xMax: clamp01((x + width) / imageWidth),
+  yMax: clamp01((y + height) / imageHeight)
+});
+
+// Center third of the frame, where the ego lane usually is on a forward-facing dashcam
+const inPath = (box: BoundingBox) => {
+  const centerX = (box.xMin + box.xMax) / 2;
+  return centerX > 0.33 && centerX < 0.67;
+};
+
+const SEVERITY_ORDER: Hazard["severity"][] = ["LOW", "MEDIUM", "HIGH"];
+
+/** Closer (larger, lower in frame) and more central objects are more severe. */
+const estimateSeverity = (type: string, box: BoundingBox): Hazard["severity"] => {
+  const area = (box.xMax - box.xMin) * (box.yMax - box.yMin);
+  const near = area > 0.08 || box.yMax > 0.8;
+  let level = inPath(box) ? (near ? 2 : 1) : near ? 1 : 0;
+  if (VULNERABLE.has(type)) level = Math.min(2, level + 1);
+  return SEVERITY_ORDER[level];
+};
+
+const describeLocation = (box: BoundingBox): string => {
+  const centerX = (box.xMin + box.xMax) / 2;
+  const centerY = (box.yMin + box.yMax) / 2;
+  const vertical = centerY < 0.33 ? "Top" : centerY > 0.67 ? "Bottom" : "Center";
+  const horizontal = centerX < 0.33 ? "Left" : centerX > 0.67 ? "Right" : "Center";
+  return vertical === horizontal ? "Center" : `${vertical} ${horizontal}`;
+};
+
+/**
+ * Vision provider backed by the on-device detector. It only knows the COCO
+ * classes, so it reports road users, animals and loose obstacles, plus stop
+ * signs and traffic lights; the safety level is derived from the hazards.
+ */
+export const createOnDeviceProvider = (): VisionProvider => ({
+  id: ON_DEVICE_ENGINE_ID,
+  label: "On-device (TF.js)",
+  analyze: async (frame: string, options: AnalyzeOptions = {}) => {
+    if (options.signal?.aborted) throw createAbortError();
+    const [model, image] = await Promise.all([
+      loadDetector(),
+      loadImage(frame.startsWith("data:") ? frame : `data:image/jpeg;base64,${frame}`)
+    ]);
+    const detections = await model.detect(image, MAX_DETECTIONS, MIN_SCORE);
+    if (options.signal?.aborted) throw createAbortError();
+
+    const t = createTranslator(getLanguage(options.language).code);
+    const hazards: Hazard[] = [];
+    const signs: RoadSign[] = [];
+
+    detections.forEach(detection => {
+      const box = toBox(detection.bbox, image.naturalWidth, image.naturalHeight);
+      const score = Math.round(detection.score * 100);
+
+      if (detection.class === "stop sign") {
+        signs.push({ type: "Stop", meaning: t("device.stop"), location: describeLocation(box), box });
+      } else if (detection.class === "traffic light") {
+        signs.push({ type: "Traffic Light", meaning: t("device.trafficLight"), location: describeLocation(box), box });
+      } else if (HAZARD_TYPES[detection.class]) {
+        const type = HAZARD_TYPES[detection.class];
+        const side = inPath(box) ? "device.inPath" : (box.xMin + box.xMax) / 2 < 0.5 ? "device.left" : "device.right";
+        hazards.push({ type, severity: estimateSeverity(type, box), description: t(side, { score }), box });
+      }
+    });
+
+    const safetyLevel = hazards.some(h => h.severity === "HIGH")
+      ? SafetyLevel.DANGER
+      : hazards.some(h => h.severity === "MEDIUM") ? SafetyLevel.CAUTION : SafetyLevel.SAFE;
+    const recommendation = t(
+      safetyLevel === SafetyLevel.DANGER ? "device.danger" : safetyLevel === SafetyLevel.CAUTION ? "device.caution" : "device.safe"
+    );
+
+    return stampAnalysis({
+      ...classifyAnalysis({ hazards, signs, safetyLevel, recommendation }, options.signRegion),
+      metrics: { model: `coco-ssd/${MODEL_BASE}` }
+    });
+  }
+});
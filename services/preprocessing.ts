@@ -0,0 +1,300 @@
+import { BoundingBox, PreprocessingRecord, PreprocessStep } from "../types";
+import { captureSize } from "./analysisProfiles";
+
+// Frame preprocessing before encoding. Cropping and resizing happen in the
+// canvas draw; the enhancement steps work on the pixels in this order:
+// denoise, exposure, equalize (so equalization doesn't amplify sensor noise).
+
+export interface RegionOfInterest {
+  top: number; // Fraction of the frame cut from each edge, e.g. 0.3 of sky on top
+  bottom: number; // e.g. the hood
+  left: number;
+  right: number;
+}
+
+export interface PreprocessSettings {
+  enabled: boolean; // Off: frames are only sized for the profile, as before
+  autoExposure: boolean; // Gamma that pulls the mean brightness to mid-grey
+  equalize: boolean; // Contrast-limited adaptive histogram equalization (CLAHE)
+  clipLimit: number; // CLAHE contrast limit; higher brings out more detail and more noise
+  denoise: boolean; // 3x3 Gaussian blur
+  roi: RegionOfInterest;
+  maxDimension: number | null; // Longest side after resizing; null leaves it to the profile
+}
+
+export const DEFAULT_PREPROCESS_SETTINGS: PreprocessSettings = {
+  enabled: false,
+  autoExposure: true,
+  equalize: true,
+  clipLimit: 2,
+  denoise: false,
+  roi: { top: 0, bottom: 0, left: 0, right: 0 },
+  maxDimension: null
+};
+
+const SETTINGS_STORAGE_KEY = "nexvue.preprocessing";
+
+// Any edge may be cut by at most this much, so some frame is always left
+export const MAX_ROI_CUT = 0.45;
+
+export const loadPreprocessSettings = (): PreprocessSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) ?? "null");
+    if (stored && typeof stored === "object") {
+      return { ...DEFAULT_PREPROCESS_SETTINGS, ...stored, roi: { ...DEFAULT_PREPROCESS_SETTINGS.roi, ...stored.roi } };
+    }
+  } catch (err) {
+    console.error("Error reading preprocessing settings:", err);
+  }
+  return DEFAULT_PREPROCESS_SETTINGS;
+};
+
+export const savePreprocessSettings = (settings: PreprocessSettings): void => {
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+const clampCut = (value: number) => Math.min(MAX_ROI_CUT, Math.max(0, value || 0));
+
+/** Part of the source frame kept by the region of interest, in normalized coordinates. */
+export const roiRegion = (roi: RegionOfInterest): BoundingBox => ({
+  xMin: clampCut(roi.left),
+  yMin: clampCut(roi.top),
+  xMax: 1 - clampCut(roi.right),
+  yMax: 1 - clampCut(roi.bottom)
+});
+
+/** Maps a box relative to the sent frame back onto the full source frame. */
+export const toSourceBox = (box: BoundingBox, region: BoundingBox | undefined): BoundingBox => {
+  if (!region) return box;
+  const width = region.xMax - region.xMin;
+  const height = region.yMax - region.yMin;
+  return {
+    xMin: region.xMin + box.xMin * width,
+    yMin: region.yMin + box.yMin * height,
+    xMax: region.xMin + box.xMax * width,
+    yMax: region.yMin + box.yMax * height
+  };
+};
+
+/**
+ * Draws the region of interest of `source` into `canvas`, scaled down to the
+ * profile's `maxWidth` and the pipeline's `maxDimension`. Returns the steps
+ * taken and the region, for the result's preprocessing record.
+ */
+export const drawRegion = (
+  source: CanvasImageSource,
+  sourceWidth: number,
+  sourceHeight: number,
+  canvas: HTMLCanvasElement,
+  settings: PreprocessSettings,
+  maxWidth: number | null | undefined
+): PreprocessingRecord => {
+  const region = settings.enabled ? roiRegion(settings.roi) : { xMin: 0, yMin: 0, xMax: 1, yMax: 1 };
+  const cropped = region.xMin > 0 || region.yMin > 0 || region.xMax < 1 || region.yMax < 1;
+  const sx = Math.round(region.xMin * sourceWidth);
+  const sy = Math.round(region.yMin * sourceHeight);
+  const sw = Math.max(1, Math.round((region.xMax - region.xMin) * sourceWidth));
+  const sh = Math.max(1, Math.round((region.yMax - region.yMin) * sourceHeight));
+
+  let { width, height } = captureSize(maxWidth, sw, sh);
+  if (settings.enabled && settings.maxDimension && Math.max(width, height) > settings.maxDimension) {
+    const scale = settings.maxDimension / Math.max(width, height);
+    width = Math.round(width * scale);
+    height = Math.round(height * scale);
+  }
+  canvas.width = Math.max(1, width);
+  canvas.height = Math.max(1, height);
+  canvas.getContext("2d")?.drawImage(source, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height);
+
+  const steps: PreprocessStep[] = [];
+  if (cropped) {
+    steps.push({ op: "crop", params: { top: round2(region.yMin), bottom: round2(1 - region.yMax), left: round2(region.xMin), right: round2(1 - region.xMax) } });
+  }
+  if (canvas.width !== sw || canvas.height !== sh) {
+    steps.push({ op: "resize", params: { width: canvas.width, height: canvas.height } });
+  }
+  return { steps, ...(cropped ? { region } : {}) };
+};
+
+// --- Pixel steps, in place on RGBA data ---
+
+const luma = (data: Uint8ClampedArray, i: number) => 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+
+// Separable [1 2 1] kernel, edges clamped
+const gaussianBlur = (data: Uint8ClampedArray, width: number, height: number) => {
+  const temp = new Uint8ClampedArray(data.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const l = (y * width + Math.max(0, x - 1)) * 4;
+      const r = (y * width + Math.min(width - 1, x + 1)) * 4;
+      for (let c = 0; c < 3; c++) temp[i + c] = (data[l + c] + 2 * data[i + c] + data[r + c]) / 4;
+    }
+  }
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const u = (Math.max(0, y - 1) * width + x) * 4;
+      const d = (Math.min(height - 1, y + 1) * width + x) * 4;
+      for (let c = 0; c < 3; c++) data[i + c] = (temp[u + c] + 2 * temp[i + c] + temp[d + c]) / 4;
+    }
+  }
+};
+
+const TARGET_MEAN_LUMA = 0.45;
+
+// Returns the gamma applied, or null when the frame is already close to mid-grey
+const autoExposure = (data: Uint8ClampedArray): { gamma: number; meanLuma: number } | null => {
+  let sum = 0;
+  let count = 0;
+  for (let i = 0; i < data.length; i += 16) {
+    sum += luma(data, i);
+    count++;
+  }
+  const mean = Math.min(0.98, Math.max(0.02, sum / count / 255));
+  const gamma = Math.min(2.5, Math.max(0.4, Math.log(TARGET_MEAN_LUMA) / Math.log(mean)));
+  if (Math.abs(gamma - 1) < 0.05) return null;
+
+  const lut = new Uint8ClampedArray(256);
+  for (let v = 0; v < 256; v++) lut[v] = Math.round(255 * Math.pow(v / 255, gamma));
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = lut[data[i]];
+    data[i + 1] = lut[data[i + 1]];
+    data[i + 2] = lut[data[i + 2]];
+  }
+  return { gamma: round2(gamma), meanLuma: round2(mean) };
+};
+
+const CLAHE_TILES = 8;
+
+/**
+ * CLAHE on luminance: per-tile histograms are clipped at `clipLimit` times the
+ * uniform bin height, and each pixel blends the mappings of its four nearest
+ * tiles. Colors are scaled with their luminance so hues are kept.
+ */
+const equalize = (data: Uint8ClampedArray, width: number, height: number, clipLimit: number) => {
+  const tilesX = Math.min(CLAHE_TILES, width);
+  const tilesY = Math.min(CLAHE_TILES, height);
+  const tileW = width / tilesX;
+  const tileH = height / tilesY;
+  const luminance = new Uint8Array(width * height);
+  for (let p = 0; p < luminance.length; p++) luminance[p] = Math.round(luma(data, p * 4));
+
+  const maps: Uint8Array[] = [];
+  for (let ty = 0; ty < tilesY; ty++) {
+    for (let tx = 0; tx < tilesX; tx++) {
+      const x0 = Math.floor(tx * tileW);
+      const x1 = Math.floor((tx + 1) * tileW);
+      const y0 = Math.floor(ty * tileH);
+      const y1 = Math.floor((ty + 1) * tileH);
+      const histogram = new Float64Array(256);
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) histogram[luminance[y * width + x]]++;
+      }
+
+      const pixels = Math.max(1, (x1 - x0) * (y1 - y0));
+      const limit = Math.max(1, (clipLimit * pixels) / 256);
+      let excess = 0;
+      for (let v = 0; v < 256; v++) {
+        if (histogram[v] > limit) {
+          excess += histogram[v] - limit;
+          histogram[v] = limit;
+        }
+      }
+      const map = new Uint8Array(256);
+      let cumulative = 0;
+      for (let v = 0; v < 256; v++) {
+        cumulative += histogram[v] + excess / 256;
+        map[v] = Math.min(255, Math.round((cumulative / pixels) * 255));
+      }
+      maps.push(map);
+    }
+  }
+
+  for (let y = 0; y < height; y++) {
+    // Position between tile centers; edge pixels use the outermost tiles only
+    const gy = Math.min(tilesY - 1, Math.max(0, (y + 0.5) / tileH - 0.5));
+    const ty0 = Math.floor(gy);
+    const ty1 = Math.min(tilesY - 1, ty0 + 1);
+    const fy = gy - ty0;
+    for (let x = 0; x < width; x++) {
+      const gx = Math.min(tilesX - 1, Math.max(0, (x + 0.5) / tileW - 0.5));
+      const tx0 = Math.floor(gx);
+      const tx1 = Math.min(tilesX - 1, tx0 + 1);
+      const fx = gx - tx0;
+
+      const p = y * width + x;
+      const v = luminance[p];
+      const top = maps[ty0 * tilesX + tx0][v] * (1 - fx) + maps[ty0 * tilesX + tx1][v] * fx;
+      const bottom = maps[ty1 * tilesX + tx0][v] * (1 - fx) + maps[ty1 * tilesX + tx1][v] * fx;
+      const mapped = top * (1 - fy) + bottom * fy;
+
+      const i = p * 4;
+      if (v === 0) {
+        data[i] = data[i + 1] = data[i + 2] = mapped;
+      } else {
+        const gain = mapped / v;
+        data[i] *= gain;
+        data[i + 1] *= gain;
+        data[i + 2] *= gain;
+      }
+    }
+  }
+};
+
+/** Runs the enabled pixel steps on the canvas contents and returns those that changed the frame. */
+export const enhanceFrame = (canvas: HTMLCanvasElement, settings: PreprocessSettings): PreprocessStep[] => {
+  if (!settings.enabled || !(settings.denoise || settings.autoExposure || settings.equalize)) return [];
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return [];
+
+  const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const steps: PreprocessStep[] = [];
+  if (settings.denoise) {
+    gaussianBlur(image.data, image.width, image.height);
+    steps.push({ op: "denoise", params: { kernel: 3 } });
+  }
+  if (settings.autoExposure) {
+    const exposure = autoExposure(image.data);
+    if (exposure) steps.push({ op: "exposure", params: exposure });
+  }
+  if (settings.equalize) {
+    equalize(image.data, image.width, image.height, settings.clipLimit);
+    steps.push({ op: "equalize", params: { clipLimit: settings.clipLimit, tiles: CLAHE_TILES } });
+  }
+  ctx.putImageData(image, 0, 0);
+  return steps;
+};
+
+/** Both halves of the pipeline, for callers with no frame-change gate in between. */
+export const preprocessFrame = (
+  source: CanvasImageSource,
+  sourceWidth: number,
+  sourceHeight: number,
+  canvas: HTMLCanvasElement,
+  settings: PreprocessSettings,
+  maxWidth: number | null | undefined
+): PreprocessingRecord => {
+  const record = drawRegion(source, sourceWidth, sourceHeight, canvas, settings, maxWidth);
+  return { ...record, steps: [...record.steps, ...enhanceFrame(canvas, settings)] };
+};
+
+/** Short human-readable form of a step, for the HUD and history. */
+export const describeStep = (step: PreprocessStep): string => {
+  const p = step.params;
+  switch (step.op) {
+    case "crop":
+      return `crop T${Math.round(p.top * 100)} B${Math.round(p.bottom * 100)} L${Math.round(p.left * 100)} R${Math.round(p.right * 100)}%`;
+    case "resize":
+      return `resize ${p.width}×${p.height}`;
+    case "denoise":
+      return `denoise ${p.kernel}×${p.kernel}`;
+    case "exposure":
+      return `gamma ${p.gamma}`;
+    case "equalize":
+      return `CLAHE clip ${p.clipLimit}`;
+    default:
+      return step.op;
+  }
+};
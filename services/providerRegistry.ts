@@ -0,0 +1,66 @@
+import { VisionProvider } from "./visionProvider";
+import { createProxyProvider } from "./proxyProvider";
+import { createMockProvider } from "./mockProvider";
+import { createGeminiLiveBackend } from "./geminiLive";
+import { createStandinLiveBackend } from "./liveStandin";
+import { createOnDeviceProvider } from "./onDeviceDetector";
+import { withFallback } from "./fallbackProvider";
+import { DEFAULT_PROFILE_ID } from "./analysisProfiles";
+
+const providers = new Map<string, VisionProvider>();
+
+export const registerProvider = (provider: VisionProvider): void => {
+  providers.set(provider.id, {
+    ...provider,
+    // Results remember their engine, profile and latency; a fallback wrapper may already have set a different engine
+    analyze: async (frame, options) => {
+      const started = performance.now();
+      const result = await provider.analyze(frame, options);
+      return {
+        engine: provider.id,
+        ...result,
+        profileId: options?.profileId ?? DEFAULT_PROFILE_ID,
+        metrics: { ...result.metrics, latencyMs: Math.round(performance.now() - started) }
+      };
+    }
+  });
+};
+
+export const listProviders = (): VisionProvider[] => Array.from(providers.values());
+
+export const getProvider = (id: string): VisionProvider => {
+  const provider = providers.get(id);
+  if (!provider) {
+    throw new Error(`Unknown vision provider "${id}"`);
+  }
+  return provider;
+};
+
+const readNumber = (value: string | undefined): number | undefined => {
+  const parsed = Number(value);
+  return value && isFinite(parsed) ? parsed : undefined;
+};
+
+const onDeviceProvider = createOnDeviceProvider();
+
+// Gemini calls go through the analysis server (`npm run server`)
+const ANALYZE_SERVER_URL = process.env.ANALYZE_SERVER_URL || "http://localhost:8788";
+const geminiProvider = createProxyProvider(ANALYZE_SERVER_URL);
+
+// The cloud model hands over to the in-browser detector when it can't be reached
+registerProvider({ ...withFallback(geminiProvider, onDeviceProvider), live: createGeminiLiveBackend(ANALYZE_SERVER_URL) });
+registerProvider({
+  ...createMockProvider({
+    latencyMs: readNumber(process.env.MOCK_LATENCY_MS),
+    failEvery: readNumber(process.env.MOCK_FAIL_EVERY)
+  }),
+  // Offline live mode needs `npm run live-standin` running
+  live: createStandinLiveBackend(process.env.LIVE_STANDIN_URL || "ws://localhost:8787")
+});
+registerProvider(onDeviceProvider);
+
+// VISION_PROVIDER picks the backend at build time; the UI can switch it at runtime.
+export const DEFAULT_PROVIDER_ID =
+  process.env.VISION_PROVIDER && providers.has(process.env.VISION_PROVIDER)
+    ? process.env.VISION_PROVIDER
+    : geminiProvider.id;
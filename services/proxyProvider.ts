@@ -0,0 +1,69 @@
+import { SignRegion } from "../types";
+import { AnalyzeOptions, VisionProvider, stampAnalysis } from "./visionProvider";
+import { ModelOutputError, validateAnalysis } from "./responseValidator";
+
+// Wire format of the analysis server (server/). The browser sends a frame and
+// its options; the server holds the API key and answers with a validated result.
+
+export interface AnalyzeRequest {
+  frame: string; // Data URL or raw base64 of a JPEG/PNG/WebP image
+  profileId?: string;
+  language?: string;
+  signRegion?: SignRegion;
+}
+
+export type ServerErrorKind = "bad-request" | "too-large" | "rate-limit" | "invalid-output" | "upstream" | "unavailable";
+
+export interface ServerErrorBody {
+  error: {
+    kind: ServerErrorKind;
+    message: string;
+    field?: string; // invalid-output only: path into the model response
+    reason?: string;
+  };
+}
+
+// `status` lets the scan scheduler tell rate limits and outages from bad input
+const serverError = async (response: Response): Promise<Error> => {
+  const body = (await response.json().catch(() => null)) as ServerErrorBody | null;
+  const error = body?.error;
+  if (error?.kind === "invalid-output") {
+    return new ModelOutputError(error.field ?? "$", error.reason ?? error.message);
+  }
+  return Object.assign(new Error(error?.message ?? `Analysis server responded ${response.status}`), { status: response.status });
+};
+
+const endpoint = (baseUrl: string, path: string) => `${baseUrl.replace(/\/+$/, "")}${path}`;
+
+/**
+ * Gemini through the analysis server. Results are validated again on arrival,
+ * since the server is just another network peer to the browser.
+ */
+export const createProxyProvider = (baseUrl: string): VisionProvider => ({
+  id: "gemini",
+  label: "Gemini",
+  analyze: async (frame: string, options: AnalyzeOptions = {}) => {
+    const request: AnalyzeRequest = {
+      frame,
+      profileId: options.profileId,
+      language: options.language,
+      signRegion: options.signRegion
+    };
+    const response = await fetch(endpoint(baseUrl, "/analyze"), {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(request),
+      signal: options.signal
+    });
+    if (!response.ok) throw await serverError(response);
+    return stampAnalysis(validateAnalysis(await response.json()));
+  }
+});
+
+/** Single-use token for a Gemini Live session. */
+export const fetchLiveToken = async (baseUrl: string): Promise<string> => {
+  const response = await fetch(endpoint(baseUrl, "/live-token"), { method: "POST" });
+  if (!response.ok) throw await serverError(response);
+  const { token } = (await response.json()) as { token: string };
+  return token;
+};
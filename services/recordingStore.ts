@@ -0,0 +1,17 @@
+import { DriveRecording } from "../types";
+import { RECORDING_STORE, withStore } from "./db";
+
+// Recordings hold a video blob and full-size frames, so they are only ever
+// deleted by the user; nothing is pruned automatically.
+
+/** Returns saved recordings, newest first. */
+export const loadRecordings = async (): Promise<DriveRecording[]> =>
+  ((await withStore<DriveRecording[]>(RECORDING_STORE, "readonly", store => store.index("startedAt").getAll())) ?? []).reverse();
+
+export const saveRecording = async (recording: DriveRecording): Promise<void> => {
+  await withStore(RECORDING_STORE, "readwrite", store => store.put(recording));
+};
+
+export const deleteRecording = async (id: string): Promise<void> => {
+  await withStore(RECORDING_STORE, "readwrite", store => store.delete(id));
+};
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { AnalysisResult, RoadSign, SafetyLevel } from "../types";
+import { createRegulatoryState, isOverLimit, updateRegulatoryState } from "./regulatoryContext";
+
+const result = (signs: RoadSign[]): AnalysisResult => ({
+  signs,
+  hazards: [],
+  safetyLevel: SafetyLevel.SAFE,
+  recommendation: "",
+  timestamp: "",
+  capturedAt: "2026-01-01T00:00:00.000Z",
+  signRegion: "EU"
+});
+
+const sign = (type: string, code: string | null, params?: RoadSign["params"]): RoadSign =>
+  ({ type, meaning: "", location: "", code, ...(params ? { params } : {}) });
+
+describe("updateRegulatoryState", () => {
+  it("takes the posted value of a speed-limit sign", () => {
+    const state = updateRegulatoryState(null, result([sign("Speed Limit 50", "C,14", { speed: 50, unit: "km/h" })]), 1000);
+    expect(state.speedLimit).toEqual({ code: "C,14", since: 1000, value: 50, unit: "km/h" });
+  });
+
+  it("leaves the state unchanged for limit signs that are not speed limits", () => {
+    const previous = updateRegulatoryState(null, result([sign("Speed Limit 80", "C,14", { speed: 80, unit: "km/h" })]), 1000);
+    const signs = [
+      sign("Weight Limit 10", "C,14", { speed: 10, unit: "km/h" }),
+      sign("Axle load limit 10 t", "C,14", { speed: 10, unit: "km/h" }),
+      sign("Minimum speed 30", "C,14", { speed: 30, unit: "km/h" })
+    ];
+    const state = updateRegulatoryState(previous, result(signs), 2000);
+    expect(state.speedLimit).toEqual(previous.speedLimit);
+  });
+
+  it("keeps the current limit when a new one has no readable value", () => {
+    const previous = updateRegulatoryState(null, result([sign("Speed Limit 80", "C,14", { speed: 80, unit: "km/h" })]), 1000);
+    const state = updateRegulatoryState(previous, result([sign("Max Speed", "C,14")]), 2000);
+    expect(state.speedLimit?.value).toBe(80);
+  });
+
+  it("applies end-of signs before new restrictions in the same frame", () => {
+    const previous = updateRegulatoryState(null, result([sign("Speed Limit 80", "C,14", { speed: 80 })]), 1000);
+    const state = updateRegulatoryState(previous, result([sign("End of speed limit 80", "C,17b"), sign("Speed Limit 50", "C,14", { speed: 50 })]), 2000);
+    expect(state.speedLimit?.value).toBe(50);
+    expect(updateRegulatoryState(previous, result([sign("End of speed limit 80", "C,17b")]), 2000).speedLimit).toBeNull();
+  });
+
+  it("starts over when the signs come from another region", () => {
+    const previous = updateRegulatoryState(null, result([sign("Speed Limit 80", "C,14", { speed: 80 })]), 1000);
+    const state = updateRegulatoryState(previous, { ...result([]), signRegion: "US" }, 2000);
+    expect(state).toEqual(createRegulatoryState("US", 2000));
+  });
+});
+
+describe("isOverLimit", () => {
+  it("converts the device speed and allows the tolerance", () => {
+    const state = updateRegulatoryState(null, result([sign("Speed Limit 50", "C,14", { speed: 50, unit: "km/h" })]), 1000);
+    expect(isOverLimit(state, 52 / 3.6)).toBe(false);
+    expect(isOverLimit(state, 60 / 3.6)).toBe(true);
+    expect(isOverLimit(state, undefined)).toBe(false);
+  });
+});
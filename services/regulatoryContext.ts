@@ -0,0 +1,81 @@
+import { AnalysisResult, RegulatoryState, SignRegion } from "../types";
+import { classifySign, DEFAULT_SIGN_REGION, getCatalogEntry, SIGN_CATALOGS, SignConcept } from "./signCatalog";
+
+// Where the catalog has no "end school zone" sign (warning-only regions), a
+// school zone lapses on its own after this long without a fresh sighting.
+const SCHOOL_ZONE_TIMEOUT_MS = 3 * 60 * 1000;
+
+// Allowance before a speed counts as over the limit, in the limit's own unit
+export const SPEED_TOLERANCE = 3;
+
+const MPS_TO_UNIT: Record<"km/h" | "mph", number> = { "km/h": 3.6, mph: 2.23694 };
+
+export const createRegulatoryState = (region: SignRegion, now: number = Date.now()): RegulatoryState => ({
+  region,
+  speedLimit: null,
+  noOvertaking: null,
+  schoolZone: null,
+  updatedAt: now
+});
+
+const hasConcept = (region: SignRegion, concept: SignConcept) =>
+  SIGN_CATALOGS[region].entries.some(e => e.concept === concept);
+
+/**
+ * Folds the signs of one result into the running regulatory state. "End of"
+ * signs are applied before new restrictions, so a frame showing both leaves
+ * the new one in force. Signs from another catalog region reset the state.
+ */
+export const updateRegulatoryState = (
+  previous: RegulatoryState | null,
+  result: AnalysisResult,
+  now: number = Date.now()
+): RegulatoryState => {
+  const region = result.signRegion ?? DEFAULT_SIGN_REGION;
+  let state: RegulatoryState = previous && previous.region === region ? { ...previous } : createRegulatoryState(region, now);
+
+  const sightings = result.signs
+    .filter(sign => sign.code)
+    .map(sign => ({ sign, concept: getCatalogEntry(region, sign.code!)?.concept }))
+    .filter(({ concept }) => concept !== undefined);
+  const seen = (concept: SignConcept) => sightings.filter(s => s.concept === concept);
+
+  if (seen("end-all-restrictions").length > 0) {
+    state = { ...state, speedLimit: null, noOvertaking: null, schoolZone: null };
+  }
+  if (seen("end-speed-limit").length > 0) state.speedLimit = null;
+  if (seen("end-no-overtaking").length > 0) state.noOvertaking = null;
+  if (seen("end-school-zone").length > 0) state.schoolZone = null;
+
+  // Only a sign whose own text reads as a speed limit counts, since a stored or
+  // server-sent code may sit on a weight or minimum-speed sign. A limit without a
+  // readable value can't be enforced, so it doesn't replace the current one.
+  const limit = seen("speed-limit")
+    .map(({ sign }) => ({ code: sign.code!, reading: classifySign(sign, region) }))
+    .find(({ code, reading }) => reading.code === code && reading.params?.speed !== undefined);
+  if (limit) {
+    const { speed, unit } = limit.reading.params!;
+    state.speedLimit = { code: limit.code, since: now, value: speed!, unit: unit ?? SIGN_CATALOGS[region].defaultUnit };
+  }
+
+  const overtaking = seen("no-overtaking")[0];
+  if (overtaking) state.noOvertaking = { code: overtaking.sign.code!, since: now };
+
+  const school = seen("children")[0];
+  if (school) {
+    state.schoolZone = { code: school.sign.code!, since: now };
+  } else if (state.schoolZone && !hasConcept(region, "end-school-zone") && now - state.schoolZone.since > SCHOOL_ZONE_TIMEOUT_MS) {
+    state.schoolZone = null;
+  }
+
+  state.updatedAt = now;
+  return state;
+};
+
+/** Device speed (m/s) converted to the unit of the tracked limit. */
+export const speedInLimitUnit = (speedMps: number, unit: "km/h" | "mph"): number => speedMps * MPS_TO_UNIT[unit];
+
+export const isOverLimit = (state: RegulatoryState | null, speedMps: number | undefined): boolean => {
+  if (!state?.speedLimit || speedMps === undefined) return false;
+  return speedInLimitUnit(speedMps, state.speedLimit.unit) > state.speedLimit.value + SPEED_TOLERANCE;
+};
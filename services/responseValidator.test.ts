@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { SafetyLevel } from "../types";
+import { ModelOutputError, parseModelOutput, validateAnalysis, validateDefect } from "./responseValidator";
+
+describe("validateAnalysis", () => {
+  it("coerces enum casing, synonyms and missing lists", () => {
+    const result = validateAnalysis({
+      hazards: [{ type: "Pedestrian", severity: "moderate" }],
+      safetyLevel: "warning",
+      recommendation: "Slow down"
+    });
+    expect(result.signs).toEqual([]);
+    expect(result.hazards[0].severity).toBe("MEDIUM");
+    expect(result.safetyLevel).toBe(SafetyLevel.CAUTION);
+  });
+
+  it("converts Gemini box_2d to a normalized, ordered box", () => {
+    const result = validateAnalysis({
+      signs: [{ type: "Stop", box_2d: [600, 400, 200, 100] }],
+      safetyLevel: "SAFE",
+      recommendation: "Proceed"
+    });
+    expect(result.signs[0].box).toEqual({ xMin: 0.1, yMin: 0.2, xMax: 0.4, yMax: 0.6 });
+  });
+
+  it("drops malformed boxes instead of rejecting the detection", () => {
+    const result = validateAnalysis({ signs: [{ type: "Stop", box_2d: [1, 2, 3] }], safetyLevel: "SAFE", recommendation: "Proceed" });
+    expect(result.signs[0].type).toBe("Stop");
+    expect(result.signs[0].box).toBeUndefined();
+  });
+
+  it("reports the path of an unknown enum value", () => {
+    try {
+      validateAnalysis({ hazards: [{ type: "Deer", severity: "extreme" }], safetyLevel: "SAFE", recommendation: "Proceed" });
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(ModelOutputError);
+      expect((error as ModelOutputError).field).toBe("hazards[0].severity");
+    }
+  });
+
+  it("rejects a non-list where a list is expected", () => {
+    expect(() => validateAnalysis({ signs: "none", safetyLevel: "SAFE", recommendation: "Proceed" })).toThrow(ModelOutputError);
+  });
+
+  it("only keeps a string engine and a known sign region", () => {
+    const result = validateAnalysis({ safetyLevel: "SAFE", recommendation: "Proceed", engine: 7, signRegion: "MARS" });
+    expect(result.engine).toBeUndefined();
+    expect(result.signRegion).toBeUndefined();
+  });
+});
+
+describe("validateDefect", () => {
+  it("clamps the condition index and accepts label aliases", () => {
+    const defect = validateDefect({ type: "alligator crack", conditionIndex: "9", lengthM: -2 }, "defects[0]");
+    expect(defect.type).toBe("ALLIGATOR_CRACKING");
+    expect(defect.conditionIndex).toBe(5);
+    expect(defect.lengthM).toBeUndefined();
+  });
+
+  it("requires a numeric condition index", () => {
+    expect(() => validateDefect({ type: "POTHOLE" }, "defects[0]")).toThrow(/defects\[0\]\.conditionIndex/);
+  });
+});
+
+describe("parseModelOutput", () => {
+  it("strips a markdown fence around the JSON", () => {
+    const result = parseModelOutput('```json\n{"safetyLevel":"DANGER","recommendation":"Stop"}\n```');
+    expect(result.safetyLevel).toBe(SafetyLevel.DANGER);
+    expect(result.recommendation).toBe("Stop");
+  });
+
+  it("raises a ModelOutputError for text that is not JSON", () => {
+    expect(() => parseModelOutput("I see a stop sign")).toThrow(ModelOutputError);
+  });
+});
@@ -0,0 +1,284 @@
+import { AnalysisMetrics, AnalysisResult, BoundingBox, Hazard, PreprocessOp, PreprocessStep, RoadSign, SafetyLevel, SignRegion, SurfaceDefect, SurfaceDefectType } from "../types";
+import { SIGN_REGIONS } from "./signCatalog";
+import { SURFACE_DEFECT_TYPES } from "./roadSurvey";
+
+/**
+ * Raised when model output cannot be turned into an AnalysisResult.
+ * `field` is a path into the response, e.g. "hazards[2].severity".
+ */
+export class ModelOutputError extends Error {
+  field: string;
+  reason: string;
+
+  constructor(field: string, reason: string) {
+    super(`Invalid model output at "${field}": ${reason}`);
+    this.name = "ModelOutputError";
+    this.field = field;
+    this.reason = reason;
+  }
+}
+
+export type ValidatedAnalysis = Omit<AnalysisResult, "timestamp" | "capturedAt" | "geo">;
+
+const SEVERITY_ALIASES: Record<string, Hazard["severity"]> = {
+  LOW: "LOW",
+  MINOR: "LOW",
+  MEDIUM: "MEDIUM",
+  MODERATE: "MEDIUM",
+  MED: "MEDIUM",
+  HIGH: "HIGH",
+  SEVERE: "HIGH",
+  CRITICAL: "HIGH"
+};
+
+const SAFETY_ALIASES: Record<string, SafetyLevel> = {
+  SAFE: SafetyLevel.SAFE,
+  CLEAR: SafetyLevel.SAFE,
+  CAUTION: SafetyLevel.CAUTION,
+  WARNING: SafetyLevel.CAUTION,
+  DANGER: SafetyLevel.DANGER,
+  DANGEROUS: SafetyLevel.DANGER
+};
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const normalizeKey = (value: string) => value.trim().toUpperCase().replace(/[\s-]+/g, "_");
+
+// Defect ids and labels, plus the singular and colloquial names models fall back to
+const DEFECT_ALIASES: Record<string, SurfaceDefectType> = {
+  ...Object.fromEntries(Object.entries(SURFACE_DEFECT_TYPES).flatMap(([id, info]) => [[id, id], [normalizeKey(info.label), id]])),
+  LONGITUDINAL_CRACK: "LONGITUDINAL_CRACKING",
+  TRANSVERSE_CRACK: "TRANSVERSE_CRACKING",
+  ALLIGATOR_CRACK: "ALLIGATOR_CRACKING",
+  FATIGUE_CRACKING: "ALLIGATOR_CRACKING",
+  RUT: "RUTTING",
+  RAVELLING: "RAVELING",
+  FADED_MARKINGS: "FADED_MARKING",
+  FADED_LANE_MARKINGS: "FADED_MARKING",
+  PUDDLE: "STANDING_WATER"
+};
+
+// Required text field. Numbers are stringified; anything else is rejected.
+const readString = (source: Record<string, unknown>, key: string, path: string): string => {
+  const value = source[key];
+  if (typeof value === "string" && value.trim()) return value.trim();
+  if (typeof value === "number" && isFinite(value)) return String(value);
+  throw new ModelOutputError(`${path}.${key}`.replace(/^\./, ""), "expected a non-empty string");
+};
+
+// Text field that may be left out; the panel renders an empty string fine.
+const readOptionalString = (source: Record<string, unknown>, key: string): string => {
+  const value = source[key];
+  if (typeof value === "string") return value.trim();
+  if (typeof value === "number" && isFinite(value)) return String(value);
+  return "";
+};
+
+// A missing list means "nothing detected"; a non-list is a contract violation.
+const readArray = (source: Record<string, unknown>, key: string): unknown[] => {
+  const value = source[key];
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) {
+    throw new ModelOutputError(key, "expected an array");
+  }
+  return value;
+};
+
+const readEnum = <T>(value: unknown, aliases: Record<string, T>, path: string): T => {
+  if (typeof value === "string") {
+    const match = aliases[normalizeKey(value)];
+    if (match !== undefined) return match;
+  }
+  throw new ModelOutputError(path, `unknown value ${JSON.stringify(value)}, expected one of ${Array.from(new Set(Object.values(aliases))).join(", ")}`);
+};
+
+/**
+ * Accepts Gemini's native `box_2d` ([ymin, xmin, ymax, xmax] on a 0-1000 grid)
+ * or an already normalized `box`. Malformed boxes are dropped, not rejected:
+ * the detection itself is still useful without a position.
+ */
+const readBox = (source: Record<string, unknown>): BoundingBox | undefined => {
+  const raw = source.box_2d;
+  if (Array.isArray(raw) && raw.length === 4 && raw.every(v => typeof v === "number" && isFinite(v))) {
+    const [y0, x0, y1, x1] = raw.map(v => Math.min(1, Math.max(0, v / 1000)));
+    return toOrderedBox(x0, y0, x1, y1);
+  }
+
+  const box = source.box;
+  if (isRecord(box)) {
+    const coords = [box.xMin, box.yMin, box.xMax, box.yMax];
+    if (coords.every(v => typeof v === "number" && isFinite(v))) {
+      const [x0, y0, x1, y1] = (coords as number[]).map(v => Math.min(1, Math.max(0, v)));
+      return toOrderedBox(x0, y0, x1, y1);
+    }
+  }
+  return undefined;
+};
+
+const toOrderedBox = (x0: number, y0: number, x1: number, y1: number): BoundingBox | undefined => {
+  if (x0 === x1 || y0 === y1) return undefined;
+  return {
+    xMin: Math.min(x0, x1),
+    yMin: Math.min(y0, y1),
+    xMax: Math.max(x0, x1),
+    yMax: Math.max(y0, y1)
+  };
+};
+
+// Catalog fields only come back on re-imported sessions and from the analysis server; fresh model output is classified after validation.
+const readSignCatalog = (source: Record<string, unknown>): Pick<RoadSign, "code" | "params"> => {
+  const fields: Pick<RoadSign, "code" | "params"> = {};
+  if (typeof source.code === "string" || source.code === null) fields.code = source.code as string | null;
+  const params = source.params;
+  if (isRecord(params) && typeof params.speed === "number" && isFinite(params.speed)) {
+    fields.params = { speed: params.speed, unit: params.unit === "mph" ? "mph" : "km/h" };
+  }
+  return fields;
+};
+
+// Only set on multi-camera scans (and their re-imports): the camera that saw the detection
+const readCamera = (source: Record<string, unknown>): { camera?: string } =>
+  typeof source.camera === "string" && source.camera ? { camera: source.camera } : {};
+
+export const validateSign = (raw: unknown, path: string): RoadSign => {
+  if (!isRecord(raw)) throw new ModelOutputError(path, "expected an object");
+  return {
+    type: readString(raw, "type", path),
+    meaning: readOptionalString(raw, "meaning"),
+    location: readOptionalString(raw, "location"),
+    box: readBox(raw),
+    ...readSignCatalog(raw),
+    ...readCamera(raw)
+  };
+};
+
+export const validateHazard = (raw: unknown, path: string): Hazard => {
+  if (!isRecord(raw)) throw new ModelOutputError(path, "expected an object");
+  return {
+    type: readString(raw, "type", path),
+    severity: readEnum(raw.severity, SEVERITY_ALIASES, `${path}.severity`),
+    description: readOptionalString(raw, "description"),
+    box: readBox(raw),
+    ...readCamera(raw)
+  };
+};
+
+// Estimated sizes are optional; nonsense values are dropped rather than rejected
+const readMeters = (value: unknown): number | undefined => {
+  const number = typeof value === "string" ? Number(value) : value;
+  return typeof number === "number" && isFinite(number) && number > 0 ? number : undefined;
+};
+
+export const validateDefect = (raw: unknown, path: string): SurfaceDefect => {
+  if (!isRecord(raw)) throw new ModelOutputError(path, "expected an object");
+  const index = typeof raw.conditionIndex === "string" ? Number(raw.conditionIndex) : raw.conditionIndex;
+  if (typeof index !== "number" || !isFinite(index)) {
+    throw new ModelOutputError(`${path}.conditionIndex`, "expected a number from 1 to 5");
+  }
+  const lengthM = readMeters(raw.lengthM);
+  const widthM = readMeters(raw.widthM);
+  return {
+    type: readEnum(raw.type, DEFECT_ALIASES, `${path}.type`),
+    conditionIndex: Math.min(5, Math.max(1, Math.round(index))),
+    ...(lengthM !== undefined ? { lengthM } : {}),
+    ...(widthM !== undefined ? { widthM } : {}),
+    description: readOptionalString(raw, "description"),
+    box: readBox(raw),
+    ...readCamera(raw)
+  };
+};
+
+// Present (possibly empty) only when the profile surveyed the road surface
+const readDefects = (raw: Record<string, unknown>): Pick<AnalysisResult, "defects"> =>
+  raw.defects === undefined || raw.defects === null
+    ? {}
+    : { defects: readArray(raw, "defects").map((defect, idx) => validateDefect(defect, `defects[${idx}]`)) };
+
+// Per-camera breakdown of a merged multi-camera scan; malformed entries are dropped
+const readCameras = (value: unknown): Pick<AnalysisResult, "cameras"> => {
+  if (!Array.isArray(value)) return {};
+  const cameras = value.filter(isRecord).filter(c => typeof c.camera === "string" && c.camera).map(c => ({
+    camera: c.camera as string,
+    safetyLevel: c.safetyLevel === null ? null : readEnum(c.safetyLevel, SAFETY_ALIASES, "cameras.safetyLevel"),
+    recommendation: readOptionalString(c, "recommendation")
+  }));
+  return cameras.length ? { cameras } : {};
+};
+
+// Diagnostics saved with a scan; they only appear in re-imported sessions
+const METRIC_FIELDS = ["latencyMs", "captureMs", "frameBytes", "promptTokens", "outputTokens", "totalTokens"] as const;
+const readMetrics = (value: unknown): Pick<AnalysisResult, "metrics"> => {
+  if (!isRecord(value)) return {};
+  const metrics: AnalysisMetrics = {};
+  if (typeof value.model === "string" && value.model) metrics.model = value.model;
+  METRIC_FIELDS.forEach(field => {
+    const number = value[field];
+    if (typeof number === "number" && isFinite(number) && number >= 0) metrics[field] = number;
+  });
+  return Object.keys(metrics).length ? { metrics } : {};
+};
+
+// Frame preparation saved with a scan; only on re-imported sessions
+const PREPROCESS_OPS: PreprocessOp[] = ["crop", "resize", "denoise", "exposure", "equalize"];
+const readPreprocessing = (value: unknown): Pick<AnalysisResult, "preprocessing"> => {
+  if (!isRecord(value) || !Array.isArray(value.steps)) return {};
+  const steps: PreprocessStep[] = value.steps
+    .filter(isRecord)
+    .filter(step => PREPROCESS_OPS.includes(step.op as PreprocessOp))
+    .map(step => ({
+      op: step.op as PreprocessOp,
+      params: isRecord(step.params)
+        ? Object.fromEntries(Object.entries(step.params).filter((entry): entry is [string, number] => typeof entry[1] === "number" && isFinite(entry[1])))
+        : {}
+    }));
+  const region = isRecord(value.region) ? readBox({ box: value.region }) : undefined;
+  return { preprocessing: { steps, ...(region ? { region } : {}) } };
+};
+
+// Profile-specific scene fields; only short string values are kept
+const readAttributes = (value: unknown): Pick<AnalysisResult, "attributes"> => {
+  if (!isRecord(value)) return {};
+  const entries = Object.entries(value)
+    .filter((entry): entry is [string, string] => typeof entry[1] === "string" && entry[1].trim() !== "")
+    .map(([key, text]) => [key, text.trim().slice(0, 80)]);
+  return entries.length ? { attributes: Object.fromEntries(entries) } : {};
+};
+
+/**
+ * Checks a decoded response against the same contract as the Gemini response schema.
+ * Recoverable deviations (enum casing and synonyms, missing lists, numeric strings,
+ * malformed boxes) are coerced; everything else throws a ModelOutputError.
+ */
+export const validateAnalysis = (raw: unknown): ValidatedAnalysis => {
+  if (!isRecord(raw)) {
+    throw new ModelOutputError("$", "expected a JSON object");
+  }
+
+  return {
+    signs: readArray(raw, "signs").map((sign, idx) => validateSign(sign, `signs[${idx}]`)),
+    hazards: readArray(raw, "hazards").map((hazard, idx) => validateHazard(hazard, `hazards[${idx}]`)),
+    safetyLevel: readEnum(raw.safetyLevel, SAFETY_ALIASES, "safetyLevel"),
+    recommendation: readString(raw, "recommendation", ""),
+    ...(SIGN_REGIONS.includes(raw.signRegion as SignRegion) ? { signRegion: raw.signRegion as SignRegion } : {}),
+    ...(typeof raw.engine === "string" && raw.engine ? { engine: raw.engine } : {}),
+    ...(typeof raw.profileId === "string" && raw.profileId ? { profileId: raw.profileId } : {}),
+    ...readAttributes(raw.attributes),
+    ...readCameras(raw.cameras),
+    ...readDefects(raw),
+    ...readMetrics(raw.metrics),
+    ...readPreprocessing(raw.preprocessing)
+  };
+};
+
+/** Parses the raw response text and validates it. */
+export const parseModelOutput = (text: string): ValidatedAnalysis => {
+  let raw: unknown;
+  try {
+    // Models occasionally wrap JSON in a markdown fence despite the JSON mime type
+    raw = JSON.parse(text.trim().replace(/^```(?:json)?\s*|\s*```$/g, ""));
+  } catch {
+    throw new ModelOutputError("$", "response is not valid JSON");
+  }
+  return validateAnalysis(raw);
+};
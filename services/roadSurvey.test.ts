@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { AnalysisResult, GeoTag, SafetyLevel, SurfaceDefect } from "../types";
+import { buildRoadSurvey } from "./roadSurvey";
+
+const scan = (id: string, defects: SurfaceDefect[] | undefined, geo?: GeoTag, capturedAt = "2026-01-01T00:00:00.000Z") => ({
+  id,
+  result: { signs: [], hazards: [], safetyLevel: SafetyLevel.SAFE, recommendation: "", timestamp: "", capturedAt, geo, defects } as AnalysisResult
+});
+
+const pothole = (conditionIndex: number, box?: SurfaceDefect["box"]): SurfaceDefect =>
+  ({ type: "POTHOLE", conditionIndex, description: "", ...(box ? { box } : {}) });
+
+// `northM` meters north of a fixed point
+const at = (northM: number): GeoTag => ({ latitude: 48 + northM / 111_195, longitude: 16 });
+
+describe("buildRoadSurvey", () => {
+  it("ignores scans that did not survey the road surface", () => {
+    const survey = buildRoadSurvey([scan("a", undefined), scan("b", [])]);
+    expect(survey.frames).toBe(1);
+    expect(survey.score).toBe(5);
+  });
+
+  it("cuts the driven path into segments and scores each by its worst defects", () => {
+    const survey = buildRoadSurvey([
+      scan("a", [pothole(2)], at(0)),
+      scan("b", [], at(60)),
+      scan("c", [], at(120))
+    ], 100);
+    expect(survey.distanceM).toBe(120);
+    expect(survey.segments.map(s => s.frames)).toEqual([2, 1]);
+    expect(survey.segments.map(s => s.score)).toEqual([3.5, 5]);
+    expect(survey.segments[1].startM).toBe(survey.segments[0].endM);
+  });
+
+  it("starts a new segment after a jump too large to be driven road", () => {
+    const survey = buildRoadSurvey([scan("a", [], at(0)), scan("b", [], at(5000))]);
+    expect(survey.segments).toHaveLength(2);
+    expect(survey.distanceM).toBe(0);
+  });
+
+  it("merges nearby geotagged sightings and keeps the worst condition", () => {
+    const survey = buildRoadSurvey([scan("a", [pothole(3)], at(0)), scan("b", [pothole(1)], at(5))]);
+    expect(survey.repairs).toHaveLength(1);
+    expect(survey.repairs[0]).toMatchObject({ sightings: 2, conditionIndex: 1, analysisId: "b", rank: 1 });
+  });
+
+  it("keeps the defects of one scan apart", () => {
+    const survey = buildRoadSurvey([scan("a", [pothole(3), pothole(3)], at(0))]);
+    expect(survey.repairs).toHaveLength(2);
+  });
+
+  it("matches defects without positions by box overlap in the next scan only", () => {
+    const box = { xMin: 0.4, yMin: 0.6, xMax: 0.6, yMax: 0.8 };
+    const moved = { xMin: 0.45, yMin: 0.65, xMax: 0.65, yMax: 0.85 };
+    expect(buildRoadSurvey([scan("a", [pothole(3, box)]), scan("b", [pothole(3, moved)])]).repairs).toHaveLength(1);
+    expect(buildRoadSurvey([scan("a", [pothole(3, box)]), scan("b", []), scan("c", [pothole(3, moved)])]).repairs).toHaveLength(2);
+  });
+
+  it("follows the given order rather than the capture time", () => {
+    const survey = buildRoadSurvey([
+      scan("first", [pothole(3)], at(0), "2026-01-01T00:00:09.000Z"),
+      scan("second", [pothole(4)], at(500), "2026-01-01T00:00:01.000Z")
+    ], 100);
+    expect(survey.segments[0].path[0]).toEqual(at(0));
+    expect(survey.repairs.find(r => r.conditionIndex === 3)?.segment).toBe(0);
+  });
+});
@@ -0,0 +1,214 @@
+import { AnalysisResult, BoundingBox, GeoTag, SurfaceDefect, SurfaceDefectType } from "../types";
+import { haversineMeters } from "./geolocation";
+
+// Pavement condition over a drive: survey scans are laid along the driven path,
+// cut into fixed-length segments that each get a 1-5 score, and repeated
+// sightings of the same defect are merged into one ranked repair item.
+
+export interface DefectTypeInfo {
+  label: string;
+  weight: number; // Repair urgency relative to other defects at the same condition
+}
+
+export const SURFACE_DEFECT_TYPES: Record<SurfaceDefectType, DefectTypeInfo> = {
+  POTHOLE: { label: "Pothole", weight: 3 },
+  ALLIGATOR_CRACKING: { label: "Alligator Cracking", weight: 2.5 },
+  EDGE_BREAK: { label: "Edge Break", weight: 2 },
+  RUTTING: { label: "Rutting", weight: 2 },
+  STANDING_WATER: { label: "Standing Water", weight: 2 },
+  LONGITUDINAL_CRACKING: { label: "Longitudinal Cracking", weight: 1.5 },
+  TRANSVERSE_CRACKING: { label: "Transverse Cracking", weight: 1.5 },
+  RAVELING: { label: "Raveling", weight: 1.5 },
+  FADED_MARKING: { label: "Faded Lane Marking", weight: 1 },
+  PATCH: { label: "Patch", weight: 0.5 }
+};
+
+export const SURFACE_DEFECT_IDS = Object.keys(SURFACE_DEFECT_TYPES) as SurfaceDefectType[];
+
+export const SOUND_CONDITION = 5;
+export const DEFAULT_SEGMENT_LENGTH_M = 100;
+// Geotagged sightings of one defect type this close together are the same defect
+const SAME_DEFECT_RADIUS_M = 15;
+// Without positions, boxes in consecutive scans that overlap this much (IoU) are the same defect
+const SAME_DEFECT_MIN_IOU = 0.1;
+// A bigger jump between consecutive scans is a new drive, not road surveyed
+const MAX_STEP_M = 1000;
+
+export interface SurveySegment {
+  index: number;
+  startM: number; // Distance along the surveyed path
+  endM: number;
+  path: GeoTag[]; // Positions of its scans in driving order, starting where the previous segment ended
+  frames: number;
+  defects: number;
+  score: number; // Mean of its scans' scores; a scan scores its worst defect, or 5 when clean
+}
+
+export interface RepairItem {
+  rank: number;
+  type: SurfaceDefectType;
+  conditionIndex: number; // Worst reported across sightings
+  lengthM?: number; // Largest reported
+  widthM?: number;
+  description: string;
+  geo?: GeoTag; // First sighting with a position
+  segment: number;
+  analysisId: string; // Scan of the worst sighting
+  capturedAt: string;
+  sightings: number;
+  priority: number;
+}
+
+export interface RoadSurvey {
+  frames: number;
+  distanceM: number;
+  score: number | null; // Mean segment score
+  segments: SurveySegment[];
+  repairs: RepairItem[];
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+const frameScore = (defects: SurfaceDefect[]) =>
+  defects.reduce((worst, defect) => Math.min(worst, defect.conditionIndex), SOUND_CONDITION);
+
+const repairPriority = (item: Pick<RepairItem, "type" | "conditionIndex">) =>
+  (SOUND_CONDITION + 1 - item.conditionIndex) * SURFACE_DEFECT_TYPES[item.type].weight;
+
+const area = (item: Pick<RepairItem, "lengthM" | "widthM">) => (item.lengthM ?? 0) * (item.widthM ?? 0);
+
+const larger = (a: number | undefined, b: number | undefined) =>
+  a === undefined ? b : b === undefined ? a : Math.max(a, b);
+
+const iou = (a: BoundingBox, b: BoundingBox) => {
+  const w = Math.min(a.xMax, b.xMax) - Math.max(a.xMin, b.xMin);
+  const h = Math.min(a.yMax, b.yMax) - Math.max(a.yMin, b.yMin);
+  if (w <= 0 || h <= 0) return 0;
+  const overlap = w * h;
+  const boxArea = (box: BoundingBox) => (box.xMax - box.xMin) * (box.yMax - box.yMin);
+  return overlap / (boxArea(a) + boxArea(b) - overlap);
+};
+
+// Latest sighting of a repair item, what the next scan's defects are matched against
+interface Sighting {
+  scan: number; // Index in driving order
+  geo?: GeoTag;
+  box?: BoundingBox;
+  camera?: string;
+}
+
+// Distance when both sightings are geotagged; otherwise the defect must have been
+// seen in the scan right before, by the same camera, with an overlapping box
+const isSameDefect = (seen: Sighting, scan: number, defect: SurfaceDefect, geo: GeoTag | undefined) => {
+  if (seen.geo && geo) return haversineMeters(seen.geo, geo) <= SAME_DEFECT_RADIUS_M;
+  return seen.scan === scan - 1 && seen.camera === defect.camera && !!seen.box && !!defect.box && iou(seen.box, defect.box) >= SAME_DEFECT_MIN_IOU;
+};
+
+/**
+ * Builds the survey from every scan that carries a `defects` list, taking
+ * `analyses` in drive order (capture time, or video time for a batch). Scans
+ * without a position stay in the segment of the scan before them, so a drive
+ * with no GPS at all comes out as a single segment. Defects in one scan are
+ * always distinct repairs; a later scan's defect joins an earlier repair of the
+ * same type when `isSameDefect` matches it against that repair's latest sighting.
+ */
+export const buildRoadSurvey = (
+  analyses: { id: string; result: AnalysisResult }[],
+  segmentLengthM: number = DEFAULT_SEGMENT_LENGTH_M
+): RoadSurvey => {
+  const scans = analyses.filter(({ result }) => result.defects);
+
+  const segments: SurveySegment[] = [];
+  const scores: number[][] = [];
+  const repairs: Omit<RepairItem, "rank" | "priority">[] = [];
+  const latest: Sighting[] = []; // Parallel to `repairs`
+  let segment: SurveySegment | null = null;
+  let distance = 0;
+  let last: GeoTag | undefined;
+
+  scans.forEach(({ id, result }, scan) => {
+    const geo = result.geo;
+    const previous = last;
+    let newDrive = false;
+    if (geo && previous) {
+      const step = haversineMeters(previous, geo);
+      if (step > MAX_STEP_M) newDrive = true;
+      else distance += step;
+    }
+    if (geo) last = geo;
+
+    if (!segment || newDrive || distance - segment.startM >= segmentLengthM) {
+      // A segment on the same drive picks up where the last one ended, so together they cover the road
+      const continues = segment !== null && !newDrive;
+      segment = {
+        index: segments.length,
+        startM: continues ? segment!.endM : distance,
+        endM: distance,
+        path: continues && previous ? [previous] : [],
+        frames: 0,
+        defects: 0,
+        score: SOUND_CONDITION
+      };
+      segments.push(segment);
+      scores.push([]);
+    }
+    const current: SurveySegment = segment;
+    const defects = result.defects!;
+    current.endM = distance;
+    current.frames++;
+    current.defects += defects.length;
+    if (geo) current.path.push(geo);
+    scores[current.index].push(frameScore(defects));
+
+    const matched = new Set<number>();
+    defects.forEach(defect => {
+      const sighting: Sighting = { scan, geo, box: defect.box, camera: defect.camera };
+      const index = repairs.findIndex((item, i) =>
+        item.type === defect.type && latest[i].scan < scan && !matched.has(i) && isSameDefect(latest[i], scan, defect, geo)
+      );
+      if (index === -1) {
+        latest.push(sighting);
+        repairs.push({
+          type: defect.type,
+          conditionIndex: defect.conditionIndex,
+          lengthM: defect.lengthM,
+          widthM: defect.widthM,
+          description: defect.description,
+          geo,
+          segment: current.index,
+          analysisId: id,
+          capturedAt: result.capturedAt,
+          sightings: 1
+        });
+        return;
+      }
+      matched.add(index);
+      latest[index] = sighting;
+      const existing = repairs[index];
+      existing.geo = existing.geo ?? geo;
+      existing.sightings++;
+      existing.lengthM = larger(existing.lengthM, defect.lengthM);
+      existing.widthM = larger(existing.widthM, defect.widthM);
+      if (defect.conditionIndex < existing.conditionIndex) {
+        Object.assign(existing, { conditionIndex: defect.conditionIndex, description: defect.description, analysisId: id, capturedAt: result.capturedAt });
+      }
+    });
+  });
+
+  segments.forEach(s => {
+    s.score = round1(mean(scores[s.index]));
+  });
+
+  return {
+    frames: scans.length,
+    distanceM: Math.round(distance),
+    score: segments.length ? round1(mean(segments.map(s => s.score))) : null,
+    segments,
+    repairs: repairs
+      .map(item => ({ ...item, rank: 0, priority: repairPriority(item) }))
+      .sort((a, b) => b.priority - a.priority || area(b) - area(a))
+      .map((item, index) => ({ ...item, rank: index + 1 }))
+  };
+};
@@ -0,0 +1,82 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createScanScheduler, isRateLimitError, isTransientError, ScanOutcome } from "./scanScheduler";
+
+describe("error classification", () => {
+  it("recognizes rate limits by status or message", () => {
+    expect(isRateLimitError({ status: 429 })).toBe(true);
+    expect(isRateLimitError(new Error("RESOURCE_EXHAUSTED: quota exceeded"))).toBe(true);
+    expect(isRateLimitError(new Error("Invalid model output"))).toBe(false);
+  });
+
+  it("retries network failures, timeouts and 5xx but not bad input", () => {
+    expect(isTransientError({ status: 503 })).toBe(true);
+    expect(isTransientError({ status: 408 })).toBe(true);
+    expect(isTransientError({ status: 400 })).toBe(false);
+    expect(isTransientError(new TypeError("Failed to fetch"))).toBe(true);
+    expect(isTransientError(new Error("Invalid model output"))).toBe(false);
+  });
+});
+
+describe("createScanScheduler", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("runs the task again after the interval", async () => {
+    const task = vi.fn(async (): Promise<ScanOutcome> => "analyzed");
+    const scheduler = createScanScheduler(task, { minIntervalMs: 1000 });
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(scheduler.getStats()).toMatchObject({ state: "waiting", completed: 1, intervalMs: 1000, scansPerMinute: 1 });
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(task).toHaveBeenCalledTimes(2);
+    scheduler.stop();
+  });
+
+  it("keeps skipped runs out of the latency and throughput figures", async () => {
+    const scheduler = createScanScheduler(async () => "skipped", { minIntervalMs: 1000 });
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(2500);
+    expect(scheduler.getStats()).toMatchObject({ skipped: 3, completed: 0, avgLatencyMs: null, scansPerMinute: 0 });
+    scheduler.stop();
+  });
+
+  it("backs off exponentially on rate limits", async () => {
+    const scheduler = createScanScheduler(async () => { throw Object.assign(new Error("Too many requests"), { status: 429 }); }, { baseBackoffMs: 2000 });
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(0);
+    let stats = scheduler.getStats();
+    expect(stats).toMatchObject({ state: "backoff", rateLimited: 1, consecutiveErrors: 1 });
+    expect(stats.nextRunAt! - Date.now()).toBeGreaterThanOrEqual(1000);
+    expect(stats.nextRunAt! - Date.now()).toBeLessThanOrEqual(2000);
+
+    await vi.advanceTimersByTimeAsync(2000);
+    stats = scheduler.getStats();
+    expect(stats.consecutiveErrors).toBe(2);
+    expect(stats.nextRunAt! - Date.now()).toBeGreaterThanOrEqual(2000);
+    scheduler.stop();
+  });
+
+  it("does not back off on permanent errors", async () => {
+    const scheduler = createScanScheduler(async () => { throw new Error("Invalid model output"); }, { minIntervalMs: 1000 });
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(scheduler.getStats()).toMatchObject({ state: "waiting", failed: 1, consecutiveErrors: 0, lastError: "Invalid model output" });
+    scheduler.stop();
+  });
+
+  it("aborts the scan in flight when stopped", async () => {
+    let signal: AbortSignal | undefined;
+    const scheduler = createScanScheduler(taskSignal => {
+      signal = taskSignal;
+      return new Promise<ScanOutcome>(() => {});
+    });
+    scheduler.start();
+    scheduler.stop();
+    expect(signal?.aborted).toBe(true);
+    expect(scheduler.getStats().state).toBe("idle");
+  });
+});
@@ -0,0 +1,186 @@
+import { isAbortError } from "./concurrency";
+
+export type SchedulerState = "idle" | "running" | "waiting" | "backoff";
+
+// What a run did: "skipped" means nothing went to the model (e.g. the change gate
+// reused the last result), so the run says nothing about backend latency.
+export type ScanOutcome = "analyzed" | "skipped";
+
+export interface SchedulerStats {
+  state: SchedulerState;
+  intervalMs: number; // Current gap between the end of one scan and the start of the next
+  lastLatencyMs: number | null;
+  avgLatencyMs: number | null; // Exponentially weighted
+  completed: number;
+  skipped: number;
+  failed: number;
+  rateLimited: number;
+  consecutiveErrors: number;
+  scansPerMinute: number; // Completed scans over the trailing minute
+  nextRunAt: number | null; // Epoch ms
+  lastError: string | null;
+}
+
+export interface ScanSchedulerOptions {
+  minIntervalMs?: number;
+  maxIntervalMs?: number;
+  baseBackoffMs?: number;
+  maxBackoffMs?: number;
+  onStats?: (stats: SchedulerStats) => void;
+}
+
+export interface ScanScheduler {
+  start: () => void;
+  stop: () => void; // Also aborts the scan in flight
+  getStats: () => SchedulerStats;
+}
+
+// Weight of the newest sample in the latency average.
+const LATENCY_SMOOTHING = 0.3;
+// Idle gap as a fraction of the average latency, so a slow backend is never saturated.
+const LATENCY_HEADROOM = 0.25;
+
+const errorStatus = (error: unknown): number | undefined => {
+  const status = (error as { status?: unknown })?.status ?? (error as { code?: unknown })?.code;
+  return typeof status === "number" ? status : undefined;
+};
+
+export const isRateLimitError = (error: unknown): boolean => {
+  if (errorStatus(error) === 429) return true;
+  const message = error instanceof Error ? error.message : String(error);
+  return /\b429\b|RESOURCE_EXHAUSTED|rate.?limit|quota/i.test(message);
+};
+
+/** Network failures, timeouts and 5xx responses are worth retrying; bad input is not. */
+export const isTransientError = (error: unknown): boolean => {
+  const status = errorStatus(error);
+  if (status !== undefined) return status === 408 || status >= 500;
+  const message = error instanceof Error ? error.message : String(error);
+  return /network|fetch|timeout|timed out|unavailable|ECONNRESET|\b50[0-4]\b/i.test(message);
+};
+
+/**
+ * Runs `task` back to back with an adaptive pause in between: never more than one
+ * call in flight, the pause tracks measured latency, and rate limits or transient
+ * errors trigger exponential backoff with jitter. Skipped runs keep the current
+ * pause and stay out of the latency and throughput figures.
+ */
+export const createScanScheduler = (
+  task: (signal: AbortSignal) => Promise<ScanOutcome>,
+  options: ScanSchedulerOptions = {}
+): ScanScheduler => {
+  const minIntervalMs = options.minIntervalMs ?? 1000;
+  const maxIntervalMs = options.maxIntervalMs ?? 15000;
+  const baseBackoffMs = options.baseBackoffMs ?? 2000;
+  const maxBackoffMs = options.maxBackoffMs ?? 60000;
+
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let controller: AbortController | null = null;
+  let active = false;
+  // Bumped on every start/stop so a run from a previous start can't reschedule itself
+  let generation = 0;
+  let completions: number[] = [];
+
+  const stats: SchedulerStats = {
+    state: "idle",
+    intervalMs: minIntervalMs,
+    lastLatencyMs: null,
+    avgLatencyMs: null,
+    completed: 0,
+    skipped: 0,
+    failed: 0,
+    rateLimited: 0,
+    consecutiveErrors: 0,
+    scansPerMinute: 0,
+    nextRunAt: null,
+    lastError: null
+  };
+
+  const emit = () => options.onStats?.({ ...stats });
+
+  const isCurrent = (gen: number) => active && gen === generation;
+
+  const schedule = (gen: number, delayMs: number, state: SchedulerState) => {
+    if (!isCurrent(gen)) return;
+    stats.state = state;
+    stats.nextRunAt = Date.now() + delayMs;
+    emit();
+    timer = setTimeout(() => run(gen), delayMs);
+  };
+
+  const run = async (gen: number) => {
+    timer = null;
+    if (!isCurrent(gen)) return;
+
+    controller = new AbortController();
+    stats.state = "running";
+    stats.nextRunAt = null;
+    emit();
+
+    const startedAt = performance.now();
+    try {
+      const outcome = await task(controller.signal);
+      if (!isCurrent(gen)) return;
+
+      if (outcome === "skipped") {
+        stats.skipped++;
+        schedule(gen, stats.intervalMs, "waiting");
+        return;
+      }
+
+      const latency = performance.now() - startedAt;
+      stats.lastLatencyMs = latency;
+      stats.avgLatencyMs = stats.avgLatencyMs === null
+        ? latency
+        : stats.avgLatencyMs + LATENCY_SMOOTHING * (latency - stats.avgLatencyMs);
+      stats.completed++;
+      stats.consecutiveErrors = 0;
+      stats.lastError = null;
+
+      const now = Date.now();
+      completions = [...completions.filter(t => now - t < 60000), now];
+      stats.scansPerMinute = completions.length;
+
+      stats.intervalMs = Math.min(maxIntervalMs, Math.max(minIntervalMs, stats.avgLatencyMs * LATENCY_HEADROOM));
+      schedule(gen, stats.intervalMs, "waiting");
+    } catch (error) {
+      if (!isCurrent(gen) || isAbortError(error)) return;
+
+      stats.failed++;
+      stats.lastError = error instanceof Error ? error.message : String(error);
+      const rateLimited = isRateLimitError(error);
+      if (rateLimited) stats.rateLimited++;
+
+      if (rateLimited || isTransientError(error)) {
+        stats.consecutiveErrors++;
+        const ceiling = Math.min(maxBackoffMs, baseBackoffMs * 2 ** (stats.consecutiveErrors - 1));
+        // Equal jitter: retry somewhere between half and all of the ceiling
+        schedule(gen, ceiling / 2 + Math.random() * (ceiling / 2), "backoff");
+      } else {
+        // Permanent errors (e.g. invalid model output) don't slow the loop down
+        schedule(gen, stats.intervalMs, "waiting");
+      }
+    } finally {
+      if (gen === generation) controller = null;
+    }
+  };
+
+  return {
+    start: () => {
+      if (active) return;
+      active = true;
+      run(++generation);
+    },
+    stop: () => {
+      active = false;
+      generation++;
+      if (timer) clearTimeout(timer);
+      timer = null;
+      controller?.abort();
+      stats.state = "idle";
+      stats.nextRunAt = null;
+      emit();
+    },
+    getStats: () => ({ ...stats })
+  };
+};
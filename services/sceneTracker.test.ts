@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { AnalysisResult, BoundingBox, Hazard, RoadSign, SafetyLevel } from "../types";
+import { hasNewTracks, updateTrackedScene } from "./sceneTracker";
+
+const result = (hazards: Hazard[], signs: RoadSign[] = []): AnalysisResult => ({
+  signs,
+  hazards,
+  safetyLevel: SafetyLevel.CAUTION,
+  recommendation: "",
+  timestamp: "",
+  capturedAt: "2026-01-01T00:00:00.000Z"
+});
+
+const boxAt = (x: number, y = 0.5): BoundingBox => ({ xMin: x - 0.05, yMin: y - 0.05, xMax: x + 0.05, yMax: y + 0.05 });
+
+const hazard = (type: string, description = "", box?: BoundingBox): Hazard =>
+  ({ type, severity: "HIGH", description, ...(box ? { box } : {}) });
+
+describe("updateTrackedScene", () => {
+  it("opens a track for every new detection", () => {
+    const scene = updateTrackedScene(null, result([hazard("Pedestrian"), hazard("Cyclist")]), 0);
+    expect(scene.hazards.map(h => [h.trackId, h.status])).toEqual([["T1", "NEW"], ["T2", "NEW"]]);
+    expect(hasNewTracks(scene)).toBe(true);
+  });
+
+  it("continues a track when the same object is seen again nearby", () => {
+    const first = updateTrackedScene(null, result([hazard("Pedestrian", "", boxAt(0.5))]), 0);
+    const second = updateTrackedScene(first, result([hazard("pedestrian", "", boxAt(0.55))]), 1000);
+    expect(second.hazards).toHaveLength(1);
+    expect(second.hazards[0]).toMatchObject({ trackId: "T1", status: "PERSISTING", hits: 2, firstSeen: 0, lastSeen: 1000 });
+    expect(hasNewTracks(second)).toBe(false);
+  });
+
+  it("never matches different types", () => {
+    const first = updateTrackedScene(null, result([hazard("Pedestrian")]), 0);
+    const second = updateTrackedScene(first, result([hazard("Debris")]), 1000);
+    expect(second.hazards.map(h => h.status)).toEqual(["CLEARED", "NEW"]);
+  });
+
+  it("fades cleared tracks out as their confidence decays", () => {
+    const first = updateTrackedScene(null, result([hazard("Pedestrian")]), 0);
+    const cleared = updateTrackedScene(first, result([]), 6000);
+    expect(cleared.hazards[0].status).toBe("CLEARED");
+    expect(cleared.hazards[0].confidence).toBeCloseTo(0.3);
+    expect(updateTrackedScene(cleared, result([]), 60000).hazards).toHaveLength(0);
+  });
+
+  it("uses the description to match objects that moved, in any script", () => {
+    const description = "पैदल यात्री सड़क पार कर रहा है";
+    const first = updateTrackedScene(null, result([hazard("Pedestrian", description, boxAt(0.3))]), 0);
+    const same = updateTrackedScene(first, result([hazard("Pedestrian", description, boxAt(0.4875))]), 1000);
+    const other = updateTrackedScene(first, result([hazard("Pedestrian", "", boxAt(0.4875))]), 1000);
+    expect(same.hazards.map(h => h.status)).toEqual(["PERSISTING"]);
+    expect(other.hazards.map(h => h.status)).toEqual(["CLEARED", "NEW"]);
+  });
+});
@@ -0,0 +1,138 @@
+import { AnalysisResult, BoundingBox, Hazard, RoadSign, TrackInfo, TrackedScene } from "../types";
+
+// Confidence halves for every HALF_LIFE_MS an object goes unseen.
+const HALF_LIFE_MS = 6000;
+const INITIAL_CONFIDENCE = 0.6;
+const HIT_BOOST = 0.3;
+// Cleared tracks stay listed until their confidence decays below this.
+const DROP_CONFIDENCE = 0.1;
+// Minimum similarity for a detection to continue an existing track.
+const MATCH_THRESHOLD = 0.35;
+
+type Detection = Hazard | RoadSign;
+
+const normalizeType = (type: string) => type.trim().toLowerCase();
+
+// Letters with their combining marks (Devanagari vowel signs) and digits in any script
+const tokenize = (text: string) =>
+  new Set(text.toLowerCase().split(/[^\p{L}\p{M}\p{N}]+/u).filter(token => token.length > 2));
+
+const jaccard = (a: Set<string>, b: Set<string>) => {
+  if (a.size === 0 && b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(token => { if (b.has(token)) shared++; });
+  return shared / (a.size + b.size - shared);
+};
+
+// 1 when the box centers coincide, falling to 0 at a quarter of the frame apart.
+// Cars move between scans, so centre distance is more forgiving than IoU.
+const boxProximity = (a: BoundingBox, b: BoundingBox) => {
+  const dx = (a.xMin + a.xMax) / 2 - (b.xMin + b.xMax) / 2;
+  const dy = (a.yMin + a.yMax) / 2 - (b.yMin + b.yMax) / 2;
+  return Math.max(0, 1 - Math.hypot(dx, dy) / 0.25);
+};
+
+const describe = (detection: Detection) =>
+  "description" in detection ? detection.description : `${detection.meaning} ${detection.location}`;
+
+/** Similarity in [0, 1]; objects of different types, or seen by different cameras, never match. */
+const similarity = (track: Detection, detection: Detection) => {
+  if (normalizeType(track.type) !== normalizeType(detection.type)) return 0;
+  if (track.camera !== detection.camera) return 0; // Different views of the car
+
+  const text = jaccard(tokenize(describe(track)), tokenize(describe(detection)));
+  if (track.box && detection.box) {
+    return 0.7 * boxProximity(track.box, detection.box) + 0.3 * text;
+  }
+  // Without positions the type match carries most of the weight
+  return 0.5 + 0.5 * text;
+};
+
+const decay = (confidence: number, elapsedMs: number) =>
+  confidence * Math.pow(0.5, Math.max(0, elapsedMs) / HALF_LIFE_MS);
+
+const trackList = <T extends Detection>(
+  tracks: (T & TrackInfo)[],
+  detections: T[],
+  now: number,
+  elapsedMs: number,
+  allocateId: () => string
+): (T & TrackInfo)[] => {
+  // Score every pair, then match greedily from the most similar down
+  const pairs: { track: number; detection: number; score: number }[] = [];
+  tracks.forEach((track, t) => {
+    detections.forEach((detection, d) => {
+      const score = similarity(track, detection);
+      if (score >= MATCH_THRESHOLD) pairs.push({ track: t, detection: d, score });
+    });
+  });
+  pairs.sort((a, b) => b.score - a.score);
+
+  const trackMatches = new Map<number, number>();
+  const matchedDetections = new Set<number>();
+  pairs.forEach(({ track, detection }) => {
+    if (trackMatches.has(track) || matchedDetections.has(detection)) return;
+    trackMatches.set(track, detection);
+    matchedDetections.add(detection);
+  });
+
+  const updated: (T & TrackInfo)[] = [];
+
+  tracks.forEach((track, t) => {
+    const detectionIdx = trackMatches.get(t);
+    const confidence = decay(track.confidence, elapsedMs);
+
+    if (detectionIdx !== undefined) {
+      updated.push({
+        ...detections[detectionIdx],
+        trackId: track.trackId,
+        status: "PERSISTING",
+        firstSeen: track.firstSeen,
+        lastSeen: now,
+        confidence: Math.min(1, confidence + HIT_BOOST),
+        hits: track.hits + 1
+      });
+    } else if (confidence >= DROP_CONFIDENCE) {
+      updated.push({ ...track, status: "CLEARED", confidence });
+    }
+  });
+
+  detections.forEach((detection, d) => {
+    if (matchedDetections.has(d)) return;
+    updated.push({
+      ...detection,
+      trackId: allocateId(),
+      status: "NEW",
+      firstSeen: now,
+      lastSeen: now,
+      confidence: INITIAL_CONFIDENCE,
+      hits: 1
+    });
+  });
+
+  return updated;
+};
+
+/**
+ * Folds a new scan into the tracked scene. Pure: returns a new TrackedScene.
+ * Hazards and signs are matched to existing tracks by type, position and description;
+ * unmatched tracks are marked CLEARED and fade out as their confidence decays.
+ */
+export const updateTrackedScene = (
+  previous: TrackedScene | null,
+  result: AnalysisResult,
+  now: number = Date.now()
+): TrackedScene => {
+  let nextTrackId = previous?.nextTrackId ?? 1;
+  const allocateId = () => `T${nextTrackId++}`;
+  // Stored confidences are as of the previous update, so decay by the time since then
+  const elapsedMs = previous ? now - previous.updatedAt : 0;
+
+  const hazards = trackList(previous?.hazards ?? [], result.hazards, now, elapsedMs, allocateId);
+  const signs = trackList(previous?.signs ?? [], result.signs, now, elapsedMs, allocateId);
+
+  return { hazards, signs, nextTrackId, updatedAt: now };
+};
+
+export const hasNewTracks = (scene: TrackedScene | null): boolean =>
+  !!scene && (scene.hazards.some(h => h.status === "NEW") || scene.signs.some(s => s.status === "NEW"));
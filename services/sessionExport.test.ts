@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { AnalysisHistoryItem, SafetyLevel } from "../types";
+import { exportSessionCsv, exportSessionJson, importSessionJson, SESSION_FORMAT, SESSION_VERSION } from "./sessionExport";
+
+const item = (overrides: Partial<AnalysisHistoryItem> = {}): AnalysisHistoryItem => ({
+  id: "scan-1",
+  savedAt: 1000,
+  timestamp: "10:00:00",
+  capturedAt: "2026-01-01T10:00:00.000Z",
+  signs: [],
+  hazards: [],
+  safetyLevel: SafetyLevel.SAFE,
+  recommendation: "Proceed",
+  ...overrides
+});
+
+const session = (analyses: unknown[], version: unknown = SESSION_VERSION) =>
+  JSON.stringify({ format: SESSION_FORMAT, version, exportedAt: "", analyses });
+
+describe("importSessionJson", () => {
+  it("round-trips an exported session", () => {
+    const original = item({ geo: { latitude: 48.2, longitude: 16.37, accuracy: 5, heading: 90, speed: 12.5 }, thumbnail: "data:image/jpeg;base64,AA" });
+    const [imported] = importSessionJson(exportSessionJson([original], { includeThumbnails: true }));
+    expect(imported).toEqual(original);
+  });
+
+  it("keeps only finite GeoTag fields", () => {
+    const [imported] = importSessionJson(session([
+      { ...item(), geo: { latitude: 1, longitude: 2, heading: 45, speed: "fast", accuracy: null, extra: "x" } }
+    ]));
+    expect(imported.geo).toEqual({ latitude: 1, longitude: 2, heading: 45 });
+  });
+
+  it("drops a position without finite coordinates and non-image thumbnails", () => {
+    const [imported] = importSessionJson(session([{ ...item(), geo: { latitude: "1", longitude: 2 }, thumbnail: "javascript:alert(1)" }]));
+    expect(imported.geo).toBeUndefined();
+    expect(imported.thumbnail).toBeUndefined();
+  });
+
+  it("rejects other files and newer versions", () => {
+    expect(() => importSessionJson("{")).toThrow(/not valid JSON/);
+    expect(() => importSessionJson(JSON.stringify({ analyses: [] }))).toThrow(/Not a NexVue session/);
+    expect(() => importSessionJson(session([], SESSION_VERSION + 1))).toThrow(/Unsupported session version/);
+  });
+
+  it("names the analysis that fails validation", () => {
+    expect(() => importSessionJson(session([item(), { ...item(), safetyLevel: "MAYBE" }]))).toThrow(/Analysis #2/);
+  });
+});
+
+describe("exportSessionCsv", () => {
+  it("writes a row per detection and a none row for empty scans", () => {
+    const csv = exportSessionCsv([
+      item({ hazards: [{ type: "Pothole", severity: "HIGH", description: "Deep, wide" }] }),
+      item({ id: "scan-2" })
+    ]);
+    const lines = csv.split("\r\n");
+    expect(lines).toHaveLength(3);
+    expect(lines[1]).toContain('hazard,Pothole,HIGH,"Deep, wide"');
+    expect(lines[2]).toMatch(/^scan-2,.*,none$/);
+  });
+
+  it("defuses cells a spreadsheet would run as a formula", () => {
+    const csv = exportSessionCsv([item({ recommendation: "=HYPERLINK(\"x\")" })]);
+    expect(csv.split("\r\n")[1]).toContain(`"'=HYPERLINK(""x"")"`);
+  });
+});
@@ -0,0 +1,268 @@
+import { AnalysisHistoryItem, GeoTag } from "../types";
+import { isRecord, validateAnalysis } from "./responseValidator";
+import { RoadSurvey, SURFACE_DEFECT_TYPES } from "./roadSurvey";
+
+// Bump SESSION_VERSION whenever the exported shape changes incompatibly.
+export const SESSION_FORMAT = "nexvue-session";
+export const SESSION_VERSION = 1;
+
+export interface SessionFile {
+  format: typeof SESSION_FORMAT;
+  version: number;
+  exportedAt: string;
+  analyses: AnalysisHistoryItem[];
+}
+
+export type SessionExportFormat = "json" | "csv" | "geojson";
+
+export interface ExportOptions {
+  includeThumbnails?: boolean;
+}
+
+export const exportSessionJson = (items: AnalysisHistoryItem[], options: ExportOptions = {}): string => {
+  const session: SessionFile = {
+    format: SESSION_FORMAT,
+    version: SESSION_VERSION,
+    exportedAt: new Date().toISOString(),
+    analyses: items.map(item => (options.includeThumbnails ? item : { ...item, thumbnail: undefined }))
+  };
+  return JSON.stringify(session, null, 2);
+};
+
+const CSV_COLUMNS = [
+  "analysis_id",
+  "captured_at",
+  "safety_level",
+  "recommendation",
+  "latitude",
+  "longitude",
+  "kind",
+  "type",
+  "severity",
+  "detail",
+  "location",
+  "box_x_min",
+  "box_y_min",
+  "box_x_max",
+  "box_y_max",
+  "sign_code",
+  "speed_limit",
+  "camera"
+];
+
+const csvCell = (value: string | number | undefined): string => {
+  if (value === undefined) return "";
+  // Text a spreadsheet would run as a formula (model output is untrusted) is quoted with a leading '
+  const text = typeof value === "string" && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * One row per hazard or sign. Scans with no detections still get a single
+ * "none" row so their safety level and recommendation are not lost.
+ */
+export const exportSessionCsv = (items: AnalysisHistoryItem[]): string => {
+  const rows: (string | number | undefined)[][] = [];
+
+  items.forEach(item => {
+    const base = [item.id, item.capturedAt, item.safetyLevel, item.recommendation, item.geo?.latitude, item.geo?.longitude];
+
+    item.hazards.forEach(hazard => {
+      rows.push([...base, "hazard", hazard.type, hazard.severity, hazard.description, "",
+        hazard.box?.xMin, hazard.box?.yMin, hazard.box?.xMax, hazard.box?.yMax, undefined, undefined, hazard.camera]);
+    });
+    item.signs.forEach(sign => {
+      rows.push([...base, "sign", sign.type, "", sign.meaning, sign.location,
+        sign.box?.xMin, sign.box?.yMin, sign.box?.xMax, sign.box?.yMax,
+        sign.code ?? undefined, sign.params?.speed !== undefined ? `${sign.params.speed} ${sign.params.unit ?? ""}`.trim() : undefined,
+        sign.camera]);
+    });
+    if (item.hazards.length === 0 && item.signs.length === 0) {
+      rows.push([...base, "none"]);
+    }
+  });
+
+  return [CSV_COLUMNS, ...rows].map(row => row.map(csvCell).join(",")).join("\r\n");
+};
+
+/**
+ * Point features for every hazard and sign of a geotagged scan.
+ * Returns null when no scan in the session carries a position.
+ */
+export const exportSessionGeoJson = (items: AnalysisHistoryItem[]): string | null => {
+  const located = items.filter(item => item.geo);
+  if (located.length === 0) return null;
+
+  const features = located.flatMap(item => {
+    const geometry = { type: "Point", coordinates: [item.geo!.longitude, item.geo!.latitude] };
+    const common = {
+      analysisId: item.id,
+      capturedAt: item.capturedAt,
+      safetyLevel: item.safetyLevel,
+      engine: item.engine,
+      profileId: item.profileId,
+      heading: item.geo!.heading,
+      speed: item.geo!.speed
+    };
+    return [
+      ...item.hazards.map(hazard => ({
+        type: "Feature",
+        geometry,
+        properties: { ...common, kind: "hazard", type: hazard.type, severity: hazard.severity, detail: hazard.description, camera: hazard.camera }
+      })),
+      ...item.signs.map(sign => ({
+        type: "Feature",
+        geometry,
+        properties: { ...common, kind: "sign", type: sign.type, detail: sign.meaning, code: sign.code, params: sign.params, camera: sign.camera }
+      }))
+    ];
+  });
+
+  return JSON.stringify({ type: "FeatureCollection", features }, null, 2);
+};
+
+// --- Road survey exports, for a works department ---
+
+const REPAIR_COLUMNS = [
+  "rank",
+  "defect",
+  "condition_index",
+  "length_m",
+  "width_m",
+  "latitude",
+  "longitude",
+  "segment",
+  "sightings",
+  "captured_at",
+  "analysis_id",
+  "description"
+];
+
+export const exportRepairListCsv = (survey: RoadSurvey): string => {
+  const rows = survey.repairs.map(item => [
+    item.rank,
+    SURFACE_DEFECT_TYPES[item.type].label,
+    item.conditionIndex,
+    item.lengthM,
+    item.widthM,
+    item.geo?.latitude,
+    item.geo?.longitude,
+    item.segment + 1,
+    item.sightings,
+    item.capturedAt,
+    item.analysisId,
+    item.description
+  ]);
+  return [REPAIR_COLUMNS, ...rows].map(row => row.map(csvCell).join(",")).join("\r\n");
+};
+
+const SEGMENT_COLUMNS = ["segment", "start_m", "end_m", "score", "scans", "defects", "start_latitude", "start_longitude", "end_latitude", "end_longitude"];
+
+export const exportSegmentsCsv = (survey: RoadSurvey): string => {
+  const rows = survey.segments.map(s => {
+    const first = s.path[0];
+    const final = s.path[s.path.length - 1];
+    return [s.index + 1, Math.round(s.startM), Math.round(s.endM), s.score, s.frames, s.defects,
+      first?.latitude, first?.longitude, final?.latitude, final?.longitude];
+  });
+  return [SEGMENT_COLUMNS, ...rows].map(row => row.map(csvCell).join(",")).join("\r\n");
+};
+
+/**
+ * Segments as scored lines and repair items as ranked points.
+ * Returns null when the survey has no positions.
+ */
+export const exportSurveyGeoJson = (survey: RoadSurvey): string | null => {
+  const lines = survey.segments.filter(s => s.path.length > 0).map(s => ({
+    type: "Feature",
+    geometry: s.path.length > 1
+      ? { type: "LineString", coordinates: s.path.map(p => [p.longitude, p.latitude]) }
+      : { type: "Point", coordinates: [s.path[0].longitude, s.path[0].latitude] },
+    properties: { kind: "segment", segment: s.index + 1, startM: Math.round(s.startM), endM: Math.round(s.endM), score: s.score, scans: s.frames, defects: s.defects }
+  }));
+  const points = survey.repairs.filter(item => item.geo).map(item => ({
+    type: "Feature",
+    geometry: { type: "Point", coordinates: [item.geo!.longitude, item.geo!.latitude] },
+    properties: {
+      kind: "defect",
+      rank: item.rank,
+      defect: SURFACE_DEFECT_TYPES[item.type].label,
+      conditionIndex: item.conditionIndex,
+      lengthM: item.lengthM,
+      widthM: item.widthM,
+      segment: item.segment + 1,
+      sightings: item.sightings,
+      capturedAt: item.capturedAt,
+      analysisId: item.analysisId,
+      detail: item.description
+    }
+  }));
+  if (lines.length === 0 && points.length === 0) return null;
+  return JSON.stringify({ type: "FeatureCollection", features: [...lines, ...points] }, null, 2);
+};
+
+// Only the fields of a GeoTag, and only finite numbers, so nothing else from the file rides along
+const OPTIONAL_GEO_FIELDS = ["accuracy", "heading", "speed"] as const;
+const readGeo = (value: unknown): GeoTag | undefined => {
+  if (!isRecord(value) || !Number.isFinite(value.latitude) || !Number.isFinite(value.longitude)) return undefined;
+  const geo: GeoTag = { latitude: value.latitude as number, longitude: value.longitude as number };
+  OPTIONAL_GEO_FIELDS.forEach(field => {
+    if (Number.isFinite(value[field])) geo[field] = value[field] as number;
+  });
+  return geo;
+};
+
+/**
+ * Parses a file written by exportSessionJson. Each analysis goes through the
+ * same validation as live model output, so a hand-edited file cannot crash the panel.
+ */
+export const importSessionJson = (text: string): AnalysisHistoryItem[] => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error("Session file is not valid JSON");
+  }
+
+  if (!isRecord(raw) || raw.format !== SESSION_FORMAT || !Array.isArray(raw.analyses)) {
+    throw new Error("Not a NexVue session file");
+  }
+  if (typeof raw.version !== "number" || raw.version > SESSION_VERSION) {
+    throw new Error(`Unsupported session version ${raw.version}; this build reads up to ${SESSION_VERSION}`);
+  }
+
+  return (raw.analyses as unknown[]).map((entry, idx): AnalysisHistoryItem => {
+    if (!isRecord(entry)) throw new Error(`Analysis #${idx + 1} in the session is invalid: expected an object`);
+    let analysis;
+    try {
+      analysis = validateAnalysis(entry);
+    } catch (err) {
+      throw new Error(`Analysis #${idx + 1} in the session is invalid: ${err instanceof Error ? err.message : err}`);
+    }
+
+    const capturedAt = typeof entry.capturedAt === "string" && !isNaN(Date.parse(entry.capturedAt))
+      ? entry.capturedAt
+      : new Date(Number(entry.savedAt) || Date.now()).toISOString();
+
+    return {
+      ...analysis,
+      id: typeof entry.id === "string" ? entry.id : `imported-${idx}`,
+      savedAt: Number(entry.savedAt) || Date.parse(capturedAt),
+      timestamp: typeof entry.timestamp === "string" ? entry.timestamp : new Date(capturedAt).toLocaleTimeString(),
+      capturedAt,
+      geo: readGeo(entry.geo),
+      thumbnail: typeof entry.thumbnail === "string" && entry.thumbnail.startsWith("data:image/") ? entry.thumbnail : undefined
+    };
+  });
+};
+
+/** Triggers a browser download of `content`. */
+export const downloadFile = (filename: string, content: string, mimeType: string): void => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Revoke on the next tick; some browsers start the download asynchronously
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
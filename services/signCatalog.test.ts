@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { RoadSign, SignRegion } from "../types";
+import { classifySign } from "./signCatalog";
+
+const sign = (type: string, meaning = ""): RoadSign => ({ type, meaning, location: "" });
+const classify = (type: string, region: SignRegion = "EU", meaning = "") => classifySign(sign(type, meaning), region);
+
+describe("classifySign", () => {
+  it("codes the usual speed-limit wordings with the posted value", () => {
+    expect(classify("Speed Limit 50")).toEqual({ code: "C,14", params: { speed: 50, unit: "km/h" } });
+    expect(classify("50 km/h limit")).toEqual({ code: "C,14", params: { speed: 50, unit: "km/h" } });
+    expect(classify("Max Speed 50")).toEqual({ code: "C,14", params: { speed: 50, unit: "km/h" } });
+    expect(classify("Speed Limit 35 mph", "US")).toEqual({ code: "R2-1", params: { speed: 35, unit: "mph" } });
+  });
+
+  it("codes a speed-limit sign without a readable value and no params", () => {
+    expect(classify("Max Speed")).toEqual({ code: "C,14" });
+    expect(classify("Speed limit sign")).toEqual({ code: "C,14" });
+  });
+
+  it("leaves limits that are not speed limits uncoded", () => {
+    expect(classify("Weight Limit 10")).toEqual({ code: null });
+    expect(classify("Axle load limit 10 t")).toEqual({ code: null });
+    expect(classify("Length limit 15 m")).toEqual({ code: null });
+    expect(classify("Height limit 4.5 m")).toEqual({ code: null });
+    expect(classify("Minimum speed 30")).toEqual({ code: null });
+    expect(classify("Parking limit 2 hours")).toEqual({ code: null });
+  });
+
+  it("prefers the end of a restriction over the restriction itself", () => {
+    expect(classify("End of speed limit 70")).toEqual({ code: "C,17b", params: { speed: 70, unit: "km/h" } });
+  });
+
+  it("keeps bumps and cameras apart from the speed limit", () => {
+    expect(classify("Speed bump")).toEqual({ code: "A,2b" });
+    expect(classify("Speed camera 50 km/h").params).toBeUndefined();
+  });
+
+  it("does not read a bus stop as a stop sign", () => {
+    expect(classify("Bus stop")).toEqual({ code: null });
+    expect(classify("Stop").code).not.toBeNull();
+  });
+
+  it("falls back to the meaning when the type is not recognized", () => {
+    expect(classify("Round sign", "EU", "Speed limit 30")).toEqual({ code: "C,14", params: { speed: 30, unit: "km/h" } });
+  });
+});
@@ -0,0 +1,217 @@
+import { RoadSign, SignParams, SignRegion } from "../types";
+import { ValidatedAnalysis } from "./responseValidator";
+
+// Maps free-text sign descriptions from the model onto a fixed catalog per
+// region, so "Speed Limit 50", "50 km/h limit" and "Max Speed 50" all become
+// the same code with { speed: 50 }.
+
+export type SignConcept =
+  | "stop"
+  | "give-way"
+  | "no-entry"
+  | "speed-limit"
+  | "no-overtaking"
+  | "no-left-turn"
+  | "no-right-turn"
+  | "pedestrian-crossing"
+  | "children"
+  | "road-works"
+  | "animals"
+  | "bend"
+  | "signals"
+  | "speed-bump"
+  | "speed-camera"
+  | "end-speed-limit"
+  | "end-no-overtaking"
+  | "end-school-zone"
+  | "end-all-restrictions";
+
+/** Drawing hints for SignIcon; `glyph` may contain {speed}. */
+export interface SignIconSpec {
+  shape: "octagon" | "inverted-triangle" | "no-entry" | "ring" | "end" | "triangle" | "diamond" | "rect" | "square";
+  glyph?: string;
+  slash?: boolean; // Red diagonal bar across the glyph (prohibitions)
+  tone?: "orange"; // Temporary traffic control (US road works)
+}
+
+export interface SignCatalogEntry {
+  concept: SignConcept;
+  code: string;
+  name: string;
+  icon: SignIconSpec;
+}
+
+export interface SignCatalog {
+  region: SignRegion;
+  label: string;
+  standard: string;
+  defaultUnit: NonNullable<SignParams["unit"]>;
+  entries: SignCatalogEntry[];
+}
+
+// Checked in order: the first pattern that matches the sign text wins, so the
+// limits the catalog does not cover (weight, size, parking, minimum speed) are
+// ruled out first, the specific prohibitions come before the generic warnings
+// they mention, the "end of" signs before the restrictions they cancel, and
+// the other signs that say "speed" before the speed limit.
+const CONCEPT_PATTERNS: [SignConcept | null, RegExp][] = [
+  [null, /weight|height|width|length|axle|load|clearance|parking|min(imum|\.)? speed/],
+  ["end-all-restrictions", /end of (all )?(restrictions|prohibitions)|restrictions? ends?/],
+  ["end-speed-limit", /\bend\b.*(speed|km\/?h|mph)|(speed|km\/?h|mph).*\bends?\b|derestrict/],
+  ["end-no-overtaking", /\bend\b.*(overtaking|passing)|(overtaking|passing).*\bends?\b|pass with care/],
+  ["end-school-zone", /\bend\b.*school|school.*\bends?\b/],
+  ["speed-bump", /bump|hump|speed (breaker|table)/],
+  ["speed-camera", /camera|radar|photo enforce/],
+  ["speed-limit", /speed limit|max(imum|\.)? speed|km\/?h|kph|mph/],
+  ["no-entry", /no entry|do not enter|wrong way/],
+  ["stop", /(?<!\bbus )\bstop\b/],
+  ["give-way", /give way|yield/],
+  ["no-overtaking", /no (overtaking|passing)|do not pass/],
+  ["no-left-turn", /no left/],
+  ["no-right-turn", /no right/],
+  ["children", /child|school/],
+  ["pedestrian-crossing", /pedestrian|crosswalk|zebra/],
+  ["road-works", /road ?work|men at work|construction/],
+  ["animals", /animal|deer|cattle|wildlife/],
+  ["signals", /traffic (light|signal)|signal ahead/],
+  ["bend", /bend|curve|turn ahead/]
+];
+
+const entry = (concept: SignConcept, code: string, name: string, icon: SignIconSpec): SignCatalogEntry =>
+  ({ concept, code, name, icon });
+
+export const SIGN_CATALOGS: Record<SignRegion, SignCatalog> = {
+  EU: {
+    region: "EU",
+    label: "EU",
+    standard: "Vienna Convention",
+    defaultUnit: "km/h",
+    entries: [
+      entry("stop", "B,2a", "Stop", { shape: "octagon", glyph: "STOP" }),
+      entry("give-way", "B,1", "Give way", { shape: "inverted-triangle" }),
+      entry("no-entry", "C,1a", "No entry", { shape: "no-entry" }),
+      entry("speed-limit", "C,14", "Maximum speed", { shape: "ring", glyph: "{speed}" }),
+      entry("no-overtaking", "C,13aa", "No overtaking", { shape: "ring", glyph: "⇉" }),
+      entry("no-left-turn", "C,11a", "No left turn", { shape: "ring", glyph: "↰", slash: true }),
+      entry("no-right-turn", "C,11b", "No right turn", { shape: "ring", glyph: "↱", slash: true }),
+      entry("pedestrian-crossing", "E,12a", "Pedestrian crossing", { shape: "square", glyph: "🚶" }),
+      entry("children", "A,13", "Children", { shape: "triangle", glyph: "🚸" }),
+      entry("road-works", "A,16", "Road works", { shape: "triangle", glyph: "🚧" }),
+      entry("animals", "A,15", "Animals", { shape: "triangle", glyph: "🦌" }),
+      entry("bend", "A,1a", "Dangerous bend", { shape: "triangle", glyph: "↱" }),
+      entry("signals", "A,17", "Traffic signals", { shape: "triangle", glyph: "🚦" }),
+      entry("speed-bump", "A,2b", "Bump", { shape: "triangle", glyph: "⌒" }),
+      entry("end-all-restrictions", "C,17a", "End of all prohibitions", { shape: "end" }),
+      entry("end-speed-limit", "C,17b", "End of speed limit", { shape: "end", glyph: "{speed}" }),
+      entry("end-no-overtaking", "C,17c", "End of no overtaking", { shape: "end", glyph: "⇉" })
+    ]
+  },
+  US: {
+    region: "US",
+    label: "US",
+    standard: "MUTCD",
+    defaultUnit: "mph",
+    entries: [
+      entry("stop", "R1-1", "Stop", { shape: "octagon", glyph: "STOP" }),
+      entry("give-way", "R1-2", "Yield", { shape: "inverted-triangle", glyph: "YIELD" }),
+      entry("no-entry", "R5-1", "Do not enter", { shape: "no-entry" }),
+      entry("speed-limit", "R2-1", "Speed limit", { shape: "rect", glyph: "{speed}" }),
+      entry("no-overtaking", "R4-1", "Do not pass", { shape: "rect", glyph: "NO PASS" }),
+      entry("no-left-turn", "R3-2", "No left turn", { shape: "ring", glyph: "↰", slash: true }),
+      entry("no-right-turn", "R3-1", "No right turn", { shape: "ring", glyph: "↱", slash: true }),
+      entry("pedestrian-crossing", "W11-2", "Pedestrian crossing", { shape: "diamond", glyph: "🚶" }),
+      entry("children", "S1-1", "School", { shape: "diamond", glyph: "🚸" }),
+      entry("road-works", "W20-1", "Road work ahead", { shape: "diamond", glyph: "🚧", tone: "orange" }),
+      entry("animals", "W11-3", "Deer crossing", { shape: "diamond", glyph: "🦌" }),
+      entry("bend", "W1-2", "Curve", { shape: "diamond", glyph: "↱" }),
+      entry("signals", "W3-3", "Signal ahead", { shape: "diamond", glyph: "🚦" }),
+      entry("speed-bump", "W17-1", "Speed hump", { shape: "diamond", glyph: "⌒" }),
+      entry("speed-camera", "R10-19P", "Photo enforced", { shape: "rect", glyph: "📷" }),
+      entry("end-no-overtaking", "R4-2", "Pass with care", { shape: "rect", glyph: "PASS WITH CARE" }),
+      entry("end-school-zone", "S5-2", "End school zone", { shape: "rect", glyph: "END SCHOOL" })
+    ]
+  },
+  // IRC:67 groups signs as mandatory (M), cautionary (C) and informatory; the
+  // codes below are catalog ids within those groups.
+  IN: {
+    region: "IN",
+    label: "India",
+    standard: "IRC:67",
+    defaultUnit: "km/h",
+    entries: [
+      entry("stop", "M-STOP", "Stop", { shape: "octagon", glyph: "STOP" }),
+      entry("give-way", "M-GIVE-WAY", "Give way", { shape: "inverted-triangle" }),
+      entry("no-entry", "M-NO-ENTRY", "No entry", { shape: "no-entry" }),
+      entry("speed-limit", "M-SPEED", "Speed limit", { shape: "ring", glyph: "{speed}" }),
+      entry("no-overtaking", "M-NO-OVERTAKING", "Overtaking prohibited", { shape: "ring", glyph: "⇉" }),
+      entry("no-left-turn", "M-NO-LEFT", "Left turn prohibited", { shape: "ring", glyph: "↰", slash: true }),
+      entry("no-right-turn", "M-NO-RIGHT", "Right turn prohibited", { shape: "ring", glyph: "↱", slash: true }),
+      entry("pedestrian-crossing", "C-PEDESTRIAN", "Pedestrian crossing", { shape: "triangle", glyph: "🚶" }),
+      entry("children", "C-SCHOOL", "School ahead", { shape: "triangle", glyph: "🚸" }),
+      entry("road-works", "C-MEN-AT-WORK", "Men at work", { shape: "triangle", glyph: "🚧" }),
+      entry("animals", "C-CATTLE", "Cattle", { shape: "triangle", glyph: "🐄" }),
+      entry("bend", "C-BEND", "Bend", { shape: "triangle", glyph: "↱" }),
+      entry("signals", "C-SIGNALS", "Traffic signal ahead", { shape: "triangle", glyph: "🚦" }),
+      entry("speed-bump", "C-SPEED-BREAKER", "Speed breaker", { shape: "triangle", glyph: "⌒" }),
+      entry("end-all-restrictions", "M-RESTRICTION-ENDS", "Restriction ends", { shape: "end" })
+    ]
+  }
+};
+
+export const SIGN_REGIONS = Object.keys(SIGN_CATALOGS) as SignRegion[];
+export const DEFAULT_SIGN_REGION: SignRegion = "EU";
+
+const REGION_STORAGE_KEY = "nexvue.signRegion";
+
+export const loadSignRegion = (): SignRegion => {
+  const stored = localStorage.getItem(REGION_STORAGE_KEY);
+  return stored && stored in SIGN_CATALOGS ? (stored as SignRegion) : DEFAULT_SIGN_REGION;
+};
+
+export const saveSignRegion = (region: SignRegion): void => {
+  localStorage.setItem(REGION_STORAGE_KEY, region);
+};
+
+export const getCatalogEntry = (region: SignRegion, code: string): SignCatalogEntry | undefined =>
+  SIGN_CATALOGS[region].entries.find(e => e.code === code);
+
+// Plausible posted limits; anything else is more likely a distance or a route number
+const parseSpeedValue = (text: string): number | undefined => {
+  const match = text.match(/\b(\d{1,3})\b/);
+  const speed = match ? Number(match[1]) : NaN;
+  return speed >= 5 && speed <= 160 && speed % 5 === 0 ? speed : undefined;
+};
+
+/**
+ * Catalog code and parameters for one sign. The English `type` is matched
+ * first; `meaning` is only a fallback since it may be in another language.
+ */
+export const classifySign = (sign: RoadSign, region: SignRegion): Pick<RoadSign, "code" | "params"> => {
+  const catalog = SIGN_CATALOGS[region];
+  const candidates = [sign.type, `${sign.type} ${sign.meaning}`].map(text => text.toLowerCase());
+
+  for (const text of candidates) {
+    const found = CONCEPT_PATTERNS.find(([, pattern]) => pattern.test(text));
+    if (!found) continue;
+    const [concept] = found;
+    if (concept === null) return { code: null };
+
+    const match = catalog.entries.find(e => e.concept === concept);
+    if (!match) return { code: null };
+    if (concept !== "speed-limit" && concept !== "end-speed-limit") return { code: match.code };
+
+    const speed = candidates.map(parseSpeedValue).find(v => v !== undefined);
+    if (speed === undefined) return { code: match.code };
+    const all = candidates[1];
+    const unit = /mph/.test(all) ? "mph" : /km\/?h|kph/.test(all) ? "km/h" : catalog.defaultUnit;
+    return { code: match.code, params: { speed, unit } };
+  }
+  return { code: null };
+};
+
+/** Adds catalog codes to every sign of a provider result. */
+export const classifyAnalysis = (analysis: ValidatedAnalysis, region: SignRegion = DEFAULT_SIGN_REGION): ValidatedAnalysis => ({
+  ...analysis,
+  signRegion: region,
+  signs: analysis.signs.map(sign => ({ ...sign, ...classifySign(sign, region) }))
+});
@@ -0,0 +1,82 @@
+import { AlertPriority, PRIORITY_RANK } from "./alertEngine";
+
+export interface SpeechRequest {
+  text: string;
+  priority: AlertPriority;
+  interrupt?: boolean;
+  lang?: string; // BCP 47 tag; picks a matching voice when one is installed
+}
+
+export interface SpeechQueue {
+  enqueue: (request: SpeechRequest) => void;
+  clear: () => void;
+  isAvailable: () => boolean;
+}
+
+// Older queued lines go stale quickly while driving; drop them beyond this.
+const MAX_QUEUED = 3;
+
+// Exact tag first ("es-ES"), then any voice for the language ("es-MX")
+const pickVoice = (lang: string): SpeechSynthesisVoice | null => {
+  const voices = window.speechSynthesis.getVoices();
+  const base = lang.split("-")[0].toLowerCase();
+  return voices.find(v => v.lang.toLowerCase() === lang.toLowerCase())
+    ?? voices.find(v => v.lang.toLowerCase().split(/[-_]/)[0] === base)
+    ?? null;
+};
+
+/**
+ * Priority queue on top of speechSynthesis. Higher priority lines jump ahead of
+ * lower ones; `interrupt` cancels the current utterance and anything less urgent.
+ */
+export const createSpeechQueue = (): SpeechQueue => {
+  let queue: SpeechRequest[] = [];
+  let speaking: SpeechRequest | null = null;
+
+  const isAvailable = () => typeof window !== "undefined" && !!window.speechSynthesis;
+
+  const next = () => {
+    speaking = null;
+    const request = queue.shift();
+    if (!request || !isAvailable()) return;
+
+    speaking = request;
+    const utterance = new SpeechSynthesisUtterance(request.text);
+    utterance.rate = 1.1; // Slightly faster for alerts
+    utterance.pitch = 1.0;
+    if (request.lang) {
+      utterance.lang = request.lang;
+      const voice = pickVoice(request.lang);
+      if (voice) utterance.voice = voice;
+    }
+    utterance.onend = () => { if (speaking === request) next(); };
+    utterance.onerror = () => { if (speaking === request) next(); };
+    window.speechSynthesis.speak(utterance);
+  };
+
+  return {
+    enqueue: request => {
+      if (!isAvailable()) return;
+
+      if (request.interrupt) {
+        const rank = PRIORITY_RANK[request.priority];
+        queue = queue.filter(item => PRIORITY_RANK[item.priority] > rank);
+        speaking = null;
+        window.speechSynthesis.cancel();
+      }
+
+      // Insert after everything of equal or higher priority
+      const idx = queue.findIndex(item => PRIORITY_RANK[item.priority] < PRIORITY_RANK[request.priority]);
+      queue.splice(idx === -1 ? queue.length : idx, 0, request);
+      queue = queue.slice(0, MAX_QUEUED);
+
+      if (!speaking) next();
+    },
+    clear: () => {
+      queue = [];
+      speaking = null;
+      if (isAvailable()) window.speechSynthesis.cancel();
+    },
+    isAvailable
+  };
+};
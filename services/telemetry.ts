@@ -0,0 +1,100 @@
+import { AnalysisMetrics } from "../types";
+
+// Per-analysis measurements kept in a rolling window, summarized as
+// percentiles for the diagnostics panel. Token totals cover the whole session.
+
+const DEFAULT_WINDOW = 200;
+
+export type TelemetryErrorKind = "rate-limit" | "invalid-output" | "failed";
+
+export interface TelemetrySample extends AnalysisMetrics {
+  at: number; // Epoch ms
+  engine?: string;
+  error?: { kind: TelemetryErrorKind; message: string };
+}
+
+export interface Percentiles {
+  p50: number;
+  p90: number;
+  p99: number;
+}
+
+export interface TelemetrySnapshot {
+  samples: number; // Analyses in the window, failed ones included
+  errors: number;
+  errorRate: number | null;
+  errorsByKind: Partial<Record<TelemetryErrorKind, number>>;
+  latencyMs: Percentiles | null;
+  captureMs: Percentiles | null;
+  frameBytes: Percentiles | null;
+  promptTokens: Percentiles | null;
+  outputTokens: Percentiles | null;
+  sessionTokens: number;
+  lastModel: string | null;
+  lastError: { at: number; kind: TelemetryErrorKind; message: string } | null;
+}
+
+export interface Telemetry {
+  record: (sample: TelemetrySample) => TelemetrySnapshot;
+  snapshot: () => TelemetrySnapshot;
+  reset: () => void;
+}
+
+/** Nearest-rank percentile of an ascending list. */
+export const percentile = (sorted: number[], p: number): number =>
+  sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil((p / 100) * sorted.length) - 1))];
+
+const summarize = (values: (number | undefined)[]): Percentiles | null => {
+  const sorted = values.filter((v): v is number => typeof v === "number").sort((a, b) => a - b);
+  if (sorted.length === 0) return null;
+  return { p50: percentile(sorted, 50), p90: percentile(sorted, 90), p99: percentile(sorted, 99) };
+};
+
+export const createTelemetry = (windowSize: number = DEFAULT_WINDOW): Telemetry => {
+  let samples: TelemetrySample[] = [];
+  let sessionTokens = 0;
+
+  const snapshot = (): TelemetrySnapshot => {
+    const ok = samples.filter(s => !s.error);
+    const failed = samples.filter(s => s.error);
+    const errorsByKind: TelemetrySnapshot["errorsByKind"] = {};
+    failed.forEach(s => {
+      errorsByKind[s.error!.kind] = (errorsByKind[s.error!.kind] ?? 0) + 1;
+    });
+    const last = failed[failed.length - 1];
+
+    return {
+      samples: samples.length,
+      errors: failed.length,
+      errorRate: samples.length ? failed.length / samples.length : null,
+      errorsByKind,
+      latencyMs: summarize(ok.map(s => s.latencyMs)),
+      captureMs: summarize(samples.map(s => s.captureMs)),
+      frameBytes: summarize(samples.map(s => s.frameBytes)),
+      promptTokens: summarize(ok.map(s => s.promptTokens)),
+      outputTokens: summarize(ok.map(s => s.outputTokens)),
+      sessionTokens,
+      lastModel: [...ok].reverse().find(s => s.model)?.model ?? null,
+      lastError: last ? { at: last.at, ...last.error! } : null
+    };
+  };
+
+  return {
+    record: sample => {
+      samples = [...samples, sample].slice(-windowSize);
+      sessionTokens += sample.totalTokens ?? (sample.promptTokens ?? 0) + (sample.outputTokens ?? 0);
+      return snapshot();
+    },
+    snapshot,
+    reset: () => {
+      samples = [];
+      sessionTokens = 0;
+    }
+  };
+};
+
+/** Approximate size of a data URL's decoded payload. */
+export const dataUrlBytes = (dataUrl: string): number => {
+  const comma = dataUrl.indexOf(",");
+  return Math.round(((dataUrl.length - comma - 1) * 3) / 4);
+};
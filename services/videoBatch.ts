@@ -0,0 +1,142 @@
+import { PreprocessingRecord, SignRegion, VideoBatchEntry } from "../types";
+import { VisionProvider, createAbortError } from "./visionProvider";
+import { createLimiter, isAbortError } from "./concurrency";
+import { DEFAULT_PREPROCESS_SETTINGS, PreprocessSettings, preprocessFrame } from "./preprocessing";
+
+export interface VideoBatchOptions {
+  intervalSec: number; // Spacing between sampled frames
+  concurrency: number; // Max analysis requests in flight
+  jpegQuality?: number;
+  maxWidth?: number | null; // Downscale wider frames before encoding
+  preprocess?: PreprocessSettings; // Same pipeline as live capture; off when unset
+  language?: string; // Passed through to the provider
+  signRegion?: SignRegion;
+  profileId?: string;
+  signal?: AbortSignal;
+  onProgress?: (done: number, total: number) => void;
+  onEntry?: (entry: VideoBatchEntry) => void;
+}
+
+const waitForEvent = (target: HTMLMediaElement, event: string, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      target.removeEventListener(event, onEvent);
+      target.removeEventListener("error", onError);
+      signal?.removeEventListener("abort", onAbort);
+    };
+    const onEvent = () => { cleanup(); resolve(); };
+    const onError = () => { cleanup(); reject(new Error("Video could not be decoded")); };
+    const onAbort = () => { cleanup(); reject(createAbortError()); };
+
+    target.addEventListener(event, onEvent, { once: true });
+    target.addEventListener("error", onError, { once: true });
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+};
+
+// Files written by MediaRecorder report an Infinity duration until the end has been seeked to
+const resolveDuration = async (video: HTMLVideoElement, signal?: AbortSignal): Promise<number> => {
+  if (Number.isFinite(video.duration)) return video.duration;
+  const seeked = waitForEvent(video, "seeked", signal);
+  video.currentTime = Number.MAX_SAFE_INTEGER;
+  await seeked;
+  if (!Number.isFinite(video.duration)) throw new Error("Video has no known duration, so it cannot be sampled");
+  return video.duration;
+};
+
+/**
+ * Frame timestamps from 0 up to (but excluding) the end of the video. An
+ * unknown (non-finite) duration yields no frames rather than an endless list.
+ */
+export const sampleTimes = (duration: number, intervalSec: number): number[] => {
+  if (!Number.isFinite(duration)) return [];
+  const step = Number.isFinite(intervalSec) ? Math.max(0.1, intervalSec) : 0.1;
+  const times: number[] = [];
+  for (let t = 0; t < duration; t += step) {
+    times.push(Math.round(t * 1000) / 1000);
+  }
+  return times;
+};
+
+/**
+ * Samples a video at a fixed interval and analyzes every frame.
+ * Frames are captured from a detached <video> so the visible player is left alone;
+ * seeking is sequential, analysis runs with bounded concurrency.
+ * Resolves with entries sorted by time. Rejects with an AbortError when cancelled.
+ */
+export const analyzeVideo = async (
+  src: string,
+  provider: VisionProvider,
+  options: VideoBatchOptions
+): Promise<VideoBatchEntry[]> => {
+  const { signal, onProgress, onEntry } = options;
+
+  const video = document.createElement("video");
+  video.muted = true;
+  video.preload = "auto";
+  video.playsInline = true;
+  const loaded = waitForEvent(video, "loadeddata", signal);
+  video.src = src;
+  await loaded;
+
+  const canvas = document.createElement("canvas");
+  if (!canvas.getContext("2d")) throw new Error("Canvas 2D context unavailable");
+
+  const times = sampleTimes(await resolveDuration(video, signal), options.intervalSec);
+  const limiter = createLimiter(options.concurrency);
+  const entries: VideoBatchEntry[] = [];
+  const pending: Promise<void>[] = [];
+  let done = 0;
+  onProgress?.(0, times.length);
+
+  try {
+    for (const time of times) {
+      // Wait for a free slot before capturing, so at most `concurrency` frames sit in memory
+      await limiter.acquire();
+      if (signal?.aborted) {
+        limiter.release();
+        throw createAbortError();
+      }
+
+      let frame: string;
+      let preprocessing: PreprocessingRecord;
+      try {
+        const seeked = waitForEvent(video, "seeked", signal);
+        video.currentTime = time;
+        await seeked;
+        preprocessing = preprocessFrame(video, video.videoWidth, video.videoHeight, canvas, options.preprocess ?? DEFAULT_PREPROCESS_SETTINGS, options.maxWidth);
+        frame = canvas.toDataURL("image/jpeg", options.jpegQuality ?? 0.8);
+      } catch (err) {
+        limiter.release();
+        throw err;
+      }
+
+      const task = (async () => {
+        let entry: VideoBatchEntry;
+        try {
+          const result = await provider.analyze(frame, { signal, language: options.language, signRegion: options.signRegion, profileId: options.profileId });
+          entry = { time, result: options.preprocess?.enabled ? { ...result, preprocessing } : result };
+        } catch (err) {
+          if (isAbortError(err) || signal?.aborted) throw createAbortError();
+          entry = { time, result: null, error: err instanceof Error ? err.message : String(err) };
+        } finally {
+          limiter.release();
+        }
+        entries.push(entry);
+        done++;
+        onEntry?.(entry);
+        onProgress?.(done, times.length);
+      })();
+      // Mark as handled now; a rejection still surfaces through Promise.all below
+      task.catch(() => undefined);
+      pending.push(task);
+    }
+
+    await Promise.all(pending);
+  } finally {
+    video.removeAttribute("src");
+    video.load();
+  }
+
+  return entries.sort((a, b) => a.time - b.time);
+};
@@ -0,0 +1,34 @@
+import { AnalysisResult, SignRegion } from "../types";
+import { ValidatedAnalysis } from "./responseValidator";
+import type { LiveBackend } from "./liveSession";
+
+export interface AnalyzeOptions {
+  signal?: AbortSignal; // Lets callers drop a request they no longer need
+  language?: string; // LanguageCode for free-text fields (meaning, description, recommendation)
+  signRegion?: SignRegion; // Catalog used to code detected signs
+  profileId?: string; // Analysis profile (model, prompt, schema extensions)
+}
+
+/**
+ * A backend that turns a captured frame into an AnalysisResult.
+ * `frame` is a data URL (or raw base64) of a JPEG/PNG image.
+ */
+export interface VisionProvider {
+  id: string;
+  label: string;
+  analyze: (frame: string, options?: AnalyzeOptions) => Promise<AnalysisResult>;
+  live?: LiveBackend; // Streaming session, when the backend supports one
+}
+
+export const createAbortError = (): Error => {
+  const error = new Error("Analysis aborted");
+  error.name = "AbortError";
+  return error;
+};
+
+/** Adds the display and ISO timestamps every provider result carries. */
+export const stampAnalysis = (analysis: ValidatedAnalysis, at: Date = new Date()): AnalysisResult => ({
+  ...analysis,
+  timestamp: at.toLocaleTimeString(),
+  capturedAt: at.toISOString()
+});
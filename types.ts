@@ -4,16 +4,118 @@ export enum SafetyLevel {
   DANGER = 'DANGER'
 }
 
+// Normalized (0-1) coordinates relative to the analyzed frame
+export interface BoundingBox {
+  xMin: number;
+  yMin: number;
+  xMax: number;
+  yMax: number;
+}
+
+export type SignRegion = 'EU' | 'US' | 'IN';
+
+export interface SignParams {
+  speed?: number; // Speed limit value
+  unit?: 'km/h' | 'mph';
+}
+
+export interface RegulatoryRule {
+  code: string; // Catalog code of the sign that set it
+  since: number; // Epoch ms
+}
+
+export interface SpeedLimitState extends RegulatoryRule {
+  value: number;
+  unit: 'km/h' | 'mph';
+}
+
+/** Restrictions in force, carried across scans until a sign ends or replaces them. */
+export interface RegulatoryState {
+  region: SignRegion;
+  speedLimit: SpeedLimitState | null;
+  noOvertaking: RegulatoryRule | null;
+  schoolZone: RegulatoryRule | null;
+  updatedAt: number;
+}
+
 export interface RoadSign {
   type: string;
   meaning: string;
   location: string;
+  box?: BoundingBox; // Missing on scans saved before boxes were requested
+  code?: string | null; // Catalog code in the result's signRegion; null = no catalog match, undefined = not classified
+  params?: SignParams;
+  camera?: string; // Multi-camera scans: label of the camera that saw it
 }
 
 export interface Hazard {
   type: string; // e.g., Pothole, Pedestrian, Debris
   severity: 'LOW' | 'MEDIUM' | 'HIGH';
   description: string;
+  box?: BoundingBox;
+  camera?: string; // Multi-camera scans: label of the camera that saw it
+}
+
+export type SurfaceDefectType =
+  | 'POTHOLE'
+  | 'LONGITUDINAL_CRACKING'
+  | 'TRANSVERSE_CRACKING'
+  | 'ALLIGATOR_CRACKING'
+  | 'RUTTING'
+  | 'RAVELING'
+  | 'EDGE_BREAK'
+  | 'PATCH'
+  | 'FADED_MARKING'
+  | 'STANDING_WATER';
+
+/** Pavement defect reported by the road survey profile. */
+export interface SurfaceDefect {
+  type: SurfaceDefectType;
+  conditionIndex: number; // 1 (failed) to 5 (sound), for the pavement at the defect
+  lengthM?: number; // Estimated extent along the road
+  widthM?: number;
+  description: string;
+  box?: BoundingBox;
+  camera?: string; // Multi-camera scans: label of the camera that saw it
+}
+
+export interface GeoTag {
+  latitude: number;
+  longitude: number;
+  accuracy?: number; // Meters
+  heading?: number; // Degrees clockwise from true north
+  speed?: number; // Meters per second
+}
+
+/** Timing and usage of one analysis, for the diagnostics panel. */
+export interface AnalysisMetrics {
+  model?: string; // Model that answered, e.g. "gemini-2.5-flash"
+  latencyMs?: number; // Request sent to validated result
+  captureMs?: number; // Grabbing and encoding the frame
+  frameBytes?: number; // Encoded frame size
+  promptTokens?: number;
+  outputTokens?: number;
+  totalTokens?: number;
+}
+
+export type PreprocessOp = 'crop' | 'resize' | 'denoise' | 'exposure' | 'equalize';
+
+/** One image operation applied to a captured frame before it was encoded. */
+export interface PreprocessStep {
+  op: PreprocessOp;
+  params: Record<string, number>; // e.g. { gamma: 0.62 } or { width: 1280, height: 540 }
+}
+
+export interface PreprocessingRecord {
+  steps: PreprocessStep[]; // In the order they ran
+  region?: BoundingBox; // Part of the source frame that was sent; boxes in the result are relative to it
+}
+
+/** One camera's verdict within a merged multi-camera scan. */
+export interface CameraAssessment {
+  camera: string; // Camera label, matching `camera` on its hazards and signs
+  safetyLevel: SafetyLevel | null; // null when that camera's analysis failed
+  recommendation: string;
 }
 
 export interface AnalysisResult {
@@ -21,10 +123,105 @@ export interface AnalysisResult {
   hazards: Hazard[];
   safetyLevel: SafetyLevel;
   recommendation: string;
-  timestamp: string;
+  timestamp: string; // Local display time
+  capturedAt: string; // ISO 8601, used for exports and ordering
+  geo?: GeoTag;
+  signRegion?: SignRegion; // Catalog the sign codes refer to
+  engine?: string; // Id of the provider or detector that produced it, e.g. "gemini" or "on-device"
+  profileId?: string; // Analysis profile the frame was analyzed with
+  attributes?: Record<string, string>; // Scene fields the profile asked for, e.g. visibility
+  cameras?: CameraAssessment[]; // Set when several cameras were merged; the overall level is the worst of them
+  defects?: SurfaceDefect[]; // Only on scans whose profile surveys the road surface; empty means a clean frame
+  metrics?: AnalysisMetrics;
+  preprocessing?: PreprocessingRecord; // Set when the frame was cropped, resized or enhanced before analysis
 }
 
 export interface AnalysisHistoryItem extends AnalysisResult {
   id: string;
+  savedAt: number; // Epoch ms, used to order the history timeline
   thumbnail?: string; // Base64 thumbnail
-}
\ No newline at end of file
+}
+
+/** Reviewer-corrected truth for one frame. */
+export interface GroundTruth {
+  hazards: Hazard[];
+  signs: RoadSign[];
+  safetyLevel: SafetyLevel;
+  signRegion: SignRegion; // Catalog the sign codes refer to
+}
+
+/** A frame in the evaluation dataset. */
+export interface LabeledFrame {
+  id: string;
+  frame: string; // JPEG data URL, exactly what the analyzer saw
+  labeledAt: number; // Epoch ms
+  labels: GroundTruth;
+  prediction?: AnalysisResult; // Result the reviewer started from
+  note?: string;
+}
+
+// --- Temporal tracking across consecutive scans ---
+
+export type TrackStatus = 'NEW' | 'PERSISTING' | 'CLEARED';
+
+export interface TrackInfo {
+  trackId: string;
+  status: TrackStatus;
+  firstSeen: number; // Epoch ms
+  lastSeen: number; // Epoch ms
+  confidence: number; // 0-1, decays while the object is not re-detected
+  hits: number; // Number of scans the object was matched in
+}
+
+export type TrackedHazard = Hazard & TrackInfo;
+export type TrackedSign = RoadSign & TrackInfo;
+
+export interface TrackedScene {
+  hazards: TrackedHazard[];
+  signs: TrackedSign[];
+  nextTrackId: number;
+  updatedAt: number;
+}
+
+// --- Offline video batch analysis ---
+
+export interface VideoBatchEntry {
+  time: number; // Seconds into the video
+  result: AnalysisResult | null;
+  error?: string;
+}
+
+// --- Image set batch analysis ---
+
+export type ImageBatchStatus = 'queued' | 'analyzing' | 'retrying' | 'done' | 'failed';
+
+/** One photo of an uploaded inspection set. */
+export interface ImageBatchItem {
+  id: string;
+  name: string; // Path inside the dropped or picked folder, else the file name
+  url: string; // Object URL of the original file
+  thumbnail?: string; // Set when the image is first analyzed
+  status: ImageBatchStatus;
+  attempts: number;
+  result: AnalysisResult | null;
+  error?: string;
+}
+
+/** An analyzed frame of a recorded drive, at its position in the video. */
+export interface RecordedFrame {
+  offsetMs: number; // From the start of the recording
+  frame: string; // JPEG data URL that was sent to the analyzer
+  result: AnalysisResult; // Exactly as it was shown during the drive
+}
+
+/** A drive captured for replay: the camera video plus every analysis made during it. */
+export interface DriveRecording {
+  id: string;
+  startedAt: string; // ISO 8601
+  durationMs: number;
+  video: Blob;
+  providerId: string;
+  profileId: string;
+  signRegion: SignRegion;
+  frames: RecordedFrame[];
+}
@@ -11,8 +11,11 @@ export default defineConfig(({ mode }) => {
     },
     plugins: [react()],
     define: {
-      'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-      'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+      'process.env.ANALYZE_SERVER_URL': JSON.stringify(env.ANALYZE_SERVER_URL || ''),
+      'process.env.VISION_PROVIDER': JSON.stringify(env.VISION_PROVIDER || ''),
+      'process.env.MOCK_LATENCY_MS': JSON.stringify(env.MOCK_LATENCY_MS || ''),
+      'process.env.MOCK_FAIL_EVERY': JSON.stringify(env.MOCK_FAIL_EVERY || ''),
+      'process.env.LIVE_STANDIN_URL': JSON.stringify(env.LIVE_STANDIN_URL || '')
     },
     resolve: {
       alias: {